@@ -98,7 +98,7 @@ module.exports = {
       },
     },
     {
-      files: ['src/scripts/**/*.ts'],
+      files: ['src/scripts/**/*.ts', 'src/enrichers/**/*.ts'],
       rules: {
         'import/prefer-default-export': 'off',
       },
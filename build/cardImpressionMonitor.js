@@ -0,0 +1,784 @@
+const TEST_MODE = localStorage.getItem('__aep_scripts_debug') === 'true';
+
+var __defProp = Object.defineProperty;
+var __defProps = Object.defineProperties;
+var __getOwnPropDescs = Object.getOwnPropertyDescriptors;
+var __getOwnPropSymbols = Object.getOwnPropertySymbols;
+var __hasOwnProp = Object.prototype.hasOwnProperty;
+var __propIsEnum = Object.prototype.propertyIsEnumerable;
+var __defNormalProp = (obj, key, value) => key in obj ? __defProp(obj, key, { enumerable: true, configurable: true, writable: true, value }) : obj[key] = value;
+var __spreadValues = (a, b) => {
+  for (var prop in b || (b = {}))
+    if (__hasOwnProp.call(b, prop))
+      __defNormalProp(a, prop, b[prop]);
+  if (__getOwnPropSymbols)
+    for (var prop of __getOwnPropSymbols(b)) {
+      if (__propIsEnum.call(b, prop))
+        __defNormalProp(a, prop, b[prop]);
+    }
+  return a;
+};
+var __spreadProps = (a, b) => __defProps(a, __getOwnPropDescs(b));
+
+// src/utils/logger.ts
+var Logger = class {
+  constructor(prefix, isTestMode) {
+    this.prefix = prefix;
+    this.isTestMode = isTestMode;
+  }
+  get debug() {
+    return this.isTestMode;
+  }
+  log(message, data) {
+    if (this.debug) {
+      console.log(`${this.prefix} ${message}`, data != null ? data : "");
+    }
+  }
+  error(message, data) {
+    console.error(`${this.prefix} ${message}`, data != null ? data : "");
+  }
+  warn(message, data) {
+    console.warn(`${this.prefix} ${message}`, data != null ? data : "");
+  }
+  /**
+   * Prints a test mode header with separator lines
+   * Only outputs if testMode is enabled
+   */
+  testHeader(title, extraInfo) {
+    if (!this.isTestMode) {
+      return;
+    }
+    const separator = "=".repeat(80);
+    console.debug(separator);
+    console.debug(title);
+    console.debug(separator);
+    if (extraInfo !== void 0) {
+      console.debug(extraInfo);
+      console.debug(separator);
+    }
+  }
+  /**
+   * Prints test mode result output with separator lines
+   * Only outputs if testMode is enabled
+   */
+  testResult(result) {
+    if (!this.isTestMode) {
+      return;
+    }
+    const separator = "=".repeat(80);
+    console.debug(separator);
+    console.debug("RESULT:");
+    console.debug(separator);
+    if (typeof result === "string") {
+      console.debug(result);
+    } else {
+      console.debug(JSON.stringify(result, null, 2));
+    }
+    console.debug(separator);
+  }
+  /**
+   * Prints additional test mode info
+   * Only outputs if testMode is enabled
+   */
+  testInfo(message, data) {
+    if (!this.isTestMode) {
+      return;
+    }
+    if (data !== void 0) {
+      console.debug(message, data);
+    } else {
+      console.debug(message);
+    }
+  }
+};
+function createLogger(scriptName, isTestMode) {
+  const prefix = isTestMode ? `[${scriptName} Test]` : `[AEP ${scriptName}]`;
+  return new Logger(prefix, isTestMode);
+}
+
+// src/utils/script.ts
+function executeScript(config, execute) {
+  const logger = createLogger(config.scriptName, config.testMode);
+  try {
+    logger.testHeader(config.testHeaderTitle, config.testHeaderExtraInfo);
+    const result = execute(logger);
+    logger.testResult(result);
+    if (!config.testMode) {
+      if (config.onSuccess) {
+        config.onSuccess(result, logger);
+      } else {
+        logger.log("Script completed successfully", result);
+      }
+    }
+    return result;
+  } catch (error) {
+    if (config.onError) {
+      return config.onError(error, logger);
+    }
+    logger.error("Unexpected error in script:", error);
+    return null;
+  }
+}
+
+// src/utils/dom.ts
+function splitAndGet(value, delimiter, index) {
+  if (!value || index < 0) {
+    return "";
+  }
+  const parts = value.split(delimiter).map((part) => part.trim());
+  return parts[index] || "";
+}
+function getAttribute(element, attributeName) {
+  if (!element) {
+    return "";
+  }
+  return element.getAttribute(attributeName) || "";
+}
+function getTextContent(element) {
+  var _a;
+  if (!element) {
+    return "";
+  }
+  return ((_a = element.textContent) == null ? void 0 : _a.trim()) || "";
+}
+function queryShadow(element, selector) {
+  if (!element) {
+    return null;
+  }
+  const { shadowRoot } = element;
+  if (!shadowRoot) {
+    return null;
+  }
+  return shadowRoot.querySelector(selector);
+}
+function extractStructuredAttribute(element, attributeName, delimiter, indices) {
+  const attrValue = getAttribute(element, attributeName);
+  if (!attrValue) {
+    return {};
+  }
+  const result = {};
+  Object.entries(indices).forEach(([key, index]) => {
+    const value = splitAndGet(attrValue, delimiter, index);
+    if (value) {
+      result[key] = value;
+    }
+  });
+  return result;
+}
+function querySelectorAllDeep(root, selector) {
+  const results = [];
+  const walk = (node) => {
+    results.push(...Array.from(node.querySelectorAll(selector)));
+    const { shadowRoot } = node;
+    if (shadowRoot) {
+      walk(shadowRoot);
+    }
+    node.querySelectorAll("*").forEach((child) => {
+      if (child.shadowRoot) {
+        walk(child.shadowRoot);
+      }
+    });
+  };
+  walk(root);
+  return results;
+}
+
+// src/utils/componentExtractorConfig.ts
+var COMPONENT_ATTRIBUTES = {
+  DAA_LH: "daa-lh",
+  DAA_LL: "daa-ll"
+};
+var DAA_LH_DELIMITER = "|";
+var COMPONENT_EXTRACTORS = [
+  {
+    id: "partner-card",
+    contentType: "partner_card",
+    host: { tagName: "single-partner-card", className: "card-wrapper" },
+    wrapper: { className: "dx-card-collection-wrapper" },
+    selectors: {
+      title: ".card-title",
+      cta: "a",
+      filterContext: ".partner-cards"
+    },
+    daaLhIndices: {
+      position: 0,
+      contentID: 2
+    }
+  }
+];
+
+// src/utils/componentExtractor.ts
+function matcherToSelector(matcher) {
+  return [matcher.tagName, matcher.className ? `.${matcher.className}` : void 0].filter(Boolean).join(", ");
+}
+function extractWrapperContext(wrapper, definition, logger) {
+  if (!wrapper.parentElement) {
+    logger.warn("Wrapper has no parent element, sectionID will be empty");
+  }
+  const sectionID = getAttribute(wrapper.parentElement, COMPONENT_ATTRIBUTES.DAA_LH);
+  const filterElement = queryShadow(wrapper, definition.selectors.filterContext);
+  const filterContext = getAttribute(filterElement, COMPONENT_ATTRIBUTES.DAA_LH);
+  if (!sectionID) {
+    logger.warn("Wrapper missing sectionID (parent daa-lh attribute)");
+  }
+  return { sectionID, filterContext };
+}
+function extractComponentCtxFromElement(hostElement, definition, wrapperContext, logger) {
+  if (!hostElement) {
+    logger.error("Component element is required");
+    return null;
+  }
+  const metadata = extractStructuredAttribute(
+    hostElement,
+    COMPONENT_ATTRIBUTES.DAA_LH,
+    DAA_LH_DELIMITER,
+    definition.daaLhIndices
+  );
+  const cardTitle = getTextContent(queryShadow(hostElement, definition.selectors.title));
+  if (!cardTitle) {
+    logger.error(`[${definition.id}] Title not found in shadow DOM`);
+    return null;
+  }
+  const ctaText = getAttribute(
+    queryShadow(hostElement, definition.selectors.cta),
+    COMPONENT_ATTRIBUTES.DAA_LL
+  );
+  const result = {
+    cardTitle,
+    contentID: metadata.contentID || "",
+    contentType: definition.contentType,
+    ctaText,
+    filterContext: wrapperContext.filterContext,
+    name: cardTitle,
+    position: metadata.position || "",
+    sectionID: wrapperContext.sectionID
+  };
+  logger.log(`[${definition.id}] Extracted component context`, result);
+  return result;
+}
+
+// src/utils/cardImpressionConfig.ts
+var CARD_IMPRESSION_COMMIT_EVENT = "cardImpressionsCommit";
+var CARD_IMPRESSION_XDM_PATH = ["_adobepartners", "cardImpressions"];
+var VISIBILITY_THRESHOLD = 0.5;
+var MIN_DWELL_MS = 1e3;
+var BATCH_FLUSH_DELAY = 2e3;
+var MAX_BATCH_SIZE = 20;
+var RESCAN_DEBOUNCE_DELAY = 250;
+function getImpressionKey(ctx) {
+  return `${ctx.sectionID}|${ctx.contentID || ctx.cardTitle}`;
+}
+
+// src/utils/object.ts
+function ensureNestedPath(obj, path) {
+  const keys = Array.isArray(path) ? path : path.split(".");
+  let current = obj;
+  keys.forEach((key) => {
+    if (!(key in current) || typeof current[key] !== "object" || current[key] === null) {
+      current[key] = {};
+    }
+    current = current[key];
+  });
+  return current;
+}
+
+// src/utils/globalState.ts
+function ensurePartnerNamespace() {
+  if (!window._adobePartners) {
+    window._adobePartners = {};
+  }
+  return window._adobePartners;
+}
+function getPartnerState(key) {
+  var _a;
+  return (_a = window._adobePartners) == null ? void 0 : _a[key];
+}
+function setPartnerState(key, value) {
+  const ns = ensurePartnerNamespace();
+  ns[key] = value;
+}
+
+// src/utils/constants.ts
+var XDM_VARIABLE_NAME = "XDMVariable";
+var XDM_EVENT_FIELDS_CLEAR_DELAY_MS = 500;
+
+// src/utils/satellite.ts
+function getSatelliteVar(name, logger, testMode) {
+  if (window._satellite && typeof window._satellite.getVar === "function") {
+    const value = window._satellite.getVar(name);
+    if (!value) {
+      logger.warn(`Variable "${name}" not found`);
+      return null;
+    }
+    return value;
+  }
+  const message = testMode ? "_satellite.getVar() not available (normal in test mode)" : "_satellite.getVar() not available - ensure AEP Launch is loaded";
+  logger.warn(message);
+  return null;
+}
+function setXdmVariableValues(fields, logger, testMode) {
+  if (fields.some(([path]) => path.length === 0)) {
+    logger.warn("Empty XDM Variable path");
+    return false;
+  }
+  const xdmVar = getSatelliteVar(XDM_VARIABLE_NAME, logger, testMode);
+  if (!xdmVar) {
+    return false;
+  }
+  fields.forEach(([path, value]) => {
+    const parent = ensureNestedPath(xdmVar, path.slice(0, -1));
+    parent[path[path.length - 1]] = value;
+  });
+  logger.log(`Set XDM Variable ${fields.map(([path]) => path.join(".")).join(", ")}`);
+  return true;
+}
+function clearXdmVariableValues(fields, logger, testMode) {
+  const xdmVar = getSatelliteVar(XDM_VARIABLE_NAME, logger, testMode);
+  if (!xdmVar) {
+    return;
+  }
+  fields.forEach(([path, value]) => {
+    const parent = path.slice(0, -1).reduce(
+      (node, key) => node && typeof node === "object" ? node[key] : void 0,
+      xdmVar
+    );
+    const lastKey = path[path.length - 1];
+    if (parent && typeof parent === "object" && lastKey !== void 0) {
+      const record = parent;
+      if (record[lastKey] === value) {
+        delete record[lastKey];
+      }
+    }
+  });
+  logger.log(`Cleared XDM Variable ${fields.map(([path]) => path.join(".")).join(", ")}`);
+}
+function fireSatelliteEvent(eventName, logger, testMode) {
+  if (window._satellite && typeof window._satellite.track === "function") {
+    logger.log(`Triggering _satellite.track("${eventName}")`);
+    window._satellite.track(eventName);
+    return true;
+  }
+  const message = testMode ? "_satellite.track() not available (normal in test mode)" : "_satellite.track() not available - ensure AEP Launch is loaded";
+  logger.warn(message);
+  return false;
+}
+function fireXdmVariableEvent(eventName, fields, logger, testMode) {
+  if (!setXdmVariableValues(fields, logger, testMode)) {
+    return false;
+  }
+  const fired = fireSatelliteEvent(eventName, logger, testMode);
+  setTimeout(
+    () => clearXdmVariableValues(fields, logger, testMode),
+    XDM_EVENT_FIELDS_CLEAR_DELAY_MS
+  );
+  return fired;
+}
+
+// src/utils/cardImpressionObserver.ts
+function getSeenKeys() {
+  const { pathname } = window.location;
+  let seen = getPartnerState("cardImpressionKeys");
+  if (!seen || getPartnerState("cardImpressionPath") !== pathname) {
+    seen = /* @__PURE__ */ new Set();
+    setPartnerState("cardImpressionKeys", seen);
+    setPartnerState("cardImpressionPath", pathname);
+  }
+  return seen;
+}
+function closestDeep(element, selector) {
+  var _a, _b;
+  let current = element;
+  while (current) {
+    if (current.matches(selector)) return current;
+    current = (_b = (_a = current.parentElement) != null ? _a : current.getRootNode().host) != null ? _b : null;
+  }
+  return null;
+}
+function sendBatch(impressions, logger, testMode) {
+  const batch = {
+    impressions,
+    impressionCount: impressions.length
+  };
+  setPartnerState("cardImpressionBatch", batch);
+  fireXdmVariableEvent(
+    CARD_IMPRESSION_COMMIT_EVENT,
+    [[CARD_IMPRESSION_XDM_PATH, batch]],
+    logger,
+    testMode
+  );
+  logger.log(`Sent impression batch (${impressions.length})`, batch);
+}
+function installCardImpressionObserver(logger, testMode, extractors = COMPONENT_EXTRACTORS) {
+  if (typeof IntersectionObserver === "undefined") {
+    logger.warn("IntersectionObserver not supported, impression tracking disabled");
+    return { success: false, message: "IntersectionObserver not supported", cardCount: 0 };
+  }
+  const tracked = /* @__PURE__ */ new Map();
+  const recorded = /* @__PURE__ */ new WeakSet();
+  const observedRoots = /* @__PURE__ */ new WeakSet();
+  let queue = [];
+  let flushTimer;
+  let rescanTimer;
+  const flush = (reason) => {
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = void 0;
+    }
+    if (!queue.length) return;
+    logger.log(`Flushing impression batch (${reason})`);
+    const impressions = queue;
+    queue = [];
+    sendBatch(impressions, logger, testMode);
+  };
+  const record = (card, info, observer) => {
+    observer.unobserve(card);
+    tracked.delete(card);
+    recorded.add(card);
+    const wrapperContext = extractWrapperContext(info.wrapper, info.definition, logger);
+    const ctx = extractComponentCtxFromElement(card, info.definition, wrapperContext, logger);
+    if (!ctx) return;
+    const seen = getSeenKeys();
+    const key = getImpressionKey(ctx);
+    if (seen.has(key)) {
+      logger.log(`Impression already recorded, skipping: ${key}`);
+      return;
+    }
+    seen.add(key);
+    queue.push(ctx);
+    logger.log(`Recorded impression: ${key}`);
+    if (queue.length >= MAX_BATCH_SIZE) {
+      flush("batch full");
+    } else {
+      if (flushTimer) clearTimeout(flushTimer);
+      flushTimer = setTimeout(() => flush("idle"), BATCH_FLUSH_DELAY);
+    }
+  };
+  const intersectionObserver = new IntersectionObserver(
+    (entries, observer) => {
+      entries.forEach((entry) => {
+        const info = tracked.get(entry.target);
+        if (!info) return;
+        const isVisible = entry.isIntersecting && entry.intersectionRatio >= VISIBILITY_THRESHOLD;
+        if (isVisible && !info.dwellTimer) {
+          info.dwellTimer = setTimeout(() => {
+            info.dwellTimer = void 0;
+            record(entry.target, info, observer);
+          }, MIN_DWELL_MS);
+        } else if (!isVisible && info.dwellTimer) {
+          clearTimeout(info.dwellTimer);
+          info.dwellTimer = void 0;
+        }
+      });
+    },
+    { threshold: [0, VISIBILITY_THRESHOLD] }
+  );
+  const watchCards = (mutationObserver2, wrapper, definition, root = wrapper) => {
+    if (wrapper.shadowRoot && !observedRoots.has(wrapper.shadowRoot)) {
+      observedRoots.add(wrapper.shadowRoot);
+      mutationObserver2.observe(wrapper.shadowRoot, { childList: true, subtree: true });
+    }
+    const hostSelector = matcherToSelector(definition.host);
+    const cards = querySelectorAllDeep(root, hostSelector);
+    if (root !== wrapper && root.matches(hostSelector)) cards.unshift(root);
+    cards.forEach((card) => {
+      if (tracked.has(card) || recorded.has(card)) return;
+      tracked.set(card, { definition, wrapper });
+      intersectionObserver.observe(card);
+    });
+  };
+  const scan = (mutationObserver2, roots) => {
+    tracked.forEach((info, card) => {
+      if (!card.isConnected) {
+        if (info.dwellTimer) clearTimeout(info.dwellTimer);
+        intersectionObserver.unobserve(card);
+        tracked.delete(card);
+      }
+    });
+    extractors.forEach((definition) => {
+      const wrapperSelector = matcherToSelector(definition.wrapper);
+      if (!roots) {
+        querySelectorAllDeep(document, wrapperSelector).forEach(
+          (wrapper) => watchCards(mutationObserver2, wrapper, definition)
+        );
+        return;
+      }
+      roots.forEach((root) => {
+        if (!(root instanceof Element) || !root.isConnected) return;
+        const wrapper = closestDeep(root, wrapperSelector);
+        if (wrapper) {
+          watchCards(mutationObserver2, wrapper, definition, root);
+          return;
+        }
+        querySelectorAllDeep(root, wrapperSelector).forEach(
+          (added) => watchCards(mutationObserver2, added, definition)
+        );
+      });
+    });
+    logger.log(`Observing ${tracked.size} cards`);
+  };
+  let pendingRoots = /* @__PURE__ */ new Set();
+  const mutationObserver = new MutationObserver((mutations, observer) => {
+    mutations.forEach((mutation) => mutation.addedNodes.forEach((node) => pendingRoots.add(node)));
+    if (rescanTimer) clearTimeout(rescanTimer);
+    rescanTimer = setTimeout(() => {
+      const roots = Array.from(pendingRoots);
+      pendingRoots = /* @__PURE__ */ new Set();
+      scan(observer, roots);
+    }, RESCAN_DEBOUNCE_DELAY);
+  });
+  mutationObserver.observe(document.body, { childList: true, subtree: true });
+  scan(mutationObserver);
+  window.addEventListener("pagehide", () => flush("pagehide"));
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") {
+      flush("hidden");
+    }
+  });
+  setPartnerState("cardImpressionObserver", intersectionObserver);
+  return {
+    success: true,
+    message: "Card impression observer installed",
+    cardCount: tracked.size
+  };
+}
+
+// src/utils/url.ts
+function matchesHostnamePattern(hostname, pattern) {
+  if (pattern.startsWith("*.")) {
+    return hostname.endsWith(pattern.slice(1));
+  }
+  return hostname === pattern;
+}
+
+// src/utils/piiConfig.ts
+var PII_PATTERNS = [
+  [
+    "urlToken",
+    /([?&#;](?:access_token|id_token|refresh_token|token|auth|code|api_?key|key|password|pwd|session(?:id)?|sid|secret)=)[^&#\s]+/gi
+  ],
+  ["email", /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi],
+  ["cardNumber", /\b(?:\d[ -]?){12,18}\d\b/g],
+  [
+    "phone",
+    /((?:^|[^\w.+-])(?:(?:phone|tel|mobile|cell|fax)\.?[\s:#-]*)?)(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}(?![\w-])/gi
+  ]
+];
+
+// src/utils/searchConfig.ts
+var TERM_PARAMS = ["term", "q", "keyword"];
+var IGNORED_PARAMS = ["utm_source", "utm_medium", "utm_campaign", "filters"];
+var FILTER_TO_XDM_MAP = {
+  "content-type": "searchContentType",
+  functionality: "searchFunctionality",
+  industries: "searchIndustries",
+  industry: "searchIndustries",
+  products: "searchProducts",
+  solutions: "searchSolutions",
+  topic: "searchTopic"
+};
+var SEARCH_PII_PATTERNS = [
+  ...PII_PATTERNS,
+  ["orderNumber", /\b((?:order|ord|po)\.?\s*(?:number|no\.?|#)?[\s#:-]*)\d{8,}\b/gi]
+];
+var SEARCH_SURFACES = [
+  {
+    id: "portal",
+    pathPattern: /\/digitalexperience\/home\/search\//,
+    termParams: TERM_PARAMS,
+    ignoredParams: IGNORED_PARAMS,
+    compoundFilterParam: "filters",
+    filterMap: FILTER_TO_XDM_MAP,
+    sourceLabel: "partner-directory",
+    resultCount: {
+      selector: "[data-results-count], .search-results-count",
+      attribute: "data-results-count",
+      emptySelector: ".search-no-results"
+    }
+  },
+  {
+    id: "exchange",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:search|apps\/browse)(?:\/|$)/,
+    termParams: ["q", "term", "keyword"],
+    strategies: [{ type: "query" }, { type: "pathPattern", pattern: new RegExp("\\/search\\/(?<term>[^/]+)") }],
+    ignoredParams: [...IGNORED_PARAMS, "page", "sort"],
+    filterMap: {
+      products: "searchProducts",
+      industries: "searchIndustries",
+      category: "searchContentType"
+    },
+    sourceLabel: "exchange",
+    resultCount: {
+      selector: '[data-testid="results-count"], .results-count',
+      emptySelector: '[data-testid="no-results"]'
+    },
+    resultItemSelector: '[data-testid="search-result"], .search-result'
+  },
+  {
+    id: "eventsAgenda",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:agenda|sessions)(?:\/|$)/,
+    termParams: ["search", "q", "term"],
+    strategies: [{ type: "query" }, { type: "hashQuery" }, { type: "hashParams" }],
+    ignoredParams: [...IGNORED_PARAMS, "tab", "view"],
+    filterMap: {
+      topic: "searchTopic",
+      products: "searchProducts",
+      industries: "searchIndustries"
+    },
+    sourceLabel: "events-agenda",
+    resultCount: {
+      selector: ".session-results-count",
+      emptySelector: ".no-sessions-found"
+    },
+    resultItemSelector: "[data-session-id], .session-card"
+  }
+];
+var DEFAULT_SEARCH_SURFACE = SEARCH_SURFACES[0];
+
+// src/utils/siteProfileConfig.ts
+var COMMON_ENRICHERS = [
+  "pageName",
+  "siteSection",
+  "spaReferrer",
+  "pageContext",
+  "partnerData",
+  "IMS",
+  "cardCollection",
+  "linkClickLabel",
+  "linkClassification",
+  "consent"
+];
+var SITE_PROFILES = [
+  {
+    // Magento pages are identified by their init scripts (store host varies per environment)
+    id: "magentoStore",
+    match: { selector: 'script[type="text/x-magento-init"]' },
+    enrichers: [...COMMON_ENRICHERS, "Checkout"],
+    monitors: ["cartChange", "purchase", "formInteraction"],
+    searchSurfaces: [],
+    options: {}
+  },
+  {
+    id: "adobeEvents",
+    match: { hostnames: ["*.adobeevents.com"] },
+    enrichers: [...COMMON_ENRICHERS, "eventData", "attendeeData"],
+    monitors: ["searchUrl", "searchClick", "searchAutocomplete", "formInteraction"],
+    searchSurfaces: ["eventsAgenda"],
+    options: {}
+  },
+  {
+    id: "exchange",
+    match: { hostnames: ["exchange.adobe.com"] },
+    enrichers: [...COMMON_ENRICHERS, "publisherData"],
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "spaPublisherName",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["exchange"],
+    options: {}
+  },
+  {
+    id: "partnerPortal",
+    match: { hostnames: ["partners.adobe.com", "solutionpartners.adobe.com"] },
+    enrichers: COMMON_ENRICHERS,
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["portal"],
+    options: {}
+  }
+];
+var DEFAULT_SITE_PROFILE = {
+  id: "default",
+  match: {},
+  enrichers: [...COMMON_ENRICHERS, "Checkout", "publisherData"],
+  monitors: [
+    "searchUrl",
+    "searchClick",
+    "searchAutocomplete",
+    "spaPageViewTitle",
+    "spaPublisherName",
+    "cardImpression",
+    "cartChange",
+    "purchase",
+    "formInteraction"
+  ],
+  searchSurfaces: ["portal", "exchange", "eventsAgenda"],
+  options: {}
+};
+
+// src/utils/siteProfile.ts
+function matchesProfile(match, location) {
+  if (match.hostnames && !match.hostnames.some((pattern) => matchesHostnamePattern(location.hostname, pattern))) {
+    return false;
+  }
+  if (match.pathPattern && !match.pathPattern.test(location.pathname)) {
+    return false;
+  }
+  if (match.selector && !document.querySelector(match.selector)) {
+    return false;
+  }
+  return true;
+}
+function resolveSiteProfile(location = window.location, profiles = SITE_PROFILES) {
+  var _a;
+  return (_a = profiles.find((profile) => matchesProfile(profile.match, location))) != null ? _a : DEFAULT_SITE_PROFILE;
+}
+
+// src/scripts/cards/cardImpressionMonitor.ts
+function cardImpressionMonitorScript(testMode = false) {
+  return executeScript(
+    {
+      scriptName: "Card Impression Monitor",
+      testMode,
+      testHeaderTitle: "CARD IMPRESSION MONITOR - TEST MODE",
+      onError: (error, logger) => {
+        logger.error("Error installing card impression monitor:", error);
+        return {
+          success: false,
+          message: "Failed to install card impression monitor",
+          alreadyHooked: false,
+          cardCount: 0
+        };
+      }
+    },
+    (logger) => {
+      const profile = resolveSiteProfile();
+      if (!profile.monitors.includes("cardImpression")) {
+        logger.log(`Card impression monitor not enabled for site profile "${profile.id}"`);
+        return {
+          success: false,
+          message: `Not enabled for site profile "${profile.id}"`,
+          alreadyHooked: false,
+          cardCount: 0
+        };
+      }
+      if (getPartnerState("cardImpressionMonitorHooked")) {
+        logger.log("Card impression observer already installed");
+        return {
+          success: true,
+          message: "Card impression observer already installed",
+          alreadyHooked: true,
+          cardCount: 0
+        };
+      }
+      const result = installCardImpressionObserver(logger, testMode);
+      if (result.success) {
+        setPartnerState("cardImpressionMonitorHooked", true);
+      }
+      return __spreadProps(__spreadValues({}, result), { alreadyHooked: false });
+    }
+  );
+}
+
+
+return cardImpressionMonitorScript(TEST_MODE);
\ No newline at end of file
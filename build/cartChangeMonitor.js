@@ -0,0 +1,741 @@
+const TEST_MODE = localStorage.getItem('__aep_scripts_debug') === 'true';
+
+var __defProp = Object.defineProperty;
+var __defProps = Object.defineProperties;
+var __getOwnPropDescs = Object.getOwnPropertyDescriptors;
+var __getOwnPropSymbols = Object.getOwnPropertySymbols;
+var __hasOwnProp = Object.prototype.hasOwnProperty;
+var __propIsEnum = Object.prototype.propertyIsEnumerable;
+var __defNormalProp = (obj, key, value) => key in obj ? __defProp(obj, key, { enumerable: true, configurable: true, writable: true, value }) : obj[key] = value;
+var __spreadValues = (a, b) => {
+  for (var prop in b || (b = {}))
+    if (__hasOwnProp.call(b, prop))
+      __defNormalProp(a, prop, b[prop]);
+  if (__getOwnPropSymbols)
+    for (var prop of __getOwnPropSymbols(b)) {
+      if (__propIsEnum.call(b, prop))
+        __defNormalProp(a, prop, b[prop]);
+    }
+  return a;
+};
+var __spreadProps = (a, b) => __defProps(a, __getOwnPropDescs(b));
+
+// src/utils/logger.ts
+var Logger = class {
+  constructor(prefix, isTestMode) {
+    this.prefix = prefix;
+    this.isTestMode = isTestMode;
+  }
+  get debug() {
+    return this.isTestMode;
+  }
+  log(message, data) {
+    if (this.debug) {
+      console.log(`${this.prefix} ${message}`, data != null ? data : "");
+    }
+  }
+  error(message, data) {
+    console.error(`${this.prefix} ${message}`, data != null ? data : "");
+  }
+  warn(message, data) {
+    console.warn(`${this.prefix} ${message}`, data != null ? data : "");
+  }
+  /**
+   * Prints a test mode header with separator lines
+   * Only outputs if testMode is enabled
+   */
+  testHeader(title, extraInfo) {
+    if (!this.isTestMode) {
+      return;
+    }
+    const separator = "=".repeat(80);
+    console.debug(separator);
+    console.debug(title);
+    console.debug(separator);
+    if (extraInfo !== void 0) {
+      console.debug(extraInfo);
+      console.debug(separator);
+    }
+  }
+  /**
+   * Prints test mode result output with separator lines
+   * Only outputs if testMode is enabled
+   */
+  testResult(result) {
+    if (!this.isTestMode) {
+      return;
+    }
+    const separator = "=".repeat(80);
+    console.debug(separator);
+    console.debug("RESULT:");
+    console.debug(separator);
+    if (typeof result === "string") {
+      console.debug(result);
+    } else {
+      console.debug(JSON.stringify(result, null, 2));
+    }
+    console.debug(separator);
+  }
+  /**
+   * Prints additional test mode info
+   * Only outputs if testMode is enabled
+   */
+  testInfo(message, data) {
+    if (!this.isTestMode) {
+      return;
+    }
+    if (data !== void 0) {
+      console.debug(message, data);
+    } else {
+      console.debug(message);
+    }
+  }
+};
+function createLogger(scriptName, isTestMode) {
+  const prefix = isTestMode ? `[${scriptName} Test]` : `[AEP ${scriptName}]`;
+  return new Logger(prefix, isTestMode);
+}
+
+// src/utils/script.ts
+function executeScript(config, execute) {
+  const logger = createLogger(config.scriptName, config.testMode);
+  try {
+    logger.testHeader(config.testHeaderTitle, config.testHeaderExtraInfo);
+    const result = execute(logger);
+    logger.testResult(result);
+    if (!config.testMode) {
+      if (config.onSuccess) {
+        config.onSuccess(result, logger);
+      } else {
+        logger.log("Script completed successfully", result);
+      }
+    }
+    return result;
+  } catch (error) {
+    if (config.onError) {
+      return config.onError(error, logger);
+    }
+    logger.error("Unexpected error in script:", error);
+    return null;
+  }
+}
+
+// src/utils/storage.ts
+function getStorageItem(key, area = "localStorage") {
+  try {
+    const item = window[area].getItem(key);
+    if (!item) {
+      return null;
+    }
+    return JSON.parse(item);
+  } catch (e) {
+    return null;
+  }
+}
+function setStorageItem(key, value, area = "localStorage") {
+  try {
+    window[area].setItem(key, JSON.stringify(value));
+    return true;
+  } catch (error) {
+    console.error(`Failed to set storage item ${key}:`, error);
+    return false;
+  }
+}
+
+// src/utils/commerceConfig.ts
+var MAGE_CACHE_STORAGE_KEY = "mage-cache-storage";
+var CART_SNAPSHOT_STORAGE_KEY = "__aep_cart_snapshot";
+var ORDER_SUCCESS_SELECTORS = {
+  PAGE: "body.checkout-onepage-success",
+  ORDER_NUMBER: [
+    "[data-order-increment-id]",
+    ".checkout-success .order-number strong",
+    ".checkout-success p > span"
+  ],
+  SUBTOTAL: [".totals.sub .price", '[data-th="Subtotal"] .price'],
+  TAX: [".totals-tax .price", '[data-th="Tax"] .price'],
+  SHIPPING: [".totals.shipping .price", '[data-th="Shipping & Handling"] .price'],
+  DISCOUNT: [".totals.discount .price", '[data-th="Discount"] .price'],
+  GRAND_TOTAL: [".grand.totals .price", '[data-th="Grand Total"] .price']
+};
+var ORDER_SUCCESS_PATH = /\/checkout\/onepage\/success\/?/;
+var CART_ADD_EVENT_TYPE = "commerce.productListAdds";
+var CART_REMOVE_EVENT_TYPE = "commerce.productListRemoves";
+var CART_ADD_COMMIT_EVENT = "cartAddCommit";
+var CART_REMOVE_COMMIT_EVENT = "cartRemoveCommit";
+var CART_POLL_INTERVAL_MS = 5e3;
+var CART_EVENT_SPACING_MS = 500;
+var CART_SNAPSHOT_CLAIM_DELAY_MS = 100;
+
+// src/utils/commerce.ts
+function readMageCacheStorage() {
+  return getStorageItem(MAGE_CACHE_STORAGE_KEY);
+}
+function toCartItem(item) {
+  return {
+    type: item.product_type || "",
+    quantity: Number(item.qty) || 0,
+    productID: item.product_id || "",
+    productName: item.product_name || "",
+    SKU: item.product_sku || "",
+    url: item.product_url || "",
+    price: Number(item.product_price_value) || 0
+  };
+}
+function readCartSnapshot() {
+  var _a, _b;
+  const cart = (_a = readMageCacheStorage()) == null ? void 0 : _a.cart;
+  if (!cart) return null;
+  return ((_b = cart.items) != null ? _b : []).map(toCartItem);
+}
+function getCartItemKey(item) {
+  return `${item.productID}|${item.SKU}`;
+}
+function diffCartItems(previous, current) {
+  const previousByKey = new Map(previous.map((item) => [getCartItemKey(item), item]));
+  const diff = { added: [], removed: [] };
+  current.forEach((item) => {
+    var _a;
+    const key = getCartItemKey(item);
+    const before = previousByKey.get(key);
+    const delta = item.quantity - ((_a = before == null ? void 0 : before.quantity) != null ? _a : 0);
+    previousByKey.delete(key);
+    if (delta > 0) {
+      diff.added.push(__spreadProps(__spreadValues({}, item), { quantityDelta: delta }));
+    } else if (delta < 0) {
+      diff.removed.push(__spreadProps(__spreadValues({}, item), { quantityDelta: -delta }));
+    }
+  });
+  previousByKey.forEach((item) => {
+    diff.removed.push(__spreadProps(__spreadValues({}, item), { quantity: 0, quantityDelta: item.quantity }));
+  });
+  return diff;
+}
+function isOrderSuccessPage() {
+  return document.querySelector(ORDER_SUCCESS_SELECTORS.PAGE) !== null || ORDER_SUCCESS_PATH.test(window.location.pathname);
+}
+
+// src/utils/object.ts
+function ensureNestedPath(obj, path) {
+  const keys = Array.isArray(path) ? path : path.split(".");
+  let current = obj;
+  keys.forEach((key) => {
+    if (!(key in current) || typeof current[key] !== "object" || current[key] === null) {
+      current[key] = {};
+    }
+    current = current[key];
+  });
+  return current;
+}
+
+// src/utils/globalState.ts
+function ensurePartnerNamespace() {
+  if (!window._adobePartners) {
+    window._adobePartners = {};
+  }
+  return window._adobePartners;
+}
+function getPartnerState(key) {
+  var _a;
+  return (_a = window._adobePartners) == null ? void 0 : _a[key];
+}
+function setPartnerState(key, value) {
+  const ns = ensurePartnerNamespace();
+  ns[key] = value;
+}
+
+// src/utils/constants.ts
+var XDM_VARIABLE_NAME = "XDMVariable";
+var XDM_EVENT_FIELDS_CLEAR_DELAY_MS = 500;
+
+// src/utils/satellite.ts
+function getSatelliteVar(name, logger, testMode) {
+  if (window._satellite && typeof window._satellite.getVar === "function") {
+    const value = window._satellite.getVar(name);
+    if (!value) {
+      logger.warn(`Variable "${name}" not found`);
+      return null;
+    }
+    return value;
+  }
+  const message = testMode ? "_satellite.getVar() not available (normal in test mode)" : "_satellite.getVar() not available - ensure AEP Launch is loaded";
+  logger.warn(message);
+  return null;
+}
+function setXdmVariableValues(fields, logger, testMode) {
+  if (fields.some(([path]) => path.length === 0)) {
+    logger.warn("Empty XDM Variable path");
+    return false;
+  }
+  const xdmVar = getSatelliteVar(XDM_VARIABLE_NAME, logger, testMode);
+  if (!xdmVar) {
+    return false;
+  }
+  fields.forEach(([path, value]) => {
+    const parent = ensureNestedPath(xdmVar, path.slice(0, -1));
+    parent[path[path.length - 1]] = value;
+  });
+  logger.log(`Set XDM Variable ${fields.map(([path]) => path.join(".")).join(", ")}`);
+  return true;
+}
+function clearXdmVariableValues(fields, logger, testMode) {
+  const xdmVar = getSatelliteVar(XDM_VARIABLE_NAME, logger, testMode);
+  if (!xdmVar) {
+    return;
+  }
+  fields.forEach(([path, value]) => {
+    const parent = path.slice(0, -1).reduce(
+      (node, key) => node && typeof node === "object" ? node[key] : void 0,
+      xdmVar
+    );
+    const lastKey = path[path.length - 1];
+    if (parent && typeof parent === "object" && lastKey !== void 0) {
+      const record = parent;
+      if (record[lastKey] === value) {
+        delete record[lastKey];
+      }
+    }
+  });
+  logger.log(`Cleared XDM Variable ${fields.map(([path]) => path.join(".")).join(", ")}`);
+}
+function fireSatelliteEvent(eventName, logger, testMode) {
+  if (window._satellite && typeof window._satellite.track === "function") {
+    logger.log(`Triggering _satellite.track("${eventName}")`);
+    window._satellite.track(eventName);
+    return true;
+  }
+  const message = testMode ? "_satellite.track() not available (normal in test mode)" : "_satellite.track() not available - ensure AEP Launch is loaded";
+  logger.warn(message);
+  return false;
+}
+function fireXdmVariableEvent(eventName, fields, logger, testMode) {
+  if (!setXdmVariableValues(fields, logger, testMode)) {
+    return false;
+  }
+  const fired = fireSatelliteEvent(eventName, logger, testMode);
+  setTimeout(
+    () => clearXdmVariableValues(fields, logger, testMode),
+    XDM_EVENT_FIELDS_CLEAR_DELAY_MS
+  );
+  return fired;
+}
+
+// src/utils/url.ts
+function matchesHostnamePattern(hostname, pattern) {
+  if (pattern.startsWith("*.")) {
+    return hostname.endsWith(pattern.slice(1));
+  }
+  return hostname === pattern;
+}
+
+// src/utils/piiConfig.ts
+var PII_PATTERNS = [
+  [
+    "urlToken",
+    /([?&#;](?:access_token|id_token|refresh_token|token|auth|code|api_?key|key|password|pwd|session(?:id)?|sid|secret)=)[^&#\s]+/gi
+  ],
+  ["email", /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi],
+  ["cardNumber", /\b(?:\d[ -]?){12,18}\d\b/g],
+  [
+    "phone",
+    /((?:^|[^\w.+-])(?:(?:phone|tel|mobile|cell|fax)\.?[\s:#-]*)?)(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}(?![\w-])/gi
+  ]
+];
+
+// src/utils/searchConfig.ts
+var TERM_PARAMS = ["term", "q", "keyword"];
+var IGNORED_PARAMS = ["utm_source", "utm_medium", "utm_campaign", "filters"];
+var FILTER_TO_XDM_MAP = {
+  "content-type": "searchContentType",
+  functionality: "searchFunctionality",
+  industries: "searchIndustries",
+  industry: "searchIndustries",
+  products: "searchProducts",
+  solutions: "searchSolutions",
+  topic: "searchTopic"
+};
+var SEARCH_PII_PATTERNS = [
+  ...PII_PATTERNS,
+  ["orderNumber", /\b((?:order|ord|po)\.?\s*(?:number|no\.?|#)?[\s#:-]*)\d{8,}\b/gi]
+];
+var SEARCH_SURFACES = [
+  {
+    id: "portal",
+    pathPattern: /\/digitalexperience\/home\/search\//,
+    termParams: TERM_PARAMS,
+    ignoredParams: IGNORED_PARAMS,
+    compoundFilterParam: "filters",
+    filterMap: FILTER_TO_XDM_MAP,
+    sourceLabel: "partner-directory",
+    resultCount: {
+      selector: "[data-results-count], .search-results-count",
+      attribute: "data-results-count",
+      emptySelector: ".search-no-results"
+    }
+  },
+  {
+    id: "exchange",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:search|apps\/browse)(?:\/|$)/,
+    termParams: ["q", "term", "keyword"],
+    strategies: [{ type: "query" }, { type: "pathPattern", pattern: new RegExp("\\/search\\/(?<term>[^/]+)") }],
+    ignoredParams: [...IGNORED_PARAMS, "page", "sort"],
+    filterMap: {
+      products: "searchProducts",
+      industries: "searchIndustries",
+      category: "searchContentType"
+    },
+    sourceLabel: "exchange",
+    resultCount: {
+      selector: '[data-testid="results-count"], .results-count',
+      emptySelector: '[data-testid="no-results"]'
+    },
+    resultItemSelector: '[data-testid="search-result"], .search-result'
+  },
+  {
+    id: "eventsAgenda",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:agenda|sessions)(?:\/|$)/,
+    termParams: ["search", "q", "term"],
+    strategies: [{ type: "query" }, { type: "hashQuery" }, { type: "hashParams" }],
+    ignoredParams: [...IGNORED_PARAMS, "tab", "view"],
+    filterMap: {
+      topic: "searchTopic",
+      products: "searchProducts",
+      industries: "searchIndustries"
+    },
+    sourceLabel: "events-agenda",
+    resultCount: {
+      selector: ".session-results-count",
+      emptySelector: ".no-sessions-found"
+    },
+    resultItemSelector: "[data-session-id], .session-card"
+  }
+];
+var DEFAULT_SEARCH_SURFACE = SEARCH_SURFACES[0];
+
+// src/utils/siteProfileConfig.ts
+var COMMON_ENRICHERS = [
+  "pageName",
+  "siteSection",
+  "spaReferrer",
+  "pageContext",
+  "partnerData",
+  "IMS",
+  "cardCollection",
+  "linkClickLabel",
+  "linkClassification",
+  "consent"
+];
+var SITE_PROFILES = [
+  {
+    // Magento pages are identified by their init scripts (store host varies per environment)
+    id: "magentoStore",
+    match: { selector: 'script[type="text/x-magento-init"]' },
+    enrichers: [...COMMON_ENRICHERS, "Checkout"],
+    monitors: ["cartChange", "purchase", "formInteraction"],
+    searchSurfaces: [],
+    options: {}
+  },
+  {
+    id: "adobeEvents",
+    match: { hostnames: ["*.adobeevents.com"] },
+    enrichers: [...COMMON_ENRICHERS, "eventData", "attendeeData"],
+    monitors: ["searchUrl", "searchClick", "searchAutocomplete", "formInteraction"],
+    searchSurfaces: ["eventsAgenda"],
+    options: {}
+  },
+  {
+    id: "exchange",
+    match: { hostnames: ["exchange.adobe.com"] },
+    enrichers: [...COMMON_ENRICHERS, "publisherData"],
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "spaPublisherName",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["exchange"],
+    options: {}
+  },
+  {
+    id: "partnerPortal",
+    match: { hostnames: ["partners.adobe.com", "solutionpartners.adobe.com"] },
+    enrichers: COMMON_ENRICHERS,
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["portal"],
+    options: {}
+  }
+];
+var DEFAULT_SITE_PROFILE = {
+  id: "default",
+  match: {},
+  enrichers: [...COMMON_ENRICHERS, "Checkout", "publisherData"],
+  monitors: [
+    "searchUrl",
+    "searchClick",
+    "searchAutocomplete",
+    "spaPageViewTitle",
+    "spaPublisherName",
+    "cardImpression",
+    "cartChange",
+    "purchase",
+    "formInteraction"
+  ],
+  searchSurfaces: ["portal", "exchange", "eventsAgenda"],
+  options: {}
+};
+
+// src/utils/siteProfile.ts
+function matchesProfile(match, location) {
+  if (match.hostnames && !match.hostnames.some((pattern) => matchesHostnamePattern(location.hostname, pattern))) {
+    return false;
+  }
+  if (match.pathPattern && !match.pathPattern.test(location.pathname)) {
+    return false;
+  }
+  if (match.selector && !document.querySelector(match.selector)) {
+    return false;
+  }
+  return true;
+}
+function resolveSiteProfile(location = window.location, profiles = SITE_PROFILES) {
+  var _a;
+  return (_a = profiles.find((profile) => matchesProfile(profile.match, location))) != null ? _a : DEFAULT_SITE_PROFILE;
+}
+
+// src/utils/cookie.ts
+function getCookie(name) {
+  var _a;
+  const value = `; ${document.cookie}`;
+  const parts = value.split(`; ${name}=`);
+  if (parts.length === 2) {
+    const cookieValue = (_a = parts.pop()) == null ? void 0 : _a.split(";").shift();
+    return cookieValue != null ? cookieValue : null;
+  }
+  return null;
+}
+
+// src/utils/consentConfig.ts
+var ADOBE_CONSENT_COOKIE_PATTERN = /^kndctr_.+_AdobeOrg_consent$/;
+var ONETRUST_CONSENT_COOKIE = "OptanonConsent";
+var ONETRUST_GROUP_PURPOSES = {
+  C0001: "necessary",
+  C0002: "analytics",
+  C0003: "functional",
+  C0004: "targeting"
+};
+var GPC_DENIED_PURPOSES = ["targeting"];
+var CONSENT_DEFAULT_GRANTED = true;
+var ENRICHMENT_CATEGORY_PURPOSES = {
+  identity: "targeting",
+  partnerProfile: "targeting",
+  attendee: "targeting",
+  commerce: "analytics",
+  formInteraction: "analytics"
+};
+
+// src/utils/consent.ts
+function readAdobeConsent() {
+  const cookie = document.cookie.split("; ").map((entry) => entry.split("=")).find(([name]) => ADOBE_CONSENT_COOKIE_PATTERN.test(name));
+  if (!cookie) return void 0;
+  const value = decodeURIComponent(cookie.slice(1).join("="));
+  const match = value.match(/general=(in|out|pending)/);
+  return match ? match[1] : void 0;
+}
+function readOneTrustGroups() {
+  const cookie = getCookie(ONETRUST_CONSENT_COOKIE);
+  if (cookie) {
+    const groups = new URLSearchParams(cookie).get("groups");
+    if (groups) {
+      return new Map(
+        groups.split(",").map((entry) => {
+          const [id, state] = entry.split(":");
+          return [id, state === "1"];
+        })
+      );
+    }
+  }
+  const activeGroups = window.OnetrustActiveGroups;
+  if (typeof activeGroups === "string" && activeGroups) {
+    const active = activeGroups.split(",").filter(Boolean);
+    return new Map(Object.keys(ONETRUST_GROUP_PURPOSES).map((id) => [id, active.includes(id)]));
+  }
+  return void 0;
+}
+function readGpc() {
+  return navigator.globalPrivacyControl === true;
+}
+function readConsentSnapshot() {
+  const adobe = readAdobeConsent();
+  const oneTrust = readOneTrustGroups();
+  const gpc = readGpc();
+  const initial = adobe ? adobe === "in" : CONSENT_DEFAULT_GRANTED;
+  const purposes = {
+    necessary: true,
+    analytics: initial,
+    functional: initial,
+    targeting: initial
+  };
+  oneTrust == null ? void 0 : oneTrust.forEach((granted, groupID) => {
+    const purpose = ONETRUST_GROUP_PURPOSES[groupID];
+    if (purpose && purpose !== "necessary") {
+      purposes[purpose] = granted;
+    }
+  });
+  if (gpc) {
+    GPC_DENIED_PURPOSES.forEach((purpose) => {
+      purposes[purpose] = false;
+    });
+  }
+  const skippedCategories = Object.keys(ENRICHMENT_CATEGORY_PURPOSES).filter((category) => !purposes[ENRICHMENT_CATEGORY_PURPOSES[category]]);
+  return {
+    purposes,
+    sources: __spreadProps(__spreadValues(__spreadValues({}, adobe && { adobe }), oneTrust && {
+      oneTrustGroups: Array.from(oneTrust.keys()).filter((id) => oneTrust.get(id))
+    }), {
+      gpc
+    }),
+    skippedCategories
+  };
+}
+function isCategoryAllowed(category, snapshot = readConsentSnapshot()) {
+  return !snapshot.skippedCategories.includes(category);
+}
+
+// src/scripts/commerce/cartChangeMonitor.ts
+function sendCartChange(change, logger, testMode) {
+  if (!isCategoryAllowed("commerce")) {
+    logger.log(`No consent for "commerce", cart ${change.action} not sent`);
+    return;
+  }
+  const isAdd = change.action === "add";
+  const fields = [
+    [["eventType"], isAdd ? CART_ADD_EVENT_TYPE : CART_REMOVE_EVENT_TYPE],
+    [["commerce"], { [isAdd ? "productListAdds" : "productListRemoves"]: { value: 1 } }],
+    [
+      ["productListItems"],
+      change.items.map((item) => ({
+        SKU: item.SKU,
+        name: item.productName,
+        quantity: item.quantityDelta,
+        priceTotal: item.price * item.quantityDelta
+      }))
+    ],
+    [["_adobepartners", "cartChange"], change]
+  ];
+  const commitEvent = isAdd ? CART_ADD_COMMIT_EVENT : CART_REMOVE_COMMIT_EVENT;
+  if (!fireXdmVariableEvent(commitEvent, fields, logger, testMode)) {
+    logger.warn("_satellite or XDM Variable not available, cart change not sent");
+    return;
+  }
+  logger.log(`Sent cart ${change.action} (${change.items.length} items)`, change);
+}
+function sendCartDiff(diff, logger, testMode) {
+  const { added } = diff;
+  let { removed } = diff;
+  if (removed.length && isOrderSuccessPage()) {
+    logger.log("Cart emptied by order completion, removes not sent");
+    removed = [];
+  }
+  if (added.length) {
+    sendCartChange({ action: "add", items: added }, logger, testMode);
+  }
+  if (removed.length) {
+    const delay = added.length ? CART_EVENT_SPACING_MS : 0;
+    setTimeout(() => sendCartChange({ action: "remove", items: removed }, logger, testMode), delay);
+  }
+}
+function checkCart(tabId, logger, testMode) {
+  const current = readCartSnapshot();
+  if (!current) {
+    logger.log("Cart section not loaded yet");
+    return;
+  }
+  const previous = getStorageItem(CART_SNAPSHOT_STORAGE_KEY);
+  if (previous && JSON.stringify(previous.items) === JSON.stringify(current)) {
+    return;
+  }
+  setStorageItem(CART_SNAPSHOT_STORAGE_KEY, { items: current, tabId });
+  if (!Array.isArray(previous == null ? void 0 : previous.items)) {
+    logger.log("Stored initial cart snapshot", current);
+    return;
+  }
+  const diff = diffCartItems(previous.items, current);
+  setTimeout(() => {
+    const stored = getStorageItem(CART_SNAPSHOT_STORAGE_KEY);
+    if ((stored == null ? void 0 : stored.tabId) !== tabId) {
+      logger.log("Cart change claimed by another tab, not sent");
+      return;
+    }
+    sendCartDiff(diff, logger, testMode);
+  }, CART_SNAPSHOT_CLAIM_DELAY_MS);
+}
+function cartChangeMonitorScript(testMode = false) {
+  return executeScript(
+    {
+      scriptName: "Cart Change Monitor",
+      testMode,
+      testHeaderTitle: "CART CHANGE MONITOR - TEST MODE",
+      onError: (error, logger) => {
+        logger.error("Error installing cart change monitor:", error);
+        return {
+          success: false,
+          message: "Failed to install cart change monitor",
+          alreadyHooked: false
+        };
+      }
+    },
+    (logger) => {
+      var _a;
+      const profile = resolveSiteProfile();
+      if (!profile.monitors.includes("cartChange")) {
+        logger.log(`Cart change monitor not enabled for site profile "${profile.id}"`);
+        return {
+          success: false,
+          message: `Not enabled for site profile "${profile.id}"`,
+          alreadyHooked: false
+        };
+      }
+      if (getPartnerState("cartMonitorHooked")) {
+        logger.log("Cart change monitor already installed");
+        return {
+          success: true,
+          message: "Cart change monitor already installed",
+          alreadyHooked: true
+        };
+      }
+      const tabId = Math.random().toString(36).slice(2);
+      checkCart(tabId, logger, testMode);
+      window.addEventListener("storage", (storageEvent) => {
+        if (storageEvent.key === MAGE_CACHE_STORAGE_KEY) {
+          checkCart(tabId, logger, testMode);
+        }
+      });
+      setPartnerState(
+        "cartMonitorInterval",
+        setInterval(
+          () => checkCart(tabId, logger, testMode),
+          (_a = profile.options.cartPollIntervalMs) != null ? _a : CART_POLL_INTERVAL_MS
+        )
+      );
+      setPartnerState("cartMonitorHooked", true);
+      return {
+        success: true,
+        message: "Cart change monitor installed",
+        alreadyHooked: false
+      };
+    }
+  );
+}
+
+
+return cartChangeMonitorScript(TEST_MODE);
\ No newline at end of file
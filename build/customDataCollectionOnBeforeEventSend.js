@@ -120,54 +120,174 @@ function executeScript(config, execute) {
   }
 }
 
-// src/utils/extraction.ts
-function extractData(config) {
-  var _a, _b, _c;
-  const rawValue = config.source();
-  if (!rawValue) {
-    (_a = config.logger) == null ? void 0 : _a.log(config.notFoundMessage || "No data found");
-    return null;
+// src/utils/events.ts
+function logEventInfo(event, logger, additionalInfo) {
+  if (!event) {
+    logger.log("No event object provided");
+    return;
   }
-  const parsed = config.parser(rawValue);
-  if (!parsed) {
-    (_b = config.logger) == null ? void 0 : _b.error(config.errorMessage || "Error parsing data");
-    return null;
+  const eventInfo = {
+    type: "type" in event ? event.type : "unknown",
+    isTrusted: "isTrusted" in event ? event.isTrusted : void 0
+  };
+  if (event instanceof Event && "composedPath" in event && typeof event.composedPath === "function") {
+    eventInfo.composedPath = event.composedPath();
   }
-  if (config.validator && !config.validator(parsed)) {
-    (_c = config.logger) == null ? void 0 : _c.error("Data validation failed");
-    return null;
+  if (additionalInfo) {
+    Object.assign(eventInfo, additionalInfo);
   }
-  return config.transformer ? config.transformer(parsed) : parsed;
+  logger.log("Event information", eventInfo);
 }
-function parseJsonObject(value) {
-  try {
-    const parsed = JSON.parse(value);
-    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? parsed : null;
-  } catch (e) {
-    return null;
-  }
+
+// src/utils/constants.ts
+var DEFAULT_COOKIE_KEYS = ["partner_data", "partner_info"];
+var ATTENDEE_STORAGE_KEY = "attendeaseMember";
+var EXCHANGE_SESSION_STORAGE_KEY = "adobeid_ims_profile/exchangeweb2/false/AdobeID,additional_info.ownerOrg,additional_info.projectedProductContext,additional_info.roles,adobeio.appregistry.read,adobeio_api,ee.GROUP_ADPEXG,gnav,isv-installation-service.read,isv-installation-service.write,openid,pps.read,read_organizations,service_principals.read,service_principals.write,unified_dev_portal";
+var PAGE_VIEW_EVENT_TYPE = "web.webpagedetails.pageViews";
+
+// src/utils/hash.ts
+function rollingHash(s, length) {
+  const len = length || 10;
+  if (!s) return "";
+  const BASE = 53;
+  const MOD = 10 ** len + 7;
+  let hash = 0;
+  let basePower = 1;
+  for (let idx = 0; idx < s.length; idx += 1) {
+    hash = (hash + (s.charCodeAt(idx) - 97 + 1) * basePower) % MOD;
+    basePower = basePower * BASE % MOD;
+  }
+  return ((hash + MOD) % MOD).toString(36);
 }
 
-// src/utils/cookie.ts
-function getCookie(name) {
-  var _a;
-  const value = `; ${document.cookie}`;
-  const parts = value.split(`; ${name}=`);
-  if (parts.length === 2) {
-    const cookieValue = (_a = parts.pop()) == null ? void 0 : _a.split(";").shift();
-    return cookieValue != null ? cookieValue : null;
+// src/utils/piiConfig.ts
+var PII_PATTERNS = [
+  [
+    "urlToken",
+    /([?&#;](?:access_token|id_token|refresh_token|token|auth|code|api_?key|key|password|pwd|session(?:id)?|sid|secret)=)[^&#\s]+/gi
+  ],
+  ["email", /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi],
+  ["cardNumber", /\b(?:\d[ -]?){12,18}\d\b/g],
+  [
+    "phone",
+    /((?:^|[^\w.+-])(?:(?:phone|tel|mobile|cell|fax)\.?[\s:#-]*)?)(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}(?![\w-])/gi
+  ]
+];
+var PHONE_DIGITS_RANGE = [10, 15];
+var PII_HASH_LENGTH = 10;
+var DEFAULT_PII_ACTION = "mask";
+var PII_PATH_RULES = [
+  // Partner profile email is collected on purpose
+  { path: "_adobepartners.partnerData.email", action: "keep", types: ["email"] },
+  // Attendee records never send contact data (an email hash could be brute-forced)
+  { path: "_adobepartners.attendeeData.**", action: "mask", types: ["email"] },
+  { path: "_adobepartners.attendeeData.**", action: "drop", types: ["phone", "cardNumber"] },
+  // Event payloads never need contact data (masked, so the event keeps its fields)
+  { path: "_adobepartners.eventData.**", action: "mask", types: ["phone", "cardNumber"] },
+  // Page, referrer and link URLs (publisher URLs carry UUIDs) and SKUs are
+  // identifiers; URL tokens and emails in URLs are still redacted
+  { path: "web.**.URL", action: "keep", types: ["phone", "cardNumber"] },
+  { path: "productListItems.*.SKU", action: "keep" }
+];
+
+// src/utils/piiScrubber.ts
+function passesLuhn(digits) {
+  let sum = 0;
+  for (let idx = 0; idx < digits.length; idx += 1) {
+    let digit = Number(digits[digits.length - 1 - idx]);
+    if (idx % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
   }
-  return null;
+  return sum % 10 === 0;
 }
-function parseJsonCookie(cookieValue) {
-  if (!cookieValue) {
-    return null;
-  }
-  try {
-    return JSON.parse(decodeURIComponent(cookieValue));
-  } catch (e) {
-    return null;
-  }
+function isPhoneNumber(number, prefix) {
+  const [min, max] = PHONE_DIGITS_RANGE;
+  const digits = number.replace(/\D/g, "").length;
+  const hasMarker = /^\+|\(/.test(number) || /[a-z]/i.test(prefix);
+  return hasMarker && digits >= min && digits <= max;
+}
+function replacementFor(type, value, action) {
+  return action === "hash" ? `[${type}:${rollingHash(value, PII_HASH_LENGTH)}]` : `[${type}]`;
+}
+var pathPatternCache = /* @__PURE__ */ new Map();
+function compilePathPattern(pattern) {
+  let compiled = pathPatternCache.get(pattern);
+  if (!compiled) {
+    const source = pattern.split(".").map((segment) => {
+      if (segment === "**") return ".*";
+      if (segment === "*") return "[^.]+";
+      return segment.replace(/[$()*+?[\\\]^{|}]/g, "\\$&");
+    }).join("\\.");
+    compiled = new RegExp(`^${source}$`);
+    pathPatternCache.set(pattern, compiled);
+  }
+  return compiled;
+}
+function resolveAction(path, type, rules) {
+  var _a;
+  const rule = rules.find(
+    (candidate) => (!candidate.types || candidate.types.includes(type)) && compilePathPattern(candidate.path).test(path)
+  );
+  return (_a = rule == null ? void 0 : rule.action) != null ? _a : DEFAULT_PII_ACTION;
+}
+function redactPii(text, getAction, patterns = PII_PATTERNS) {
+  const result = { text, redactions: [], drop: false };
+  patterns.forEach(([type, pattern]) => {
+    result.text = result.text.replace(pattern, (match, group) => {
+      const prefix = typeof group === "string" ? group : "";
+      const value = match.slice(prefix.length);
+      if (type === "cardNumber" && !passesLuhn(value.replace(/\D/g, ""))) {
+        return match;
+      }
+      if (type === "phone" && !isPhoneNumber(value, prefix)) {
+        return match;
+      }
+      const action = getAction(type);
+      if (action === "keep") return match;
+      result.redactions.push({ type, action });
+      if (action === "drop") result.drop = true;
+      return `${prefix}${replacementFor(type, value, action)}`;
+    });
+  });
+  return result;
+}
+function scrubPii(root, rules = PII_PATH_RULES) {
+  const report = [];
+  const visited = /* @__PURE__ */ new WeakSet();
+  const visit = (container, parentPath) => {
+    if (visited.has(container)) return;
+    visited.add(container);
+    const entries = container;
+    const keys = Array.isArray(container) ? container.map((_item, index) => index) : Object.keys(container);
+    const dropped = [];
+    keys.forEach((key) => {
+      const value = entries[key];
+      const path = parentPath ? `${parentPath}.${key}` : String(key);
+      if (typeof value === "string") {
+        const result = redactPii(value, (type) => resolveAction(path, type, rules));
+        result.redactions.forEach(({ type, action }) => report.push({ path, type, action }));
+        if (result.drop) {
+          dropped.push(key);
+        } else if (result.text !== value) {
+          entries[key] = result.text;
+        }
+      } else if (value && typeof value === "object") {
+        visit(value, path);
+      }
+    });
+    dropped.reverse().forEach((key) => {
+      if (Array.isArray(container)) {
+        container.splice(key, 1);
+      } else {
+        delete entries[key];
+      }
+    });
+  };
+  visit(root, "");
+  return report;
 }
 
 // src/utils/object.ts
@@ -212,9 +332,6 @@ function setNestedValue(obj, path, value, merge = false) {
     target[lastKey] = value;
   }
 }
-function conditionalProperties(condition, properties) {
-  return condition ? properties : {};
-}
 function pickFields(source, fields) {
   return fields.reduce((acc, field) => {
     const value = source[field];
@@ -236,6 +353,890 @@ function mergeNonNull(...objects) {
   }, {});
 }
 
+// src/utils/globalState.ts
+function ensurePartnerNamespace() {
+  if (!window._adobePartners) {
+    window._adobePartners = {};
+  }
+  return window._adobePartners;
+}
+function getPartnerState(key) {
+  var _a;
+  return (_a = window._adobePartners) == null ? void 0 : _a[key];
+}
+function setPartnerState(key, value) {
+  const ns = ensurePartnerNamespace();
+  ns[key] = value;
+}
+
+// src/utils/searchConfig.ts
+var TERM_PARAMS = ["term", "q", "keyword"];
+var IGNORED_PARAMS = ["utm_source", "utm_medium", "utm_campaign", "filters"];
+var FILTER_TO_XDM_MAP = {
+  "content-type": "searchContentType",
+  functionality: "searchFunctionality",
+  industries: "searchIndustries",
+  industry: "searchIndustries",
+  products: "searchProducts",
+  solutions: "searchSolutions",
+  topic: "searchTopic"
+};
+var SEARCH_PII_PATTERNS = [
+  ...PII_PATTERNS,
+  ["orderNumber", /\b((?:order|ord|po)\.?\s*(?:number|no\.?|#)?[\s#:-]*)\d{8,}\b/gi]
+];
+var SEARCH_SURFACES = [
+  {
+    id: "portal",
+    pathPattern: /\/digitalexperience\/home\/search\//,
+    termParams: TERM_PARAMS,
+    ignoredParams: IGNORED_PARAMS,
+    compoundFilterParam: "filters",
+    filterMap: FILTER_TO_XDM_MAP,
+    sourceLabel: "partner-directory",
+    resultCount: {
+      selector: "[data-results-count], .search-results-count",
+      attribute: "data-results-count",
+      emptySelector: ".search-no-results"
+    }
+  },
+  {
+    id: "exchange",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:search|apps\/browse)(?:\/|$)/,
+    termParams: ["q", "term", "keyword"],
+    strategies: [{ type: "query" }, { type: "pathPattern", pattern: new RegExp("\\/search\\/(?<term>[^/]+)") }],
+    ignoredParams: [...IGNORED_PARAMS, "page", "sort"],
+    filterMap: {
+      products: "searchProducts",
+      industries: "searchIndustries",
+      category: "searchContentType"
+    },
+    sourceLabel: "exchange",
+    resultCount: {
+      selector: '[data-testid="results-count"], .results-count',
+      emptySelector: '[data-testid="no-results"]'
+    },
+    resultItemSelector: '[data-testid="search-result"], .search-result'
+  },
+  {
+    id: "eventsAgenda",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:agenda|sessions)(?:\/|$)/,
+    termParams: ["search", "q", "term"],
+    strategies: [{ type: "query" }, { type: "hashQuery" }, { type: "hashParams" }],
+    ignoredParams: [...IGNORED_PARAMS, "tab", "view"],
+    filterMap: {
+      topic: "searchTopic",
+      products: "searchProducts",
+      industries: "searchIndustries"
+    },
+    sourceLabel: "events-agenda",
+    resultCount: {
+      selector: ".session-results-count",
+      emptySelector: ".no-sessions-found"
+    },
+    resultItemSelector: "[data-session-id], .session-card"
+  }
+];
+var DEFAULT_SEARCH_SURFACE = SEARCH_SURFACES[0];
+
+// src/utils/xdmSchemaConfig.ts
+var XDM_STRING_FORMATS = {
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  "date-time": /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/
+};
+var CARD_CTX_SCHEMA = {
+  type: "object",
+  properties: {
+    cardTitle: { type: "string" },
+    contentID: { type: "string" },
+    contentType: { type: "string" },
+    ctaText: { type: "string" },
+    filterContext: { type: "string" },
+    name: { type: "string" },
+    position: { type: "string" },
+    sectionID: { type: "string" }
+  }
+};
+var CART_ITEM_PROPERTIES = {
+  type: { type: "string" },
+  quantity: { type: "number" },
+  productID: { type: "string" },
+  productName: { type: "string", required: true },
+  SKU: { type: "string" },
+  url: { type: "string" },
+  price: { type: "number" }
+};
+var CART_ITEMS_SCHEMA = {
+  type: "array",
+  items: { type: "object", properties: CART_ITEM_PROPERTIES }
+};
+var ADOBE_PARTNERS_XDM_PATH = ["_adobepartners"];
+var ADOBE_PARTNERS_SCHEMA = {
+  type: "object",
+  properties: {
+    partnerData: { type: "object", properties: {}, open: true },
+    IMS: {
+      type: "object",
+      properties: {
+        imsID: { type: "string", required: true },
+        imsName: { type: "string" }
+      }
+    },
+    publisherData: {
+      type: "object",
+      properties: {
+        publisherID: { type: "string", required: true },
+        description: { type: "string" }
+      }
+    },
+    cardCollection: CARD_CTX_SCHEMA,
+    cardImpressions: {
+      type: "object",
+      properties: {
+        impressions: { type: "array", items: CARD_CTX_SCHEMA, required: true },
+        impressionCount: { type: "integer" }
+      }
+    },
+    pageContext: {
+      type: "object",
+      properties: {
+        siteSection: { type: "string", required: true },
+        siteSubsection: { type: "string" },
+        language: { type: "string" },
+        pageType: {
+          type: "string",
+          required: true,
+          enum: ["search", "publisher", "event", "checkout", "home", "other"]
+        }
+      }
+    },
+    linkClickLabel: { type: "string" },
+    linkClassification: {
+      type: "object",
+      properties: {
+        category: {
+          type: "string",
+          required: true,
+          enum: ["outbound", "download", "crossSite", "internal"]
+        },
+        fileExtension: { type: "string" },
+        destinationHost: { type: "string" },
+        destinationPath: { type: "string" },
+        sourceSite: { type: "string" },
+        destinationSite: { type: "string" }
+      }
+    },
+    rageClick: { type: "boolean" },
+    clickCount: { type: "integer" },
+    consent: {
+      type: "object",
+      properties: {
+        purposes: {
+          type: "object",
+          properties: {
+            necessary: { type: "boolean" },
+            analytics: { type: "boolean" },
+            functional: { type: "boolean" },
+            targeting: { type: "boolean" }
+          }
+        },
+        sources: {
+          type: "object",
+          properties: {
+            adobe: { type: "string", enum: ["in", "out", "pending"] },
+            oneTrustGroups: { type: "array", items: { type: "string" } },
+            gpc: { type: "boolean" }
+          }
+        },
+        skippedCategories: { type: "array", items: { type: "string" } }
+      }
+    },
+    Checkout: {
+      type: "object",
+      properties: {
+        paymentType: { type: "string" },
+        paymentMethodCode: { type: "string" },
+        itemsInCart: CART_ITEMS_SCHEMA
+      }
+    },
+    Order: {
+      type: "object",
+      properties: {
+        orderID: { type: "string", required: true },
+        subtotal: { type: "number" },
+        tax: { type: "number" },
+        shipping: { type: "number" },
+        discount: { type: "number" },
+        total: { type: "number" },
+        currency: { type: "string" },
+        itemsInCart: CART_ITEMS_SCHEMA
+      }
+    },
+    cartChange: {
+      type: "object",
+      properties: {
+        action: { type: "string", required: true, enum: ["add", "remove"] },
+        items: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: __spreadProps(__spreadValues({}, CART_ITEM_PROPERTIES), { quantityDelta: { type: "number" } })
+          }
+        }
+      }
+    },
+    searchClickThrough: {
+      type: "object",
+      properties: {
+        searchTerm: { type: "string", required: true },
+        searchSurface: { type: "string" },
+        searchKey: { type: "string" },
+        resultPosition: { type: "integer", required: true },
+        resultContentID: { type: "string" },
+        resultType: { type: "string", enum: ["card", "link"] },
+        resultUrl: { type: "string" },
+        timeSinceSearchMs: { type: "integer" }
+      }
+    },
+    formInteraction: {
+      type: "object",
+      properties: {
+        formID: { type: "string", required: true },
+        formAction: { type: "string" },
+        outcome: { type: "string", required: true, enum: ["submit", "abandon"] },
+        abandonTrigger: { type: "string", enum: ["pagehide", "navigation"] },
+        durationMs: { type: "integer" },
+        fieldOrder: { type: "array", items: { type: "string" } },
+        lastField: { type: "string" },
+        fieldsTouched: { type: "integer" },
+        fields: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              field: { type: "string" },
+              fieldType: { type: "string" },
+              order: { type: "integer" },
+              timeSpentMs: { type: "integer" },
+              errorCount: { type: "integer" }
+            }
+          }
+        },
+        validationErrorCount: { type: "integer" },
+        submitAttempts: { type: "integer" }
+      }
+    },
+    searchResults: {
+      type: "object",
+      properties: {
+        searchTerm: { type: "string", required: true },
+        termRedacted: { type: "boolean" },
+        searchSource: { type: "string" },
+        searchSurface: { type: "string" },
+        filters: { type: "array", items: { type: "string" } },
+        searchFilters: {
+          type: "object",
+          properties: Object.fromEntries(
+            SEARCH_SURFACES.flatMap(({ filterMap }) => Object.values(filterMap)).map((field) => [
+              field,
+              { type: "array", items: { type: "string" } }
+            ])
+          )
+        },
+        unmappedFilters: { type: "array", items: { type: "string" } },
+        searchResultsCount: { type: "integer" },
+        nullSearch: { type: "boolean" },
+        searchRefinement: {
+          type: "object",
+          properties: {
+            refinementIndex: { type: "integer", required: true },
+            refinementType: {
+              type: "string",
+              enum: ["new", "term", "filters", "termAndFilters", "unchanged"]
+            },
+            termChanged: { type: "boolean" },
+            previousTerm: { type: "string" },
+            filtersAdded: { type: "array", items: { type: "string" } },
+            filtersRemoved: { type: "array", items: { type: "string" } },
+            timeSinceLastSearchMs: { type: "integer" }
+          }
+        },
+        searchAutocomplete: {
+          type: "object",
+          properties: {
+            searchMethod: {
+              type: "string",
+              required: true,
+              enum: ["typed", "suggestion", "recent"]
+            },
+            typedPrefix: { type: "string" },
+            suggestionsShown: { type: "integer" },
+            selectedSuggestion: { type: "string" },
+            selectedPosition: { type: "integer" }
+          }
+        }
+      }
+    },
+    // API payload; only the transformed event dates are typed
+    eventData: {
+      type: "object",
+      properties: { date: { type: "array", items: { type: "string", format: "date" } } },
+      open: true
+    },
+    attendeeData: { type: "object", properties: {}, open: true }
+  }
+};
+
+// src/utils/xdmSchemaValidator.ts
+function describeType(value) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+function checkScalar(value, node) {
+  switch (node.type) {
+    case "string":
+      if (typeof value !== "string") return "string";
+      if (node.format && !XDM_STRING_FORMATS[node.format].test(value)) {
+        return `string (${node.format})`;
+      }
+      if (node.enum && !node.enum.includes(value)) {
+        return `one of ${node.enum.join(", ")}`;
+      }
+      return null;
+    case "number":
+      return typeof value === "number" && Number.isFinite(value) ? null : "number";
+    case "integer":
+      return Number.isInteger(value) ? null : "integer";
+    case "boolean":
+      return typeof value === "boolean" ? null : "boolean";
+    default:
+      return null;
+  }
+}
+function validateNode(value, node, path, issues, dropInvalid) {
+  if (node.type === "object") {
+    if (describeType(value) !== "object") {
+      issues.push({ path, kind: "typeMismatch", expected: "object", actual: describeType(value) });
+      return -1;
+    }
+    const fields = value;
+    const prefix = path ? `${path}.` : "";
+    let dropped = 0;
+    Object.keys(fields).forEach((key) => {
+      const child = node.properties[key];
+      const fieldPath = `${prefix}${key}`;
+      if (fields[key] === void 0) return;
+      if (!child) {
+        if (node.open) return;
+        issues.push({ path: fieldPath, kind: "unknownField" });
+        if (dropInvalid) {
+          delete fields[key];
+          dropped += 1;
+        }
+        return;
+      }
+      const result = validateNode(fields[key], child, fieldPath, issues, dropInvalid);
+      if (result >= 0) {
+        dropped += result;
+      } else if (dropInvalid) {
+        delete fields[key];
+        dropped += 1;
+      }
+    });
+    Object.keys(node.properties).forEach((key) => {
+      const child = node.properties[key];
+      if (child.required && fields[key] === void 0) {
+        issues.push({ path: `${prefix}${key}`, kind: "missingRequired", expected: child.type });
+      }
+    });
+    return dropped;
+  }
+  if (node.type === "array") {
+    if (!Array.isArray(value)) {
+      issues.push({ path, kind: "typeMismatch", expected: "array", actual: describeType(value) });
+      return -1;
+    }
+    let dropped = 0;
+    const invalidIndexes = [];
+    value.forEach((item, index) => {
+      const result = validateNode(item, node.items, `${path}.${index}`, issues, dropInvalid);
+      if (result < 0) invalidIndexes.push(index);
+      else dropped += result;
+    });
+    if (dropInvalid) {
+      invalidIndexes.reverse().forEach((index) => value.splice(index, 1));
+      dropped += invalidIndexes.length;
+    }
+    return dropped;
+  }
+  const expected = checkScalar(value, node);
+  if (expected) {
+    const actual = typeof value === "string" ? JSON.stringify(value) : describeType(value);
+    issues.push({ path, kind: "typeMismatch", expected, actual });
+    return -1;
+  }
+  return 0;
+}
+function validateXdmObject(target, schema, options = {}) {
+  var _a, _b;
+  const issues = [];
+  const result = validateNode(
+    target,
+    schema,
+    (_a = options.path) != null ? _a : "",
+    issues,
+    (_b = options.dropInvalid) != null ? _b : false
+  );
+  return { valid: issues.length === 0, issues, droppedCount: Math.max(result, 0) };
+}
+function validateAdobePartners(xdm, dropInvalid) {
+  const fieldGroup = ADOBE_PARTNERS_XDM_PATH.reduce(
+    (node, key) => node && typeof node === "object" ? node[key] : void 0,
+    xdm
+  );
+  if (!fieldGroup || typeof fieldGroup !== "object") return null;
+  return validateXdmObject(fieldGroup, ADOBE_PARTNERS_SCHEMA, {
+    path: ADOBE_PARTNERS_XDM_PATH.join("."),
+    dropInvalid
+  });
+}
+function enforceAdobePartnersSchema(xdm, logger, testMode) {
+  var _a;
+  const result = validateAdobePartners(xdm, !testMode);
+  if (!result) return null;
+  if (testMode) {
+    logger.testInfo(
+      result.valid ? "XDM schema validation passed" : "XDM schema issues",
+      result.issues
+    );
+  } else if (result.droppedCount) {
+    setPartnerState(
+      "xdmSchemaDroppedCount",
+      ((_a = getPartnerState("xdmSchemaDroppedCount")) != null ? _a : 0) + result.droppedCount
+    );
+    logger.log(`Dropped ${result.droppedCount} invalid XDM fields`, result.issues);
+  }
+  return result;
+}
+
+// src/utils/cookie.ts
+function getCookie(name) {
+  var _a;
+  const value = `; ${document.cookie}`;
+  const parts = value.split(`; ${name}=`);
+  if (parts.length === 2) {
+    const cookieValue = (_a = parts.pop()) == null ? void 0 : _a.split(";").shift();
+    return cookieValue != null ? cookieValue : null;
+  }
+  return null;
+}
+function parseJsonCookie(cookieValue) {
+  if (!cookieValue) {
+    return null;
+  }
+  try {
+    return JSON.parse(decodeURIComponent(cookieValue));
+  } catch (e) {
+    return null;
+  }
+}
+
+// src/utils/consentConfig.ts
+var ADOBE_CONSENT_COOKIE_PATTERN = /^kndctr_.+_AdobeOrg_consent$/;
+var ONETRUST_CONSENT_COOKIE = "OptanonConsent";
+var ONETRUST_GROUP_PURPOSES = {
+  C0001: "necessary",
+  C0002: "analytics",
+  C0003: "functional",
+  C0004: "targeting"
+};
+var GPC_DENIED_PURPOSES = ["targeting"];
+var CONSENT_DEFAULT_GRANTED = true;
+var ENRICHMENT_CATEGORY_PURPOSES = {
+  identity: "targeting",
+  partnerProfile: "targeting",
+  attendee: "targeting",
+  commerce: "analytics",
+  formInteraction: "analytics"
+};
+
+// src/utils/consent.ts
+function readAdobeConsent() {
+  const cookie = document.cookie.split("; ").map((entry) => entry.split("=")).find(([name]) => ADOBE_CONSENT_COOKIE_PATTERN.test(name));
+  if (!cookie) return void 0;
+  const value = decodeURIComponent(cookie.slice(1).join("="));
+  const match = value.match(/general=(in|out|pending)/);
+  return match ? match[1] : void 0;
+}
+function readOneTrustGroups() {
+  const cookie = getCookie(ONETRUST_CONSENT_COOKIE);
+  if (cookie) {
+    const groups = new URLSearchParams(cookie).get("groups");
+    if (groups) {
+      return new Map(
+        groups.split(",").map((entry) => {
+          const [id, state] = entry.split(":");
+          return [id, state === "1"];
+        })
+      );
+    }
+  }
+  const activeGroups = window.OnetrustActiveGroups;
+  if (typeof activeGroups === "string" && activeGroups) {
+    const active = activeGroups.split(",").filter(Boolean);
+    return new Map(Object.keys(ONETRUST_GROUP_PURPOSES).map((id) => [id, active.includes(id)]));
+  }
+  return void 0;
+}
+function readGpc() {
+  return navigator.globalPrivacyControl === true;
+}
+function readConsentSnapshot() {
+  const adobe = readAdobeConsent();
+  const oneTrust = readOneTrustGroups();
+  const gpc = readGpc();
+  const initial = adobe ? adobe === "in" : CONSENT_DEFAULT_GRANTED;
+  const purposes = {
+    necessary: true,
+    analytics: initial,
+    functional: initial,
+    targeting: initial
+  };
+  oneTrust == null ? void 0 : oneTrust.forEach((granted, groupID) => {
+    const purpose = ONETRUST_GROUP_PURPOSES[groupID];
+    if (purpose && purpose !== "necessary") {
+      purposes[purpose] = granted;
+    }
+  });
+  if (gpc) {
+    GPC_DENIED_PURPOSES.forEach((purpose) => {
+      purposes[purpose] = false;
+    });
+  }
+  const skippedCategories = Object.keys(ENRICHMENT_CATEGORY_PURPOSES).filter((category) => !purposes[ENRICHMENT_CATEGORY_PURPOSES[category]]);
+  return {
+    purposes,
+    sources: __spreadProps(__spreadValues(__spreadValues({}, adobe && { adobe }), oneTrust && {
+      oneTrustGroups: Array.from(oneTrust.keys()).filter((id) => oneTrust.get(id))
+    }), {
+      gpc
+    }),
+    skippedCategories
+  };
+}
+function isCategoryAllowed(category, snapshot = readConsentSnapshot()) {
+  return !snapshot.skippedCategories.includes(category);
+}
+
+// src/utils/url.ts
+function matchesHostnamePattern(hostname, pattern) {
+  if (pattern.startsWith("*.")) {
+    return hostname.endsWith(pattern.slice(1));
+  }
+  return hostname === pattern;
+}
+function isHostnameMatch(pattern) {
+  return matchesHostnamePattern(window.location.hostname, pattern);
+}
+function splitPath(path) {
+  if (!path || typeof path !== "string") {
+    return [];
+  }
+  return path.split("/");
+}
+function validatePathStructure(segments, structure) {
+  if (structure.minSegments && segments.length < structure.minSegments) {
+    return false;
+  }
+  if (structure.requiredSegments) {
+    const allMatch = Object.entries(structure.requiredSegments).every(([key, expectedValue]) => {
+      const segmentIndex = structure.segments[key];
+      if (segmentIndex === void 0) return true;
+      return segments[segmentIndex] === expectedValue;
+    });
+    if (!allMatch) {
+      return false;
+    }
+  }
+  return true;
+}
+function extractPathSegments(path, structure) {
+  const segments = splitPath(path);
+  if (!validatePathStructure(segments, structure)) {
+    return null;
+  }
+  const result = {};
+  Object.entries(structure.segments).forEach(([key, index]) => {
+    const value = segments[index];
+    if (value) {
+      result[key] = value;
+    }
+  });
+  return result;
+}
+function extractAndValidate(path, structure, segmentKey, validator) {
+  const extracted = extractPathSegments(path, structure);
+  if (!extracted || !extracted[segmentKey]) {
+    return null;
+  }
+  const value = extracted[segmentKey];
+  if (validator && !validator(value)) {
+    return null;
+  }
+  return value;
+}
+function createPathStructure(type, config) {
+  var _a;
+  switch (type) {
+    case "nested-resource":
+      return {
+        segments: {
+          empty: 0,
+          resourceType: 1,
+          subtype: 2,
+          id: 3,
+          name: 4
+        },
+        minSegments: (_a = config.minSegments) != null ? _a : 4,
+        requiredSegments: config.resourceType ? { resourceType: config.resourceType } : void 0
+      };
+    default:
+      throw new Error(`Unsupported path structure type: ${type}`);
+  }
+}
+
+// src/utils/siteProfileConfig.ts
+var COMMON_ENRICHERS = [
+  "pageName",
+  "siteSection",
+  "spaReferrer",
+  "pageContext",
+  "partnerData",
+  "IMS",
+  "cardCollection",
+  "linkClickLabel",
+  "linkClassification",
+  "consent"
+];
+var SITE_PROFILES = [
+  {
+    // Magento pages are identified by their init scripts (store host varies per environment)
+    id: "magentoStore",
+    match: { selector: 'script[type="text/x-magento-init"]' },
+    enrichers: [...COMMON_ENRICHERS, "Checkout"],
+    monitors: ["cartChange", "purchase", "formInteraction"],
+    searchSurfaces: [],
+    options: {}
+  },
+  {
+    id: "adobeEvents",
+    match: { hostnames: ["*.adobeevents.com"] },
+    enrichers: [...COMMON_ENRICHERS, "eventData", "attendeeData"],
+    monitors: ["searchUrl", "searchClick", "searchAutocomplete", "formInteraction"],
+    searchSurfaces: ["eventsAgenda"],
+    options: {}
+  },
+  {
+    id: "exchange",
+    match: { hostnames: ["exchange.adobe.com"] },
+    enrichers: [...COMMON_ENRICHERS, "publisherData"],
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "spaPublisherName",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["exchange"],
+    options: {}
+  },
+  {
+    id: "partnerPortal",
+    match: { hostnames: ["partners.adobe.com", "solutionpartners.adobe.com"] },
+    enrichers: COMMON_ENRICHERS,
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["portal"],
+    options: {}
+  }
+];
+var DEFAULT_SITE_PROFILE = {
+  id: "default",
+  match: {},
+  enrichers: [...COMMON_ENRICHERS, "Checkout", "publisherData"],
+  monitors: [
+    "searchUrl",
+    "searchClick",
+    "searchAutocomplete",
+    "spaPageViewTitle",
+    "spaPublisherName",
+    "cardImpression",
+    "cartChange",
+    "purchase",
+    "formInteraction"
+  ],
+  searchSurfaces: ["portal", "exchange", "eventsAgenda"],
+  options: {}
+};
+
+// src/utils/siteProfile.ts
+function matchesProfile(match, location) {
+  if (match.hostnames && !match.hostnames.some((pattern) => matchesHostnamePattern(location.hostname, pattern))) {
+    return false;
+  }
+  if (match.pathPattern && !match.pathPattern.test(location.pathname)) {
+    return false;
+  }
+  if (match.selector && !document.querySelector(match.selector)) {
+    return false;
+  }
+  return true;
+}
+function resolveSiteProfile(location = window.location, profiles = SITE_PROFILES) {
+  var _a;
+  return (_a = profiles.find((profile) => matchesProfile(profile.match, location))) != null ? _a : DEFAULT_SITE_PROFILE;
+}
+
+// src/enrichers/pageName.ts
+var pageNameEnricher = {
+  name: "pageName",
+  targetPath: ["web", "webPageDetails"],
+  merge: true,
+  extract: ({ logger }) => {
+    const pageName = document.title;
+    logger.log("Extracted page name", pageName);
+    return pageName ? { name: pageName, viewName: pageName } : null;
+  }
+};
+
+// src/utils/pageContextConfig.ts
+var LOCALE_PATH_PATTERN = /^\/([a-z]{2}(?:[-_][a-z]{2,4})?)(?=\/|$)/i;
+var SITE_SECTION_RULES = [
+  { pathPattern: /^\/digitalexperience\/home\/search(?:\/|$)/, section: "search" },
+  { pathPattern: /^\/digitalexperience\/home\/?$/, section: "home" },
+  { pathPattern: /^\/digitalexperience\/([^/]+)/, section: "digitalexperience" },
+  { pathPattern: /^\/publisher\/([^/]+)/, section: "publisher" },
+  { pathPattern: /^\/checkout(?:\/([^/]+))?/, section: "checkout" }
+];
+var HOME_SECTION = "home";
+var PAGE_TYPE_RULES = [
+  { type: "search", pathPattern: /\/search(?:\/|$)/ },
+  { type: "publisher", pathPattern: /^\/publisher\// },
+  { type: "event", hostnames: ["*.adobeevents.com"] },
+  { type: "checkout", pathPattern: /^\/checkout(?:\/|$)/ },
+  { type: "home", pathPattern: /^\/(?:digitalexperience\/home\/?)?$/ }
+];
+
+// src/utils/pageContext.ts
+function splitLocalePath(pathname) {
+  const match = pathname.match(LOCALE_PATH_PATTERN);
+  if (!match) return { path: pathname };
+  return { locale: match[1], path: pathname.slice(match[0].length) || "/" };
+}
+function readPageLanguage(locale) {
+  const lang = document.documentElement.lang.trim();
+  if (lang) return lang;
+  return locale == null ? void 0 : locale.replace("_", "-");
+}
+function resolveSiteSection(path) {
+  var _a, _b;
+  let subsection;
+  const rule = SITE_SECTION_RULES.find((candidate) => {
+    const match = path.match(candidate.pathPattern);
+    if (match) [, subsection] = match;
+    return match !== null;
+  });
+  if (rule) {
+    return __spreadValues({
+      siteSection: rule.section
+    }, ((_a = rule.subsection) != null ? _a : subsection) && { siteSubsection: (_b = rule.subsection) != null ? _b : subsection });
+  }
+  const [section, subsectionSegment] = path.split("/").filter(Boolean);
+  return __spreadValues({
+    siteSection: section != null ? section : HOME_SECTION
+  }, subsectionSegment && { siteSubsection: subsectionSegment });
+}
+function resolvePageType(hostname, path) {
+  var _a;
+  const rule = PAGE_TYPE_RULES.find(
+    ({ hostnames, pathPattern, selector }) => (!hostnames || hostnames.some((pattern) => matchesHostnamePattern(hostname, pattern))) && (!pathPattern || pathPattern.test(path)) && (!selector || document.querySelector(selector) !== null)
+  );
+  return (_a = rule == null ? void 0 : rule.type) != null ? _a : "other";
+}
+function resolvePageContext(location = window.location) {
+  const { locale, path } = splitLocalePath(location.pathname);
+  const language = readPageLanguage(locale);
+  return __spreadProps(__spreadValues(__spreadValues({}, resolveSiteSection(path)), language && { language }), {
+    pageType: resolvePageType(location.hostname, path)
+  });
+}
+
+// src/enrichers/pageContext.ts
+var pageContextEnricher = {
+  name: "pageContext",
+  targetPath: ["_adobepartners", "pageContext"],
+  extract: ({ logger }) => {
+    const pageContext = resolvePageContext();
+    logger.log("Resolved page context", pageContext);
+    return pageContext;
+  }
+};
+var siteSectionEnricher = {
+  name: "siteSection",
+  targetPath: ["web", "webPageDetails", "siteSection"],
+  extract: () => resolvePageContext().siteSection
+};
+
+// src/enrichers/spaReferrer.ts
+var spaReferrerEnricher = {
+  name: "spaReferrer",
+  eventTypes: [PAGE_VIEW_EVENT_TYPE],
+  targetPath: ["web", "webReferrer", "URL"],
+  extract: ({ logger }) => {
+    const referrer = getPartnerState("spaReferrerUrl");
+    if (!referrer) return null;
+    logger.log("SPA referrer", referrer);
+    return referrer;
+  }
+};
+
+// src/utils/extraction.ts
+function extractData(config) {
+  var _a, _b, _c;
+  const rawValue = config.source();
+  if (!rawValue) {
+    (_a = config.logger) == null ? void 0 : _a.log(config.notFoundMessage || "No data found");
+    return null;
+  }
+  const parsed = config.parser(rawValue);
+  if (!parsed) {
+    (_b = config.logger) == null ? void 0 : _b.error(config.errorMessage || "Error parsing data");
+    return null;
+  }
+  if (config.validator && !config.validator(parsed)) {
+    (_c = config.logger) == null ? void 0 : _c.error("Data validation failed");
+    return null;
+  }
+  return config.transformer ? config.transformer(parsed) : parsed;
+}
+function parseJsonObject(value) {
+  try {
+    const parsed = JSON.parse(value);
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? parsed : null;
+  } catch (e) {
+    return null;
+  }
+}
+
 // src/utils/validation.ts
 function isValidPublisherId(id) {
   if (!id || typeof id !== "string") {
@@ -258,15 +1259,10 @@ function isArray(value) {
   return Array.isArray(value);
 }
 
-// src/utils/constants.ts
-var DEFAULT_COOKIE_KEYS = ["partner_data", "partner_info"];
-var ATTENDEE_STORAGE_KEY = "attendeaseMember";
-var EXCHANGE_SESSION_STORAGE_KEY = "adobeid_ims_profile/exchangeweb2/false/AdobeID,additional_info.ownerOrg,additional_info.projectedProductContext,additional_info.roles,adobeio.appregistry.read,adobeio_api,ee.GROUP_ADPEXG,gnav,isv-installation-service.read,isv-installation-service.write,openid,pps.read,read_organizations,service_principals.read,service_principals.write,unified_dev_portal";
-
 // src/utils/storage.ts
-function getStorageItem(key) {
+function getStorageItem(key, area = "localStorage") {
   try {
-    const item = localStorage.getItem(key);
+    const item = window[area].getItem(key);
     if (!item) {
       return null;
     }
@@ -276,9 +1272,32 @@ function getStorageItem(key) {
   }
 }
 
+// src/utils/commerceConfig.ts
+var MAGE_CACHE_STORAGE_KEY = "mage-cache-storage";
+var CHECKOUT_SELECTORS = {
+  PAYMENT_METHOD_RADIO: 'input[name="payment[method]"]:checked',
+  CART_ITEMS_CONTAINER: "ol.minicart-items",
+  CART_ITEM: "li.product-item",
+  PRODUCT_NAME: ".product-item-name"
+};
+var PAYMENT_METHOD_MAPPINGS = [
+  { type: "Invoice", labelPattern: /^invoice/i },
+  { type: "Credit Card", codes: ["braintree", "authnetcim", "stripe_payments", "payflowpro"] },
+  {
+    type: "PayPal",
+    codes: ["paypal_express", "braintree_paypal", "payflow_express"],
+    labelPattern: /paypal/i
+  },
+  { type: "Purchase Order", codes: ["purchaseorder"], labelPattern: /purchase order/i },
+  { type: "Check / Money Order", codes: ["checkmo"], labelPattern: /^(?:check\b|money order)/i },
+  { type: "Bank Transfer", codes: ["banktransfer"], labelPattern: /bank transfer/i },
+  { type: "Free", codes: ["free"], labelPattern: /no payment information required/i },
+  { type: "Credit Card", labelPattern: /credit card|debit card/i }
+];
+var UNMAPPED_PAYMENT_TYPE = "Other";
+
 // src/scripts/data/extractPartnerData.ts
 var PROPERTIES_TO_REMOVE = ["latestAgreementAcceptedVersion"];
-var MAGE_CACHE_STORAGE_KEY = "mage-cache-storage";
 var SESSION_STORAGE_FIELDS = ["email", "first_name", "last_name"];
 function extractFromCookie(key, logger) {
   return extractData({
@@ -322,6 +1341,15 @@ function extractPartnerDataScript(testMode = false, cookieKeys = DEFAULT_COOKIE_
       }
     },
     (logger) => {
+      const profile = resolveSiteProfile();
+      if (!profile.enrichers.includes("partnerData")) {
+        logger.log(`Partner data not enabled for site profile "${profile.id}"`);
+        return null;
+      }
+      if (!isCategoryAllowed("partnerProfile")) {
+        logger.log("No consent for partner profile data, skipping");
+        return null;
+      }
       const sessionData = extractFromSessionStorage(EXCHANGE_SESSION_STORAGE_KEY, logger);
       const mergedData = cookieKeys.reduce(
         (acc, key) => mergeNonNull(acc, extractFromCookie(key, logger)),
@@ -344,6 +1372,102 @@ function extractPartnerDataScript(testMode = false, cookieKeys = DEFAULT_COOKIE_
   );
 }
 
+// src/enrichers/partnerData.ts
+var partnerDataEnricher = {
+  name: "partnerData",
+  skipEventTypes: [PAGE_VIEW_EVENT_TYPE],
+  consentCategory: "partnerProfile",
+  targetPath: ["_adobepartners", "partnerData"],
+  extract: ({ testMode, cookieKeys, logger }) => {
+    const partnerData = extractPartnerDataScript(testMode, cookieKeys);
+    logger.log("Extracted partner data from cookie", partnerData);
+    return partnerData;
+  }
+};
+
+// src/scripts/data/extractImsData.ts
+var SELECTED_ORG_KEY = "selectedOrg";
+var ORGS_ARR_KEY = "orgsArr";
+function extractFromOrgObject(selectedOrg, logger) {
+  if (!isObject(selectedOrg) || !isString(selectedOrg.id) || !selectedOrg.id) {
+    return null;
+  }
+  const id = selectedOrg.id;
+  const { name } = selectedOrg;
+  logger.log("Found IMS data from selectedOrg object", { id, name });
+  return { imsID: id, imsName: isString(name) ? name : "" };
+}
+function findOrgInArray(orgId, logger) {
+  const orgsArr = getStorageItem(ORGS_ARR_KEY);
+  if (!isArray(orgsArr) || orgsArr.length === 0) {
+    logger.log("No orgsArr found in localStorage");
+    return null;
+  }
+  const match = orgsArr.find(
+    (org) => isObject(org) && isString(org.orgID) && org.orgID === orgId
+  );
+  if (!match) {
+    logger.log(`No matching org found for ID: ${orgId}`);
+    return null;
+  }
+  logger.log("Found IMS data from orgsArr lookup", {
+    orgCode: match.orgCode,
+    orgName: match.orgName
+  });
+  return {
+    imsID: isString(match.orgCode) ? match.orgCode : "",
+    imsName: isString(match.orgName) ? match.orgName : ""
+  };
+}
+function extractImsDataScript(testMode = false) {
+  return executeScript(
+    {
+      scriptName: "IMS Data",
+      testMode,
+      testHeaderTitle: "IMS DATA EXTRACTOR - TEST MODE",
+      onError: (error, logger) => {
+        logger.error("Unexpected error extracting IMS data:", error);
+        return null;
+      }
+    },
+    (logger) => {
+      const profile = resolveSiteProfile();
+      if (!profile.enrichers.includes("IMS")) {
+        logger.log(`IMS data not enabled for site profile "${profile.id}"`);
+        return null;
+      }
+      const selectedOrg = getStorageItem(SELECTED_ORG_KEY);
+      if (selectedOrg === null) {
+        logger.log("No selectedOrg found in localStorage");
+        return null;
+      }
+      const fromObject = extractFromOrgObject(selectedOrg, logger);
+      if (fromObject) return fromObject;
+      if (isString(selectedOrg) && selectedOrg || typeof selectedOrg === "number") {
+        const orgId = String(selectedOrg);
+        logger.log(`selectedOrg is a string/numeric ID: ${orgId}, looking up in orgsArr`);
+        const fromArray = findOrgInArray(orgId, logger);
+        if (fromArray) return fromArray;
+      }
+      logger.log("Unable to resolve IMS data from localStorage");
+      return null;
+    }
+  );
+}
+
+// src/enrichers/ims.ts
+var imsEnricher = {
+  name: "IMS",
+  skipEventTypes: [PAGE_VIEW_EVENT_TYPE],
+  consentCategory: "identity",
+  targetPath: ["_adobepartners", "IMS"],
+  extract: ({ testMode, logger }) => {
+    const imsData = extractImsDataScript(testMode);
+    logger.log("Extracted IMS data from localStorage", imsData);
+    return imsData;
+  }
+};
+
 // src/utils/dom.ts
 function splitAndGet(value, delimiter, index) {
   if (!value || index < 0) {
@@ -406,174 +1530,424 @@ function extractStructuredAttribute(element, attributeName, delimiter, indices)
   return result;
 }
 
-// src/utils/events.ts
-function logEventInfo(event, logger, additionalInfo) {
-  if (!event) {
-    logger.log("No event object provided");
-    return;
-  }
-  const eventInfo = {
-    type: "type" in event ? event.type : "unknown",
-    isTrusted: "isTrusted" in event ? event.isTrusted : void 0
-  };
-  if (event instanceof Event && "composedPath" in event && typeof event.composedPath === "function") {
-    eventInfo.composedPath = event.composedPath();
-  }
-  if (additionalInfo) {
-    Object.assign(eventInfo, additionalInfo);
+// src/utils/componentExtractorConfig.ts
+var COMPONENT_ATTRIBUTES = {
+  DAA_LH: "daa-lh",
+  DAA_LL: "daa-ll"
+};
+var DAA_LH_DELIMITER = "|";
+var COMPONENT_EXTRACTORS = [
+  {
+    id: "partner-card",
+    contentType: "partner_card",
+    host: { tagName: "single-partner-card", className: "card-wrapper" },
+    wrapper: { className: "dx-card-collection-wrapper" },
+    selectors: {
+      title: ".card-title",
+      cta: "a",
+      filterContext: ".partner-cards"
+    },
+    daaLhIndices: {
+      position: 0,
+      contentID: 2
+    }
   }
-  logger.log("Event information", eventInfo);
+];
+
+// src/utils/componentExtractor.ts
+function createMatcherFromConfig(matcher) {
+  return createElementMatcher(matcher.tagName, matcher.className);
 }
-function shouldProcessEventType(eventType, skipTypes, logger) {
-  if (!eventType) {
-    return true;
+function extractWrapperContext(wrapper, definition, logger) {
+  if (!wrapper.parentElement) {
+    logger.warn("Wrapper has no parent element, sectionID will be empty");
   }
-  if (skipTypes.includes(eventType)) {
-    logger == null ? void 0 : logger.log(`Skipping event type: ${eventType}`);
-    return false;
+  const sectionID = getAttribute(wrapper.parentElement, COMPONENT_ATTRIBUTES.DAA_LH);
+  const filterElement = queryShadow(wrapper, definition.selectors.filterContext);
+  const filterContext = getAttribute(filterElement, COMPONENT_ATTRIBUTES.DAA_LH);
+  if (!sectionID) {
+    logger.warn("Wrapper missing sectionID (parent daa-lh attribute)");
   }
-  return true;
+  return { sectionID, filterContext };
 }
-
-// src/utils/url.ts
-function isHostnameMatch(pattern) {
-  const { hostname } = window.location;
-  if (pattern.startsWith("*.")) {
-    return hostname.endsWith(pattern.slice(1));
+function extractComponentCtxFromElement(hostElement, definition, wrapperContext, logger) {
+  if (!hostElement) {
+    logger.error("Component element is required");
+    return null;
   }
-  return hostname === pattern;
-}
-function splitPath(path) {
-  if (!path || typeof path !== "string") {
-    return [];
+  const metadata = extractStructuredAttribute(
+    hostElement,
+    COMPONENT_ATTRIBUTES.DAA_LH,
+    DAA_LH_DELIMITER,
+    definition.daaLhIndices
+  );
+  const cardTitle = getTextContent(queryShadow(hostElement, definition.selectors.title));
+  if (!cardTitle) {
+    logger.error(`[${definition.id}] Title not found in shadow DOM`);
+    return null;
   }
-  return path.split("/");
+  const ctaText = getAttribute(
+    queryShadow(hostElement, definition.selectors.cta),
+    COMPONENT_ATTRIBUTES.DAA_LL
+  );
+  const result = {
+    cardTitle,
+    contentID: metadata.contentID || "",
+    contentType: definition.contentType,
+    ctaText,
+    filterContext: wrapperContext.filterContext,
+    name: cardTitle,
+    position: metadata.position || "",
+    sectionID: wrapperContext.sectionID
+  };
+  logger.log(`[${definition.id}] Extracted component context`, result);
+  return result;
 }
-function validatePathStructure(segments, structure) {
-  if (structure.minSegments && segments.length < structure.minSegments) {
-    return false;
-  }
-  if (structure.requiredSegments) {
-    const allMatch = Object.entries(structure.requiredSegments).every(([key, expectedValue]) => {
-      const segmentIndex = structure.segments[key];
-      if (segmentIndex === void 0) return true;
-      return segments[segmentIndex] === expectedValue;
-    });
-    if (!allMatch) {
+function extractComponentCtxFromEvent(event, logger, extractors = COMPONENT_EXTRACTORS) {
+  logger.log("Extracting component metadata from event.composedPath()");
+  let result = null;
+  extractors.some((definition) => {
+    const hostElement = findInComposedPath(event, createMatcherFromConfig(definition.host));
+    if (!hostElement) {
+      return false;
+    }
+    logger.log(`[${definition.id}] Found host element in composed path`, hostElement);
+    const wrapper = findInComposedPath(event, createMatcherFromConfig(definition.wrapper));
+    if (!wrapper) {
+      logger.log(`[${definition.id}] No wrapper found in composed path`);
       return false;
     }
+    logger.log(`[${definition.id}] Found wrapper element in composed path`, wrapper);
+    const wrapperContext = extractWrapperContext(wrapper, definition, logger);
+    result = extractComponentCtxFromElement(hostElement, definition, wrapperContext, logger);
+    if (!result) {
+      logger.warn(`[${definition.id}] Failed to extract component context`);
+    }
+    return true;
+  });
+  if (!result) {
+    logger.log("Event did not occur within a registered component");
   }
-  return true;
+  return result;
 }
-function extractPathSegments(path, structure) {
-  const segments = splitPath(path);
-  if (!validatePathStructure(segments, structure)) {
-    return null;
+
+// src/enrichers/cardCollection.ts
+var cardCollectionEnricher = {
+  name: "cardCollection",
+  skipEventTypes: [PAGE_VIEW_EVENT_TYPE],
+  targetPath: ["_adobepartners", "cardCollection"],
+  extract: ({ event, logger }) => {
+    if (!event) {
+      logger.log("No event provided, skipping card collection extraction");
+      return null;
+    }
+    const cardCollection = extractComponentCtxFromEvent(event, logger);
+    if (cardCollection) {
+      logger.log("Extracted card collection from event", cardCollection);
+    } else {
+      logger.log("No card collection found in event (click was not on a registered component)");
+    }
+    return cardCollection;
   }
-  const result = {};
-  Object.entries(structure.segments).forEach(([key, index]) => {
-    const value = segments[index];
-    if (value) {
-      result[key] = value;
+};
+
+// src/enrichers/linkClickLabel.ts
+var linkClickLabelEnricher = {
+  name: "linkClickLabel",
+  skipEventTypes: [PAGE_VIEW_EVENT_TYPE],
+  targetPath: ["_adobepartners", "linkClickLabel"],
+  extract: ({ event, logger }) => {
+    if (!event) {
+      logger.log("No event provided, skipping daa-ll extraction");
+      return null;
     }
-  });
-  return result;
+    const linkElement = findInComposedPath(event, createElementMatcher("a"));
+    logger.log("Found link element", linkElement);
+    const daaLlValue = getAttribute(linkElement, COMPONENT_ATTRIBUTES.DAA_LL);
+    logger.log("daa-ll value", daaLlValue);
+    return daaLlValue || null;
+  }
+};
+
+// src/utils/linkClassificationConfig.ts
+var FIRST_PARTY_DOMAINS = ["adobe.com", "adobeevents.com"];
+var MULTI_PART_SUFFIXES = [
+  "co.uk",
+  "co.jp",
+  "co.kr",
+  "co.in",
+  "co.nz",
+  "com.au",
+  "com.br",
+  "com.cn",
+  "com.mx",
+  "com.sg"
+];
+var LINK_SITES = [
+  { id: "portal", hosts: ["partners.adobe.com", "solutionpartners.adobe.com"] },
+  { id: "exchange", hosts: ["exchange.adobe.com"] }
+];
+var DOWNLOAD_EXTENSIONS = [
+  "pdf",
+  "zip",
+  "dmg",
+  "exe",
+  "msi",
+  "pkg",
+  "gz",
+  "tgz",
+  "rar",
+  "7z",
+  "doc",
+  "docx",
+  "xls",
+  "xlsx",
+  "ppt",
+  "pptx",
+  "csv",
+  "txt",
+  "mp4",
+  "mov",
+  "mp3",
+  "zxp",
+  "ccx"
+];
+var CLASSIFIED_PROTOCOLS = ["http:", "https:"];
+
+// src/utils/linkClassification.ts
+function getRegistrableDomain(hostname) {
+  const labels = hostname.toLowerCase().replace(/\.$/, "").split(".");
+  const lastTwo = labels.slice(-2).join(".");
+  const take = MULTI_PART_SUFFIXES.includes(lastTwo) ? 3 : 2;
+  return labels.slice(-take).join(".");
 }
-function extractAndValidate(path, structure, segmentKey, validator) {
-  const extracted = extractPathSegments(path, structure);
-  if (!extracted || !extracted[segmentKey]) {
+function normalizePath(pathname) {
+  const collapsed = pathname.toLowerCase().replace(/\/{2,}/g, "/");
+  return collapsed.length > 1 ? collapsed.replace(/\/$/, "") : "/";
+}
+function getFileExtension(pathname) {
+  var _a;
+  const lastSegment = (_a = pathname.split("/").pop()) != null ? _a : "";
+  const dotIndex = lastSegment.lastIndexOf(".");
+  return dotIndex > 0 ? lastSegment.slice(dotIndex + 1).toLowerCase() : "";
+}
+function findSite(hostname, sites) {
+  var _a;
+  const site = sites.find(
+    (config) => config.hosts.some((pattern) => matchesHostnamePattern(hostname, pattern))
+  );
+  return (_a = site == null ? void 0 : site.id) != null ? _a : "";
+}
+function classifyLink(link, currentUrl = new URL(window.location.href)) {
+  let destination;
+  try {
+    destination = new URL(link.href, currentUrl);
+  } catch (e) {
     return null;
   }
-  const value = extracted[segmentKey];
-  if (validator && !validator(value)) {
+  if (!CLASSIFIED_PROTOCOLS.includes(destination.protocol)) {
     return null;
   }
-  return value;
+  const destinationHost = destination.hostname.toLowerCase();
+  const destinationPath = normalizePath(destination.pathname);
+  const extension = getFileExtension(destination.pathname);
+  if (link.hasAttribute("download") || DOWNLOAD_EXTENSIONS.includes(extension)) {
+    return __spreadProps(__spreadValues({
+      category: "download"
+    }, extension && { fileExtension: extension }), {
+      destinationHost,
+      destinationPath
+    });
+  }
+  const destinationDomain = getRegistrableDomain(destinationHost);
+  const isFirstParty = destinationDomain === getRegistrableDomain(currentUrl.hostname) || FIRST_PARTY_DOMAINS.includes(destinationDomain);
+  if (!isFirstParty) {
+    return { category: "outbound", destinationHost, destinationPath };
+  }
+  const sourceSite = findSite(currentUrl.hostname.toLowerCase(), LINK_SITES);
+  const destinationSite = findSite(destinationHost, LINK_SITES);
+  if (sourceSite && destinationSite && sourceSite !== destinationSite) {
+    return { category: "crossSite", destinationHost, destinationPath, sourceSite, destinationSite };
+  }
+  return { category: "internal", destinationHost, destinationPath };
 }
-function createPathStructure(type, config) {
-  var _a;
-  switch (type) {
-    case "nested-resource":
-      return {
-        segments: {
-          empty: 0,
-          resourceType: 1,
-          subtype: 2,
-          id: 3,
-          name: 4
-        },
-        minSegments: (_a = config.minSegments) != null ? _a : 4,
-        requiredSegments: config.resourceType ? { resourceType: config.resourceType } : void 0
-      };
-    default:
-      throw new Error(`Unsupported path structure type: ${type}`);
+
+// src/enrichers/linkClassification.ts
+var linkClassificationEnricher = {
+  name: "linkClassification",
+  skipEventTypes: [PAGE_VIEW_EVENT_TYPE],
+  targetPath: ["_adobepartners", "linkClassification"],
+  extract: ({ event, logger }) => {
+    if (!event) return null;
+    const linkElement = findInComposedPath(event, createElementMatcher("a"));
+    if (!(linkElement instanceof HTMLAnchorElement) || !linkElement.href) {
+      return null;
+    }
+    const classification = classifyLink(linkElement);
+    logger.log("Link classification", classification);
+    return classification;
+  }
+};
+
+// src/utils/commerce.ts
+function readMageCacheStorage() {
+  return getStorageItem(MAGE_CACHE_STORAGE_KEY);
+}
+function toCartItem(item) {
+  return {
+    type: item.product_type || "",
+    quantity: Number(item.qty) || 0,
+    productID: item.product_id || "",
+    productName: item.product_name || "",
+    SKU: item.product_sku || "",
+    url: item.product_url || "",
+    price: Number(item.product_price_value) || 0
+  };
+}
+function extractCartItemsFromStorage(logger) {
+  var _a, _b;
+  const cacheData = readMageCacheStorage();
+  if (!((_b = (_a = cacheData == null ? void 0 : cacheData.cart) == null ? void 0 : _a.items) == null ? void 0 : _b.length)) {
+    return null;
   }
+  const cartItems = cacheData.cart.items.map(toCartItem);
+  logger.log("Extracted cart items from localStorage", cartItems);
+  return cartItems;
+}
+function resolvePaymentType(code, label, mappings = PAYMENT_METHOD_MAPPINGS) {
+  var _a, _b;
+  const normalizedCode = code.trim().toLowerCase();
+  const byCode = normalizedCode ? mappings.find((mapping) => {
+    var _a2;
+    return (_a2 = mapping.codes) == null ? void 0 : _a2.includes(normalizedCode);
+  }) : void 0;
+  const byLabel = label ? mappings.find((mapping) => {
+    var _a2;
+    return (_a2 = mapping.labelPattern) == null ? void 0 : _a2.test(label);
+  }) : void 0;
+  return (_b = (_a = byCode != null ? byCode : byLabel) == null ? void 0 : _a.type) != null ? _b : UNMAPPED_PAYMENT_TYPE;
+}
+
+// src/enrichers/checkout.ts
+function isPlaceOrderClick(event) {
+  var _a;
+  if (!event) return false;
+  const isPlaceOrderButton = createElementMatcher("button", "action");
+  const button = findInComposedPath(event, isPlaceOrderButton);
+  if (!button) return false;
+  const hasCheckoutClass = button.classList.contains("checkout");
+  const hasPlaceOrderText = (_a = button.textContent) == null ? void 0 : _a.toLowerCase().includes("place order");
+  return hasCheckoutClass && !!hasPlaceOrderText;
 }
-
-// src/scripts/data/extractImsData.ts
-var SELECTED_ORG_KEY = "selectedOrg";
-var ORGS_ARR_KEY = "orgsArr";
-function extractFromOrgObject(selectedOrg, logger) {
-  if (!isObject(selectedOrg) || !isString(selectedOrg.id) || !selectedOrg.id) {
+function extractPaymentMethod(logger) {
+  const checkedRadio = document.querySelector(
+    CHECKOUT_SELECTORS.PAYMENT_METHOD_RADIO
+  );
+  if (!checkedRadio) {
+    logger.log("No payment method selected");
     return null;
   }
-  const id = selectedOrg.id;
-  const { name } = selectedOrg;
-  logger.log("Found IMS data from selectedOrg object", { id, name });
-  return { imsID: id, imsName: isString(name) ? name : "" };
+  const label = document.querySelector(`label[for="${checkedRadio.id}"]`);
+  const paymentMethodCode = checkedRadio.value;
+  const paymentType = resolvePaymentType(paymentMethodCode, getTextContent(label));
+  logger.log("Extracted payment method", { paymentType, paymentMethodCode });
+  return { paymentType, paymentMethodCode };
 }
-function findOrgInArray(orgId, logger) {
-  const orgsArr = getStorageItem(ORGS_ARR_KEY);
-  if (!isArray(orgsArr) || orgsArr.length === 0) {
-    logger.log("No orgsArr found in localStorage");
-    return null;
-  }
-  const match = orgsArr.find(
-    (org) => isObject(org) && isString(org.orgID) && org.orgID === orgId
+function extractCartItemsFromDOM(logger) {
+  const itemElements = document.querySelectorAll(
+    `${CHECKOUT_SELECTORS.CART_ITEMS_CONTAINER} ${CHECKOUT_SELECTORS.CART_ITEM}`
   );
-  if (!match) {
-    logger.log(`No matching org found for ID: ${orgId}`);
-    return null;
+  if (!itemElements.length) {
+    logger.log("No cart items found in DOM");
+    return [];
   }
-  logger.log("Found IMS data from orgsArr lookup", {
-    orgCode: match.orgCode,
-    orgName: match.orgName
+  const cartItems = [];
+  itemElements.forEach((item) => {
+    const nameElement = item.querySelector(CHECKOUT_SELECTORS.PRODUCT_NAME);
+    const productName = getTextContent(nameElement);
+    if (productName) {
+      cartItems.push({
+        type: "",
+        quantity: 0,
+        productID: "",
+        productName,
+        SKU: "",
+        url: "",
+        price: 0
+      });
+    }
   });
-  return {
-    imsID: isString(match.orgCode) ? match.orgCode : "",
-    imsName: isString(match.orgName) ? match.orgName : ""
-  };
+  logger.log("Extracted cart items from DOM (fallback)", cartItems);
+  return cartItems;
 }
-function extractImsDataScript(testMode = false) {
-  return executeScript(
-    {
-      scriptName: "IMS Data",
-      testMode,
-      testHeaderTitle: "IMS DATA EXTRACTOR - TEST MODE",
-      onError: (error, logger) => {
-        logger.error("Unexpected error extracting IMS data:", error);
-        return null;
-      }
-    },
-    (logger) => {
-      const selectedOrg = getStorageItem(SELECTED_ORG_KEY);
-      if (selectedOrg === null) {
-        logger.log("No selectedOrg found in localStorage");
-        return null;
-      }
-      const fromObject = extractFromOrgObject(selectedOrg, logger);
-      if (fromObject) return fromObject;
-      if (isString(selectedOrg) && selectedOrg || typeof selectedOrg === "number") {
-        const orgId = String(selectedOrg);
-        logger.log(`selectedOrg is a string/numeric ID: ${orgId}, looking up in orgsArr`);
-        const fromArray = findOrgInArray(orgId, logger);
-        if (fromArray) return fromArray;
-      }
-      logger.log("Unable to resolve IMS data from localStorage");
+function extractCartItems(logger) {
+  const storageItems = extractCartItemsFromStorage(logger);
+  if (storageItems) {
+    return storageItems;
+  }
+  logger.log("localStorage extraction failed, falling back to DOM");
+  return extractCartItemsFromDOM(logger);
+}
+var checkoutEnricher = {
+  name: "Checkout",
+  skipEventTypes: [PAGE_VIEW_EVENT_TYPE],
+  consentCategory: "commerce",
+  targetPath: ["_adobepartners", "Checkout"],
+  extract: ({ event, logger }) => {
+    var _a, _b;
+    if (!isPlaceOrderClick(event)) {
       return null;
     }
-  );
-}
+    logger.log("Place Order button clicked, extracting checkout data");
+    const paymentMethod = extractPaymentMethod(logger);
+    const itemsInCart = extractCartItems(logger);
+    if (!paymentMethod && !itemsInCart.length) {
+      logger.warn("Could not extract checkout data");
+      return null;
+    }
+    const checkoutData = {
+      paymentType: (_a = paymentMethod == null ? void 0 : paymentMethod.paymentType) != null ? _a : "",
+      paymentMethodCode: (_b = paymentMethod == null ? void 0 : paymentMethod.paymentMethodCode) != null ? _b : "",
+      itemsInCart
+    };
+    logger.log("Extracted checkout data", checkoutData);
+    return checkoutData;
+  }
+};
+
+// src/enrichers/eventData.ts
+var eventDataEnricher = {
+  name: "eventData",
+  skipEventTypes: [PAGE_VIEW_EVENT_TYPE],
+  targetPath: ["_adobepartners", "eventData"],
+  extract: ({ logger }) => {
+    var _a, _b;
+    const eventData = (_b = (_a = window._adobePartners) == null ? void 0 : _a.eventData) == null ? void 0 : _b.apiResponse;
+    if (!eventData) {
+      logger.log("No event data in window._adobePartners");
+      return null;
+    }
+    logger.log("Found event data from global state", eventData);
+    return eventData;
+  }
+};
+
+// src/enrichers/attendeeData.ts
+var attendeeDataEnricher = {
+  name: "attendeeData",
+  skipEventTypes: [PAGE_VIEW_EVENT_TYPE],
+  consentCategory: "attendee",
+  targetPath: ["_adobepartners", "attendeeData"],
+  extract: ({ logger }) => {
+    const data = getStorageItem(ATTENDEE_STORAGE_KEY);
+    if (!data) {
+      logger.log("No attendee data in localStorage");
+      return null;
+    }
+    logger.log("Found attendee data", data);
+    return data;
+  }
+};
 
 // src/scripts/data/extractPublisherData.ts
 var PUBLISHER_URL_STRUCTURE = createPathStructure("nested-resource", {
@@ -629,6 +2003,11 @@ function extractPublisherDataScript(testMode = false) {
       }
     },
     (logger) => {
+      const profile = resolveSiteProfile();
+      if (!profile.enrichers.includes("publisherData")) {
+        logger.log(`Publisher data not enabled for site profile "${profile.id}"`);
+        return null;
+      }
       logger.log("Searching for publisher links in DOM");
       const links = document.querySelectorAll('a[href^="/publisher/"]');
       logger.log(`Found ${links.length} publisher links`);
@@ -655,256 +2034,102 @@ function extractPublisherDataScript(testMode = false) {
   );
 }
 
-// src/scripts/callbacks/customDataCollectionOnBeforeEventSend.ts
-var SELECTORS = {
-  CARD_TITLE: ".card-title",
-  PARTNER_CARDS: ".partner-cards",
-  FIRST_LINK: "a"
-};
-var ATTRIBUTES = {
-  DAA_LH: "daa-lh",
-  DAA_LL: "daa-ll"
-};
-var CARD_TYPES = {
-  TAG_NAME: "single-partner-card",
-  CLASS_NAME: "card-wrapper"
-};
-var WRAPPER_CLASS = "dx-card-collection-wrapper";
-var CONTENT_TYPE = "partner_card";
-var DAA_LH_INDICES = {
-  POSITION: 0,
-  CONTENT_ID: 2
+// src/enrichers/publisherData.ts
+var publisherDataEnricher = {
+  name: "publisherData",
+  skipEventTypes: [PAGE_VIEW_EVENT_TYPE],
+  targetPath: ["_adobepartners", "publisherData"],
+  extract: ({ testMode, logger }) => {
+    const publisherData = extractPublisherDataScript(testMode);
+    logger.log("Extracted publisher data from localStorage", publisherData);
+    return publisherData;
+  }
 };
-var CHECKOUT_SELECTORS = {
-  PAYMENT_METHOD_RADIO: 'input[name="payment[method]"]:checked',
-  CART_ITEMS_CONTAINER: "ol.minicart-items",
-  CART_ITEM: "li.product-item",
-  PRODUCT_NAME: ".product-item-name"
+
+// src/enrichers/consent.ts
+var consentEnricher = {
+  name: "consent",
+  skipEventTypes: [PAGE_VIEW_EVENT_TYPE],
+  targetPath: ["_adobepartners", "consent"],
+  extract: ({ consent }) => consent
 };
-var MAGE_CACHE_STORAGE_KEY2 = "mage-cache-storage";
-var isPartnerCard = createElementMatcher(CARD_TYPES.TAG_NAME, CARD_TYPES.CLASS_NAME);
-var isCardWrapper = createElementMatcher(void 0, WRAPPER_CLASS);
-function extractWrapperContext(wrapper, logger) {
-  if (!wrapper.parentElement) {
-    logger.warn("Wrapper has no parent element, sectionID will be empty");
-  }
-  const sectionID = getAttribute(wrapper.parentElement, ATTRIBUTES.DAA_LH);
-  const { shadowRoot } = wrapper;
-  const partnerCardsElement = shadowRoot == null ? void 0 : shadowRoot.querySelector(SELECTORS.PARTNER_CARDS);
-  const filterContext = getAttribute(partnerCardsElement, ATTRIBUTES.DAA_LH);
-  if (!sectionID) {
-    logger.warn("Wrapper missing sectionID (parent daa-lh attribute)");
+
+// src/enrichers/runner.ts
+function getSkipReason(enricher, context) {
+  var _a, _b, _c;
+  const eventType = (_b = (_a = context.content.xdm) == null ? void 0 : _a.eventType) != null ? _b : "";
+  if (!context.profile.enrichers.includes(enricher.name)) {
+    return `not active in site profile "${context.profile.id}"`;
   }
-  return { sectionID, filterContext };
-}
-function extractCardMetadata(cardElement) {
-  const metadata = extractStructuredAttribute(cardElement, ATTRIBUTES.DAA_LH, "|", {
-    contentID: DAA_LH_INDICES.CONTENT_ID,
-    position: DAA_LH_INDICES.POSITION
-  });
-  return {
-    contentID: metadata.contentID || "",
-    position: metadata.position || ""
-  };
-}
-function extractCardTitle(cardElement, logger) {
-  const cardTitleElement = queryShadow(cardElement, SELECTORS.CARD_TITLE);
-  const cardTitle = getTextContent(cardTitleElement);
-  if (!cardTitle) {
-    logger.error("Card title not found in shadow DOM");
-    return null;
+  if (enricher.eventTypes && !enricher.eventTypes.includes(eventType)) {
+    return `event type "${eventType}" not in scope`;
   }
-  return cardTitle;
-}
-function extractCtaText(cardElement) {
-  const firstLink = queryShadow(cardElement, SELECTORS.FIRST_LINK);
-  return getAttribute(firstLink, ATTRIBUTES.DAA_LL);
-}
-function extractLinkDaaLl(event, logger) {
-  logger.log("extractLinkDaaLl called with event", event);
-  if (!event) {
-    logger.log("No event provided, returning empty string");
-    return "";
+  if ((_c = enricher.skipEventTypes) == null ? void 0 : _c.includes(eventType)) {
+    return `event type "${eventType}" skipped`;
   }
-  const isLink = createElementMatcher("a");
-  const linkElement = findInComposedPath(event, isLink);
-  logger.log("Found link element", linkElement);
-  const daaLlValue = getAttribute(linkElement, ATTRIBUTES.DAA_LL);
-  logger.log("daa-ll value", daaLlValue);
-  return daaLlValue;
-}
-function isPlaceOrderClick(event) {
-  var _a;
-  if (!event) return false;
-  const isPlaceOrderButton = createElementMatcher("button", "action");
-  const button = findInComposedPath(event, isPlaceOrderButton);
-  if (!button) return false;
-  const hasCheckoutClass = button.classList.contains("checkout");
-  const hasPlaceOrderText = (_a = button.textContent) == null ? void 0 : _a.toLowerCase().includes("place order");
-  return hasCheckoutClass && !!hasPlaceOrderText;
-}
-function extractPaymentType(logger) {
-  const checkedRadio = document.querySelector(
-    CHECKOUT_SELECTORS.PAYMENT_METHOD_RADIO
-  );
-  if (!checkedRadio) {
-    logger.log("No payment method selected");
-    return "";
+  if (enricher.hostnames && !enricher.hostnames.some((pattern) => isHostnameMatch(pattern))) {
+    return "hostname not in scope";
   }
-  const label = document.querySelector(`label[for="${checkedRadio.id}"]`);
-  const rawPaymentType = getTextContent(label) || checkedRadio.value;
-  const paymentType = rawPaymentType.startsWith("Invoice") ? "Invoice" : "Credit Card";
-  logger.log("Extracted payment type", paymentType);
-  return paymentType;
-}
-function extractCartItemsFromStorage(logger) {
-  var _a, _b;
-  const cacheData = getStorageItem(MAGE_CACHE_STORAGE_KEY2);
-  if (!((_b = (_a = cacheData == null ? void 0 : cacheData.cart) == null ? void 0 : _a.items) == null ? void 0 : _b.length)) {
-    return null;
+  if (enricher.consentCategory && !isCategoryAllowed(enricher.consentCategory, context.consent)) {
+    return `no consent for "${enricher.consentCategory}"`;
   }
-  const cartItems = cacheData.cart.items.map((item) => ({
-    type: item.product_type || "",
-    quantity: Number(item.qty) || 0,
-    productID: item.product_id || "",
-    productName: item.product_name || "",
-    SKU: item.product_sku || "",
-    url: item.product_url || "",
-    price: Number(item.product_price_value) || 0
-  }));
-  logger.log("Extracted cart items from localStorage", cartItems);
-  return cartItems;
+  return null;
 }
-function extractCartItemsFromDOM(logger) {
-  const itemElements = document.querySelectorAll(
-    `${CHECKOUT_SELECTORS.CART_ITEMS_CONTAINER} ${CHECKOUT_SELECTORS.CART_ITEM}`
-  );
-  if (!itemElements.length) {
-    logger.log("No cart items found in DOM");
-    return [];
-  }
-  const cartItems = [];
-  itemElements.forEach((item) => {
-    const nameElement = item.querySelector(CHECKOUT_SELECTORS.PRODUCT_NAME);
-    const productName = getTextContent(nameElement);
-    if (productName) {
-      cartItems.push({
-        type: "",
-        quantity: 0,
-        productID: "",
-        productName,
-        SKU: "",
-        url: "",
-        price: 0
-      });
-    }
+function runEnricher(enricher, context) {
+  const startedAt = performance.now();
+  const entry = (status, reason) => __spreadProps(__spreadValues({
+    name: enricher.name,
+    status
+  }, reason && { reason }), {
+    durationMs: Math.round((performance.now() - startedAt) * 100) / 100
   });
-  logger.log("Extracted cart items from DOM (fallback)", cartItems);
-  return cartItems;
-}
-function extractCartItems(logger) {
-  const storageItems = extractCartItemsFromStorage(logger);
-  if (storageItems) {
-    return storageItems;
-  }
-  logger.log("localStorage extraction failed, falling back to DOM");
-  return extractCartItemsFromDOM(logger);
-}
-function extractCheckoutData(event, logger) {
-  if (!isPlaceOrderClick(event)) {
-    return null;
-  }
-  logger.log("Place Order button clicked, extracting checkout data");
-  const paymentType = extractPaymentType(logger);
-  const itemsInCart = extractCartItems(logger);
-  if (!paymentType && !itemsInCart.length) {
-    logger.warn("Could not extract checkout data");
-    return null;
-  }
-  const checkoutData = {
-    paymentType,
-    itemsInCart
-  };
-  logger.log("Extracted checkout data", checkoutData);
-  return checkoutData;
-}
-function extractCardCtxFromElement(cardElement, sectionID, filterContext, logger) {
-  if (!cardElement) {
-    logger.error("Card element is required");
-    return null;
-  }
-  const { contentID, position } = extractCardMetadata(cardElement);
-  const cardTitle = extractCardTitle(cardElement, logger);
-  if (!cardTitle) {
-    return null;
-  }
-  const ctaText = extractCtaText(cardElement);
-  const result = {
-    cardTitle,
-    contentID,
-    contentType: CONTENT_TYPE,
-    ctaText,
-    filterContext,
-    name: cardTitle,
-    position,
-    sectionID
-  };
-  logger.log("Extracted card context", result);
-  return result;
-}
-function extractCardMetadataFromEvent(event, logger) {
-  logger.log("Extracting card metadata from event.composedPath()");
-  const cardElement = findInComposedPath(event, isPartnerCard);
-  if (!cardElement) {
-    logger.log("Event did not occur within a partner card");
-    return null;
-  }
-  logger.log("Found partner card element in composed path", cardElement);
-  const wrapper = findInComposedPath(event, isCardWrapper);
-  if (!wrapper) {
-    logger.log("No wrapper found in composed path");
-    return null;
-  }
-  logger.log("Found wrapper element in composed path", wrapper);
-  const { sectionID, filterContext } = extractWrapperContext(wrapper, logger);
-  const cardContext = extractCardCtxFromElement(cardElement, sectionID, filterContext, logger);
-  if (!cardContext) {
-    logger.warn("Failed to extract card context");
-    return null;
-  }
-  return cardContext;
-}
-function extractCardCollectionFromEvent(event, logger) {
-  if (!event) {
-    logger.log("No event provided, skipping card collection extraction");
-    return null;
+  const skipReason = getSkipReason(enricher, context);
+  if (skipReason) {
+    return entry("skipped", skipReason);
   }
-  const cardCollection = extractCardMetadataFromEvent(event, logger);
-  if (cardCollection) {
-    logger.log("Extracted card collection from event", cardCollection);
-  } else {
-    logger.log("No card collection found in event (click was not on a partner card)");
+  try {
+    const value = enricher.extract(context);
+    if (value === null || value === void 0) {
+      return entry("empty");
+    }
+    setNestedValue(context.content, ["xdm", ...enricher.targetPath], value, enricher.merge);
+    return entry("applied");
+  } catch (error) {
+    context.logger.error(`Enricher "${enricher.name}" failed:`, error);
+    return entry("error", error instanceof Error ? error.message : String(error));
   }
-  return cardCollection;
 }
-function extractEventDataFromGlobal(logger) {
-  var _a, _b;
-  const eventData = (_b = (_a = window._adobePartners) == null ? void 0 : _a.eventData) == null ? void 0 : _b.apiResponse;
-  if (!eventData) {
-    logger.log("No event data in window._adobePartners");
-    return null;
-  }
-  logger.log("Found event data from global state", eventData);
-  return eventData;
+function runEnrichers(enrichers, context) {
+  return enrichers.map((enricher) => runEnricher(enricher, context));
 }
-function extractAttendeeData(logger) {
-  const data = getStorageItem(ATTENDEE_STORAGE_KEY);
-  if (!data) {
-    logger.log("No attendee data in localStorage");
-    return null;
-  }
-  logger.log("Found attendee data", data);
-  return data;
+
+// src/enrichers/index.ts
+var ENRICHERS = [
+  pageNameEnricher,
+  siteSectionEnricher,
+  spaReferrerEnricher,
+  pageContextEnricher,
+  partnerDataEnricher,
+  imsEnricher,
+  cardCollectionEnricher,
+  linkClickLabelEnricher,
+  linkClassificationEnricher,
+  checkoutEnricher,
+  eventDataEnricher,
+  attendeeDataEnricher,
+  publisherDataEnricher,
+  consentEnricher
+];
+
+// src/scripts/callbacks/customDataCollectionOnBeforeEventSend.ts
+function scrubOutgoingXdm(content, logger) {
+  if (!content.xdm) return content;
+  const report = scrubPii(content.xdm);
+  if (report.length) {
+    logger.log(`Redacted ${report.length} PII matches`);
+  }
+  logger.testInfo("PII redaction report", report);
+  return content;
 }
 function customDataCollectionOnBeforeEventSendScript(content, event, testMode = false, cookieKeys = DEFAULT_COOKIE_KEYS) {
   return executeScript(
@@ -919,51 +2144,25 @@ function customDataCollectionOnBeforeEventSendScript(content, event, testMode =
       }
     },
     (logger) => {
-      var _a;
       logEventInfo(event, logger);
-      const pageName = document.title;
-      logger.log("Extracted page name", pageName);
-      if (pageName) {
-        setNestedValue(content, "xdm.web.webPageDetails.name", pageName, true);
-        setNestedValue(content, "xdm.web.webPageDetails.viewName", pageName, true);
-      }
-      if (!shouldProcessEventType((_a = content.xdm) == null ? void 0 : _a.eventType, ["web.webpagedetails.pageViews"], logger)) {
-        return content;
-      }
-      const imsData = extractImsDataScript(testMode);
-      logger.log("Extracted IMS data from localStorage", imsData);
-      const partnerData = extractPartnerDataScript(testMode, cookieKeys);
-      logger.log("Extracted partner data from cookie", partnerData);
-      const publisherData = extractPublisherDataScript(testMode);
-      logger.log("Extracted publisher data from localStorage", publisherData);
-      const cardCollection = extractCardCollectionFromEvent(event, logger);
-      const linkClickLabel = extractLinkDaaLl(event, logger);
-      if (linkClickLabel) {
-        logger.log("Extracted link daa-ll", linkClickLabel);
-      }
-      const checkout = extractCheckoutData(event, logger);
-      const isAdobeEventsPage = isHostnameMatch("*.adobeevents.com");
-      const eventData = isAdobeEventsPage ? extractEventDataFromGlobal(logger) : null;
-      const attendeeData = isAdobeEventsPage ? extractAttendeeData(logger) : null;
-      setNestedValue(
+      const consent = readConsentSnapshot();
+      logger.log("Consent snapshot", consent);
+      const profile = resolveSiteProfile();
+      logger.log(`Site profile "${profile.id}"`);
+      const report = runEnrichers(ENRICHERS, {
         content,
-        "xdm._adobepartners",
-        mergeNonNull(
-          { partnerData },
-          conditionalProperties(imsData !== null, {
-            IMS: imsData
-          }),
-          conditionalProperties(cardCollection !== null, { cardCollection }),
-          conditionalProperties(linkClickLabel !== "", { linkClickLabel }),
-          conditionalProperties(checkout !== null, { Checkout: checkout }),
-          conditionalProperties(eventData !== null, { eventData }),
-          conditionalProperties(attendeeData !== null, { attendeeData }),
-          conditionalProperties(publisherData !== null, {
-            publisherData
-          })
-        ),
-        true
-      );
+        event,
+        testMode,
+        logger,
+        cookieKeys,
+        consent,
+        profile
+      });
+      logger.testInfo("Enricher run report", report);
+      scrubOutgoingXdm(content, logger);
+      if (content.xdm) {
+        enforceAdobePartnersSchema(content.xdm, logger, testMode);
+      }
       return content;
     }
   );
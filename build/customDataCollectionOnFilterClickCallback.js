@@ -1,5 +1,25 @@
 const TEST_MODE = localStorage.getItem('__aep_scripts_debug') === 'true';
 
+var __defProp = Object.defineProperty;
+var __defProps = Object.defineProperties;
+var __getOwnPropDescs = Object.getOwnPropertyDescriptors;
+var __getOwnPropSymbols = Object.getOwnPropertySymbols;
+var __hasOwnProp = Object.prototype.hasOwnProperty;
+var __propIsEnum = Object.prototype.propertyIsEnumerable;
+var __defNormalProp = (obj, key, value) => key in obj ? __defProp(obj, key, { enumerable: true, configurable: true, writable: true, value }) : obj[key] = value;
+var __spreadValues = (a, b) => {
+  for (var prop in b || (b = {}))
+    if (__hasOwnProp.call(b, prop))
+      __defNormalProp(a, prop, b[prop]);
+  if (__getOwnPropSymbols)
+    for (var prop of __getOwnPropSymbols(b)) {
+      if (__propIsEnum.call(b, prop))
+        __defNormalProp(a, prop, b[prop]);
+    }
+  return a;
+};
+var __spreadProps = (a, b) => __defProps(a, __getOwnPropDescs(b));
+
 // src/utils/logger.ts
 var Logger = class {
   constructor(prefix, isTestMode) {
@@ -118,32 +138,487 @@ function logEventInfo(event, logger, additionalInfo) {
   }
   logger.log("Event information", eventInfo);
 }
-function isMeaningfulClickEvent(content, logger) {
-  if (!content.clickedElement) {
-    logger == null ? void 0 : logger.log("Clicked element is missing");
+function isValidUserEvent(event, logger) {
+  if (!event) {
+    logger == null ? void 0 : logger.log("Event is missing");
     return false;
   }
-  const { linkType, linkRegion } = content;
-  if ((linkType == null ? void 0 : linkType.toLowerCase()) === "exit") {
-    return true;
+  if ("isTrusted" in event && !event.isTrusted) {
+    logger == null ? void 0 : logger.log("Event is not trusted (programmatic)");
+    return false;
+  }
+  return true;
+}
+
+// src/utils/componentExtractorConfig.ts
+var COMPONENT_ATTRIBUTES = {
+  DAA_LH: "daa-lh",
+  DAA_LL: "daa-ll"
+};
+
+// src/utils/url.ts
+function matchesHostnamePattern(hostname, pattern) {
+  if (pattern.startsWith("*.")) {
+    return hostname.endsWith(pattern.slice(1));
+  }
+  return hostname === pattern;
+}
+function isHostnameMatch(pattern) {
+  return matchesHostnamePattern(window.location.hostname, pattern);
+}
+
+// src/utils/piiConfig.ts
+var PII_PATTERNS = [
+  [
+    "urlToken",
+    /([?&#;](?:access_token|id_token|refresh_token|token|auth|code|api_?key|key|password|pwd|session(?:id)?|sid|secret)=)[^&#\s]+/gi
+  ],
+  ["email", /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi],
+  ["cardNumber", /\b(?:\d[ -]?){12,18}\d\b/g],
+  [
+    "phone",
+    /((?:^|[^\w.+-])(?:(?:phone|tel|mobile|cell|fax)\.?[\s:#-]*)?)(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}(?![\w-])/gi
+  ]
+];
+
+// src/utils/searchConfig.ts
+var TERM_PARAMS = ["term", "q", "keyword"];
+var IGNORED_PARAMS = ["utm_source", "utm_medium", "utm_campaign", "filters"];
+var FILTER_TO_XDM_MAP = {
+  "content-type": "searchContentType",
+  functionality: "searchFunctionality",
+  industries: "searchIndustries",
+  industry: "searchIndustries",
+  products: "searchProducts",
+  solutions: "searchSolutions",
+  topic: "searchTopic"
+};
+var SEARCH_PII_PATTERNS = [
+  ...PII_PATTERNS,
+  ["orderNumber", /\b((?:order|ord|po)\.?\s*(?:number|no\.?|#)?[\s#:-]*)\d{8,}\b/gi]
+];
+var SEARCH_SURFACES = [
+  {
+    id: "portal",
+    pathPattern: /\/digitalexperience\/home\/search\//,
+    termParams: TERM_PARAMS,
+    ignoredParams: IGNORED_PARAMS,
+    compoundFilterParam: "filters",
+    filterMap: FILTER_TO_XDM_MAP,
+    sourceLabel: "partner-directory",
+    resultCount: {
+      selector: "[data-results-count], .search-results-count",
+      attribute: "data-results-count",
+      emptySelector: ".search-no-results"
+    }
+  },
+  {
+    id: "exchange",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:search|apps\/browse)(?:\/|$)/,
+    termParams: ["q", "term", "keyword"],
+    strategies: [{ type: "query" }, { type: "pathPattern", pattern: new RegExp("\\/search\\/(?<term>[^/]+)") }],
+    ignoredParams: [...IGNORED_PARAMS, "page", "sort"],
+    filterMap: {
+      products: "searchProducts",
+      industries: "searchIndustries",
+      category: "searchContentType"
+    },
+    sourceLabel: "exchange",
+    resultCount: {
+      selector: '[data-testid="results-count"], .results-count',
+      emptySelector: '[data-testid="no-results"]'
+    },
+    resultItemSelector: '[data-testid="search-result"], .search-result'
+  },
+  {
+    id: "eventsAgenda",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:agenda|sessions)(?:\/|$)/,
+    termParams: ["search", "q", "term"],
+    strategies: [{ type: "query" }, { type: "hashQuery" }, { type: "hashParams" }],
+    ignoredParams: [...IGNORED_PARAMS, "tab", "view"],
+    filterMap: {
+      topic: "searchTopic",
+      products: "searchProducts",
+      industries: "searchIndustries"
+    },
+    sourceLabel: "events-agenda",
+    resultCount: {
+      selector: ".session-results-count",
+      emptySelector: ".no-sessions-found"
+    },
+    resultItemSelector: "[data-session-id], .session-card"
   }
-  if ((linkRegion == null ? void 0 : linkRegion.toLowerCase()) === "main") {
-    logger == null ? void 0 : logger.log(`Ghost click detected \u2014 linkRegion is "${linkRegion}", ignoring`);
+];
+var DEFAULT_SEARCH_SURFACE = SEARCH_SURFACES[0];
+
+// src/utils/siteProfileConfig.ts
+var COMMON_ENRICHERS = [
+  "pageName",
+  "siteSection",
+  "spaReferrer",
+  "pageContext",
+  "partnerData",
+  "IMS",
+  "cardCollection",
+  "linkClickLabel",
+  "linkClassification",
+  "consent"
+];
+var SITE_PROFILES = [
+  {
+    // Magento pages are identified by their init scripts (store host varies per environment)
+    id: "magentoStore",
+    match: { selector: 'script[type="text/x-magento-init"]' },
+    enrichers: [...COMMON_ENRICHERS, "Checkout"],
+    monitors: ["cartChange", "purchase", "formInteraction"],
+    searchSurfaces: [],
+    options: {}
+  },
+  {
+    id: "adobeEvents",
+    match: { hostnames: ["*.adobeevents.com"] },
+    enrichers: [...COMMON_ENRICHERS, "eventData", "attendeeData"],
+    monitors: ["searchUrl", "searchClick", "searchAutocomplete", "formInteraction"],
+    searchSurfaces: ["eventsAgenda"],
+    options: {}
+  },
+  {
+    id: "exchange",
+    match: { hostnames: ["exchange.adobe.com"] },
+    enrichers: [...COMMON_ENRICHERS, "publisherData"],
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "spaPublisherName",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["exchange"],
+    options: {}
+  },
+  {
+    id: "partnerPortal",
+    match: { hostnames: ["partners.adobe.com", "solutionpartners.adobe.com"] },
+    enrichers: COMMON_ENRICHERS,
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["portal"],
+    options: {}
+  }
+];
+var DEFAULT_SITE_PROFILE = {
+  id: "default",
+  match: {},
+  enrichers: [...COMMON_ENRICHERS, "Checkout", "publisherData"],
+  monitors: [
+    "searchUrl",
+    "searchClick",
+    "searchAutocomplete",
+    "spaPageViewTitle",
+    "spaPublisherName",
+    "cardImpression",
+    "cartChange",
+    "purchase",
+    "formInteraction"
+  ],
+  searchSurfaces: ["portal", "exchange", "eventsAgenda"],
+  options: {}
+};
+
+// src/utils/siteProfile.ts
+function matchesProfile(match, location) {
+  if (match.hostnames && !match.hostnames.some((pattern) => matchesHostnamePattern(location.hostname, pattern))) {
+    return false;
+  }
+  if (match.pathPattern && !match.pathPattern.test(location.pathname)) {
+    return false;
+  }
+  if (match.selector && !document.querySelector(match.selector)) {
     return false;
   }
   return true;
 }
-function isValidUserEvent(event, logger) {
-  if (!event) {
-    logger == null ? void 0 : logger.log("Event is missing");
+function resolveSiteProfile(location = window.location, profiles = SITE_PROFILES) {
+  var _a;
+  return (_a = profiles.find((profile) => matchesProfile(profile.match, location))) != null ? _a : DEFAULT_SITE_PROFILE;
+}
+
+// src/utils/clickFilterConfig.ts
+var CLICK_FILTER_RULES = [
+  // Exit links are always valid
+  { id: "allow-exit-links", action: "allow", conditions: { linkType: "exit" } },
+  // Clicks on the broad MAIN region without a specific anchor are ghost clicks
+  { id: "deny-main-region", action: "deny", conditions: { linkRegion: "main" } }
+];
+var DEFAULT_CLICK_FILTER_ACTION = "allow";
+var DEFAULT_CLICK_FILTER_RULE_ID = "default";
+var MISSING_ELEMENT_RULE_ID = "missing-clicked-element";
+
+// src/utils/clickFilterEngine.ts
+function getClickPath(content, event) {
+  var _a;
+  if (event) {
+    return event.composedPath().filter((item) => item instanceof Element);
+  }
+  const path = [];
+  let element = (_a = content.clickedElement) != null ? _a : null;
+  while (element) {
+    path.push(element);
+    element = element.parentElement;
+  }
+  return path;
+}
+function equalsIgnoreCase(value, expected) {
+  return typeof value === "string" && value.toLowerCase() === expected.toLowerCase();
+}
+function evaluateConditions(conditions, content, path, profile) {
+  const results = {};
+  const { selector, linkRegion, linkType, urlPattern, hasDaaLl, hostname } = conditions;
+  if (selector !== void 0) {
+    results.selector = path.some((element) => element.matches(selector));
+  }
+  if (linkRegion !== void 0) {
+    results.linkRegion = equalsIgnoreCase(content.linkRegion, linkRegion);
+  }
+  if (linkType !== void 0) {
+    results.linkType = equalsIgnoreCase(content.linkType, linkType);
+  }
+  if (urlPattern !== void 0) {
+    results.urlPattern = typeof content.linkUrl === "string" && urlPattern.test(content.linkUrl);
+  }
+  if (hasDaaLl !== void 0) {
+    const found = path.some((element) => element.hasAttribute(COMPONENT_ATTRIBUTES.DAA_LL));
+    results.hasDaaLl = found === hasDaaLl;
+  }
+  if (hostname !== void 0) {
+    results.hostname = isHostnameMatch(hostname);
+  }
+  if (conditions.profile !== void 0) {
+    results.profile = profile.id === conditions.profile;
+  }
+  return results;
+}
+function evaluateClickRules(content, event, rules = CLICK_FILTER_RULES, profile = resolveSiteProfile()) {
+  var _a, _b;
+  if (!content.clickedElement) {
+    return { allowed: false, action: "deny", ruleId: MISSING_ELEMENT_RULE_ID, trace: [] };
+  }
+  const path = getClickPath(content, event);
+  const trace = [];
+  const decidingRule = rules.find((rule) => {
+    const conditions = evaluateConditions(rule.conditions, content, path, profile);
+    const matched = Object.values(conditions).every(Boolean);
+    trace.push({ ruleId: rule.id, matched, conditions });
+    return matched;
+  });
+  const action = (_a = decidingRule == null ? void 0 : decidingRule.action) != null ? _a : DEFAULT_CLICK_FILTER_ACTION;
+  return {
+    allowed: action === "allow",
+    action,
+    ruleId: (_b = decidingRule == null ? void 0 : decidingRule.id) != null ? _b : DEFAULT_CLICK_FILTER_RULE_ID,
+    trace
+  };
+}
+
+// src/utils/object.ts
+function ensureNestedPath(obj, path) {
+  const keys = Array.isArray(path) ? path : path.split(".");
+  let current = obj;
+  keys.forEach((key) => {
+    if (!(key in current) || typeof current[key] !== "object" || current[key] === null) {
+      current[key] = {};
+    }
+    current = current[key];
+  });
+  return current;
+}
+
+// src/utils/globalState.ts
+function ensurePartnerNamespace() {
+  if (!window._adobePartners) {
+    window._adobePartners = {};
+  }
+  return window._adobePartners;
+}
+function getPartnerState(key) {
+  var _a;
+  return (_a = window._adobePartners) == null ? void 0 : _a[key];
+}
+function setPartnerState(key, value) {
+  const ns = ensurePartnerNamespace();
+  ns[key] = value;
+}
+
+// src/utils/constants.ts
+var XDM_VARIABLE_NAME = "XDMVariable";
+var XDM_EVENT_FIELDS_CLEAR_DELAY_MS = 500;
+
+// src/utils/satellite.ts
+function getSatelliteVar(name, logger, testMode) {
+  if (window._satellite && typeof window._satellite.getVar === "function") {
+    const value = window._satellite.getVar(name);
+    if (!value) {
+      logger.warn(`Variable "${name}" not found`);
+      return null;
+    }
+    return value;
+  }
+  const message = testMode ? "_satellite.getVar() not available (normal in test mode)" : "_satellite.getVar() not available - ensure AEP Launch is loaded";
+  logger.warn(message);
+  return null;
+}
+function setXdmVariableValues(fields, logger, testMode) {
+  if (fields.some(([path]) => path.length === 0)) {
+    logger.warn("Empty XDM Variable path");
     return false;
   }
-  if ("isTrusted" in event && !event.isTrusted) {
-    logger == null ? void 0 : logger.log("Event is not trusted (programmatic)");
+  const xdmVar = getSatelliteVar(XDM_VARIABLE_NAME, logger, testMode);
+  if (!xdmVar) {
     return false;
   }
+  fields.forEach(([path, value]) => {
+    const parent = ensureNestedPath(xdmVar, path.slice(0, -1));
+    parent[path[path.length - 1]] = value;
+  });
+  logger.log(`Set XDM Variable ${fields.map(([path]) => path.join(".")).join(", ")}`);
   return true;
 }
+function clearXdmVariableValues(fields, logger, testMode) {
+  const xdmVar = getSatelliteVar(XDM_VARIABLE_NAME, logger, testMode);
+  if (!xdmVar) {
+    return;
+  }
+  fields.forEach(([path, value]) => {
+    const parent = path.slice(0, -1).reduce(
+      (node, key) => node && typeof node === "object" ? node[key] : void 0,
+      xdmVar
+    );
+    const lastKey = path[path.length - 1];
+    if (parent && typeof parent === "object" && lastKey !== void 0) {
+      const record = parent;
+      if (record[lastKey] === value) {
+        delete record[lastKey];
+      }
+    }
+  });
+  logger.log(`Cleared XDM Variable ${fields.map(([path]) => path.join(".")).join(", ")}`);
+}
+function fireSatelliteEvent(eventName, logger, testMode) {
+  if (window._satellite && typeof window._satellite.track === "function") {
+    logger.log(`Triggering _satellite.track("${eventName}")`);
+    window._satellite.track(eventName);
+    return true;
+  }
+  const message = testMode ? "_satellite.track() not available (normal in test mode)" : "_satellite.track() not available - ensure AEP Launch is loaded";
+  logger.warn(message);
+  return false;
+}
+function fireXdmVariableEvent(eventName, fields, logger, testMode) {
+  if (!setXdmVariableValues(fields, logger, testMode)) {
+    return false;
+  }
+  const fired = fireSatelliteEvent(eventName, logger, testMode);
+  setTimeout(
+    () => clearXdmVariableValues(fields, logger, testMode),
+    XDM_EVENT_FIELDS_CLEAR_DELAY_MS
+  );
+  return fired;
+}
+
+// src/utils/dom.ts
+function getAttribute(element, attributeName) {
+  if (!element) {
+    return "";
+  }
+  return element.getAttribute(attributeName) || "";
+}
+function findInComposedPath(event, predicate) {
+  const path = event.composedPath();
+  const element = path.find((item) => item instanceof Element && predicate(item));
+  return element || null;
+}
+function createElementMatcher(tagName, className) {
+  return (element) => {
+    if (tagName && element.tagName.toLowerCase() === tagName.toLowerCase()) {
+      return true;
+    }
+    if (className && element.classList.contains(className)) {
+      return true;
+    }
+    return false;
+  };
+}
+
+// src/utils/clickBurstConfig.ts
+var CLICK_BURST_WINDOW_MS = 1e3;
+var RAGE_CLICK_THRESHOLD = 3;
+var CLICK_BURST_COMMIT_EVENT = "clickBurstCommit";
+
+// src/utils/clickBurst.ts
+function closeClickBurst(logger, testMode) {
+  const burst = getPartnerState("clickBurst");
+  if (!burst) return;
+  clearTimeout(burst.timer);
+  setPartnerState("clickBurst", void 0);
+  if (burst.count < 2) return;
+  const rageClick = burst.count >= RAGE_CLICK_THRESHOLD;
+  logger.log(`Click burst closed (${burst.count} clicks${rageClick ? ", rage click" : ""})`);
+  const fields = [
+    [["_adobepartners", "clickCount"], burst.count],
+    [["_adobepartners", "rageClick"], rageClick]
+  ];
+  if (burst.linkClickLabel) {
+    fields.push([["_adobepartners", "linkClickLabel"], burst.linkClickLabel]);
+  }
+  fireXdmVariableEvent(CLICK_BURST_COMMIT_EVENT, fields, logger, testMode);
+}
+function resolveClickBurst(event, logger, testMode) {
+  var _a;
+  const burst = getPartnerState("clickBurst");
+  if ((burst == null ? void 0 : burst.lastEvent) === event) {
+    return burst.lastDecision;
+  }
+  const [target] = event.composedPath();
+  const now = Date.now();
+  const timer = setTimeout(() => closeClickBurst(logger, testMode), CLICK_BURST_WINDOW_MS);
+  if (target && (burst == null ? void 0 : burst.target) === target && now - burst.lastClickAt <= CLICK_BURST_WINDOW_MS) {
+    clearTimeout(burst.timer);
+    burst.count += 1;
+    burst.lastClickAt = now;
+    burst.lastEvent = event;
+    burst.lastDecision = { suppress: true, clickCount: burst.count };
+    burst.timer = timer;
+    return burst.lastDecision;
+  }
+  closeClickBurst(logger, testMode);
+  const decision = { suppress: false, clickCount: 1 };
+  const linkClickLabel = getAttribute(
+    findInComposedPath(event, createElementMatcher("a")),
+    COMPONENT_ATTRIBUTES.DAA_LL
+  );
+  setPartnerState("clickBurst", __spreadProps(__spreadValues({
+    target: (_a = target != null ? target : event.target) != null ? _a : window,
+    count: 1,
+    lastClickAt: now,
+    lastEvent: event,
+    lastDecision: decision
+  }, linkClickLabel && { linkClickLabel }), {
+    timer
+  }));
+  if (!getPartnerState("clickBurstPagehideHooked")) {
+    window.addEventListener("pagehide", () => closeClickBurst(logger, testMode));
+    setPartnerState("clickBurstPagehideHooked", true);
+  }
+  return decision;
+}
 
 // src/scripts/callbacks/customDataCollectionOnFilterClickCallback.ts
 function customDataCollectionOnFilterClickCallbackScript(content, event, testMode = false) {
@@ -163,10 +638,34 @@ function customDataCollectionOnFilterClickCallbackScript(content, event, testMod
       if (!isValidUserEvent(event, logger)) {
         return false;
       }
-      if (!isMeaningfulClickEvent(content, logger)) {
+      const profile = resolveSiteProfile();
+      logger.log(`Site profile "${profile.id}"`);
+      const decision = evaluateClickRules(content, event, CLICK_FILTER_RULES, profile);
+      logger.testInfo("Click filter rule trace", decision.trace);
+      if (!decision.allowed) {
+        logger.log(`Click denied by rule "${decision.ruleId}"`);
+        if (testMode) {
+          logger.testResult({
+            shouldProcess: false,
+            reason: `Denied by rule "${decision.ruleId}"`,
+            ruleId: decision.ruleId
+          });
+        }
         return false;
       }
       if (event) {
+        const burst = resolveClickBurst(event, logger, testMode);
+        if (burst.suppress) {
+          logger.log(`Repeated click suppressed (click ${burst.clickCount} in burst)`);
+          if (testMode) {
+            logger.testResult({
+              shouldProcess: false,
+              reason: "Repeated click on the same target",
+              clickCount: burst.clickCount
+            });
+          }
+          return false;
+        }
         logger.log("\u2705 Event is trusted (genuine user click)", {
           isTrusted: event.isTrusted,
           type: event.type
@@ -174,7 +673,8 @@ function customDataCollectionOnFilterClickCallbackScript(content, event, testMod
         if (testMode) {
           logger.testResult({
             shouldProcess: true,
-            reason: "Event is trusted",
+            reason: `Allowed by rule "${decision.ruleId}"`,
+            ruleId: decision.ruleId,
             eventType: event.type,
             isTrusted: event.isTrusted
           });
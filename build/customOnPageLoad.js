@@ -100,6 +100,198 @@ function executeScript(config, execute) {
   }
 }
 
+// src/utils/url.ts
+function matchesHostnamePattern(hostname, pattern) {
+  if (pattern.startsWith("*.")) {
+    return hostname.endsWith(pattern.slice(1));
+  }
+  return hostname === pattern;
+}
+
+// src/utils/piiConfig.ts
+var PII_PATTERNS = [
+  [
+    "urlToken",
+    /([?&#;](?:access_token|id_token|refresh_token|token|auth|code|api_?key|key|password|pwd|session(?:id)?|sid|secret)=)[^&#\s]+/gi
+  ],
+  ["email", /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi],
+  ["cardNumber", /\b(?:\d[ -]?){12,18}\d\b/g],
+  [
+    "phone",
+    /((?:^|[^\w.+-])(?:(?:phone|tel|mobile|cell|fax)\.?[\s:#-]*)?)(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}(?![\w-])/gi
+  ]
+];
+
+// src/utils/searchConfig.ts
+var TERM_PARAMS = ["term", "q", "keyword"];
+var IGNORED_PARAMS = ["utm_source", "utm_medium", "utm_campaign", "filters"];
+var FILTER_TO_XDM_MAP = {
+  "content-type": "searchContentType",
+  functionality: "searchFunctionality",
+  industries: "searchIndustries",
+  industry: "searchIndustries",
+  products: "searchProducts",
+  solutions: "searchSolutions",
+  topic: "searchTopic"
+};
+var SEARCH_PII_PATTERNS = [
+  ...PII_PATTERNS,
+  ["orderNumber", /\b((?:order|ord|po)\.?\s*(?:number|no\.?|#)?[\s#:-]*)\d{8,}\b/gi]
+];
+var SEARCH_SURFACES = [
+  {
+    id: "portal",
+    pathPattern: /\/digitalexperience\/home\/search\//,
+    termParams: TERM_PARAMS,
+    ignoredParams: IGNORED_PARAMS,
+    compoundFilterParam: "filters",
+    filterMap: FILTER_TO_XDM_MAP,
+    sourceLabel: "partner-directory",
+    resultCount: {
+      selector: "[data-results-count], .search-results-count",
+      attribute: "data-results-count",
+      emptySelector: ".search-no-results"
+    }
+  },
+  {
+    id: "exchange",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:search|apps\/browse)(?:\/|$)/,
+    termParams: ["q", "term", "keyword"],
+    strategies: [{ type: "query" }, { type: "pathPattern", pattern: new RegExp("\\/search\\/(?<term>[^/]+)") }],
+    ignoredParams: [...IGNORED_PARAMS, "page", "sort"],
+    filterMap: {
+      products: "searchProducts",
+      industries: "searchIndustries",
+      category: "searchContentType"
+    },
+    sourceLabel: "exchange",
+    resultCount: {
+      selector: '[data-testid="results-count"], .results-count',
+      emptySelector: '[data-testid="no-results"]'
+    },
+    resultItemSelector: '[data-testid="search-result"], .search-result'
+  },
+  {
+    id: "eventsAgenda",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:agenda|sessions)(?:\/|$)/,
+    termParams: ["search", "q", "term"],
+    strategies: [{ type: "query" }, { type: "hashQuery" }, { type: "hashParams" }],
+    ignoredParams: [...IGNORED_PARAMS, "tab", "view"],
+    filterMap: {
+      topic: "searchTopic",
+      products: "searchProducts",
+      industries: "searchIndustries"
+    },
+    sourceLabel: "events-agenda",
+    resultCount: {
+      selector: ".session-results-count",
+      emptySelector: ".no-sessions-found"
+    },
+    resultItemSelector: "[data-session-id], .session-card"
+  }
+];
+var DEFAULT_SEARCH_SURFACE = SEARCH_SURFACES[0];
+
+// src/utils/siteProfileConfig.ts
+var COMMON_ENRICHERS = [
+  "pageName",
+  "siteSection",
+  "spaReferrer",
+  "pageContext",
+  "partnerData",
+  "IMS",
+  "cardCollection",
+  "linkClickLabel",
+  "linkClassification",
+  "consent"
+];
+var SITE_PROFILES = [
+  {
+    // Magento pages are identified by their init scripts (store host varies per environment)
+    id: "magentoStore",
+    match: { selector: 'script[type="text/x-magento-init"]' },
+    enrichers: [...COMMON_ENRICHERS, "Checkout"],
+    monitors: ["cartChange", "purchase", "formInteraction"],
+    searchSurfaces: [],
+    options: {}
+  },
+  {
+    id: "adobeEvents",
+    match: { hostnames: ["*.adobeevents.com"] },
+    enrichers: [...COMMON_ENRICHERS, "eventData", "attendeeData"],
+    monitors: ["searchUrl", "searchClick", "searchAutocomplete", "formInteraction"],
+    searchSurfaces: ["eventsAgenda"],
+    options: {}
+  },
+  {
+    id: "exchange",
+    match: { hostnames: ["exchange.adobe.com"] },
+    enrichers: [...COMMON_ENRICHERS, "publisherData"],
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "spaPublisherName",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["exchange"],
+    options: {}
+  },
+  {
+    id: "partnerPortal",
+    match: { hostnames: ["partners.adobe.com", "solutionpartners.adobe.com"] },
+    enrichers: COMMON_ENRICHERS,
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["portal"],
+    options: {}
+  }
+];
+var DEFAULT_SITE_PROFILE = {
+  id: "default",
+  match: {},
+  enrichers: [...COMMON_ENRICHERS, "Checkout", "publisherData"],
+  monitors: [
+    "searchUrl",
+    "searchClick",
+    "searchAutocomplete",
+    "spaPageViewTitle",
+    "spaPublisherName",
+    "cardImpression",
+    "cartChange",
+    "purchase",
+    "formInteraction"
+  ],
+  searchSurfaces: ["portal", "exchange", "eventsAgenda"],
+  options: {}
+};
+
+// src/utils/siteProfile.ts
+function matchesProfile(match, location) {
+  if (match.hostnames && !match.hostnames.some((pattern) => matchesHostnamePattern(location.hostname, pattern))) {
+    return false;
+  }
+  if (match.pathPattern && !match.pathPattern.test(location.pathname)) {
+    return false;
+  }
+  if (match.selector && !document.querySelector(match.selector)) {
+    return false;
+  }
+  return true;
+}
+function resolveSiteProfile(location = window.location, profiles = SITE_PROFILES) {
+  var _a;
+  return (_a = profiles.find((profile) => matchesProfile(profile.match, location))) != null ? _a : DEFAULT_SITE_PROFILE;
+}
+
 // src/scripts/customOnPageLoad.ts
 function customOnPageLoadScript(testMode = false) {
   return executeScript(
@@ -113,7 +305,8 @@ function customOnPageLoadScript(testMode = false) {
       }
     },
     (logger) => {
-      logger.log("Custom on page load script executed");
+      const profile = resolveSiteProfile();
+      logger.log(`Custom on page load script executed (site profile "${profile.id}")`);
       return null;
     }
   );
@@ -223,10 +223,97 @@ function hasProperty(value, property) {
 var DEFAULT_COOKIE_KEYS = ["partner_data", "partner_info"];
 var EXCHANGE_SESSION_STORAGE_KEY = "adobeid_ims_profile/exchangeweb2/false/AdobeID,additional_info.ownerOrg,additional_info.projectedProductContext,additional_info.roles,adobeio.appregistry.read,adobeio_api,ee.GROUP_ADPEXG,gnav,isv-installation-service.read,isv-installation-service.write,openid,pps.read,read_organizations,service_principals.read,service_principals.write,unified_dev_portal";
 
+// src/utils/consentConfig.ts
+var ADOBE_CONSENT_COOKIE_PATTERN = /^kndctr_.+_AdobeOrg_consent$/;
+var ONETRUST_CONSENT_COOKIE = "OptanonConsent";
+var ONETRUST_GROUP_PURPOSES = {
+  C0001: "necessary",
+  C0002: "analytics",
+  C0003: "functional",
+  C0004: "targeting"
+};
+var GPC_DENIED_PURPOSES = ["targeting"];
+var CONSENT_DEFAULT_GRANTED = true;
+var ENRICHMENT_CATEGORY_PURPOSES = {
+  identity: "targeting",
+  partnerProfile: "targeting",
+  attendee: "targeting",
+  commerce: "analytics",
+  formInteraction: "analytics"
+};
+
+// src/utils/consent.ts
+function readAdobeConsent() {
+  const cookie = document.cookie.split("; ").map((entry) => entry.split("=")).find(([name]) => ADOBE_CONSENT_COOKIE_PATTERN.test(name));
+  if (!cookie) return void 0;
+  const value = decodeURIComponent(cookie.slice(1).join("="));
+  const match = value.match(/general=(in|out|pending)/);
+  return match ? match[1] : void 0;
+}
+function readOneTrustGroups() {
+  const cookie = getCookie(ONETRUST_CONSENT_COOKIE);
+  if (cookie) {
+    const groups = new URLSearchParams(cookie).get("groups");
+    if (groups) {
+      return new Map(
+        groups.split(",").map((entry) => {
+          const [id, state] = entry.split(":");
+          return [id, state === "1"];
+        })
+      );
+    }
+  }
+  const activeGroups = window.OnetrustActiveGroups;
+  if (typeof activeGroups === "string" && activeGroups) {
+    const active = activeGroups.split(",").filter(Boolean);
+    return new Map(Object.keys(ONETRUST_GROUP_PURPOSES).map((id) => [id, active.includes(id)]));
+  }
+  return void 0;
+}
+function readGpc() {
+  return navigator.globalPrivacyControl === true;
+}
+function readConsentSnapshot() {
+  const adobe = readAdobeConsent();
+  const oneTrust = readOneTrustGroups();
+  const gpc = readGpc();
+  const initial = adobe ? adobe === "in" : CONSENT_DEFAULT_GRANTED;
+  const purposes = {
+    necessary: true,
+    analytics: initial,
+    functional: initial,
+    targeting: initial
+  };
+  oneTrust == null ? void 0 : oneTrust.forEach((granted, groupID) => {
+    const purpose = ONETRUST_GROUP_PURPOSES[groupID];
+    if (purpose && purpose !== "necessary") {
+      purposes[purpose] = granted;
+    }
+  });
+  if (gpc) {
+    GPC_DENIED_PURPOSES.forEach((purpose) => {
+      purposes[purpose] = false;
+    });
+  }
+  const skippedCategories = Object.keys(ENRICHMENT_CATEGORY_PURPOSES).filter((category) => !purposes[ENRICHMENT_CATEGORY_PURPOSES[category]]);
+  return {
+    purposes,
+    sources: __spreadProps(__spreadValues(__spreadValues({}, adobe && { adobe }), oneTrust && {
+      oneTrustGroups: Array.from(oneTrust.keys()).filter((id) => oneTrust.get(id))
+    }), {
+      gpc
+    }),
+    skippedCategories
+  };
+}
+function isCategoryAllowed(category, snapshot = readConsentSnapshot()) {
+  return !snapshot.skippedCategories.includes(category);
+}
+
 // src/utils/storage.ts
-function getStorageItem(key) {
+function getStorageItem(key, area = "localStorage") {
   try {
-    const item = localStorage.getItem(key);
+    const item = window[area].getItem(key);
     if (!item) {
       return null;
     }
@@ -236,9 +323,203 @@ function getStorageItem(key) {
   }
 }
 
+// src/utils/url.ts
+function matchesHostnamePattern(hostname, pattern) {
+  if (pattern.startsWith("*.")) {
+    return hostname.endsWith(pattern.slice(1));
+  }
+  return hostname === pattern;
+}
+
+// src/utils/piiConfig.ts
+var PII_PATTERNS = [
+  [
+    "urlToken",
+    /([?&#;](?:access_token|id_token|refresh_token|token|auth|code|api_?key|key|password|pwd|session(?:id)?|sid|secret)=)[^&#\s]+/gi
+  ],
+  ["email", /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi],
+  ["cardNumber", /\b(?:\d[ -]?){12,18}\d\b/g],
+  [
+    "phone",
+    /((?:^|[^\w.+-])(?:(?:phone|tel|mobile|cell|fax)\.?[\s:#-]*)?)(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}(?![\w-])/gi
+  ]
+];
+
+// src/utils/searchConfig.ts
+var TERM_PARAMS = ["term", "q", "keyword"];
+var IGNORED_PARAMS = ["utm_source", "utm_medium", "utm_campaign", "filters"];
+var FILTER_TO_XDM_MAP = {
+  "content-type": "searchContentType",
+  functionality: "searchFunctionality",
+  industries: "searchIndustries",
+  industry: "searchIndustries",
+  products: "searchProducts",
+  solutions: "searchSolutions",
+  topic: "searchTopic"
+};
+var SEARCH_PII_PATTERNS = [
+  ...PII_PATTERNS,
+  ["orderNumber", /\b((?:order|ord|po)\.?\s*(?:number|no\.?|#)?[\s#:-]*)\d{8,}\b/gi]
+];
+var SEARCH_SURFACES = [
+  {
+    id: "portal",
+    pathPattern: /\/digitalexperience\/home\/search\//,
+    termParams: TERM_PARAMS,
+    ignoredParams: IGNORED_PARAMS,
+    compoundFilterParam: "filters",
+    filterMap: FILTER_TO_XDM_MAP,
+    sourceLabel: "partner-directory",
+    resultCount: {
+      selector: "[data-results-count], .search-results-count",
+      attribute: "data-results-count",
+      emptySelector: ".search-no-results"
+    }
+  },
+  {
+    id: "exchange",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:search|apps\/browse)(?:\/|$)/,
+    termParams: ["q", "term", "keyword"],
+    strategies: [{ type: "query" }, { type: "pathPattern", pattern: new RegExp("\\/search\\/(?<term>[^/]+)") }],
+    ignoredParams: [...IGNORED_PARAMS, "page", "sort"],
+    filterMap: {
+      products: "searchProducts",
+      industries: "searchIndustries",
+      category: "searchContentType"
+    },
+    sourceLabel: "exchange",
+    resultCount: {
+      selector: '[data-testid="results-count"], .results-count',
+      emptySelector: '[data-testid="no-results"]'
+    },
+    resultItemSelector: '[data-testid="search-result"], .search-result'
+  },
+  {
+    id: "eventsAgenda",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:agenda|sessions)(?:\/|$)/,
+    termParams: ["search", "q", "term"],
+    strategies: [{ type: "query" }, { type: "hashQuery" }, { type: "hashParams" }],
+    ignoredParams: [...IGNORED_PARAMS, "tab", "view"],
+    filterMap: {
+      topic: "searchTopic",
+      products: "searchProducts",
+      industries: "searchIndustries"
+    },
+    sourceLabel: "events-agenda",
+    resultCount: {
+      selector: ".session-results-count",
+      emptySelector: ".no-sessions-found"
+    },
+    resultItemSelector: "[data-session-id], .session-card"
+  }
+];
+var DEFAULT_SEARCH_SURFACE = SEARCH_SURFACES[0];
+
+// src/utils/siteProfileConfig.ts
+var COMMON_ENRICHERS = [
+  "pageName",
+  "siteSection",
+  "spaReferrer",
+  "pageContext",
+  "partnerData",
+  "IMS",
+  "cardCollection",
+  "linkClickLabel",
+  "linkClassification",
+  "consent"
+];
+var SITE_PROFILES = [
+  {
+    // Magento pages are identified by their init scripts (store host varies per environment)
+    id: "magentoStore",
+    match: { selector: 'script[type="text/x-magento-init"]' },
+    enrichers: [...COMMON_ENRICHERS, "Checkout"],
+    monitors: ["cartChange", "purchase", "formInteraction"],
+    searchSurfaces: [],
+    options: {}
+  },
+  {
+    id: "adobeEvents",
+    match: { hostnames: ["*.adobeevents.com"] },
+    enrichers: [...COMMON_ENRICHERS, "eventData", "attendeeData"],
+    monitors: ["searchUrl", "searchClick", "searchAutocomplete", "formInteraction"],
+    searchSurfaces: ["eventsAgenda"],
+    options: {}
+  },
+  {
+    id: "exchange",
+    match: { hostnames: ["exchange.adobe.com"] },
+    enrichers: [...COMMON_ENRICHERS, "publisherData"],
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "spaPublisherName",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["exchange"],
+    options: {}
+  },
+  {
+    id: "partnerPortal",
+    match: { hostnames: ["partners.adobe.com", "solutionpartners.adobe.com"] },
+    enrichers: COMMON_ENRICHERS,
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["portal"],
+    options: {}
+  }
+];
+var DEFAULT_SITE_PROFILE = {
+  id: "default",
+  match: {},
+  enrichers: [...COMMON_ENRICHERS, "Checkout", "publisherData"],
+  monitors: [
+    "searchUrl",
+    "searchClick",
+    "searchAutocomplete",
+    "spaPageViewTitle",
+    "spaPublisherName",
+    "cardImpression",
+    "cartChange",
+    "purchase",
+    "formInteraction"
+  ],
+  searchSurfaces: ["portal", "exchange", "eventsAgenda"],
+  options: {}
+};
+
+// src/utils/siteProfile.ts
+function matchesProfile(match, location) {
+  if (match.hostnames && !match.hostnames.some((pattern) => matchesHostnamePattern(location.hostname, pattern))) {
+    return false;
+  }
+  if (match.pathPattern && !match.pathPattern.test(location.pathname)) {
+    return false;
+  }
+  if (match.selector && !document.querySelector(match.selector)) {
+    return false;
+  }
+  return true;
+}
+function resolveSiteProfile(location = window.location, profiles = SITE_PROFILES) {
+  var _a;
+  return (_a = profiles.find((profile) => matchesProfile(profile.match, location))) != null ? _a : DEFAULT_SITE_PROFILE;
+}
+
+// src/utils/commerceConfig.ts
+var MAGE_CACHE_STORAGE_KEY = "mage-cache-storage";
+
 // src/scripts/data/extractPartnerData.ts
 var PROPERTIES_TO_REMOVE = ["latestAgreementAcceptedVersion"];
-var MAGE_CACHE_STORAGE_KEY = "mage-cache-storage";
 var SESSION_STORAGE_FIELDS = ["email", "first_name", "last_name"];
 function extractFromCookie(key, logger) {
   return extractData({
@@ -282,6 +563,15 @@ function extractPartnerDataScript(testMode = false, cookieKeys = DEFAULT_COOKIE_
       }
     },
     (logger) => {
+      const profile = resolveSiteProfile();
+      if (!profile.enrichers.includes("partnerData")) {
+        logger.log(`Partner data not enabled for site profile "${profile.id}"`);
+        return null;
+      }
+      if (!isCategoryAllowed("partnerProfile")) {
+        logger.log("No consent for partner profile data, skipping");
+        return null;
+      }
       const sessionData = extractFromSessionStorage(EXCHANGE_SESSION_STORAGE_KEY, logger);
       const mergedData = cookieKeys.reduce(
         (acc, key) => mergeNonNull(acc, extractFromCookie(key, logger)),
@@ -0,0 +1,945 @@
+const TEST_MODE = localStorage.getItem('__aep_scripts_debug') === 'true';
+
+var __defProp = Object.defineProperty;
+var __defProps = Object.defineProperties;
+var __getOwnPropDescs = Object.getOwnPropertyDescriptors;
+var __getOwnPropSymbols = Object.getOwnPropertySymbols;
+var __hasOwnProp = Object.prototype.hasOwnProperty;
+var __propIsEnum = Object.prototype.propertyIsEnumerable;
+var __defNormalProp = (obj, key, value) => key in obj ? __defProp(obj, key, { enumerable: true, configurable: true, writable: true, value }) : obj[key] = value;
+var __spreadValues = (a, b) => {
+  for (var prop in b || (b = {}))
+    if (__hasOwnProp.call(b, prop))
+      __defNormalProp(a, prop, b[prop]);
+  if (__getOwnPropSymbols)
+    for (var prop of __getOwnPropSymbols(b)) {
+      if (__propIsEnum.call(b, prop))
+        __defNormalProp(a, prop, b[prop]);
+    }
+  return a;
+};
+var __spreadProps = (a, b) => __defProps(a, __getOwnPropDescs(b));
+
+// src/utils/logger.ts
+var Logger = class {
+  constructor(prefix, isTestMode) {
+    this.prefix = prefix;
+    this.isTestMode = isTestMode;
+  }
+  get debug() {
+    return this.isTestMode;
+  }
+  log(message, data) {
+    if (this.debug) {
+      console.log(`${this.prefix} ${message}`, data != null ? data : "");
+    }
+  }
+  error(message, data) {
+    console.error(`${this.prefix} ${message}`, data != null ? data : "");
+  }
+  warn(message, data) {
+    console.warn(`${this.prefix} ${message}`, data != null ? data : "");
+  }
+  /**
+   * Prints a test mode header with separator lines
+   * Only outputs if testMode is enabled
+   */
+  testHeader(title, extraInfo) {
+    if (!this.isTestMode) {
+      return;
+    }
+    const separator = "=".repeat(80);
+    console.debug(separator);
+    console.debug(title);
+    console.debug(separator);
+    if (extraInfo !== void 0) {
+      console.debug(extraInfo);
+      console.debug(separator);
+    }
+  }
+  /**
+   * Prints test mode result output with separator lines
+   * Only outputs if testMode is enabled
+   */
+  testResult(result) {
+    if (!this.isTestMode) {
+      return;
+    }
+    const separator = "=".repeat(80);
+    console.debug(separator);
+    console.debug("RESULT:");
+    console.debug(separator);
+    if (typeof result === "string") {
+      console.debug(result);
+    } else {
+      console.debug(JSON.stringify(result, null, 2));
+    }
+    console.debug(separator);
+  }
+  /**
+   * Prints additional test mode info
+   * Only outputs if testMode is enabled
+   */
+  testInfo(message, data) {
+    if (!this.isTestMode) {
+      return;
+    }
+    if (data !== void 0) {
+      console.debug(message, data);
+    } else {
+      console.debug(message);
+    }
+  }
+};
+function createLogger(scriptName, isTestMode) {
+  const prefix = isTestMode ? `[${scriptName} Test]` : `[AEP ${scriptName}]`;
+  return new Logger(prefix, isTestMode);
+}
+
+// src/utils/script.ts
+function executeScript(config, execute) {
+  const logger = createLogger(config.scriptName, config.testMode);
+  try {
+    logger.testHeader(config.testHeaderTitle, config.testHeaderExtraInfo);
+    const result = execute(logger);
+    logger.testResult(result);
+    if (!config.testMode) {
+      if (config.onSuccess) {
+        config.onSuccess(result, logger);
+      } else {
+        logger.log("Script completed successfully", result);
+      }
+    }
+    return result;
+  } catch (error) {
+    if (config.onError) {
+      return config.onError(error, logger);
+    }
+    logger.error("Unexpected error in script:", error);
+    return null;
+  }
+}
+
+// src/utils/events.ts
+function isValidUserEvent(event, logger) {
+  if (!event) {
+    logger == null ? void 0 : logger.log("Event is missing");
+    return false;
+  }
+  if ("isTrusted" in event && !event.isTrusted) {
+    logger == null ? void 0 : logger.log("Event is not trusted (programmatic)");
+    return false;
+  }
+  return true;
+}
+
+// src/utils/dom.ts
+function getAttribute(element, attributeName) {
+  if (!element) {
+    return "";
+  }
+  return element.getAttribute(attributeName) || "";
+}
+function findInComposedPath(event, predicate) {
+  const path = event.composedPath();
+  const element = path.find((item) => item instanceof Element && predicate(item));
+  return element || null;
+}
+
+// src/utils/constants.ts
+var XDM_VARIABLE_NAME = "XDMVariable";
+var XDM_EVENT_FIELDS_CLEAR_DELAY_MS = 500;
+
+// src/utils/object.ts
+function ensureNestedPath(obj, path) {
+  const keys = Array.isArray(path) ? path : path.split(".");
+  let current = obj;
+  keys.forEach((key) => {
+    if (!(key in current) || typeof current[key] !== "object" || current[key] === null) {
+      current[key] = {};
+    }
+    current = current[key];
+  });
+  return current;
+}
+
+// src/utils/satellite.ts
+function getSatelliteVar(name, logger, testMode) {
+  if (window._satellite && typeof window._satellite.getVar === "function") {
+    const value = window._satellite.getVar(name);
+    if (!value) {
+      logger.warn(`Variable "${name}" not found`);
+      return null;
+    }
+    return value;
+  }
+  const message = testMode ? "_satellite.getVar() not available (normal in test mode)" : "_satellite.getVar() not available - ensure AEP Launch is loaded";
+  logger.warn(message);
+  return null;
+}
+function setXdmVariableValues(fields, logger, testMode) {
+  if (fields.some(([path]) => path.length === 0)) {
+    logger.warn("Empty XDM Variable path");
+    return false;
+  }
+  const xdmVar = getSatelliteVar(XDM_VARIABLE_NAME, logger, testMode);
+  if (!xdmVar) {
+    return false;
+  }
+  fields.forEach(([path, value]) => {
+    const parent = ensureNestedPath(xdmVar, path.slice(0, -1));
+    parent[path[path.length - 1]] = value;
+  });
+  logger.log(`Set XDM Variable ${fields.map(([path]) => path.join(".")).join(", ")}`);
+  return true;
+}
+function clearXdmVariableValues(fields, logger, testMode) {
+  const xdmVar = getSatelliteVar(XDM_VARIABLE_NAME, logger, testMode);
+  if (!xdmVar) {
+    return;
+  }
+  fields.forEach(([path, value]) => {
+    const parent = path.slice(0, -1).reduce(
+      (node, key) => node && typeof node === "object" ? node[key] : void 0,
+      xdmVar
+    );
+    const lastKey = path[path.length - 1];
+    if (parent && typeof parent === "object" && lastKey !== void 0) {
+      const record = parent;
+      if (record[lastKey] === value) {
+        delete record[lastKey];
+      }
+    }
+  });
+  logger.log(`Cleared XDM Variable ${fields.map(([path]) => path.join(".")).join(", ")}`);
+}
+function fireSatelliteEvent(eventName, logger, testMode) {
+  if (window._satellite && typeof window._satellite.track === "function") {
+    logger.log(`Triggering _satellite.track("${eventName}")`);
+    window._satellite.track(eventName);
+    return true;
+  }
+  const message = testMode ? "_satellite.track() not available (normal in test mode)" : "_satellite.track() not available - ensure AEP Launch is loaded";
+  logger.warn(message);
+  return false;
+}
+function fireXdmVariableEvent(eventName, fields, logger, testMode) {
+  if (!setXdmVariableValues(fields, logger, testMode)) {
+    return false;
+  }
+  const fired = fireSatelliteEvent(eventName, logger, testMode);
+  setTimeout(
+    () => clearXdmVariableValues(fields, logger, testMode),
+    XDM_EVENT_FIELDS_CLEAR_DELAY_MS
+  );
+  return fired;
+}
+
+// src/utils/globalState.ts
+function ensurePartnerNamespace() {
+  if (!window._adobePartners) {
+    window._adobePartners = {};
+  }
+  return window._adobePartners;
+}
+function getPartnerState(key) {
+  var _a;
+  return (_a = window._adobePartners) == null ? void 0 : _a[key];
+}
+function setPartnerState(key, value) {
+  const ns = ensurePartnerNamespace();
+  ns[key] = value;
+}
+
+// src/utils/cookie.ts
+function getCookie(name) {
+  var _a;
+  const value = `; ${document.cookie}`;
+  const parts = value.split(`; ${name}=`);
+  if (parts.length === 2) {
+    const cookieValue = (_a = parts.pop()) == null ? void 0 : _a.split(";").shift();
+    return cookieValue != null ? cookieValue : null;
+  }
+  return null;
+}
+
+// src/utils/consentConfig.ts
+var ADOBE_CONSENT_COOKIE_PATTERN = /^kndctr_.+_AdobeOrg_consent$/;
+var ONETRUST_CONSENT_COOKIE = "OptanonConsent";
+var ONETRUST_GROUP_PURPOSES = {
+  C0001: "necessary",
+  C0002: "analytics",
+  C0003: "functional",
+  C0004: "targeting"
+};
+var GPC_DENIED_PURPOSES = ["targeting"];
+var CONSENT_DEFAULT_GRANTED = true;
+var ENRICHMENT_CATEGORY_PURPOSES = {
+  identity: "targeting",
+  partnerProfile: "targeting",
+  attendee: "targeting",
+  commerce: "analytics",
+  formInteraction: "analytics"
+};
+
+// src/utils/consent.ts
+function readAdobeConsent() {
+  const cookie = document.cookie.split("; ").map((entry) => entry.split("=")).find(([name]) => ADOBE_CONSENT_COOKIE_PATTERN.test(name));
+  if (!cookie) return void 0;
+  const value = decodeURIComponent(cookie.slice(1).join("="));
+  const match = value.match(/general=(in|out|pending)/);
+  return match ? match[1] : void 0;
+}
+function readOneTrustGroups() {
+  const cookie = getCookie(ONETRUST_CONSENT_COOKIE);
+  if (cookie) {
+    const groups = new URLSearchParams(cookie).get("groups");
+    if (groups) {
+      return new Map(
+        groups.split(",").map((entry) => {
+          const [id, state] = entry.split(":");
+          return [id, state === "1"];
+        })
+      );
+    }
+  }
+  const activeGroups = window.OnetrustActiveGroups;
+  if (typeof activeGroups === "string" && activeGroups) {
+    const active = activeGroups.split(",").filter(Boolean);
+    return new Map(Object.keys(ONETRUST_GROUP_PURPOSES).map((id) => [id, active.includes(id)]));
+  }
+  return void 0;
+}
+function readGpc() {
+  return navigator.globalPrivacyControl === true;
+}
+function readConsentSnapshot() {
+  const adobe = readAdobeConsent();
+  const oneTrust = readOneTrustGroups();
+  const gpc = readGpc();
+  const initial = adobe ? adobe === "in" : CONSENT_DEFAULT_GRANTED;
+  const purposes = {
+    necessary: true,
+    analytics: initial,
+    functional: initial,
+    targeting: initial
+  };
+  oneTrust == null ? void 0 : oneTrust.forEach((granted, groupID) => {
+    const purpose = ONETRUST_GROUP_PURPOSES[groupID];
+    if (purpose && purpose !== "necessary") {
+      purposes[purpose] = granted;
+    }
+  });
+  if (gpc) {
+    GPC_DENIED_PURPOSES.forEach((purpose) => {
+      purposes[purpose] = false;
+    });
+  }
+  const skippedCategories = Object.keys(ENRICHMENT_CATEGORY_PURPOSES).filter((category) => !purposes[ENRICHMENT_CATEGORY_PURPOSES[category]]);
+  return {
+    purposes,
+    sources: __spreadProps(__spreadValues(__spreadValues({}, adobe && { adobe }), oneTrust && {
+      oneTrustGroups: Array.from(oneTrust.keys()).filter((id) => oneTrust.get(id))
+    }), {
+      gpc
+    }),
+    skippedCategories
+  };
+}
+function isCategoryAllowed(category, snapshot = readConsentSnapshot()) {
+  return !snapshot.skippedCategories.includes(category);
+}
+
+// src/utils/customEvent.ts
+function dispatchCustomEvent(eventName, detail) {
+  try {
+    const event = new CustomEvent(eventName, {
+      detail,
+      bubbles: true,
+      cancelable: false
+    });
+    window.dispatchEvent(event);
+    return true;
+  } catch (error) {
+    console.error(`Failed to dispatch ${eventName} event:`, error);
+    return false;
+  }
+}
+
+// src/utils/navigationConfig.ts
+var NAVIGATION_CHANGE_EVENT = "partnersNavigationChanged";
+
+// src/utils/navigationMonitor.ts
+var NAVIGATION_API_TYPES = {
+  push: "push",
+  replace: "replace",
+  traverse: "pop",
+  reload: "replace"
+};
+function classifyNavigation(type, oldUrl, newUrl) {
+  if (oldUrl === newUrl) return "same";
+  if (oldUrl.split("#")[0] === newUrl.split("#")[0]) return "hash";
+  return type;
+}
+function notify(state, type, oldUrl, source, logger) {
+  const newUrl = window.location.href;
+  const change = {
+    type: classifyNavigation(type, oldUrl, newUrl),
+    oldUrl,
+    newUrl,
+    source,
+    timestamp: Date.now()
+  };
+  state.lastUrl = newUrl;
+  logger.log(`Navigation (${change.type}) ${oldUrl} \u2192 ${newUrl}`);
+  dispatchCustomEvent(NAVIGATION_CHANGE_EVENT, change);
+  const { pathname } = window.location;
+  state.subscribers.forEach((subscriber) => {
+    if (subscriber.routes && !subscriber.routes.some((route) => route.test(pathname))) {
+      return;
+    }
+    try {
+      subscriber.onNavigate(change);
+    } catch (error) {
+      logger.error(`Navigation subscriber "${subscriber.id}" failed:`, error);
+    }
+  });
+}
+function listenToNavigationApi(navigation, state, logger) {
+  const onEntryChange = (event) => {
+    var _a, _b;
+    const { navigationType, from } = event;
+    const type = (_a = NAVIGATION_API_TYPES[navigationType != null ? navigationType : "push"]) != null ? _a : "push";
+    notify(state, type, (_b = from == null ? void 0 : from.url) != null ? _b : state.lastUrl, "navigationApi", logger);
+  };
+  navigation.addEventListener("currententrychange", onEntryChange);
+  return () => navigation.removeEventListener("currententrychange", onEntryChange);
+}
+function hookHistory(state, logger) {
+  const { history } = window;
+  const originalPushState = history.pushState;
+  const originalReplaceState = history.replaceState;
+  let active = true;
+  const hook = (original, type) => function historyHook(...args) {
+    const oldUrl = window.location.href;
+    original.apply(this, args);
+    if (active) {
+      notify(state, type, oldUrl, "history", logger);
+    }
+  };
+  const pushStateHook = hook(originalPushState, "push");
+  const replaceStateHook = hook(originalReplaceState, "replace");
+  history.pushState = pushStateHook;
+  history.replaceState = replaceStateHook;
+  const onPopState = () => notify(state, "pop", state.lastUrl, "history", logger);
+  const onHashChange = (event) => {
+    if (window.location.href === state.lastUrl) return;
+    notify(state, "pop", event.oldURL, "history", logger);
+  };
+  window.addEventListener("popstate", onPopState, { passive: true });
+  window.addEventListener("hashchange", onHashChange, { passive: true });
+  return () => {
+    active = false;
+    window.removeEventListener("popstate", onPopState);
+    window.removeEventListener("hashchange", onHashChange);
+    if (history.pushState === pushStateHook) {
+      history.pushState = originalPushState;
+    } else {
+      logger.warn("history.pushState was wrapped after the navigation monitor, left in place");
+    }
+    if (history.replaceState === replaceStateHook) {
+      history.replaceState = originalReplaceState;
+    } else {
+      logger.warn("history.replaceState was wrapped after the navigation monitor, left in place");
+    }
+  };
+}
+function installNavigationMonitor(testMode = false) {
+  const existing = getPartnerState("navigationMonitor");
+  if (existing) {
+    return existing;
+  }
+  const logger = createLogger("Navigation Monitor", testMode);
+  const state = {
+    subscribers: [],
+    lastUrl: window.location.href,
+    uninstall: () => {
+    }
+  };
+  const { navigation } = window;
+  const teardown = navigation ? listenToNavigationApi(navigation, state, logger) : hookHistory(state, logger);
+  state.uninstall = () => {
+    teardown();
+    state.subscribers = [];
+    setPartnerState("navigationMonitor", void 0);
+    logger.log("Navigation monitor uninstalled");
+  };
+  setPartnerState("navigationMonitor", state);
+  logger.log(`Navigation monitor installed (${navigation ? "Navigation API" : "History API"})`);
+  return state;
+}
+function subscribeToNavigation(subscriber, logger, testMode = false) {
+  const state = installNavigationMonitor(testMode);
+  state.subscribers = [
+    ...state.subscribers.filter((existing) => existing.id !== subscriber.id),
+    subscriber
+  ];
+  logger.log(`Navigation subscriber "${subscriber.id}" registered`);
+  return () => {
+    state.subscribers = state.subscribers.filter((existing) => existing !== subscriber);
+  };
+}
+
+// src/utils/formInteractionConfig.ts
+var FORM_INTERACTION_COMMIT_EVENT = "formInteractionCommit";
+var FORM_INTERACTION_XDM_PATH = ["_adobepartners", "formInteraction"];
+var FORM_EXCLUDE_SELECTOR = 'form[role="search"], form#search_mini_form, [data-aep-form-ignore]';
+var FORM_FIELD_SELECTOR = "input, select, textarea";
+var IGNORED_INPUT_TYPES = ["hidden", "submit", "button", "reset", "image"];
+var FORM_ID_ATTRIBUTES = ["id", "name", "data-form-id", "aria-label"];
+var FIELD_ID_ATTRIBUTES = ["name", "id", "aria-label"];
+var FORM_ERROR_SELECTOR = 'div.mage-error, .field-error, [aria-invalid="true"]';
+var FORM_SUBMIT_BUTTON_SELECTOR = 'button:not([type]), button[type="submit"], input[type="submit"], input[type="image"]';
+var MAX_TRACKED_FIELDS = 50;
+
+// src/utils/formTracker.ts
+function firstAttribute(element, attributes) {
+  let value = "";
+  attributes.some((attribute) => {
+    value = getAttribute(element, attribute).trim();
+    return value !== "";
+  });
+  return value;
+}
+function getEventField(event) {
+  const [origin] = event.composedPath();
+  if (!(origin instanceof Element) || !origin.matches(FORM_FIELD_SELECTOR)) {
+    return null;
+  }
+  const field = origin;
+  if (field instanceof HTMLInputElement && IGNORED_INPUT_TYPES.includes(field.type)) {
+    return null;
+  }
+  if (!field.form || field.form.matches(FORM_EXCLUDE_SELECTOR)) {
+    return null;
+  }
+  return field;
+}
+function getFieldID(field) {
+  const id = firstAttribute(field, FIELD_ID_ATTRIBUTES);
+  if (id) return id;
+  const index = field.form ? Array.from(field.form.elements).indexOf(field) : -1;
+  return `field_${index}`;
+}
+function getFormID(form) {
+  return firstAttribute(form, FORM_ID_ATTRIBUTES) || `form_${Array.from(document.forms).indexOf(form)}`;
+}
+function getFormActionPath(form) {
+  try {
+    return new URL(form.action || window.location.href).pathname;
+  } catch (e) {
+    return "";
+  }
+}
+function getFieldType(field) {
+  return field instanceof HTMLInputElement ? field.type : field.tagName.toLowerCase();
+}
+function installFormTracker(logger, testMode) {
+  const sessions = /* @__PURE__ */ new Map();
+  const stopFocusTimer = (session) => {
+    if (!session.focus) return;
+    const entry = session.fields.get(session.focus.field);
+    if (entry) {
+      entry.timeSpentMs += Date.now() - session.focus.since;
+    }
+    session.focus = void 0;
+  };
+  const touchField = (session, field) => {
+    const fieldID = getFieldID(field);
+    let entry = session.fields.get(fieldID);
+    if (!entry) {
+      if (session.fields.size >= MAX_TRACKED_FIELDS) return null;
+      entry = {
+        field: fieldID,
+        fieldType: getFieldType(field),
+        order: session.fields.size + 1,
+        timeSpentMs: 0,
+        errorCount: 0
+      };
+      session.fields.set(fieldID, entry);
+    }
+    session.lastField = fieldID;
+    return entry;
+  };
+  const endSession = (session, outcome, abandonTrigger) => {
+    stopFocusTimer(session);
+    sessions.delete(session.form);
+    const fields = Array.from(session.fields.values());
+    const data = __spreadProps(__spreadValues({
+      formID: getFormID(session.form),
+      formAction: getFormActionPath(session.form),
+      outcome
+    }, abandonTrigger && { abandonTrigger }), {
+      durationMs: Date.now() - session.startedAt,
+      fieldOrder: fields.map((entry) => entry.field),
+      lastField: session.lastField,
+      fieldsTouched: fields.length,
+      fields,
+      validationErrorCount: session.validationErrorCount,
+      submitAttempts: session.submitAttempts
+    });
+    if (!isCategoryAllowed("formInteraction")) {
+      logger.log(`No consent for "formInteraction", form ${data.formID} ${outcome} not sent`);
+      return;
+    }
+    setPartnerState("formInteraction", data);
+    fireXdmVariableEvent(
+      FORM_INTERACTION_COMMIT_EVENT,
+      [[FORM_INTERACTION_XDM_PATH, data]],
+      logger,
+      testMode
+    );
+    logger.log(`Form ${data.formID} ${outcome}`, data);
+  };
+  const abandonAll = (trigger) => {
+    Array.from(sessions.values()).forEach((session) => endSession(session, "abandon", trigger));
+  };
+  const onInput = (event) => {
+    if (!isValidUserEvent(event)) return;
+    const field = getEventField(event);
+    if (!(field == null ? void 0 : field.form)) return;
+    let session = sessions.get(field.form);
+    if (!session) {
+      session = {
+        form: field.form,
+        startedAt: Date.now(),
+        fields: /* @__PURE__ */ new Map(),
+        lastField: "",
+        validationErrorCount: 0,
+        submitAttempts: 0,
+        attemptCounted: false
+      };
+      sessions.set(field.form, session);
+      logger.log(`Form started: ${getFormID(field.form)}`);
+    }
+    const fieldID = getFieldID(field);
+    const isNew = !session.fields.has(fieldID);
+    touchField(session, field);
+    if (isNew && !session.focus) {
+      session.focus = { field: fieldID, since: Date.now() };
+    }
+  };
+  const onFocusIn = (event) => {
+    const field = getEventField(event);
+    const session = (field == null ? void 0 : field.form) ? sessions.get(field.form) : void 0;
+    if (!field || !session) return;
+    stopFocusTimer(session);
+    if (touchField(session, field)) {
+      session.focus = { field: getFieldID(field), since: Date.now() };
+    }
+  };
+  const onFocusOut = (event) => {
+    const field = getEventField(event);
+    const session = (field == null ? void 0 : field.form) ? sessions.get(field.form) : void 0;
+    if (session) stopFocusTimer(session);
+  };
+  const onInvalid = (event) => {
+    const field = getEventField(event);
+    const session = (field == null ? void 0 : field.form) ? sessions.get(field.form) : void 0;
+    if (!field || !session) return;
+    const entry = touchField(session, field);
+    if (entry) entry.errorCount += 1;
+    session.validationErrorCount += 1;
+  };
+  const countAttempt = (form) => {
+    const session = form ? sessions.get(form) : void 0;
+    if (!session || session.attemptCounted) return;
+    session.submitAttempts += 1;
+    session.attemptCounted = true;
+    setTimeout(() => {
+      session.attemptCounted = false;
+    }, 0);
+  };
+  const onClick = (event) => {
+    if (!isValidUserEvent(event)) return;
+    const button = findInComposedPath(
+      event,
+      (element) => element.matches(FORM_SUBMIT_BUTTON_SELECTOR)
+    );
+    if (button && !button.disabled) countAttempt(button.form);
+  };
+  const onKeydown = (event) => {
+    if (!isValidUserEvent(event) || event.key !== "Enter") return;
+    const field = getEventField(event);
+    if (field instanceof HTMLInputElement) countAttempt(field.form);
+  };
+  const onSubmit = (event) => {
+    if (!(event.target instanceof HTMLFormElement)) return;
+    const session = sessions.get(event.target);
+    if (!session) return;
+    if (!session.attemptCounted) session.submitAttempts += 1;
+    session.attemptCounted = false;
+    const errors = session.form.querySelectorAll(FORM_ERROR_SELECTOR).length;
+    if (errors) {
+      session.validationErrorCount += errors;
+      logger.log(`Submit blocked by ${errors} validation errors`);
+      return;
+    }
+    endSession(session, "submit");
+  };
+  const onNavigation = ({ oldUrl, newUrl }) => {
+    if (new URL(oldUrl).pathname === new URL(newUrl).pathname) return;
+    abandonAll("navigation");
+  };
+  document.addEventListener("input", onInput, true);
+  document.addEventListener("change", onInput, true);
+  document.addEventListener("focusin", onFocusIn, true);
+  document.addEventListener("focusout", onFocusOut, true);
+  document.addEventListener("invalid", onInvalid, true);
+  document.addEventListener("click", onClick, true);
+  document.addEventListener("keydown", onKeydown, true);
+  document.addEventListener("submit", onSubmit);
+  window.addEventListener("pagehide", () => abandonAll("pagehide"));
+  subscribeToNavigation({ id: "formAbandon", onNavigate: onNavigation }, logger, testMode);
+  logger.log("Form tracker installed");
+}
+
+// src/utils/url.ts
+function matchesHostnamePattern(hostname, pattern) {
+  if (pattern.startsWith("*.")) {
+    return hostname.endsWith(pattern.slice(1));
+  }
+  return hostname === pattern;
+}
+
+// src/utils/piiConfig.ts
+var PII_PATTERNS = [
+  [
+    "urlToken",
+    /([?&#;](?:access_token|id_token|refresh_token|token|auth|code|api_?key|key|password|pwd|session(?:id)?|sid|secret)=)[^&#\s]+/gi
+  ],
+  ["email", /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi],
+  ["cardNumber", /\b(?:\d[ -]?){12,18}\d\b/g],
+  [
+    "phone",
+    /((?:^|[^\w.+-])(?:(?:phone|tel|mobile|cell|fax)\.?[\s:#-]*)?)(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}(?![\w-])/gi
+  ]
+];
+
+// src/utils/searchConfig.ts
+var TERM_PARAMS = ["term", "q", "keyword"];
+var IGNORED_PARAMS = ["utm_source", "utm_medium", "utm_campaign", "filters"];
+var FILTER_TO_XDM_MAP = {
+  "content-type": "searchContentType",
+  functionality: "searchFunctionality",
+  industries: "searchIndustries",
+  industry: "searchIndustries",
+  products: "searchProducts",
+  solutions: "searchSolutions",
+  topic: "searchTopic"
+};
+var SEARCH_PII_PATTERNS = [
+  ...PII_PATTERNS,
+  ["orderNumber", /\b((?:order|ord|po)\.?\s*(?:number|no\.?|#)?[\s#:-]*)\d{8,}\b/gi]
+];
+var SEARCH_SURFACES = [
+  {
+    id: "portal",
+    pathPattern: /\/digitalexperience\/home\/search\//,
+    termParams: TERM_PARAMS,
+    ignoredParams: IGNORED_PARAMS,
+    compoundFilterParam: "filters",
+    filterMap: FILTER_TO_XDM_MAP,
+    sourceLabel: "partner-directory",
+    resultCount: {
+      selector: "[data-results-count], .search-results-count",
+      attribute: "data-results-count",
+      emptySelector: ".search-no-results"
+    }
+  },
+  {
+    id: "exchange",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:search|apps\/browse)(?:\/|$)/,
+    termParams: ["q", "term", "keyword"],
+    strategies: [{ type: "query" }, { type: "pathPattern", pattern: new RegExp("\\/search\\/(?<term>[^/]+)") }],
+    ignoredParams: [...IGNORED_PARAMS, "page", "sort"],
+    filterMap: {
+      products: "searchProducts",
+      industries: "searchIndustries",
+      category: "searchContentType"
+    },
+    sourceLabel: "exchange",
+    resultCount: {
+      selector: '[data-testid="results-count"], .results-count',
+      emptySelector: '[data-testid="no-results"]'
+    },
+    resultItemSelector: '[data-testid="search-result"], .search-result'
+  },
+  {
+    id: "eventsAgenda",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:agenda|sessions)(?:\/|$)/,
+    termParams: ["search", "q", "term"],
+    strategies: [{ type: "query" }, { type: "hashQuery" }, { type: "hashParams" }],
+    ignoredParams: [...IGNORED_PARAMS, "tab", "view"],
+    filterMap: {
+      topic: "searchTopic",
+      products: "searchProducts",
+      industries: "searchIndustries"
+    },
+    sourceLabel: "events-agenda",
+    resultCount: {
+      selector: ".session-results-count",
+      emptySelector: ".no-sessions-found"
+    },
+    resultItemSelector: "[data-session-id], .session-card"
+  }
+];
+var DEFAULT_SEARCH_SURFACE = SEARCH_SURFACES[0];
+
+// src/utils/siteProfileConfig.ts
+var COMMON_ENRICHERS = [
+  "pageName",
+  "siteSection",
+  "spaReferrer",
+  "pageContext",
+  "partnerData",
+  "IMS",
+  "cardCollection",
+  "linkClickLabel",
+  "linkClassification",
+  "consent"
+];
+var SITE_PROFILES = [
+  {
+    // Magento pages are identified by their init scripts (store host varies per environment)
+    id: "magentoStore",
+    match: { selector: 'script[type="text/x-magento-init"]' },
+    enrichers: [...COMMON_ENRICHERS, "Checkout"],
+    monitors: ["cartChange", "purchase", "formInteraction"],
+    searchSurfaces: [],
+    options: {}
+  },
+  {
+    id: "adobeEvents",
+    match: { hostnames: ["*.adobeevents.com"] },
+    enrichers: [...COMMON_ENRICHERS, "eventData", "attendeeData"],
+    monitors: ["searchUrl", "searchClick", "searchAutocomplete", "formInteraction"],
+    searchSurfaces: ["eventsAgenda"],
+    options: {}
+  },
+  {
+    id: "exchange",
+    match: { hostnames: ["exchange.adobe.com"] },
+    enrichers: [...COMMON_ENRICHERS, "publisherData"],
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "spaPublisherName",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["exchange"],
+    options: {}
+  },
+  {
+    id: "partnerPortal",
+    match: { hostnames: ["partners.adobe.com", "solutionpartners.adobe.com"] },
+    enrichers: COMMON_ENRICHERS,
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["portal"],
+    options: {}
+  }
+];
+var DEFAULT_SITE_PROFILE = {
+  id: "default",
+  match: {},
+  enrichers: [...COMMON_ENRICHERS, "Checkout", "publisherData"],
+  monitors: [
+    "searchUrl",
+    "searchClick",
+    "searchAutocomplete",
+    "spaPageViewTitle",
+    "spaPublisherName",
+    "cardImpression",
+    "cartChange",
+    "purchase",
+    "formInteraction"
+  ],
+  searchSurfaces: ["portal", "exchange", "eventsAgenda"],
+  options: {}
+};
+
+// src/utils/siteProfile.ts
+function matchesProfile(match, location) {
+  if (match.hostnames && !match.hostnames.some((pattern) => matchesHostnamePattern(location.hostname, pattern))) {
+    return false;
+  }
+  if (match.pathPattern && !match.pathPattern.test(location.pathname)) {
+    return false;
+  }
+  if (match.selector && !document.querySelector(match.selector)) {
+    return false;
+  }
+  return true;
+}
+function resolveSiteProfile(location = window.location, profiles = SITE_PROFILES) {
+  var _a;
+  return (_a = profiles.find((profile) => matchesProfile(profile.match, location))) != null ? _a : DEFAULT_SITE_PROFILE;
+}
+
+// src/scripts/forms/formInteractionMonitor.ts
+function formInteractionMonitorScript(testMode = false) {
+  return executeScript(
+    {
+      scriptName: "Form Interaction Monitor",
+      testMode,
+      testHeaderTitle: "FORM INTERACTION MONITOR - TEST MODE",
+      onError: (error, logger) => {
+        logger.error("Error installing form tracker:", error);
+        return {
+          success: false,
+          message: "Failed to install form tracker",
+          alreadyHooked: false
+        };
+      }
+    },
+    (logger) => {
+      const profile = resolveSiteProfile();
+      if (!profile.monitors.includes("formInteraction")) {
+        logger.log(`Form interaction monitor not enabled for site profile "${profile.id}"`);
+        return {
+          success: false,
+          message: `Not enabled for site profile "${profile.id}"`,
+          alreadyHooked: false
+        };
+      }
+      if (getPartnerState("formTrackerHooked")) {
+        logger.log("Form tracker already installed");
+        return {
+          success: true,
+          message: "Form tracker already installed",
+          alreadyHooked: true
+        };
+      }
+      installFormTracker(logger, testMode);
+      setPartnerState("formTrackerHooked", true);
+      return {
+        success: true,
+        message: "Form tracker installed",
+        alreadyHooked: false
+      };
+    }
+  );
+}
+
+
+return formInteractionMonitorScript(TEST_MODE);
\ No newline at end of file
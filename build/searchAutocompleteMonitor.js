@@ -0,0 +1,509 @@
+const TEST_MODE = localStorage.getItem('__aep_scripts_debug') === 'true';
+
+// src/utils/logger.ts
+var Logger = class {
+  constructor(prefix, isTestMode) {
+    this.prefix = prefix;
+    this.isTestMode = isTestMode;
+  }
+  get debug() {
+    return this.isTestMode;
+  }
+  log(message, data) {
+    if (this.debug) {
+      console.log(`${this.prefix} ${message}`, data != null ? data : "");
+    }
+  }
+  error(message, data) {
+    console.error(`${this.prefix} ${message}`, data != null ? data : "");
+  }
+  warn(message, data) {
+    console.warn(`${this.prefix} ${message}`, data != null ? data : "");
+  }
+  /**
+   * Prints a test mode header with separator lines
+   * Only outputs if testMode is enabled
+   */
+  testHeader(title, extraInfo) {
+    if (!this.isTestMode) {
+      return;
+    }
+    const separator = "=".repeat(80);
+    console.debug(separator);
+    console.debug(title);
+    console.debug(separator);
+    if (extraInfo !== void 0) {
+      console.debug(extraInfo);
+      console.debug(separator);
+    }
+  }
+  /**
+   * Prints test mode result output with separator lines
+   * Only outputs if testMode is enabled
+   */
+  testResult(result) {
+    if (!this.isTestMode) {
+      return;
+    }
+    const separator = "=".repeat(80);
+    console.debug(separator);
+    console.debug("RESULT:");
+    console.debug(separator);
+    if (typeof result === "string") {
+      console.debug(result);
+    } else {
+      console.debug(JSON.stringify(result, null, 2));
+    }
+    console.debug(separator);
+  }
+  /**
+   * Prints additional test mode info
+   * Only outputs if testMode is enabled
+   */
+  testInfo(message, data) {
+    if (!this.isTestMode) {
+      return;
+    }
+    if (data !== void 0) {
+      console.debug(message, data);
+    } else {
+      console.debug(message);
+    }
+  }
+};
+function createLogger(scriptName, isTestMode) {
+  const prefix = isTestMode ? `[${scriptName} Test]` : `[AEP ${scriptName}]`;
+  return new Logger(prefix, isTestMode);
+}
+
+// src/utils/script.ts
+function executeScript(config, execute) {
+  const logger = createLogger(config.scriptName, config.testMode);
+  try {
+    logger.testHeader(config.testHeaderTitle, config.testHeaderExtraInfo);
+    const result = execute(logger);
+    logger.testResult(result);
+    if (!config.testMode) {
+      if (config.onSuccess) {
+        config.onSuccess(result, logger);
+      } else {
+        logger.log("Script completed successfully", result);
+      }
+    }
+    return result;
+  } catch (error) {
+    if (config.onError) {
+      return config.onError(error, logger);
+    }
+    logger.error("Unexpected error in script:", error);
+    return null;
+  }
+}
+
+// src/utils/events.ts
+function isValidUserEvent(event, logger) {
+  if (!event) {
+    logger == null ? void 0 : logger.log("Event is missing");
+    return false;
+  }
+  if ("isTrusted" in event && !event.isTrusted) {
+    logger == null ? void 0 : logger.log("Event is not trusted (programmatic)");
+    return false;
+  }
+  return true;
+}
+
+// src/utils/dom.ts
+function getTextContent(element) {
+  var _a;
+  if (!element) {
+    return "";
+  }
+  return ((_a = element.textContent) == null ? void 0 : _a.trim()) || "";
+}
+function findInComposedPath(event, predicate) {
+  const path = event.composedPath();
+  const element = path.find((item) => item instanceof Element && predicate(item));
+  return element || null;
+}
+function querySelectorAllDeep(root, selector) {
+  const results = [];
+  const walk = (node) => {
+    results.push(...Array.from(node.querySelectorAll(selector)));
+    const { shadowRoot } = node;
+    if (shadowRoot) {
+      walk(shadowRoot);
+    }
+    node.querySelectorAll("*").forEach((child) => {
+      if (child.shadowRoot) {
+        walk(child.shadowRoot);
+      }
+    });
+  };
+  walk(root);
+  return results;
+}
+
+// src/utils/storage.ts
+function setStorageItem(key, value, area = "localStorage") {
+  try {
+    window[area].setItem(key, JSON.stringify(value));
+    return true;
+  } catch (error) {
+    console.error(`Failed to set storage item ${key}:`, error);
+    return false;
+  }
+}
+
+// src/utils/searchAutocompleteConfig.ts
+var SEARCH_AUTOCOMPLETE_SELECTORS = [
+  {
+    id: "combobox",
+    input: 'input[role="combobox"], input[type="search"]',
+    suggestion: '[role="listbox"] [role="option"]',
+    recentSuggestion: '[data-suggestion-type="recent"], .recent-search',
+    activeSuggestion: '[role="option"][aria-selected="true"]'
+  }
+];
+var SEARCH_AUTOCOMPLETE_STORAGE_KEY = "__aep_search_autocomplete";
+var SEARCH_AUTOCOMPLETE_MAX_AGE_MS = 60 * 1e3;
+var MAX_AUTOCOMPLETE_TEXT_LENGTH = 100;
+
+// src/utils/searchAutocompleteTracker.ts
+function clipText(text) {
+  return text.replace(/\s+/g, " ").trim().slice(0, MAX_AUTOCOMPLETE_TEXT_LENGTH);
+}
+function getShownSuggestions(selectors) {
+  return querySelectorAllDeep(document, selectors.suggestion).filter(
+    (element) => element.getClientRects().length > 0
+  );
+}
+function findConfigured(event, selectors, pick) {
+  let found = null;
+  selectors.some((config) => {
+    const element = findInComposedPath(event, (candidate) => candidate.matches(pick(config)));
+    if (element) {
+      found = { config, element };
+    }
+    return !!element;
+  });
+  return found;
+}
+function installSearchAutocompleteTracker(logger, selectors = SEARCH_AUTOCOMPLETE_SELECTORS) {
+  let typedPrefix = "";
+  const save = (data, term) => {
+    const pending = { data, term, capturedAt: Date.now() };
+    setStorageItem(SEARCH_AUTOCOMPLETE_STORAGE_KEY, pending, "sessionStorage");
+    logger.log(`Search autocomplete captured (${data.searchMethod})`, pending);
+  };
+  const saveSuggestion = (config, suggestion) => {
+    const shown = getShownSuggestions(config);
+    const text = clipText(getTextContent(suggestion));
+    const isRecent = !!config.recentSuggestion && !!suggestion.closest(config.recentSuggestion);
+    save(
+      {
+        searchMethod: isRecent ? "recent" : "suggestion",
+        typedPrefix,
+        suggestionsShown: shown.length,
+        selectedSuggestion: text,
+        selectedPosition: shown.indexOf(suggestion) + 1
+      },
+      text
+    );
+  };
+  const handleInput = (event) => {
+    if (!isValidUserEvent(event)) return;
+    const match = findConfigured(event, selectors, (config) => config.input);
+    if (match && match.element instanceof HTMLInputElement) {
+      typedPrefix = clipText(match.element.value);
+    }
+  };
+  const handleClick = (event) => {
+    if (!isValidUserEvent(event)) return;
+    const match = findConfigured(event, selectors, (config) => config.suggestion);
+    if (match) {
+      saveSuggestion(match.config, match.element);
+    }
+  };
+  const handleKeydown = (event) => {
+    if (!isValidUserEvent(event) || event.key !== "Enter") return;
+    const match = findConfigured(event, selectors, (config) => config.input);
+    if (!match || !(match.element instanceof HTMLInputElement)) return;
+    const [active] = querySelectorAllDeep(document, match.config.activeSuggestion);
+    if (active) {
+      saveSuggestion(match.config, active);
+      return;
+    }
+    const term = clipText(match.element.value);
+    if (!term) return;
+    save(
+      {
+        searchMethod: "typed",
+        typedPrefix: term,
+        suggestionsShown: getShownSuggestions(match.config).length
+      },
+      term
+    );
+  };
+  const options = { capture: true, passive: true };
+  document.addEventListener("input", handleInput, options);
+  document.addEventListener("click", handleClick, options);
+  document.addEventListener("keydown", handleKeydown, options);
+  logger.log(`Search autocomplete listeners installed (${selectors.length} search box configs)`);
+}
+
+// src/utils/globalState.ts
+function ensurePartnerNamespace() {
+  if (!window._adobePartners) {
+    window._adobePartners = {};
+  }
+  return window._adobePartners;
+}
+function getPartnerState(key) {
+  var _a;
+  return (_a = window._adobePartners) == null ? void 0 : _a[key];
+}
+function setPartnerState(key, value) {
+  const ns = ensurePartnerNamespace();
+  ns[key] = value;
+}
+
+// src/utils/url.ts
+function matchesHostnamePattern(hostname, pattern) {
+  if (pattern.startsWith("*.")) {
+    return hostname.endsWith(pattern.slice(1));
+  }
+  return hostname === pattern;
+}
+
+// src/utils/piiConfig.ts
+var PII_PATTERNS = [
+  [
+    "urlToken",
+    /([?&#;](?:access_token|id_token|refresh_token|token|auth|code|api_?key|key|password|pwd|session(?:id)?|sid|secret)=)[^&#\s]+/gi
+  ],
+  ["email", /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi],
+  ["cardNumber", /\b(?:\d[ -]?){12,18}\d\b/g],
+  [
+    "phone",
+    /((?:^|[^\w.+-])(?:(?:phone|tel|mobile|cell|fax)\.?[\s:#-]*)?)(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}(?![\w-])/gi
+  ]
+];
+
+// src/utils/searchConfig.ts
+var TERM_PARAMS = ["term", "q", "keyword"];
+var IGNORED_PARAMS = ["utm_source", "utm_medium", "utm_campaign", "filters"];
+var FILTER_TO_XDM_MAP = {
+  "content-type": "searchContentType",
+  functionality: "searchFunctionality",
+  industries: "searchIndustries",
+  industry: "searchIndustries",
+  products: "searchProducts",
+  solutions: "searchSolutions",
+  topic: "searchTopic"
+};
+var SEARCH_PII_PATTERNS = [
+  ...PII_PATTERNS,
+  ["orderNumber", /\b((?:order|ord|po)\.?\s*(?:number|no\.?|#)?[\s#:-]*)\d{8,}\b/gi]
+];
+var SEARCH_SURFACES = [
+  {
+    id: "portal",
+    pathPattern: /\/digitalexperience\/home\/search\//,
+    termParams: TERM_PARAMS,
+    ignoredParams: IGNORED_PARAMS,
+    compoundFilterParam: "filters",
+    filterMap: FILTER_TO_XDM_MAP,
+    sourceLabel: "partner-directory",
+    resultCount: {
+      selector: "[data-results-count], .search-results-count",
+      attribute: "data-results-count",
+      emptySelector: ".search-no-results"
+    }
+  },
+  {
+    id: "exchange",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:search|apps\/browse)(?:\/|$)/,
+    termParams: ["q", "term", "keyword"],
+    strategies: [{ type: "query" }, { type: "pathPattern", pattern: new RegExp("\\/search\\/(?<term>[^/]+)") }],
+    ignoredParams: [...IGNORED_PARAMS, "page", "sort"],
+    filterMap: {
+      products: "searchProducts",
+      industries: "searchIndustries",
+      category: "searchContentType"
+    },
+    sourceLabel: "exchange",
+    resultCount: {
+      selector: '[data-testid="results-count"], .results-count',
+      emptySelector: '[data-testid="no-results"]'
+    },
+    resultItemSelector: '[data-testid="search-result"], .search-result'
+  },
+  {
+    id: "eventsAgenda",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:agenda|sessions)(?:\/|$)/,
+    termParams: ["search", "q", "term"],
+    strategies: [{ type: "query" }, { type: "hashQuery" }, { type: "hashParams" }],
+    ignoredParams: [...IGNORED_PARAMS, "tab", "view"],
+    filterMap: {
+      topic: "searchTopic",
+      products: "searchProducts",
+      industries: "searchIndustries"
+    },
+    sourceLabel: "events-agenda",
+    resultCount: {
+      selector: ".session-results-count",
+      emptySelector: ".no-sessions-found"
+    },
+    resultItemSelector: "[data-session-id], .session-card"
+  }
+];
+var DEFAULT_SEARCH_SURFACE = SEARCH_SURFACES[0];
+
+// src/utils/siteProfileConfig.ts
+var COMMON_ENRICHERS = [
+  "pageName",
+  "siteSection",
+  "spaReferrer",
+  "pageContext",
+  "partnerData",
+  "IMS",
+  "cardCollection",
+  "linkClickLabel",
+  "linkClassification",
+  "consent"
+];
+var SITE_PROFILES = [
+  {
+    // Magento pages are identified by their init scripts (store host varies per environment)
+    id: "magentoStore",
+    match: { selector: 'script[type="text/x-magento-init"]' },
+    enrichers: [...COMMON_ENRICHERS, "Checkout"],
+    monitors: ["cartChange", "purchase", "formInteraction"],
+    searchSurfaces: [],
+    options: {}
+  },
+  {
+    id: "adobeEvents",
+    match: { hostnames: ["*.adobeevents.com"] },
+    enrichers: [...COMMON_ENRICHERS, "eventData", "attendeeData"],
+    monitors: ["searchUrl", "searchClick", "searchAutocomplete", "formInteraction"],
+    searchSurfaces: ["eventsAgenda"],
+    options: {}
+  },
+  {
+    id: "exchange",
+    match: { hostnames: ["exchange.adobe.com"] },
+    enrichers: [...COMMON_ENRICHERS, "publisherData"],
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "spaPublisherName",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["exchange"],
+    options: {}
+  },
+  {
+    id: "partnerPortal",
+    match: { hostnames: ["partners.adobe.com", "solutionpartners.adobe.com"] },
+    enrichers: COMMON_ENRICHERS,
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["portal"],
+    options: {}
+  }
+];
+var DEFAULT_SITE_PROFILE = {
+  id: "default",
+  match: {},
+  enrichers: [...COMMON_ENRICHERS, "Checkout", "publisherData"],
+  monitors: [
+    "searchUrl",
+    "searchClick",
+    "searchAutocomplete",
+    "spaPageViewTitle",
+    "spaPublisherName",
+    "cardImpression",
+    "cartChange",
+    "purchase",
+    "formInteraction"
+  ],
+  searchSurfaces: ["portal", "exchange", "eventsAgenda"],
+  options: {}
+};
+
+// src/utils/siteProfile.ts
+function matchesProfile(match, location) {
+  if (match.hostnames && !match.hostnames.some((pattern) => matchesHostnamePattern(location.hostname, pattern))) {
+    return false;
+  }
+  if (match.pathPattern && !match.pathPattern.test(location.pathname)) {
+    return false;
+  }
+  if (match.selector && !document.querySelector(match.selector)) {
+    return false;
+  }
+  return true;
+}
+function resolveSiteProfile(location = window.location, profiles = SITE_PROFILES) {
+  var _a;
+  return (_a = profiles.find((profile) => matchesProfile(profile.match, location))) != null ? _a : DEFAULT_SITE_PROFILE;
+}
+
+// src/scripts/search/searchAutocompleteMonitor.ts
+function searchAutocompleteMonitorScript(testMode = false) {
+  return executeScript(
+    {
+      scriptName: "Search Autocomplete Monitor",
+      testMode,
+      testHeaderTitle: "SEARCH AUTOCOMPLETE MONITOR - TEST MODE",
+      onError: (error, logger) => {
+        logger.error("Error installing search autocomplete tracker:", error);
+        return {
+          success: false,
+          message: "Failed to install search autocomplete tracker",
+          alreadyHooked: false
+        };
+      }
+    },
+    (logger) => {
+      const profile = resolveSiteProfile();
+      if (!profile.monitors.includes("searchAutocomplete")) {
+        logger.log(`Search autocomplete monitor not enabled for site profile "${profile.id}"`);
+        return {
+          success: false,
+          message: `Not enabled for site profile "${profile.id}"`,
+          alreadyHooked: false
+        };
+      }
+      if (getPartnerState("searchAutocompleteMonitorHooked")) {
+        logger.log("Search autocomplete tracker already installed");
+        return {
+          success: true,
+          message: "Search autocomplete tracker already installed",
+          alreadyHooked: true
+        };
+      }
+      installSearchAutocompleteTracker(logger);
+      setPartnerState("searchAutocompleteMonitorHooked", true);
+      return {
+        success: true,
+        message: "Search autocomplete tracker installed",
+        alreadyHooked: false
+      };
+    }
+  );
+}
+
+
+return searchAutocompleteMonitorScript(TEST_MODE);
\ No newline at end of file
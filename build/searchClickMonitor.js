@@ -0,0 +1,759 @@
+const TEST_MODE = localStorage.getItem('__aep_scripts_debug') === 'true';
+
+var __defProp = Object.defineProperty;
+var __defProps = Object.defineProperties;
+var __getOwnPropDescs = Object.getOwnPropertyDescriptors;
+var __getOwnPropSymbols = Object.getOwnPropertySymbols;
+var __hasOwnProp = Object.prototype.hasOwnProperty;
+var __propIsEnum = Object.prototype.propertyIsEnumerable;
+var __defNormalProp = (obj, key, value) => key in obj ? __defProp(obj, key, { enumerable: true, configurable: true, writable: true, value }) : obj[key] = value;
+var __spreadValues = (a, b) => {
+  for (var prop in b || (b = {}))
+    if (__hasOwnProp.call(b, prop))
+      __defNormalProp(a, prop, b[prop]);
+  if (__getOwnPropSymbols)
+    for (var prop of __getOwnPropSymbols(b)) {
+      if (__propIsEnum.call(b, prop))
+        __defNormalProp(a, prop, b[prop]);
+    }
+  return a;
+};
+var __spreadProps = (a, b) => __defProps(a, __getOwnPropDescs(b));
+
+// src/utils/logger.ts
+var Logger = class {
+  constructor(prefix, isTestMode) {
+    this.prefix = prefix;
+    this.isTestMode = isTestMode;
+  }
+  get debug() {
+    return this.isTestMode;
+  }
+  log(message, data) {
+    if (this.debug) {
+      console.log(`${this.prefix} ${message}`, data != null ? data : "");
+    }
+  }
+  error(message, data) {
+    console.error(`${this.prefix} ${message}`, data != null ? data : "");
+  }
+  warn(message, data) {
+    console.warn(`${this.prefix} ${message}`, data != null ? data : "");
+  }
+  /**
+   * Prints a test mode header with separator lines
+   * Only outputs if testMode is enabled
+   */
+  testHeader(title, extraInfo) {
+    if (!this.isTestMode) {
+      return;
+    }
+    const separator = "=".repeat(80);
+    console.debug(separator);
+    console.debug(title);
+    console.debug(separator);
+    if (extraInfo !== void 0) {
+      console.debug(extraInfo);
+      console.debug(separator);
+    }
+  }
+  /**
+   * Prints test mode result output with separator lines
+   * Only outputs if testMode is enabled
+   */
+  testResult(result) {
+    if (!this.isTestMode) {
+      return;
+    }
+    const separator = "=".repeat(80);
+    console.debug(separator);
+    console.debug("RESULT:");
+    console.debug(separator);
+    if (typeof result === "string") {
+      console.debug(result);
+    } else {
+      console.debug(JSON.stringify(result, null, 2));
+    }
+    console.debug(separator);
+  }
+  /**
+   * Prints additional test mode info
+   * Only outputs if testMode is enabled
+   */
+  testInfo(message, data) {
+    if (!this.isTestMode) {
+      return;
+    }
+    if (data !== void 0) {
+      console.debug(message, data);
+    } else {
+      console.debug(message);
+    }
+  }
+};
+function createLogger(scriptName, isTestMode) {
+  const prefix = isTestMode ? `[${scriptName} Test]` : `[AEP ${scriptName}]`;
+  return new Logger(prefix, isTestMode);
+}
+
+// src/utils/script.ts
+function executeScript(config, execute) {
+  const logger = createLogger(config.scriptName, config.testMode);
+  try {
+    logger.testHeader(config.testHeaderTitle, config.testHeaderExtraInfo);
+    const result = execute(logger);
+    logger.testResult(result);
+    if (!config.testMode) {
+      if (config.onSuccess) {
+        config.onSuccess(result, logger);
+      } else {
+        logger.log("Script completed successfully", result);
+      }
+    }
+    return result;
+  } catch (error) {
+    if (config.onError) {
+      return config.onError(error, logger);
+    }
+    logger.error("Unexpected error in script:", error);
+    return null;
+  }
+}
+
+// src/utils/events.ts
+function isValidUserEvent(event, logger) {
+  if (!event) {
+    logger == null ? void 0 : logger.log("Event is missing");
+    return false;
+  }
+  if ("isTrusted" in event && !event.isTrusted) {
+    logger == null ? void 0 : logger.log("Event is not trusted (programmatic)");
+    return false;
+  }
+  return true;
+}
+
+// src/utils/dom.ts
+function splitAndGet(value, delimiter, index) {
+  if (!value || index < 0) {
+    return "";
+  }
+  const parts = value.split(delimiter).map((part) => part.trim());
+  return parts[index] || "";
+}
+function getAttribute(element, attributeName) {
+  if (!element) {
+    return "";
+  }
+  return element.getAttribute(attributeName) || "";
+}
+function getTextContent(element) {
+  var _a;
+  if (!element) {
+    return "";
+  }
+  return ((_a = element.textContent) == null ? void 0 : _a.trim()) || "";
+}
+function queryShadow(element, selector) {
+  if (!element) {
+    return null;
+  }
+  const { shadowRoot } = element;
+  if (!shadowRoot) {
+    return null;
+  }
+  return shadowRoot.querySelector(selector);
+}
+function findInComposedPath(event, predicate) {
+  const path = event.composedPath();
+  const element = path.find((item) => item instanceof Element && predicate(item));
+  return element || null;
+}
+function createElementMatcher(tagName, className) {
+  return (element) => {
+    if (tagName && element.tagName.toLowerCase() === tagName.toLowerCase()) {
+      return true;
+    }
+    if (className && element.classList.contains(className)) {
+      return true;
+    }
+    return false;
+  };
+}
+function extractStructuredAttribute(element, attributeName, delimiter, indices) {
+  const attrValue = getAttribute(element, attributeName);
+  if (!attrValue) {
+    return {};
+  }
+  const result = {};
+  Object.entries(indices).forEach(([key, index]) => {
+    const value = splitAndGet(attrValue, delimiter, index);
+    if (value) {
+      result[key] = value;
+    }
+  });
+  return result;
+}
+function querySelectorAllDeep(root, selector) {
+  const results = [];
+  const walk = (node) => {
+    results.push(...Array.from(node.querySelectorAll(selector)));
+    const { shadowRoot } = node;
+    if (shadowRoot) {
+      walk(shadowRoot);
+    }
+    node.querySelectorAll("*").forEach((child) => {
+      if (child.shadowRoot) {
+        walk(child.shadowRoot);
+      }
+    });
+  };
+  walk(root);
+  return results;
+}
+
+// src/utils/componentExtractorConfig.ts
+var COMPONENT_ATTRIBUTES = {
+  DAA_LH: "daa-lh",
+  DAA_LL: "daa-ll"
+};
+var DAA_LH_DELIMITER = "|";
+var COMPONENT_EXTRACTORS = [
+  {
+    id: "partner-card",
+    contentType: "partner_card",
+    host: { tagName: "single-partner-card", className: "card-wrapper" },
+    wrapper: { className: "dx-card-collection-wrapper" },
+    selectors: {
+      title: ".card-title",
+      cta: "a",
+      filterContext: ".partner-cards"
+    },
+    daaLhIndices: {
+      position: 0,
+      contentID: 2
+    }
+  }
+];
+
+// src/utils/componentExtractor.ts
+function createMatcherFromConfig(matcher) {
+  return createElementMatcher(matcher.tagName, matcher.className);
+}
+function extractWrapperContext(wrapper, definition, logger) {
+  if (!wrapper.parentElement) {
+    logger.warn("Wrapper has no parent element, sectionID will be empty");
+  }
+  const sectionID = getAttribute(wrapper.parentElement, COMPONENT_ATTRIBUTES.DAA_LH);
+  const filterElement = queryShadow(wrapper, definition.selectors.filterContext);
+  const filterContext = getAttribute(filterElement, COMPONENT_ATTRIBUTES.DAA_LH);
+  if (!sectionID) {
+    logger.warn("Wrapper missing sectionID (parent daa-lh attribute)");
+  }
+  return { sectionID, filterContext };
+}
+function extractComponentCtxFromElement(hostElement, definition, wrapperContext, logger) {
+  if (!hostElement) {
+    logger.error("Component element is required");
+    return null;
+  }
+  const metadata = extractStructuredAttribute(
+    hostElement,
+    COMPONENT_ATTRIBUTES.DAA_LH,
+    DAA_LH_DELIMITER,
+    definition.daaLhIndices
+  );
+  const cardTitle = getTextContent(queryShadow(hostElement, definition.selectors.title));
+  if (!cardTitle) {
+    logger.error(`[${definition.id}] Title not found in shadow DOM`);
+    return null;
+  }
+  const ctaText = getAttribute(
+    queryShadow(hostElement, definition.selectors.cta),
+    COMPONENT_ATTRIBUTES.DAA_LL
+  );
+  const result = {
+    cardTitle,
+    contentID: metadata.contentID || "",
+    contentType: definition.contentType,
+    ctaText,
+    filterContext: wrapperContext.filterContext,
+    name: cardTitle,
+    position: metadata.position || "",
+    sectionID: wrapperContext.sectionID
+  };
+  logger.log(`[${definition.id}] Extracted component context`, result);
+  return result;
+}
+function extractComponentCtxFromEvent(event, logger, extractors = COMPONENT_EXTRACTORS) {
+  logger.log("Extracting component metadata from event.composedPath()");
+  let result = null;
+  extractors.some((definition) => {
+    const hostElement = findInComposedPath(event, createMatcherFromConfig(definition.host));
+    if (!hostElement) {
+      return false;
+    }
+    logger.log(`[${definition.id}] Found host element in composed path`, hostElement);
+    const wrapper = findInComposedPath(event, createMatcherFromConfig(definition.wrapper));
+    if (!wrapper) {
+      logger.log(`[${definition.id}] No wrapper found in composed path`);
+      return false;
+    }
+    logger.log(`[${definition.id}] Found wrapper element in composed path`, wrapper);
+    const wrapperContext = extractWrapperContext(wrapper, definition, logger);
+    result = extractComponentCtxFromElement(hostElement, definition, wrapperContext, logger);
+    if (!result) {
+      logger.warn(`[${definition.id}] Failed to extract component context`);
+    }
+    return true;
+  });
+  if (!result) {
+    logger.log("Event did not occur within a registered component");
+  }
+  return result;
+}
+
+// src/utils/constants.ts
+var XDM_VARIABLE_NAME = "XDMVariable";
+var XDM_EVENT_FIELDS_CLEAR_DELAY_MS = 500;
+
+// src/utils/object.ts
+function ensureNestedPath(obj, path) {
+  const keys = Array.isArray(path) ? path : path.split(".");
+  let current = obj;
+  keys.forEach((key) => {
+    if (!(key in current) || typeof current[key] !== "object" || current[key] === null) {
+      current[key] = {};
+    }
+    current = current[key];
+  });
+  return current;
+}
+
+// src/utils/satellite.ts
+function getSatelliteVar(name, logger, testMode) {
+  if (window._satellite && typeof window._satellite.getVar === "function") {
+    const value = window._satellite.getVar(name);
+    if (!value) {
+      logger.warn(`Variable "${name}" not found`);
+      return null;
+    }
+    return value;
+  }
+  const message = testMode ? "_satellite.getVar() not available (normal in test mode)" : "_satellite.getVar() not available - ensure AEP Launch is loaded";
+  logger.warn(message);
+  return null;
+}
+function setXdmVariableValues(fields, logger, testMode) {
+  if (fields.some(([path]) => path.length === 0)) {
+    logger.warn("Empty XDM Variable path");
+    return false;
+  }
+  const xdmVar = getSatelliteVar(XDM_VARIABLE_NAME, logger, testMode);
+  if (!xdmVar) {
+    return false;
+  }
+  fields.forEach(([path, value]) => {
+    const parent = ensureNestedPath(xdmVar, path.slice(0, -1));
+    parent[path[path.length - 1]] = value;
+  });
+  logger.log(`Set XDM Variable ${fields.map(([path]) => path.join(".")).join(", ")}`);
+  return true;
+}
+function clearXdmVariableValues(fields, logger, testMode) {
+  const xdmVar = getSatelliteVar(XDM_VARIABLE_NAME, logger, testMode);
+  if (!xdmVar) {
+    return;
+  }
+  fields.forEach(([path, value]) => {
+    const parent = path.slice(0, -1).reduce(
+      (node, key) => node && typeof node === "object" ? node[key] : void 0,
+      xdmVar
+    );
+    const lastKey = path[path.length - 1];
+    if (parent && typeof parent === "object" && lastKey !== void 0) {
+      const record = parent;
+      if (record[lastKey] === value) {
+        delete record[lastKey];
+      }
+    }
+  });
+  logger.log(`Cleared XDM Variable ${fields.map(([path]) => path.join(".")).join(", ")}`);
+}
+function fireSatelliteEvent(eventName, logger, testMode) {
+  if (window._satellite && typeof window._satellite.track === "function") {
+    logger.log(`Triggering _satellite.track("${eventName}")`);
+    window._satellite.track(eventName);
+    return true;
+  }
+  const message = testMode ? "_satellite.track() not available (normal in test mode)" : "_satellite.track() not available - ensure AEP Launch is loaded";
+  logger.warn(message);
+  return false;
+}
+function fireXdmVariableEvent(eventName, fields, logger, testMode) {
+  if (!setXdmVariableValues(fields, logger, testMode)) {
+    return false;
+  }
+  const fired = fireSatelliteEvent(eventName, logger, testMode);
+  setTimeout(
+    () => clearXdmVariableValues(fields, logger, testMode),
+    XDM_EVENT_FIELDS_CLEAR_DELAY_MS
+  );
+  return fired;
+}
+
+// src/utils/globalState.ts
+function ensurePartnerNamespace() {
+  if (!window._adobePartners) {
+    window._adobePartners = {};
+  }
+  return window._adobePartners;
+}
+function getPartnerState(key) {
+  var _a;
+  return (_a = window._adobePartners) == null ? void 0 : _a[key];
+}
+function setPartnerState(key, value) {
+  const ns = ensurePartnerNamespace();
+  ns[key] = value;
+}
+
+// src/utils/url.ts
+function matchesHostnamePattern(hostname, pattern) {
+  if (pattern.startsWith("*.")) {
+    return hostname.endsWith(pattern.slice(1));
+  }
+  return hostname === pattern;
+}
+
+// src/utils/piiConfig.ts
+var PII_PATTERNS = [
+  [
+    "urlToken",
+    /([?&#;](?:access_token|id_token|refresh_token|token|auth|code|api_?key|key|password|pwd|session(?:id)?|sid|secret)=)[^&#\s]+/gi
+  ],
+  ["email", /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi],
+  ["cardNumber", /\b(?:\d[ -]?){12,18}\d\b/g],
+  [
+    "phone",
+    /((?:^|[^\w.+-])(?:(?:phone|tel|mobile|cell|fax)\.?[\s:#-]*)?)(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}(?![\w-])/gi
+  ]
+];
+
+// src/utils/searchConfig.ts
+var TERM_PARAMS = ["term", "q", "keyword"];
+var IGNORED_PARAMS = ["utm_source", "utm_medium", "utm_campaign", "filters"];
+var FILTER_TO_XDM_MAP = {
+  "content-type": "searchContentType",
+  functionality: "searchFunctionality",
+  industries: "searchIndustries",
+  industry: "searchIndustries",
+  products: "searchProducts",
+  solutions: "searchSolutions",
+  topic: "searchTopic"
+};
+var SEARCH_PII_PATTERNS = [
+  ...PII_PATTERNS,
+  ["orderNumber", /\b((?:order|ord|po)\.?\s*(?:number|no\.?|#)?[\s#:-]*)\d{8,}\b/gi]
+];
+var SEARCH_SURFACES = [
+  {
+    id: "portal",
+    pathPattern: /\/digitalexperience\/home\/search\//,
+    termParams: TERM_PARAMS,
+    ignoredParams: IGNORED_PARAMS,
+    compoundFilterParam: "filters",
+    filterMap: FILTER_TO_XDM_MAP,
+    sourceLabel: "partner-directory",
+    resultCount: {
+      selector: "[data-results-count], .search-results-count",
+      attribute: "data-results-count",
+      emptySelector: ".search-no-results"
+    }
+  },
+  {
+    id: "exchange",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:search|apps\/browse)(?:\/|$)/,
+    termParams: ["q", "term", "keyword"],
+    strategies: [{ type: "query" }, { type: "pathPattern", pattern: new RegExp("\\/search\\/(?<term>[^/]+)") }],
+    ignoredParams: [...IGNORED_PARAMS, "page", "sort"],
+    filterMap: {
+      products: "searchProducts",
+      industries: "searchIndustries",
+      category: "searchContentType"
+    },
+    sourceLabel: "exchange",
+    resultCount: {
+      selector: '[data-testid="results-count"], .results-count',
+      emptySelector: '[data-testid="no-results"]'
+    },
+    resultItemSelector: '[data-testid="search-result"], .search-result'
+  },
+  {
+    id: "eventsAgenda",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:agenda|sessions)(?:\/|$)/,
+    termParams: ["search", "q", "term"],
+    strategies: [{ type: "query" }, { type: "hashQuery" }, { type: "hashParams" }],
+    ignoredParams: [...IGNORED_PARAMS, "tab", "view"],
+    filterMap: {
+      topic: "searchTopic",
+      products: "searchProducts",
+      industries: "searchIndustries"
+    },
+    sourceLabel: "events-agenda",
+    resultCount: {
+      selector: ".session-results-count",
+      emptySelector: ".no-sessions-found"
+    },
+    resultItemSelector: "[data-session-id], .session-card"
+  }
+];
+var DEFAULT_SEARCH_SURFACE = SEARCH_SURFACES[0];
+
+// src/utils/siteProfileConfig.ts
+var COMMON_ENRICHERS = [
+  "pageName",
+  "siteSection",
+  "spaReferrer",
+  "pageContext",
+  "partnerData",
+  "IMS",
+  "cardCollection",
+  "linkClickLabel",
+  "linkClassification",
+  "consent"
+];
+var SITE_PROFILES = [
+  {
+    // Magento pages are identified by their init scripts (store host varies per environment)
+    id: "magentoStore",
+    match: { selector: 'script[type="text/x-magento-init"]' },
+    enrichers: [...COMMON_ENRICHERS, "Checkout"],
+    monitors: ["cartChange", "purchase", "formInteraction"],
+    searchSurfaces: [],
+    options: {}
+  },
+  {
+    id: "adobeEvents",
+    match: { hostnames: ["*.adobeevents.com"] },
+    enrichers: [...COMMON_ENRICHERS, "eventData", "attendeeData"],
+    monitors: ["searchUrl", "searchClick", "searchAutocomplete", "formInteraction"],
+    searchSurfaces: ["eventsAgenda"],
+    options: {}
+  },
+  {
+    id: "exchange",
+    match: { hostnames: ["exchange.adobe.com"] },
+    enrichers: [...COMMON_ENRICHERS, "publisherData"],
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "spaPublisherName",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["exchange"],
+    options: {}
+  },
+  {
+    id: "partnerPortal",
+    match: { hostnames: ["partners.adobe.com", "solutionpartners.adobe.com"] },
+    enrichers: COMMON_ENRICHERS,
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["portal"],
+    options: {}
+  }
+];
+var DEFAULT_SITE_PROFILE = {
+  id: "default",
+  match: {},
+  enrichers: [...COMMON_ENRICHERS, "Checkout", "publisherData"],
+  monitors: [
+    "searchUrl",
+    "searchClick",
+    "searchAutocomplete",
+    "spaPageViewTitle",
+    "spaPublisherName",
+    "cardImpression",
+    "cartChange",
+    "purchase",
+    "formInteraction"
+  ],
+  searchSurfaces: ["portal", "exchange", "eventsAgenda"],
+  options: {}
+};
+
+// src/utils/siteProfile.ts
+function matchesProfile(match, location) {
+  if (match.hostnames && !match.hostnames.some((pattern) => matchesHostnamePattern(location.hostname, pattern))) {
+    return false;
+  }
+  if (match.pathPattern && !match.pathPattern.test(location.pathname)) {
+    return false;
+  }
+  if (match.selector && !document.querySelector(match.selector)) {
+    return false;
+  }
+  return true;
+}
+function resolveSiteProfile(location = window.location, profiles = SITE_PROFILES) {
+  var _a;
+  return (_a = profiles.find((profile) => matchesProfile(profile.match, location))) != null ? _a : DEFAULT_SITE_PROFILE;
+}
+function resolveSearchSurface(pathname = window.location.pathname, profile = resolveSiteProfile()) {
+  var _a;
+  return (_a = SEARCH_SURFACES.find(
+    (surface) => profile.searchSurfaces.includes(surface.id) && surface.pathPattern.test(pathname)
+  )) != null ? _a : null;
+}
+
+// src/utils/searchClickConfig.ts
+var SEARCH_CLICK_COMMIT_EVENT = "searchClickThrough";
+var SEARCH_CLICK_XDM_PATH = ["_adobepartners", "searchClickThrough"];
+var SEARCH_CLICK_MAX_AGE_MS = 30 * 60 * 1e3;
+var SEARCH_CLICK_REPEAT_WINDOW_MS = 2e3;
+var RESULT_CONTENT_ID_ATTRIBUTES = [
+  "data-content-id",
+  "data-id",
+  "data-session-id"
+];
+
+// src/utils/searchClickTracker.ts
+function findClickedResult(event, surface, logger) {
+  const link = findInComposedPath(
+    event,
+    (element) => element instanceof HTMLAnchorElement && !!element.href
+  );
+  const { resultItemSelector } = surface;
+  const item = resultItemSelector ? findInComposedPath(event, (element) => element.matches(resultItemSelector)) : null;
+  const itemPosition = item && resultItemSelector ? querySelectorAllDeep(document, resultItemSelector).indexOf(item) + 1 : 0;
+  const ctx = extractComponentCtxFromEvent(event, logger);
+  if (ctx) {
+    const position = Number.parseInt(ctx.position, 10) || itemPosition;
+    if (position < 1) {
+      logger.log(`Search result card "${ctx.cardTitle}" has no position, click not attributed`);
+      return null;
+    }
+    return __spreadValues({
+      resultPosition: position,
+      resultContentID: ctx.contentID || ctx.cardTitle,
+      resultType: "card"
+    }, link && { resultUrl: link.href });
+  }
+  if (!item || !link || itemPosition < 1) {
+    return null;
+  }
+  let contentID = "";
+  RESULT_CONTENT_ID_ATTRIBUTES.some((attribute) => {
+    contentID = getAttribute(item, attribute).trim();
+    return contentID !== "";
+  });
+  return {
+    resultPosition: itemPosition,
+    resultContentID: contentID || new URL(link.href).pathname,
+    resultType: "link",
+    resultUrl: link.href
+  };
+}
+function isRepeatedClick(searchKey, position, now) {
+  var _a;
+  const last = getPartnerState("searchClickThrough");
+  const lastClickAt = (_a = getPartnerState("searchClickThroughAt")) != null ? _a : 0;
+  const isSameResult = (last == null ? void 0 : last.searchKey) === searchKey && last.resultPosition === position;
+  setPartnerState("searchClickThroughAt", now);
+  return isSameResult && now - lastClickAt <= SEARCH_CLICK_REPEAT_WINDOW_MS;
+}
+function installSearchClickTracker(logger, testMode) {
+  const handleClick = (event) => {
+    if (!isValidUserEvent(event)) return;
+    const search = getPartnerState("lastSearchCommit");
+    if (!search) return;
+    const timeSinceSearchMs = Date.now() - search.committedAt;
+    if (timeSinceSearchMs > SEARCH_CLICK_MAX_AGE_MS) return;
+    const surface = resolveSearchSurface();
+    if (!surface || surface.id !== search.surface) return;
+    const result = findClickedResult(event, surface, logger);
+    if (!result) return;
+    if (isRepeatedClick(search.searchKey, result.resultPosition, Date.now())) {
+      logger.log(`Repeated click on result ${result.resultPosition}, not sent`);
+      return;
+    }
+    const clickThrough = __spreadProps(__spreadValues({
+      searchTerm: search.term,
+      searchSurface: search.surfaceLabel,
+      searchKey: search.searchKey
+    }, result), {
+      timeSinceSearchMs
+    });
+    setPartnerState("searchClickThrough", clickThrough);
+    fireXdmVariableEvent(
+      SEARCH_CLICK_COMMIT_EVENT,
+      [[SEARCH_CLICK_XDM_PATH, clickThrough]],
+      logger,
+      testMode
+    );
+    logger.log(
+      `Search click-through: "${search.term}" position ${result.resultPosition}`,
+      clickThrough
+    );
+  };
+  document.addEventListener("click", handleClick, { capture: true, passive: true });
+  logger.log("Search click-through listener installed");
+}
+
+// src/scripts/search/searchClickMonitor.ts
+function searchClickMonitorScript(testMode = false) {
+  return executeScript(
+    {
+      scriptName: "Search Click Monitor",
+      testMode,
+      testHeaderTitle: "SEARCH CLICK MONITOR - TEST MODE",
+      onError: (error, logger) => {
+        logger.error("Error installing search click tracker:", error);
+        return {
+          success: false,
+          message: "Failed to install search click tracker",
+          alreadyHooked: false
+        };
+      }
+    },
+    (logger) => {
+      const profile = resolveSiteProfile();
+      if (!profile.monitors.includes("searchClick")) {
+        logger.log(`Search click monitor not enabled for site profile "${profile.id}"`);
+        return {
+          success: false,
+          message: `Not enabled for site profile "${profile.id}"`,
+          alreadyHooked: false
+        };
+      }
+      if (getPartnerState("searchClickMonitorHooked")) {
+        logger.log("Search click tracker already installed");
+        return {
+          success: true,
+          message: "Search click tracker already installed",
+          alreadyHooked: true
+        };
+      }
+      installSearchClickTracker(logger, testMode);
+      setPartnerState("searchClickMonitorHooked", true);
+      return {
+        success: true,
+        message: "Search click tracker installed",
+        alreadyHooked: false
+      };
+    }
+  );
+}
+
+
+return searchClickMonitorScript(TEST_MODE);
\ No newline at end of file
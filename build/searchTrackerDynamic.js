@@ -100,6 +100,22 @@ function executeScript(config, execute) {
   }
 }
 
+// src/utils/piiConfig.ts
+var PII_PATTERNS = [
+  [
+    "urlToken",
+    /([?&#;](?:access_token|id_token|refresh_token|token|auth|code|api_?key|key|password|pwd|session(?:id)?|sid|secret)=)[^&#\s]+/gi
+  ],
+  ["email", /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi],
+  ["cardNumber", /\b(?:\d[ -]?){12,18}\d\b/g],
+  [
+    "phone",
+    /((?:^|[^\w.+-])(?:(?:phone|tel|mobile|cell|fax)\.?[\s:#-]*)?)(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}(?![\w-])/gi
+  ]
+];
+var PHONE_DIGITS_RANGE = [10, 15];
+var PII_HASH_LENGTH = 10;
+
 // src/utils/searchConfig.ts
 var TERM_PARAMS = ["term", "q", "keyword"];
 var IGNORED_PARAMS = ["utm_source", "utm_medium", "utm_campaign", "filters"];
@@ -107,12 +123,149 @@ var MIN_TERM_LENGTH = 2;
 var DEBOUNCE_DELAY = 300;
 var MAX_TERM_LENGTH = 500;
 var MAX_FILTER_PARAMS = 50;
+var MAX_COMPOUND_FILTER_LENGTH = 4e3;
+var MAX_COMPOUND_FILTER_TAGS = 100;
 var MAX_FILTER_VALUE_LENGTH = 1e3;
 var SEARCH_TRACKING_EVENT = "searchCommit";
 var SEARCH_SOURCES = {
   ENTRY: "entry",
   DYNAMIC: "url"
 };
+var FILTER_TO_XDM_MAP = {
+  "content-type": "searchContentType",
+  functionality: "searchFunctionality",
+  industries: "searchIndustries",
+  industry: "searchIndustries",
+  products: "searchProducts",
+  solutions: "searchSolutions",
+  topic: "searchTopic"
+};
+var SEARCH_PII_PATTERNS = [
+  ...PII_PATTERNS,
+  ["orderNumber", /\b((?:order|ord|po)\.?\s*(?:number|no\.?|#)?[\s#:-]*)\d{8,}\b/gi]
+];
+var SEARCH_PII_ACTIONS = {
+  email: "mask",
+  phone: "mask",
+  cardNumber: "mask",
+  urlToken: "mask",
+  orderNumber: "mask"
+};
+var RESULT_COUNT_TIMEOUT_MS = 3e3;
+var RESULT_COUNT_POLL_INTERVAL_MS = 250;
+var DEFAULT_SEARCH_URL_STRATEGIES = [{ type: "query" }];
+var SEARCH_SURFACES = [
+  {
+    id: "portal",
+    pathPattern: /\/digitalexperience\/home\/search\//,
+    termParams: TERM_PARAMS,
+    ignoredParams: IGNORED_PARAMS,
+    compoundFilterParam: "filters",
+    filterMap: FILTER_TO_XDM_MAP,
+    sourceLabel: "partner-directory",
+    resultCount: {
+      selector: "[data-results-count], .search-results-count",
+      attribute: "data-results-count",
+      emptySelector: ".search-no-results"
+    }
+  },
+  {
+    id: "exchange",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:search|apps\/browse)(?:\/|$)/,
+    termParams: ["q", "term", "keyword"],
+    strategies: [{ type: "query" }, { type: "pathPattern", pattern: new RegExp("\\/search\\/(?<term>[^/]+)") }],
+    ignoredParams: [...IGNORED_PARAMS, "page", "sort"],
+    filterMap: {
+      products: "searchProducts",
+      industries: "searchIndustries",
+      category: "searchContentType"
+    },
+    sourceLabel: "exchange",
+    resultCount: {
+      selector: '[data-testid="results-count"], .results-count',
+      emptySelector: '[data-testid="no-results"]'
+    },
+    resultItemSelector: '[data-testid="search-result"], .search-result'
+  },
+  {
+    id: "eventsAgenda",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:agenda|sessions)(?:\/|$)/,
+    termParams: ["search", "q", "term"],
+    strategies: [{ type: "query" }, { type: "hashQuery" }, { type: "hashParams" }],
+    ignoredParams: [...IGNORED_PARAMS, "tab", "view"],
+    filterMap: {
+      topic: "searchTopic",
+      products: "searchProducts",
+      industries: "searchIndustries"
+    },
+    sourceLabel: "events-agenda",
+    resultCount: {
+      selector: ".session-results-count",
+      emptySelector: ".no-sessions-found"
+    },
+    resultItemSelector: "[data-session-id], .session-card"
+  }
+];
+var DEFAULT_SEARCH_SURFACE = SEARCH_SURFACES[0];
+
+// src/utils/hash.ts
+function rollingHash(s, length) {
+  const len = length || 10;
+  if (!s) return "";
+  const BASE = 53;
+  const MOD = 10 ** len + 7;
+  let hash = 0;
+  let basePower = 1;
+  for (let idx = 0; idx < s.length; idx += 1) {
+    hash = (hash + (s.charCodeAt(idx) - 97 + 1) * basePower) % MOD;
+    basePower = basePower * BASE % MOD;
+  }
+  return ((hash + MOD) % MOD).toString(36);
+}
+
+// src/utils/piiScrubber.ts
+function passesLuhn(digits) {
+  let sum = 0;
+  for (let idx = 0; idx < digits.length; idx += 1) {
+    let digit = Number(digits[digits.length - 1 - idx]);
+    if (idx % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+function isPhoneNumber(number, prefix) {
+  const [min, max] = PHONE_DIGITS_RANGE;
+  const digits = number.replace(/\D/g, "").length;
+  const hasMarker = /^\+|\(/.test(number) || /[a-z]/i.test(prefix);
+  return hasMarker && digits >= min && digits <= max;
+}
+function replacementFor(type, value, action) {
+  return action === "hash" ? `[${type}:${rollingHash(value, PII_HASH_LENGTH)}]` : `[${type}]`;
+}
+function redactPii(text, getAction, patterns = PII_PATTERNS) {
+  const result = { text, redactions: [], drop: false };
+  patterns.forEach(([type, pattern]) => {
+    result.text = result.text.replace(pattern, (match, group) => {
+      const prefix = typeof group === "string" ? group : "";
+      const value = match.slice(prefix.length);
+      if (type === "cardNumber" && !passesLuhn(value.replace(/\D/g, ""))) {
+        return match;
+      }
+      if (type === "phone" && !isPhoneNumber(value, prefix)) {
+        return match;
+      }
+      const action = getAction(type);
+      if (action === "keep") return match;
+      result.redactions.push({ type, action });
+      if (action === "drop") result.drop = true;
+      return `${prefix}${replacementFor(type, value, action)}`;
+    });
+  });
+  return result;
+}
 
 // src/utils/searchUrlParser.ts
 function sanitizeValue(value, maxLength) {
@@ -130,27 +283,114 @@ function isSafeKey(key) {
   }
   return /^[a-zA-Z0-9_:-]+$/.test(key);
 }
-function parseSearchUrl(url, logger) {
-  const searchUrl = url || window.location.href;
+function redactSearchValue(value) {
+  const result = redactPii(value, (type) => SEARCH_PII_ACTIONS[type], SEARCH_PII_PATTERNS);
+  return { text: result.text, types: result.redactions.map(({ type }) => type) };
+}
+function splitTagId(tag, fallbackFacet) {
+  const local = tag.slice(tag.indexOf(":") + 1);
+  const slash = local.indexOf("/");
+  return slash > 0 ? [local.slice(0, slash), local.slice(slash + 1)] : [fallbackFacet, local];
+}
+function decodeCompoundFilters(raw, param, logger) {
+  if (raw.length > MAX_COMPOUND_FILTER_LENGTH) {
+    logger == null ? void 0 : logger.warn(`Compound filter param '${param}' exceeds ${MAX_COMPOUND_FILTER_LENGTH} chars`);
+    return [];
+  }
+  const trimmed = raw.trim();
+  let pairs = [];
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    let decoded;
+    try {
+      decoded = JSON.parse(trimmed);
+    } catch (e) {
+      logger == null ? void 0 : logger.warn(`Compound filter param '${param}' is not valid JSON`);
+      return [];
+    }
+    if (Array.isArray(decoded)) {
+      pairs = decoded.filter((tag) => typeof tag === "string").map((tag) => splitTagId(tag, param));
+    } else if (decoded && typeof decoded === "object") {
+      pairs = Object.entries(decoded).flatMap(
+        ([facet, values]) => (Array.isArray(values) ? values : [values]).filter((value) => typeof value === "string").map((value) => [facet.slice(facet.indexOf(":") + 1), value])
+      );
+    }
+  } else {
+    pairs = trimmed.split(/[,|]/).map((tag) => tag.trim()).filter((tag) => tag.length > 0).map((tag) => splitTagId(tag, param));
+  }
+  if (pairs.length > MAX_COMPOUND_FILTER_TAGS) {
+    logger == null ? void 0 : logger.warn(`Compound filter param '${param}' has over ${MAX_COMPOUND_FILTER_TAGS} tags`);
+    pairs = pairs.slice(0, MAX_COMPOUND_FILTER_TAGS);
+  }
+  return pairs;
+}
+function decodePathValue(value) {
+  if (!value) {
+    return null;
+  }
   try {
-    const urlObj = new URL(searchUrl, window.location.origin);
-    const params = urlObj.searchParams;
-    let term = null;
-    let termParam = null;
-    const termParams = ["term", "q", "keyword"];
-    termParams.some((param) => {
-      const value = params.get(param);
-      if (value) {
-        const sanitized = sanitizeValue(value, MAX_TERM_LENGTH);
-        if (sanitized.length >= MIN_TERM_LENGTH) {
-          term = sanitized;
-          termParam = param;
-          logger == null ? void 0 : logger.log(`Found term from '${param}' param:`, term);
-          return true;
-        }
+    return decodeURIComponent(value);
+  } catch (e) {
+    return null;
+  }
+}
+function readStrategySource(urlObj, strategy) {
+  var _a, _b;
+  const hash = urlObj.hash.slice(1);
+  switch (strategy.type) {
+    case "hashQuery": {
+      const queryStart = hash.indexOf("?");
+      return {
+        params: new URLSearchParams(queryStart >= 0 ? hash.slice(queryStart + 1) : ""),
+        pathTerm: null
+      };
+    }
+    case "hashParams":
+      return { params: new URLSearchParams(hash), pathTerm: null };
+    case "pathSegment": {
+      const segments = urlObj.pathname.split("/").filter(Boolean);
+      const index = strategy.index < 0 ? segments.length + strategy.index : strategy.index;
+      return { params: urlObj.searchParams, pathTerm: decodePathValue(segments[index]) };
+    }
+    case "pathPattern":
+      return {
+        params: urlObj.searchParams,
+        pathTerm: decodePathValue((_b = (_a = urlObj.pathname.match(strategy.pattern)) == null ? void 0 : _a.groups) == null ? void 0 : _b.term)
+      };
+    default:
+      return { params: urlObj.searchParams, pathTerm: null };
+  }
+}
+function matchSearchStrategy(urlObj, surface, logger) {
+  var _a;
+  let match = null;
+  ((_a = surface.strategies) != null ? _a : DEFAULT_SEARCH_URL_STRATEGIES).some((strategy) => {
+    const source = readStrategySource(urlObj, strategy);
+    const candidates = strategy.type === "pathSegment" || strategy.type === "pathPattern" ? [[null, source.pathTerm]] : surface.termParams.map((param) => [param, source.params.get(param)]);
+    return candidates.some(([termParam, value]) => {
+      if (!value) {
+        return false;
+      }
+      const term = sanitizeValue(value, MAX_TERM_LENGTH);
+      if (term.length < MIN_TERM_LENGTH) {
+        return false;
       }
-      return false;
+      match = { strategy, source, term, termParam };
+      logger == null ? void 0 : logger.log(`Found term with '${strategy.type}' strategy (${termParam != null ? termParam : "path"}):`, term);
+      return true;
     });
+  });
+  return match;
+}
+function parseSearchUrl(url, logger, surface = DEFAULT_SEARCH_SURFACE) {
+  var _a, _b, _c, _d;
+  const searchUrl = url || window.location.href;
+  try {
+    const urlObj = new URL(searchUrl, window.location.origin);
+    const match = matchSearchStrategy(urlObj, surface, logger);
+    const redactions = [];
+    const term = match ? redactSearchValue(match.term) : null;
+    term == null ? void 0 : term.types.forEach((type) => redactions.push({ field: "term", type }));
+    const params = (_a = match == null ? void 0 : match.source.params) != null ? _a : urlObj.searchParams;
     const filters = {};
     let filterCount = 0;
     params.forEach((value, key) => {
@@ -158,27 +398,60 @@ function parseSearchUrl(url, logger) {
         logger == null ? void 0 : logger.warn(`Max filter limit (${MAX_FILTER_PARAMS}) reached, skipping remaining params`);
         return;
       }
-      const termParamsList = TERM_PARAMS;
-      const ignoredParamsList = IGNORED_PARAMS;
-      if (termParamsList.includes(key) || ignoredParamsList.includes(key)) {
+      if (surface.termParams.includes(key) || surface.ignoredParams.includes(key) || key === surface.compoundFilterParam) {
         return;
       }
       if (!isSafeKey(key)) {
         logger == null ? void 0 : logger.warn(`Skipping unsafe key: ${key}`);
         return;
       }
-      const values = value.split(",").map((v) => sanitizeValue(v, MAX_FILTER_VALUE_LENGTH)).filter((v) => v.length > 0);
+      const values = value.split(",").map((v) => sanitizeValue(v, MAX_FILTER_VALUE_LENGTH)).filter((v) => v.length > 0).map((v) => {
+        const redacted = redactSearchValue(v);
+        redacted.types.forEach((type) => redactions.push({ field: key, type }));
+        return redacted.text;
+      });
       if (values.length > 0) {
         filters[key] = values;
         filterCount += 1;
       }
     });
-    const hasValidTerm = term !== null && term.length >= MIN_TERM_LENGTH;
+    const { compoundFilterParam } = surface;
+    const compound = compoundFilterParam ? params.get(compoundFilterParam) : null;
+    if (compoundFilterParam && compound) {
+      decodeCompoundFilters(compound, compoundFilterParam, logger).forEach(([facet, raw]) => {
+        if (!isSafeKey(facet)) {
+          logger == null ? void 0 : logger.warn(`Skipping unsafe compound filter facet: ${facet}`);
+          return;
+        }
+        const value = sanitizeValue(raw, MAX_FILTER_VALUE_LENGTH);
+        if (value.length === 0) {
+          return;
+        }
+        const hasFacet = Object.prototype.hasOwnProperty.call(filters, facet);
+        if (!hasFacet && filterCount >= MAX_FILTER_PARAMS) {
+          logger == null ? void 0 : logger.warn(`Max filter limit (${MAX_FILTER_PARAMS}) reached, skipping facet ${facet}`);
+          return;
+        }
+        const redacted = redactSearchValue(value);
+        redacted.types.forEach((type) => redactions.push({ field: facet, type }));
+        if (!hasFacet) {
+          filters[facet] = [];
+          filterCount += 1;
+        }
+        if (!filters[facet].includes(redacted.text)) {
+          filters[facet].push(redacted.text);
+        }
+      });
+    }
     return {
-      hasValidTerm,
-      term,
+      hasValidTerm: match !== null,
+      term: (_b = term == null ? void 0 : term.text) != null ? _b : null,
       filters,
-      termParam
+      termParam: (_c = match == null ? void 0 : match.termParam) != null ? _c : null,
+      strategy: (_d = match == null ? void 0 : match.strategy.type) != null ? _d : null,
+      termRedacted: !!term && term.types.length > 0,
+      redactions,
+      surface: surface.id
     };
   } catch (error) {
     logger == null ? void 0 : logger.error("Error parsing URL:", error);
@@ -186,33 +459,47 @@ function parseSearchUrl(url, logger) {
       hasValidTerm: false,
       term: null,
       filters: {},
-      termParam: null
+      termParam: null,
+      strategy: null,
+      termRedacted: false,
+      redactions: [],
+      surface: surface.id
     };
   }
 }
-function createSearchPayload(parsed, source) {
+function createSearchPayload(parsed, source, surface = DEFAULT_SEARCH_SURFACE) {
   if (!parsed.hasValidTerm || !parsed.term) {
     return null;
   }
   return {
     term: parsed.term,
     filters: parsed.filters,
-    source
+    source,
+    surface: surface.id,
+    surfaceLabel: surface.sourceLabel,
+    termRedacted: parsed.termRedacted
   };
 }
-function generateSearchKey(url) {
+function generateSearchKey(url, surface = DEFAULT_SEARCH_SURFACE) {
+  var _a;
   try {
     const searchUrl = url || window.location.href;
     const urlObj = new URL(searchUrl, window.location.origin);
-    const params = urlObj.searchParams;
-    IGNORED_PARAMS.forEach((param) => {
+    const match = matchSearchStrategy(urlObj, surface);
+    const params = new URLSearchParams((_a = match == null ? void 0 : match.source.params) != null ? _a : urlObj.searchParams);
+    surface.ignoredParams.filter((param) => param !== surface.compoundFilterParam).forEach((param) => {
       params.delete(param);
     });
     const entries = [];
     params.forEach((value, key) => {
-      entries.push([key, value]);
+      if (isSafeKey(key)) {
+        entries.push([key, redactSearchValue(value).text]);
+      }
     });
     const sorted = entries.sort(([a], [b]) => a.localeCompare(b));
+    if (match == null ? void 0 : match.source.pathTerm) {
+      sorted.unshift(["path", redactSearchValue(match.term).text]);
+    }
     return sorted.map(([key, value]) => `${key}=${value}`).join("&");
   } catch (e) {
     return "";
@@ -256,36 +543,415 @@ function isDuplicate(key, stateKey, logger) {
   return false;
 }
 
+// src/utils/url.ts
+function matchesHostnamePattern(hostname, pattern) {
+  if (pattern.startsWith("*.")) {
+    return hostname.endsWith(pattern.slice(1));
+  }
+  return hostname === pattern;
+}
+
+// src/utils/siteProfileConfig.ts
+var COMMON_ENRICHERS = [
+  "pageName",
+  "siteSection",
+  "spaReferrer",
+  "pageContext",
+  "partnerData",
+  "IMS",
+  "cardCollection",
+  "linkClickLabel",
+  "linkClassification",
+  "consent"
+];
+var SITE_PROFILES = [
+  {
+    // Magento pages are identified by their init scripts (store host varies per environment)
+    id: "magentoStore",
+    match: { selector: 'script[type="text/x-magento-init"]' },
+    enrichers: [...COMMON_ENRICHERS, "Checkout"],
+    monitors: ["cartChange", "purchase", "formInteraction"],
+    searchSurfaces: [],
+    options: {}
+  },
+  {
+    id: "adobeEvents",
+    match: { hostnames: ["*.adobeevents.com"] },
+    enrichers: [...COMMON_ENRICHERS, "eventData", "attendeeData"],
+    monitors: ["searchUrl", "searchClick", "searchAutocomplete", "formInteraction"],
+    searchSurfaces: ["eventsAgenda"],
+    options: {}
+  },
+  {
+    id: "exchange",
+    match: { hostnames: ["exchange.adobe.com"] },
+    enrichers: [...COMMON_ENRICHERS, "publisherData"],
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "spaPublisherName",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["exchange"],
+    options: {}
+  },
+  {
+    id: "partnerPortal",
+    match: { hostnames: ["partners.adobe.com", "solutionpartners.adobe.com"] },
+    enrichers: COMMON_ENRICHERS,
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["portal"],
+    options: {}
+  }
+];
+var DEFAULT_SITE_PROFILE = {
+  id: "default",
+  match: {},
+  enrichers: [...COMMON_ENRICHERS, "Checkout", "publisherData"],
+  monitors: [
+    "searchUrl",
+    "searchClick",
+    "searchAutocomplete",
+    "spaPageViewTitle",
+    "spaPublisherName",
+    "cardImpression",
+    "cartChange",
+    "purchase",
+    "formInteraction"
+  ],
+  searchSurfaces: ["portal", "exchange", "eventsAgenda"],
+  options: {}
+};
+
+// src/utils/siteProfile.ts
+function matchesProfile(match, location) {
+  if (match.hostnames && !match.hostnames.some((pattern) => matchesHostnamePattern(location.hostname, pattern))) {
+    return false;
+  }
+  if (match.pathPattern && !match.pathPattern.test(location.pathname)) {
+    return false;
+  }
+  if (match.selector && !document.querySelector(match.selector)) {
+    return false;
+  }
+  return true;
+}
+function resolveSiteProfile(location = window.location, profiles = SITE_PROFILES) {
+  var _a;
+  return (_a = profiles.find((profile) => matchesProfile(profile.match, location))) != null ? _a : DEFAULT_SITE_PROFILE;
+}
+function resolveSearchSurface(pathname = window.location.pathname, profile = resolveSiteProfile()) {
+  var _a;
+  return (_a = SEARCH_SURFACES.find(
+    (surface) => profile.searchSurfaces.includes(surface.id) && surface.pathPattern.test(pathname)
+  )) != null ? _a : null;
+}
+
+// src/utils/dom.ts
+function querySelectorAllDeep(root, selector) {
+  const results = [];
+  const walk = (node) => {
+    results.push(...Array.from(node.querySelectorAll(selector)));
+    const { shadowRoot } = node;
+    if (shadowRoot) {
+      walk(shadowRoot);
+    }
+    node.querySelectorAll("*").forEach((child) => {
+      if (child.shadowRoot) {
+        walk(child.shadowRoot);
+      }
+    });
+  };
+  walk(root);
+  return results;
+}
+
+// src/utils/searchResultCount.ts
+function parseCount(text) {
+  const matches = text.match(/\d{1,3}(?:[,.\s]\d{3})+|\d+/g);
+  if (!matches) return null;
+  const count = Number(matches[matches.length - 1].replace(/\D/g, ""));
+  return Number.isSafeInteger(count) ? count : null;
+}
+function findResultCountElements(config) {
+  const [countElement = null] = querySelectorAllDeep(document, config.selector);
+  const [emptyElement = null] = config.emptySelector ? querySelectorAllDeep(document, config.emptySelector) : [];
+  return { countElement, emptyElement };
+}
+function readResultCount({ countElement, emptyElement }, config) {
+  if (emptyElement) {
+    return 0;
+  }
+  if (!countElement) return null;
+  const attributeValue = config.attribute ? countElement.getAttribute(config.attribute) : null;
+  return parseCount(attributeValue || countElement.textContent || "");
+}
+function waitForSearchResultCount(config, logger, onDone, acceptRendered = false) {
+  const initial = findResultCountElements(config);
+  const startedAt = Date.now();
+  let rerendered = acceptRendered || !initial.countElement && !initial.emptyElement;
+  let done = false;
+  let intervalId;
+  const observer = new MutationObserver(() => {
+    rerendered = true;
+  });
+  [initial.countElement, initial.emptyElement].forEach((element) => {
+    if (element) {
+      observer.observe(element, {
+        attributes: true,
+        characterData: true,
+        childList: true,
+        subtree: true
+      });
+    }
+  });
+  const finish = (count, reason) => {
+    if (done) return;
+    done = true;
+    clearInterval(intervalId);
+    observer.disconnect();
+    logger.log(`Result count ${count != null ? count : "unknown"} (${reason}, ${Date.now() - startedAt}ms)`);
+    onDone(count);
+  };
+  const check = () => {
+    const elements = findResultCountElements(config);
+    if (elements.countElement !== initial.countElement || elements.emptyElement !== initial.emptyElement) {
+      rerendered = true;
+    }
+    const count = rerendered ? readResultCount(elements, config) : null;
+    if (count !== null) {
+      finish(count, acceptRendered ? "read" : "rendered");
+    } else if (Date.now() - startedAt >= RESULT_COUNT_TIMEOUT_MS) {
+      finish(null, "timeout");
+    }
+  };
+  intervalId = setInterval(check, RESULT_COUNT_POLL_INTERVAL_MS);
+  return () => finish(null, "cancelled");
+}
+
+// src/utils/storage.ts
+function getStorageItem(key, area = "localStorage") {
+  try {
+    const item = window[area].getItem(key);
+    if (!item) {
+      return null;
+    }
+    return JSON.parse(item);
+  } catch (e) {
+    return null;
+  }
+}
+function setStorageItem(key, value, area = "localStorage") {
+  try {
+    window[area].setItem(key, JSON.stringify(value));
+    return true;
+  } catch (error) {
+    console.error(`Failed to set storage item ${key}:`, error);
+    return false;
+  }
+}
+function removeStorageItem(key, area = "localStorage") {
+  try {
+    window[area].removeItem(key);
+  } catch (e) {
+  }
+}
+
+// src/utils/searchSessionConfig.ts
+var SEARCH_SESSION_STORAGE_KEY = "__aep_search_session";
+var SEARCH_SESSION_TIMEOUT_MS = 30 * 60 * 1e3;
+var MAX_SEARCH_SESSION_HISTORY = 20;
+
+// src/utils/searchSession.ts
+function toFilterEntries(filters) {
+  return new Set(
+    Object.entries(filters).flatMap(([param, values]) => values.map((value) => `${param}:${value}`))
+  );
+}
+function normalizeTerm(term) {
+  return term.trim().replace(/\s+/g, " ").toLowerCase();
+}
+function readActiveSession(now) {
+  const session = getStorageItem(SEARCH_SESSION_STORAGE_KEY, "sessionStorage");
+  if (!session || !Array.isArray(session.searches) || session.searches.length === 0) {
+    return null;
+  }
+  const last = session.searches[session.searches.length - 1];
+  return now - last.searchedAt > SEARCH_SESSION_TIMEOUT_MS ? null : session;
+}
+function recordSearchInSession(entry) {
+  var _a;
+  const session = (_a = readActiveSession(entry.searchedAt)) != null ? _a : {
+    startedAt: entry.searchedAt,
+    searches: [],
+    searchCount: 0
+  };
+  const previous = session.searches[session.searches.length - 1];
+  let refinement = {
+    refinementIndex: 0,
+    refinementType: "new",
+    termChanged: false,
+    filtersAdded: [],
+    filtersRemoved: []
+  };
+  if (previous) {
+    const current = toFilterEntries(entry.filters);
+    const before = toFilterEntries(previous.filters);
+    const filtersAdded = Array.from(current).filter((filter) => !before.has(filter));
+    const filtersRemoved = Array.from(before).filter((filter) => !current.has(filter));
+    const termChanged = normalizeTerm(entry.term) !== normalizeTerm(previous.term);
+    const filtersChanged = filtersAdded.length > 0 || filtersRemoved.length > 0;
+    let refinementType = "unchanged";
+    if (termChanged && filtersChanged) {
+      refinementType = "termAndFilters";
+    } else if (termChanged) {
+      refinementType = "term";
+    } else if (filtersChanged) {
+      refinementType = "filters";
+    }
+    refinement = {
+      refinementIndex: session.searchCount,
+      refinementType,
+      termChanged,
+      previousTerm: previous.term,
+      filtersAdded,
+      filtersRemoved,
+      timeSinceLastSearchMs: entry.searchedAt - previous.searchedAt
+    };
+  }
+  session.searches = [...session.searches, entry].slice(-MAX_SEARCH_SESSION_HISTORY);
+  session.searchCount += 1;
+  setStorageItem(SEARCH_SESSION_STORAGE_KEY, session, "sessionStorage");
+  return refinement;
+}
+
+// src/utils/searchAutocompleteConfig.ts
+var SEARCH_AUTOCOMPLETE_STORAGE_KEY = "__aep_search_autocomplete";
+var SEARCH_AUTOCOMPLETE_MAX_AGE_MS = 60 * 1e3;
+
+// src/utils/searchAutocompleteTracker.ts
+function normalizeTerm2(term) {
+  return term.replace(/\s+/g, " ").trim().toLowerCase();
+}
+function takeSearchAutocomplete(term, logger) {
+  const pending = getStorageItem(
+    SEARCH_AUTOCOMPLETE_STORAGE_KEY,
+    "sessionStorage"
+  );
+  if (!pending) {
+    return null;
+  }
+  removeStorageItem(SEARCH_AUTOCOMPLETE_STORAGE_KEY, "sessionStorage");
+  if (Date.now() - pending.capturedAt > SEARCH_AUTOCOMPLETE_MAX_AGE_MS) {
+    logger.log("Discarded stale search autocomplete context");
+    return null;
+  }
+  if (normalizeTerm2(pending.term) !== normalizeTerm2(term)) {
+    logger.log(`Discarded search autocomplete context for another term ("${pending.term}")`);
+    return null;
+  }
+  return pending.data;
+}
+
 // src/utils/searchTracker.ts
 function trackSearch(source, logger, testMode) {
-  const parsed = parseSearchUrl(void 0, logger);
+  var _a;
+  const surface = resolveSearchSurface();
+  if (!surface) {
+    logger.log("Page is not an active search surface");
+    return { success: false, message: "Not a search surface" };
+  }
+  logger.log(`Search surface "${surface.id}"`);
+  const parsed = parseSearchUrl(void 0, logger, surface);
   if (!parsed.hasValidTerm || !parsed.term) {
     logger.log("No valid search term found");
-    return { success: false, message: "No valid search term found" };
+    return { success: false, message: "No valid search term found", surface: surface.id };
+  }
+  if (parsed.redactions.length > 0) {
+    logger.log(`Redacted ${parsed.redactions.length} PII matches from the search`);
+    logger.testInfo("Search PII redactions", parsed.redactions);
   }
-  const searchKey = generateSearchKey();
+  const searchKey = generateSearchKey(void 0, surface);
   logger.log("Generated search key:", searchKey);
   if (isDuplicate(searchKey, "lastSearchKey", logger)) {
     return {
       success: false,
       message: "Duplicate search (already tracked)",
-      term: parsed.term
+      term: parsed.term,
+      surface: surface.id
     };
   }
-  const payload = createSearchPayload(parsed, source);
+  const payload = createSearchPayload(parsed, source, surface);
   if (!payload) {
     logger.error("Failed to create search payload");
     return { success: false, message: "Failed to create search payload" };
   }
-  setPartnerState("searchPayload", payload);
-  logger.log("Stored search payload:", payload);
-  fireSatelliteEvent(SEARCH_TRACKING_EVENT, logger, testMode);
+  (_a = getPartnerState("searchResultCountCancel")) == null ? void 0 : _a();
+  const fire = (resultsCount) => {
+    try {
+      setPartnerState("searchResultCountCancel", void 0);
+      if (resultsCount !== null) {
+        payload.resultsCount = resultsCount;
+      }
+      const committedAt = Date.now();
+      try {
+        const autocomplete = takeSearchAutocomplete(payload.term, logger);
+        if (autocomplete) {
+          payload.autocomplete = autocomplete;
+        }
+        payload.refinement = recordSearchInSession({
+          term: payload.term,
+          filters: payload.filters,
+          surface: payload.surface,
+          searchKey,
+          searchedAt: committedAt
+        });
+      } catch (error) {
+        logger.error("Failed to add autocomplete / session context, sending without it:", error);
+      }
+      setPartnerState("searchPayload", payload);
+      logger.log("Stored search payload:", payload);
+      setPartnerState("lastSearchCommit", {
+        term: payload.term,
+        filters: payload.filters,
+        surface: payload.surface,
+        surfaceLabel: payload.surfaceLabel,
+        searchKey,
+        committedAt
+      });
+      fireSatelliteEvent(SEARCH_TRACKING_EVENT, logger, testMode);
+    } catch (error) {
+      logger.error("Error firing search event:", error);
+    }
+  };
+  const awaitingResultCount = !!surface.resultCount;
+  if (surface.resultCount) {
+    setPartnerState(
+      "searchResultCountCancel",
+      waitForSearchResultCount(surface.resultCount, logger, fire, source === SEARCH_SOURCES.ENTRY)
+    );
+  } else {
+    fire(null);
+  }
   const filterCount = Object.keys(payload.filters).length;
   return {
     success: true,
     message: "Search tracked successfully",
     term: payload.term,
-    filterCount
+    filterCount,
+    surface: surface.id,
+    awaitingResultCount,
+    redactionCount: parsed.redactions.length
   };
 }
 
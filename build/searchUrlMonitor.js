@@ -100,22 +100,6 @@ function executeScript(config, execute) {
   }
 }
 
-// src/utils/globalState.ts
-function ensurePartnerNamespace() {
-  if (!window._adobePartners) {
-    window._adobePartners = {};
-  }
-  return window._adobePartners;
-}
-function getPartnerState(key) {
-  var _a;
-  return (_a = window._adobePartners) == null ? void 0 : _a[key];
-}
-function setPartnerState(key, value) {
-  const ns = ensurePartnerNamespace();
-  ns[key] = value;
-}
-
 // src/utils/customEvent.ts
 function dispatchCustomEvent(eventName, detail) {
   try {
@@ -132,54 +116,347 @@ function dispatchCustomEvent(eventName, detail) {
   }
 }
 
+// src/utils/piiConfig.ts
+var PII_PATTERNS = [
+  [
+    "urlToken",
+    /([?&#;](?:access_token|id_token|refresh_token|token|auth|code|api_?key|key|password|pwd|session(?:id)?|sid|secret)=)[^&#\s]+/gi
+  ],
+  ["email", /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi],
+  ["cardNumber", /\b(?:\d[ -]?){12,18}\d\b/g],
+  [
+    "phone",
+    /((?:^|[^\w.+-])(?:(?:phone|tel|mobile|cell|fax)\.?[\s:#-]*)?)(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}(?![\w-])/gi
+  ]
+];
+
 // src/utils/searchConfig.ts
 var URL_CHANGE_EVENT = "partnersSearchUrlChanged";
-var URL_PATTERN = /.*\/digitalexperience\/home\/search\/.*/;
+var TERM_PARAMS = ["term", "q", "keyword"];
+var IGNORED_PARAMS = ["utm_source", "utm_medium", "utm_campaign", "filters"];
+var FILTER_TO_XDM_MAP = {
+  "content-type": "searchContentType",
+  functionality: "searchFunctionality",
+  industries: "searchIndustries",
+  industry: "searchIndustries",
+  products: "searchProducts",
+  solutions: "searchSolutions",
+  topic: "searchTopic"
+};
+var SEARCH_PII_PATTERNS = [
+  ...PII_PATTERNS,
+  ["orderNumber", /\b((?:order|ord|po)\.?\s*(?:number|no\.?|#)?[\s#:-]*)\d{8,}\b/gi]
+];
+var SEARCH_SURFACES = [
+  {
+    id: "portal",
+    pathPattern: /\/digitalexperience\/home\/search\//,
+    termParams: TERM_PARAMS,
+    ignoredParams: IGNORED_PARAMS,
+    compoundFilterParam: "filters",
+    filterMap: FILTER_TO_XDM_MAP,
+    sourceLabel: "partner-directory",
+    resultCount: {
+      selector: "[data-results-count], .search-results-count",
+      attribute: "data-results-count",
+      emptySelector: ".search-no-results"
+    }
+  },
+  {
+    id: "exchange",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:search|apps\/browse)(?:\/|$)/,
+    termParams: ["q", "term", "keyword"],
+    strategies: [{ type: "query" }, { type: "pathPattern", pattern: new RegExp("\\/search\\/(?<term>[^/]+)") }],
+    ignoredParams: [...IGNORED_PARAMS, "page", "sort"],
+    filterMap: {
+      products: "searchProducts",
+      industries: "searchIndustries",
+      category: "searchContentType"
+    },
+    sourceLabel: "exchange",
+    resultCount: {
+      selector: '[data-testid="results-count"], .results-count',
+      emptySelector: '[data-testid="no-results"]'
+    },
+    resultItemSelector: '[data-testid="search-result"], .search-result'
+  },
+  {
+    id: "eventsAgenda",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:agenda|sessions)(?:\/|$)/,
+    termParams: ["search", "q", "term"],
+    strategies: [{ type: "query" }, { type: "hashQuery" }, { type: "hashParams" }],
+    ignoredParams: [...IGNORED_PARAMS, "tab", "view"],
+    filterMap: {
+      topic: "searchTopic",
+      products: "searchProducts",
+      industries: "searchIndustries"
+    },
+    sourceLabel: "events-agenda",
+    resultCount: {
+      selector: ".session-results-count",
+      emptySelector: ".no-sessions-found"
+    },
+    resultItemSelector: "[data-session-id], .session-card"
+  }
+];
+var DEFAULT_SEARCH_SURFACE = SEARCH_SURFACES[0];
 
-// src/scripts/search/searchUrlMonitor.ts
-function installHistoryHooks(logger) {
-  const originalPushState = window.history.pushState;
-  const originalReplaceState = window.history.replaceState;
-  window.history.pushState = function pushStateHook(...args) {
+// src/utils/url.ts
+function matchesHostnamePattern(hostname, pattern) {
+  if (pattern.startsWith("*.")) {
+    return hostname.endsWith(pattern.slice(1));
+  }
+  return hostname === pattern;
+}
+
+// src/utils/siteProfileConfig.ts
+var COMMON_ENRICHERS = [
+  "pageName",
+  "siteSection",
+  "spaReferrer",
+  "pageContext",
+  "partnerData",
+  "IMS",
+  "cardCollection",
+  "linkClickLabel",
+  "linkClassification",
+  "consent"
+];
+var SITE_PROFILES = [
+  {
+    // Magento pages are identified by their init scripts (store host varies per environment)
+    id: "magentoStore",
+    match: { selector: 'script[type="text/x-magento-init"]' },
+    enrichers: [...COMMON_ENRICHERS, "Checkout"],
+    monitors: ["cartChange", "purchase", "formInteraction"],
+    searchSurfaces: [],
+    options: {}
+  },
+  {
+    id: "adobeEvents",
+    match: { hostnames: ["*.adobeevents.com"] },
+    enrichers: [...COMMON_ENRICHERS, "eventData", "attendeeData"],
+    monitors: ["searchUrl", "searchClick", "searchAutocomplete", "formInteraction"],
+    searchSurfaces: ["eventsAgenda"],
+    options: {}
+  },
+  {
+    id: "exchange",
+    match: { hostnames: ["exchange.adobe.com"] },
+    enrichers: [...COMMON_ENRICHERS, "publisherData"],
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "spaPublisherName",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["exchange"],
+    options: {}
+  },
+  {
+    id: "partnerPortal",
+    match: { hostnames: ["partners.adobe.com", "solutionpartners.adobe.com"] },
+    enrichers: COMMON_ENRICHERS,
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["portal"],
+    options: {}
+  }
+];
+var DEFAULT_SITE_PROFILE = {
+  id: "default",
+  match: {},
+  enrichers: [...COMMON_ENRICHERS, "Checkout", "publisherData"],
+  monitors: [
+    "searchUrl",
+    "searchClick",
+    "searchAutocomplete",
+    "spaPageViewTitle",
+    "spaPublisherName",
+    "cardImpression",
+    "cartChange",
+    "purchase",
+    "formInteraction"
+  ],
+  searchSurfaces: ["portal", "exchange", "eventsAgenda"],
+  options: {}
+};
+
+// src/utils/siteProfile.ts
+function matchesProfile(match, location) {
+  if (match.hostnames && !match.hostnames.some((pattern) => matchesHostnamePattern(location.hostname, pattern))) {
+    return false;
+  }
+  if (match.pathPattern && !match.pathPattern.test(location.pathname)) {
+    return false;
+  }
+  if (match.selector && !document.querySelector(match.selector)) {
+    return false;
+  }
+  return true;
+}
+function resolveSiteProfile(location = window.location, profiles = SITE_PROFILES) {
+  var _a;
+  return (_a = profiles.find((profile) => matchesProfile(profile.match, location))) != null ? _a : DEFAULT_SITE_PROFILE;
+}
+
+// src/utils/globalState.ts
+function ensurePartnerNamespace() {
+  if (!window._adobePartners) {
+    window._adobePartners = {};
+  }
+  return window._adobePartners;
+}
+function getPartnerState(key) {
+  var _a;
+  return (_a = window._adobePartners) == null ? void 0 : _a[key];
+}
+function setPartnerState(key, value) {
+  const ns = ensurePartnerNamespace();
+  ns[key] = value;
+}
+
+// src/utils/navigationConfig.ts
+var NAVIGATION_CHANGE_EVENT = "partnersNavigationChanged";
+
+// src/utils/navigationMonitor.ts
+var NAVIGATION_API_TYPES = {
+  push: "push",
+  replace: "replace",
+  traverse: "pop",
+  reload: "replace"
+};
+function classifyNavigation(type, oldUrl, newUrl) {
+  if (oldUrl === newUrl) return "same";
+  if (oldUrl.split("#")[0] === newUrl.split("#")[0]) return "hash";
+  return type;
+}
+function notify(state, type, oldUrl, source, logger) {
+  const newUrl = window.location.href;
+  const change = {
+    type: classifyNavigation(type, oldUrl, newUrl),
+    oldUrl,
+    newUrl,
+    source,
+    timestamp: Date.now()
+  };
+  state.lastUrl = newUrl;
+  logger.log(`Navigation (${change.type}) ${oldUrl} \u2192 ${newUrl}`);
+  dispatchCustomEvent(NAVIGATION_CHANGE_EVENT, change);
+  const { pathname } = window.location;
+  state.subscribers.forEach((subscriber) => {
+    if (subscriber.routes && !subscriber.routes.some((route) => route.test(pathname))) {
+      return;
+    }
     try {
-      originalPushState.apply(window.history, args);
-      logger.log("pushState detected, dispatching URL change event");
-      dispatchCustomEvent(URL_CHANGE_EVENT, {
-        url: window.location.href,
-        timestamp: Date.now()
-      });
+      subscriber.onNavigate(change);
     } catch (error) {
-      logger.error("Error in pushState hook:", error);
-      originalPushState.apply(window.history, args);
+      logger.error(`Navigation subscriber "${subscriber.id}" failed:`, error);
     }
+  });
+}
+function listenToNavigationApi(navigation, state, logger) {
+  const onEntryChange = (event) => {
+    var _a, _b;
+    const { navigationType, from } = event;
+    const type = (_a = NAVIGATION_API_TYPES[navigationType != null ? navigationType : "push"]) != null ? _a : "push";
+    notify(state, type, (_b = from == null ? void 0 : from.url) != null ? _b : state.lastUrl, "navigationApi", logger);
   };
-  window.history.replaceState = function replaceStateHook(...args) {
-    try {
-      originalReplaceState.apply(window.history, args);
-      logger.log("replaceState detected, dispatching URL change event");
-      dispatchCustomEvent(URL_CHANGE_EVENT, {
-        url: window.location.href,
-        timestamp: Date.now()
-      });
-    } catch (error) {
-      logger.error("Error in replaceState hook:", error);
-      originalReplaceState.apply(window.history, args);
+  navigation.addEventListener("currententrychange", onEntryChange);
+  return () => navigation.removeEventListener("currententrychange", onEntryChange);
+}
+function hookHistory(state, logger) {
+  const { history } = window;
+  const originalPushState = history.pushState;
+  const originalReplaceState = history.replaceState;
+  let active = true;
+  const hook = (original, type) => function historyHook(...args) {
+    const oldUrl = window.location.href;
+    original.apply(this, args);
+    if (active) {
+      notify(state, type, oldUrl, "history", logger);
     }
   };
-  window.addEventListener(
-    "popstate",
-    () => {
-      logger.log("popstate detected, dispatching URL change event");
-      dispatchCustomEvent(URL_CHANGE_EVENT, {
-        url: window.location.href,
-        timestamp: Date.now()
-      });
-    },
-    { passive: true }
-    // Performance optimization
-  );
-  logger.log("window.history API hooks installed successfully");
+  const pushStateHook = hook(originalPushState, "push");
+  const replaceStateHook = hook(originalReplaceState, "replace");
+  history.pushState = pushStateHook;
+  history.replaceState = replaceStateHook;
+  const onPopState = () => notify(state, "pop", state.lastUrl, "history", logger);
+  const onHashChange = (event) => {
+    if (window.location.href === state.lastUrl) return;
+    notify(state, "pop", event.oldURL, "history", logger);
+  };
+  window.addEventListener("popstate", onPopState, { passive: true });
+  window.addEventListener("hashchange", onHashChange, { passive: true });
+  return () => {
+    active = false;
+    window.removeEventListener("popstate", onPopState);
+    window.removeEventListener("hashchange", onHashChange);
+    if (history.pushState === pushStateHook) {
+      history.pushState = originalPushState;
+    } else {
+      logger.warn("history.pushState was wrapped after the navigation monitor, left in place");
+    }
+    if (history.replaceState === replaceStateHook) {
+      history.replaceState = originalReplaceState;
+    } else {
+      logger.warn("history.replaceState was wrapped after the navigation monitor, left in place");
+    }
+  };
+}
+function installNavigationMonitor(testMode = false) {
+  const existing = getPartnerState("navigationMonitor");
+  if (existing) {
+    return existing;
+  }
+  const logger = createLogger("Navigation Monitor", testMode);
+  const state = {
+    subscribers: [],
+    lastUrl: window.location.href,
+    uninstall: () => {
+    }
+  };
+  const { navigation } = window;
+  const teardown = navigation ? listenToNavigationApi(navigation, state, logger) : hookHistory(state, logger);
+  state.uninstall = () => {
+    teardown();
+    state.subscribers = [];
+    setPartnerState("navigationMonitor", void 0);
+    logger.log("Navigation monitor uninstalled");
+  };
+  setPartnerState("navigationMonitor", state);
+  logger.log(`Navigation monitor installed (${navigation ? "Navigation API" : "History API"})`);
+  return state;
+}
+function subscribeToNavigation(subscriber, logger, testMode = false) {
+  const state = installNavigationMonitor(testMode);
+  state.subscribers = [
+    ...state.subscribers.filter((existing) => existing.id !== subscriber.id),
+    subscriber
+  ];
+  logger.log(`Navigation subscriber "${subscriber.id}" registered`);
+  return () => {
+    state.subscribers = state.subscribers.filter((existing) => existing !== subscriber);
+  };
+}
+function hasNavigationSubscriber(id) {
+  var _a;
+  return !!((_a = getPartnerState("navigationMonitor")) == null ? void 0 : _a.subscribers.some(
+    (subscriber) => subscriber.id === id
+  ));
 }
+
+// src/scripts/search/searchUrlMonitor.ts
+var SUBSCRIBER_ID = "searchUrl";
 function searchUrlMonitorScript(testMode = false) {
   return executeScript(
     {
@@ -196,39 +473,57 @@ function searchUrlMonitorScript(testMode = false) {
       }
     },
     (logger) => {
-      if (!URL_PATTERN.test(window.location.pathname)) {
-        logger.log("URL does not match search pattern, skipping initialization");
+      const profile = resolveSiteProfile();
+      if (!profile.monitors.includes("searchUrl")) {
+        logger.log(`Search URL monitor not enabled for site profile "${profile.id}"`);
         return {
           success: false,
-          message: "URL does not match search pattern",
+          message: `Not enabled for site profile "${profile.id}"`,
           alreadyHooked: false
         };
       }
-      if (getPartnerState("urlHooked")) {
-        logger.log("URL change hooks already installed");
+      const routes = SEARCH_SURFACES.filter(
+        (surface) => profile.searchSurfaces.includes(surface.id)
+      ).map((surface) => surface.pathPattern);
+      if (routes.length === 0) {
+        logger.log(`Site profile "${profile.id}" has no search surfaces`);
         return {
-          success: true,
-          message: "URL change hooks already installed",
-          alreadyHooked: true
+          success: false,
+          message: "No search surfaces for site profile",
+          alreadyHooked: false
         };
       }
-      try {
-        installHistoryHooks(logger);
-        setPartnerState("urlHooked", true);
-        logger.log("URL change hooks successfully installed");
+      if (hasNavigationSubscriber(SUBSCRIBER_ID)) {
+        logger.log("URL change subscriber already registered");
         return {
           success: true,
-          message: "URL change hooks installed successfully",
-          alreadyHooked: false
-        };
-      } catch (error) {
-        logger.error("Failed to install hooks:", error);
-        return {
-          success: false,
-          message: "Failed to install URL change hooks",
-          alreadyHooked: false
+          message: "URL change subscriber already registered",
+          alreadyHooked: true
         };
       }
+      subscribeToNavigation(
+        {
+          id: SUBSCRIBER_ID,
+          routes,
+          onNavigate: (change) => {
+            if (change.type === "same") return;
+            logger.log(`${change.type} navigation on search surface, dispatching URL change event`);
+            dispatchCustomEvent(URL_CHANGE_EVENT, {
+              url: change.newUrl,
+              previousUrl: change.oldUrl,
+              navigationType: change.type,
+              timestamp: change.timestamp
+            });
+          }
+        },
+        logger,
+        testMode
+      );
+      return {
+        success: true,
+        message: "URL change subscriber registered",
+        alreadyHooked: false
+      };
     }
   );
 }
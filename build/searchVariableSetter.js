@@ -1,5 +1,25 @@
 const TEST_MODE = localStorage.getItem('__aep_scripts_debug') === 'true';
 
+var __defProp = Object.defineProperty;
+var __defProps = Object.defineProperties;
+var __getOwnPropDescs = Object.getOwnPropertyDescriptors;
+var __getOwnPropSymbols = Object.getOwnPropertySymbols;
+var __hasOwnProp = Object.prototype.hasOwnProperty;
+var __propIsEnum = Object.prototype.propertyIsEnumerable;
+var __defNormalProp = (obj, key, value) => key in obj ? __defProp(obj, key, { enumerable: true, configurable: true, writable: true, value }) : obj[key] = value;
+var __spreadValues = (a, b) => {
+  for (var prop in b || (b = {}))
+    if (__hasOwnProp.call(b, prop))
+      __defNormalProp(a, prop, b[prop]);
+  if (__getOwnPropSymbols)
+    for (var prop of __getOwnPropSymbols(b)) {
+      if (__propIsEnum.call(b, prop))
+        __defNormalProp(a, prop, b[prop]);
+    }
+  return a;
+};
+var __spreadProps = (a, b) => __defProps(a, __getOwnPropDescs(b));
+
 // src/utils/logger.ts
 var Logger = class {
   constructor(prefix, isTestMode) {
@@ -100,6 +120,90 @@ function executeScript(config, execute) {
   }
 }
 
+// src/utils/piiConfig.ts
+var PII_PATTERNS = [
+  [
+    "urlToken",
+    /([?&#;](?:access_token|id_token|refresh_token|token|auth|code|api_?key|key|password|pwd|session(?:id)?|sid|secret)=)[^&#\s]+/gi
+  ],
+  ["email", /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi],
+  ["cardNumber", /\b(?:\d[ -]?){12,18}\d\b/g],
+  [
+    "phone",
+    /((?:^|[^\w.+-])(?:(?:phone|tel|mobile|cell|fax)\.?[\s:#-]*)?)(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}(?![\w-])/gi
+  ]
+];
+
+// src/utils/searchConfig.ts
+var TERM_PARAMS = ["term", "q", "keyword"];
+var IGNORED_PARAMS = ["utm_source", "utm_medium", "utm_campaign", "filters"];
+var FILTER_TO_XDM_MAP = {
+  "content-type": "searchContentType",
+  functionality: "searchFunctionality",
+  industries: "searchIndustries",
+  industry: "searchIndustries",
+  products: "searchProducts",
+  solutions: "searchSolutions",
+  topic: "searchTopic"
+};
+var SEARCH_PII_PATTERNS = [
+  ...PII_PATTERNS,
+  ["orderNumber", /\b((?:order|ord|po)\.?\s*(?:number|no\.?|#)?[\s#:-]*)\d{8,}\b/gi]
+];
+var SEARCH_SURFACES = [
+  {
+    id: "portal",
+    pathPattern: /\/digitalexperience\/home\/search\//,
+    termParams: TERM_PARAMS,
+    ignoredParams: IGNORED_PARAMS,
+    compoundFilterParam: "filters",
+    filterMap: FILTER_TO_XDM_MAP,
+    sourceLabel: "partner-directory",
+    resultCount: {
+      selector: "[data-results-count], .search-results-count",
+      attribute: "data-results-count",
+      emptySelector: ".search-no-results"
+    }
+  },
+  {
+    id: "exchange",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:search|apps\/browse)(?:\/|$)/,
+    termParams: ["q", "term", "keyword"],
+    strategies: [{ type: "query" }, { type: "pathPattern", pattern: new RegExp("\\/search\\/(?<term>[^/]+)") }],
+    ignoredParams: [...IGNORED_PARAMS, "page", "sort"],
+    filterMap: {
+      products: "searchProducts",
+      industries: "searchIndustries",
+      category: "searchContentType"
+    },
+    sourceLabel: "exchange",
+    resultCount: {
+      selector: '[data-testid="results-count"], .results-count',
+      emptySelector: '[data-testid="no-results"]'
+    },
+    resultItemSelector: '[data-testid="search-result"], .search-result'
+  },
+  {
+    id: "eventsAgenda",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:agenda|sessions)(?:\/|$)/,
+    termParams: ["search", "q", "term"],
+    strategies: [{ type: "query" }, { type: "hashQuery" }, { type: "hashParams" }],
+    ignoredParams: [...IGNORED_PARAMS, "tab", "view"],
+    filterMap: {
+      topic: "searchTopic",
+      products: "searchProducts",
+      industries: "searchIndustries"
+    },
+    sourceLabel: "events-agenda",
+    resultCount: {
+      selector: ".session-results-count",
+      emptySelector: ".no-sessions-found"
+    },
+    resultItemSelector: "[data-session-id], .session-card"
+  }
+];
+var DEFAULT_SEARCH_SURFACE = SEARCH_SURFACES[0];
+
 // src/utils/object.ts
 function ensureNestedPath(obj, path) {
   const keys = Array.isArray(path) ? path : path.split(".");
@@ -118,10 +222,23 @@ function flattenRecordValues(record) {
 
 // src/utils/globalState.ts
 var ensurePath = ensureNestedPath;
+function ensurePartnerNamespace() {
+  if (!window._adobePartners) {
+    window._adobePartners = {};
+  }
+  return window._adobePartners;
+}
 function getPartnerState(key) {
   var _a;
   return (_a = window._adobePartners) == null ? void 0 : _a[key];
 }
+function setPartnerState(key, value) {
+  const ns = ensurePartnerNamespace();
+  ns[key] = value;
+}
+
+// src/utils/constants.ts
+var XDM_VARIABLE_NAME = "XDMVariable";
 
 // src/utils/satellite.ts
 function getSatelliteVar(name, logger, testMode) {
@@ -138,8 +255,494 @@ function getSatelliteVar(name, logger, testMode) {
   return null;
 }
 
-// src/utils/constants.ts
-var XDM_VARIABLE_NAME = "XDMVariable";
+// src/utils/xdmSchemaConfig.ts
+var XDM_STRING_FORMATS = {
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  "date-time": /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/
+};
+var CARD_CTX_SCHEMA = {
+  type: "object",
+  properties: {
+    cardTitle: { type: "string" },
+    contentID: { type: "string" },
+    contentType: { type: "string" },
+    ctaText: { type: "string" },
+    filterContext: { type: "string" },
+    name: { type: "string" },
+    position: { type: "string" },
+    sectionID: { type: "string" }
+  }
+};
+var CART_ITEM_PROPERTIES = {
+  type: { type: "string" },
+  quantity: { type: "number" },
+  productID: { type: "string" },
+  productName: { type: "string", required: true },
+  SKU: { type: "string" },
+  url: { type: "string" },
+  price: { type: "number" }
+};
+var CART_ITEMS_SCHEMA = {
+  type: "array",
+  items: { type: "object", properties: CART_ITEM_PROPERTIES }
+};
+var ADOBE_PARTNERS_XDM_PATH = ["_adobepartners"];
+var ADOBE_PARTNERS_SCHEMA = {
+  type: "object",
+  properties: {
+    partnerData: { type: "object", properties: {}, open: true },
+    IMS: {
+      type: "object",
+      properties: {
+        imsID: { type: "string", required: true },
+        imsName: { type: "string" }
+      }
+    },
+    publisherData: {
+      type: "object",
+      properties: {
+        publisherID: { type: "string", required: true },
+        description: { type: "string" }
+      }
+    },
+    cardCollection: CARD_CTX_SCHEMA,
+    cardImpressions: {
+      type: "object",
+      properties: {
+        impressions: { type: "array", items: CARD_CTX_SCHEMA, required: true },
+        impressionCount: { type: "integer" }
+      }
+    },
+    pageContext: {
+      type: "object",
+      properties: {
+        siteSection: { type: "string", required: true },
+        siteSubsection: { type: "string" },
+        language: { type: "string" },
+        pageType: {
+          type: "string",
+          required: true,
+          enum: ["search", "publisher", "event", "checkout", "home", "other"]
+        }
+      }
+    },
+    linkClickLabel: { type: "string" },
+    linkClassification: {
+      type: "object",
+      properties: {
+        category: {
+          type: "string",
+          required: true,
+          enum: ["outbound", "download", "crossSite", "internal"]
+        },
+        fileExtension: { type: "string" },
+        destinationHost: { type: "string" },
+        destinationPath: { type: "string" },
+        sourceSite: { type: "string" },
+        destinationSite: { type: "string" }
+      }
+    },
+    rageClick: { type: "boolean" },
+    clickCount: { type: "integer" },
+    consent: {
+      type: "object",
+      properties: {
+        purposes: {
+          type: "object",
+          properties: {
+            necessary: { type: "boolean" },
+            analytics: { type: "boolean" },
+            functional: { type: "boolean" },
+            targeting: { type: "boolean" }
+          }
+        },
+        sources: {
+          type: "object",
+          properties: {
+            adobe: { type: "string", enum: ["in", "out", "pending"] },
+            oneTrustGroups: { type: "array", items: { type: "string" } },
+            gpc: { type: "boolean" }
+          }
+        },
+        skippedCategories: { type: "array", items: { type: "string" } }
+      }
+    },
+    Checkout: {
+      type: "object",
+      properties: {
+        paymentType: { type: "string" },
+        paymentMethodCode: { type: "string" },
+        itemsInCart: CART_ITEMS_SCHEMA
+      }
+    },
+    Order: {
+      type: "object",
+      properties: {
+        orderID: { type: "string", required: true },
+        subtotal: { type: "number" },
+        tax: { type: "number" },
+        shipping: { type: "number" },
+        discount: { type: "number" },
+        total: { type: "number" },
+        currency: { type: "string" },
+        itemsInCart: CART_ITEMS_SCHEMA
+      }
+    },
+    cartChange: {
+      type: "object",
+      properties: {
+        action: { type: "string", required: true, enum: ["add", "remove"] },
+        items: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: __spreadProps(__spreadValues({}, CART_ITEM_PROPERTIES), { quantityDelta: { type: "number" } })
+          }
+        }
+      }
+    },
+    searchClickThrough: {
+      type: "object",
+      properties: {
+        searchTerm: { type: "string", required: true },
+        searchSurface: { type: "string" },
+        searchKey: { type: "string" },
+        resultPosition: { type: "integer", required: true },
+        resultContentID: { type: "string" },
+        resultType: { type: "string", enum: ["card", "link"] },
+        resultUrl: { type: "string" },
+        timeSinceSearchMs: { type: "integer" }
+      }
+    },
+    formInteraction: {
+      type: "object",
+      properties: {
+        formID: { type: "string", required: true },
+        formAction: { type: "string" },
+        outcome: { type: "string", required: true, enum: ["submit", "abandon"] },
+        abandonTrigger: { type: "string", enum: ["pagehide", "navigation"] },
+        durationMs: { type: "integer" },
+        fieldOrder: { type: "array", items: { type: "string" } },
+        lastField: { type: "string" },
+        fieldsTouched: { type: "integer" },
+        fields: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              field: { type: "string" },
+              fieldType: { type: "string" },
+              order: { type: "integer" },
+              timeSpentMs: { type: "integer" },
+              errorCount: { type: "integer" }
+            }
+          }
+        },
+        validationErrorCount: { type: "integer" },
+        submitAttempts: { type: "integer" }
+      }
+    },
+    searchResults: {
+      type: "object",
+      properties: {
+        searchTerm: { type: "string", required: true },
+        termRedacted: { type: "boolean" },
+        searchSource: { type: "string" },
+        searchSurface: { type: "string" },
+        filters: { type: "array", items: { type: "string" } },
+        searchFilters: {
+          type: "object",
+          properties: Object.fromEntries(
+            SEARCH_SURFACES.flatMap(({ filterMap }) => Object.values(filterMap)).map((field) => [
+              field,
+              { type: "array", items: { type: "string" } }
+            ])
+          )
+        },
+        unmappedFilters: { type: "array", items: { type: "string" } },
+        searchResultsCount: { type: "integer" },
+        nullSearch: { type: "boolean" },
+        searchRefinement: {
+          type: "object",
+          properties: {
+            refinementIndex: { type: "integer", required: true },
+            refinementType: {
+              type: "string",
+              enum: ["new", "term", "filters", "termAndFilters", "unchanged"]
+            },
+            termChanged: { type: "boolean" },
+            previousTerm: { type: "string" },
+            filtersAdded: { type: "array", items: { type: "string" } },
+            filtersRemoved: { type: "array", items: { type: "string" } },
+            timeSinceLastSearchMs: { type: "integer" }
+          }
+        },
+        searchAutocomplete: {
+          type: "object",
+          properties: {
+            searchMethod: {
+              type: "string",
+              required: true,
+              enum: ["typed", "suggestion", "recent"]
+            },
+            typedPrefix: { type: "string" },
+            suggestionsShown: { type: "integer" },
+            selectedSuggestion: { type: "string" },
+            selectedPosition: { type: "integer" }
+          }
+        }
+      }
+    },
+    // API payload; only the transformed event dates are typed
+    eventData: {
+      type: "object",
+      properties: { date: { type: "array", items: { type: "string", format: "date" } } },
+      open: true
+    },
+    attendeeData: { type: "object", properties: {}, open: true }
+  }
+};
+
+// src/utils/xdmSchemaValidator.ts
+function describeType(value) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+function checkScalar(value, node) {
+  switch (node.type) {
+    case "string":
+      if (typeof value !== "string") return "string";
+      if (node.format && !XDM_STRING_FORMATS[node.format].test(value)) {
+        return `string (${node.format})`;
+      }
+      if (node.enum && !node.enum.includes(value)) {
+        return `one of ${node.enum.join(", ")}`;
+      }
+      return null;
+    case "number":
+      return typeof value === "number" && Number.isFinite(value) ? null : "number";
+    case "integer":
+      return Number.isInteger(value) ? null : "integer";
+    case "boolean":
+      return typeof value === "boolean" ? null : "boolean";
+    default:
+      return null;
+  }
+}
+function validateNode(value, node, path, issues, dropInvalid) {
+  if (node.type === "object") {
+    if (describeType(value) !== "object") {
+      issues.push({ path, kind: "typeMismatch", expected: "object", actual: describeType(value) });
+      return -1;
+    }
+    const fields = value;
+    const prefix = path ? `${path}.` : "";
+    let dropped = 0;
+    Object.keys(fields).forEach((key) => {
+      const child = node.properties[key];
+      const fieldPath = `${prefix}${key}`;
+      if (fields[key] === void 0) return;
+      if (!child) {
+        if (node.open) return;
+        issues.push({ path: fieldPath, kind: "unknownField" });
+        if (dropInvalid) {
+          delete fields[key];
+          dropped += 1;
+        }
+        return;
+      }
+      const result = validateNode(fields[key], child, fieldPath, issues, dropInvalid);
+      if (result >= 0) {
+        dropped += result;
+      } else if (dropInvalid) {
+        delete fields[key];
+        dropped += 1;
+      }
+    });
+    Object.keys(node.properties).forEach((key) => {
+      const child = node.properties[key];
+      if (child.required && fields[key] === void 0) {
+        issues.push({ path: `${prefix}${key}`, kind: "missingRequired", expected: child.type });
+      }
+    });
+    return dropped;
+  }
+  if (node.type === "array") {
+    if (!Array.isArray(value)) {
+      issues.push({ path, kind: "typeMismatch", expected: "array", actual: describeType(value) });
+      return -1;
+    }
+    let dropped = 0;
+    const invalidIndexes = [];
+    value.forEach((item, index) => {
+      const result = validateNode(item, node.items, `${path}.${index}`, issues, dropInvalid);
+      if (result < 0) invalidIndexes.push(index);
+      else dropped += result;
+    });
+    if (dropInvalid) {
+      invalidIndexes.reverse().forEach((index) => value.splice(index, 1));
+      dropped += invalidIndexes.length;
+    }
+    return dropped;
+  }
+  const expected = checkScalar(value, node);
+  if (expected) {
+    const actual = typeof value === "string" ? JSON.stringify(value) : describeType(value);
+    issues.push({ path, kind: "typeMismatch", expected, actual });
+    return -1;
+  }
+  return 0;
+}
+function validateXdmObject(target, schema, options = {}) {
+  var _a, _b;
+  const issues = [];
+  const result = validateNode(
+    target,
+    schema,
+    (_a = options.path) != null ? _a : "",
+    issues,
+    (_b = options.dropInvalid) != null ? _b : false
+  );
+  return { valid: issues.length === 0, issues, droppedCount: Math.max(result, 0) };
+}
+function validateAdobePartners(xdm, dropInvalid) {
+  const fieldGroup = ADOBE_PARTNERS_XDM_PATH.reduce(
+    (node, key) => node && typeof node === "object" ? node[key] : void 0,
+    xdm
+  );
+  if (!fieldGroup || typeof fieldGroup !== "object") return null;
+  return validateXdmObject(fieldGroup, ADOBE_PARTNERS_SCHEMA, {
+    path: ADOBE_PARTNERS_XDM_PATH.join("."),
+    dropInvalid
+  });
+}
+function enforceAdobePartnersSchema(xdm, logger, testMode) {
+  var _a;
+  const result = validateAdobePartners(xdm, !testMode);
+  if (!result) return null;
+  if (testMode) {
+    logger.testInfo(
+      result.valid ? "XDM schema validation passed" : "XDM schema issues",
+      result.issues
+    );
+  } else if (result.droppedCount) {
+    setPartnerState(
+      "xdmSchemaDroppedCount",
+      ((_a = getPartnerState("xdmSchemaDroppedCount")) != null ? _a : 0) + result.droppedCount
+    );
+    logger.log(`Dropped ${result.droppedCount} invalid XDM fields`, result.issues);
+  }
+  return result;
+}
+
+// src/utils/url.ts
+function matchesHostnamePattern(hostname, pattern) {
+  if (pattern.startsWith("*.")) {
+    return hostname.endsWith(pattern.slice(1));
+  }
+  return hostname === pattern;
+}
+
+// src/utils/siteProfileConfig.ts
+var COMMON_ENRICHERS = [
+  "pageName",
+  "siteSection",
+  "spaReferrer",
+  "pageContext",
+  "partnerData",
+  "IMS",
+  "cardCollection",
+  "linkClickLabel",
+  "linkClassification",
+  "consent"
+];
+var SITE_PROFILES = [
+  {
+    // Magento pages are identified by their init scripts (store host varies per environment)
+    id: "magentoStore",
+    match: { selector: 'script[type="text/x-magento-init"]' },
+    enrichers: [...COMMON_ENRICHERS, "Checkout"],
+    monitors: ["cartChange", "purchase", "formInteraction"],
+    searchSurfaces: [],
+    options: {}
+  },
+  {
+    id: "adobeEvents",
+    match: { hostnames: ["*.adobeevents.com"] },
+    enrichers: [...COMMON_ENRICHERS, "eventData", "attendeeData"],
+    monitors: ["searchUrl", "searchClick", "searchAutocomplete", "formInteraction"],
+    searchSurfaces: ["eventsAgenda"],
+    options: {}
+  },
+  {
+    id: "exchange",
+    match: { hostnames: ["exchange.adobe.com"] },
+    enrichers: [...COMMON_ENRICHERS, "publisherData"],
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "spaPublisherName",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["exchange"],
+    options: {}
+  },
+  {
+    id: "partnerPortal",
+    match: { hostnames: ["partners.adobe.com", "solutionpartners.adobe.com"] },
+    enrichers: COMMON_ENRICHERS,
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["portal"],
+    options: {}
+  }
+];
+var DEFAULT_SITE_PROFILE = {
+  id: "default",
+  match: {},
+  enrichers: [...COMMON_ENRICHERS, "Checkout", "publisherData"],
+  monitors: [
+    "searchUrl",
+    "searchClick",
+    "searchAutocomplete",
+    "spaPageViewTitle",
+    "spaPublisherName",
+    "cardImpression",
+    "cartChange",
+    "purchase",
+    "formInteraction"
+  ],
+  searchSurfaces: ["portal", "exchange", "eventsAgenda"],
+  options: {}
+};
+
+// src/utils/siteProfile.ts
+function matchesProfile(match, location) {
+  if (match.hostnames && !match.hostnames.some((pattern) => matchesHostnamePattern(location.hostname, pattern))) {
+    return false;
+  }
+  if (match.pathPattern && !match.pathPattern.test(location.pathname)) {
+    return false;
+  }
+  if (match.selector && !document.querySelector(match.selector)) {
+    return false;
+  }
+  return true;
+}
+function resolveSiteProfile(location = window.location, profiles = SITE_PROFILES) {
+  var _a;
+  return (_a = profiles.find((profile) => matchesProfile(profile.match, location))) != null ? _a : DEFAULT_SITE_PROFILE;
+}
 
 // src/scripts/search/searchVariableSetter.ts
 function readSearchPayload(logger) {
@@ -173,6 +776,21 @@ function readSearchPayload(logger) {
     return null;
   }
 }
+function mapSearchFilters(filters, filterMap) {
+  const searchFilters = {};
+  const unmappedFilters = [];
+  Object.entries(filters).forEach(([param, values]) => {
+    var _a;
+    const field = Object.prototype.hasOwnProperty.call(filterMap, param) ? filterMap[param] : void 0;
+    if (!field) {
+      values.forEach((value) => unmappedFilters.push(`${param}:${value}`));
+      return;
+    }
+    const merged = /* @__PURE__ */ new Set([...(_a = searchFilters[field]) != null ? _a : [], ...values]);
+    searchFilters[field] = Array.from(merged);
+  });
+  return { searchFilters, unmappedFilters };
+}
 function searchVariableSetterScript(testMode = false) {
   return executeScript(
     {
@@ -188,6 +806,7 @@ function searchVariableSetterScript(testMode = false) {
       }
     },
     (logger) => {
+      var _a;
       const payload = readSearchPayload(logger);
       if (!payload) {
         logger.log("No valid search payload found");
@@ -196,12 +815,27 @@ function searchVariableSetterScript(testMode = false) {
           message: "No valid search payload found"
         };
       }
+      const profile = resolveSiteProfile();
+      if (!profile.searchSurfaces.includes(payload.surface)) {
+        logger.log(
+          `Search surface "${payload.surface}" not enabled for site profile "${profile.id}"`
+        );
+        return {
+          success: false,
+          message: `Search surface not enabled for site profile "${profile.id}"`
+        };
+      }
       const filters = flattenRecordValues(payload.filters);
-      const searchResults = {
+      const surface = (_a = SEARCH_SURFACES.find((candidate) => candidate.id === payload.surface)) != null ? _a : DEFAULT_SEARCH_SURFACE;
+      const searchResults = __spreadValues(__spreadValues(__spreadValues(__spreadValues(__spreadProps(__spreadValues(__spreadValues({
         searchTerm: payload.term,
-        searchSource: payload.source,
+        searchSource: payload.source
+      }, payload.termRedacted && { termRedacted: true }), payload.surfaceLabel && { searchSurface: payload.surfaceLabel }), {
         filters
-      };
+      }), mapSearchFilters(payload.filters, surface.filterMap)), typeof payload.resultsCount === "number" && {
+        searchResultsCount: payload.resultsCount,
+        nullSearch: payload.resultsCount === 0
+      }), payload.refinement && { searchRefinement: payload.refinement }), payload.autocomplete && { searchAutocomplete: payload.autocomplete });
       logger.log("Built XDM searchResults:", searchResults);
       const xdmVar = getSatelliteVar(XDM_VARIABLE_NAME, logger, testMode);
       if (!xdmVar) {
@@ -215,7 +849,37 @@ function searchVariableSetterScript(testMode = false) {
         const searchResultsNode = ensurePath(xdmVar, ["_adobepartners", "searchResults"]);
         searchResultsNode.searchTerm = searchResults.searchTerm;
         searchResultsNode.searchSource = searchResults.searchSource;
+        if (searchResults.termRedacted) {
+          searchResultsNode.termRedacted = true;
+        } else {
+          delete searchResultsNode.termRedacted;
+        }
+        if (searchResults.searchSurface) {
+          searchResultsNode.searchSurface = searchResults.searchSurface;
+        } else {
+          delete searchResultsNode.searchSurface;
+        }
         searchResultsNode.filters = searchResults.filters;
+        searchResultsNode.searchFilters = searchResults.searchFilters;
+        searchResultsNode.unmappedFilters = searchResults.unmappedFilters;
+        if (searchResults.searchResultsCount !== void 0) {
+          searchResultsNode.searchResultsCount = searchResults.searchResultsCount;
+          searchResultsNode.nullSearch = searchResults.nullSearch;
+        } else {
+          delete searchResultsNode.searchResultsCount;
+          delete searchResultsNode.nullSearch;
+        }
+        if (searchResults.searchRefinement) {
+          searchResultsNode.searchRefinement = searchResults.searchRefinement;
+        } else {
+          delete searchResultsNode.searchRefinement;
+        }
+        if (searchResults.searchAutocomplete) {
+          searchResultsNode.searchAutocomplete = searchResults.searchAutocomplete;
+        } else {
+          delete searchResultsNode.searchAutocomplete;
+        }
+        enforceAdobePartnersSchema(xdmVar, logger, testMode);
         logger.log("Successfully set XDM Variable searchResults");
         return {
           success: true,
@@ -1,5 +1,25 @@
 const TEST_MODE = localStorage.getItem('__aep_scripts_debug') === 'true';
 
+var __defProp = Object.defineProperty;
+var __defProps = Object.defineProperties;
+var __getOwnPropDescs = Object.getOwnPropertyDescriptors;
+var __getOwnPropSymbols = Object.getOwnPropertySymbols;
+var __hasOwnProp = Object.prototype.hasOwnProperty;
+var __propIsEnum = Object.prototype.propertyIsEnumerable;
+var __defNormalProp = (obj, key, value) => key in obj ? __defProp(obj, key, { enumerable: true, configurable: true, writable: true, value }) : obj[key] = value;
+var __spreadValues = (a, b) => {
+  for (var prop in b || (b = {}))
+    if (__hasOwnProp.call(b, prop))
+      __defNormalProp(a, prop, b[prop]);
+  if (__getOwnPropSymbols)
+    for (var prop of __getOwnPropSymbols(b)) {
+      if (__propIsEnum.call(b, prop))
+        __defNormalProp(a, prop, b[prop]);
+    }
+  return a;
+};
+var __spreadProps = (a, b) => __defProps(a, __getOwnPropDescs(b));
+
 // src/utils/logger.ts
 var Logger = class {
   constructor(prefix, isTestMode) {
@@ -123,6 +143,10 @@ function ensurePartnerNamespace() {
   }
   return window._adobePartners;
 }
+function getPartnerState(key) {
+  var _a;
+  return (_a = window._adobePartners) == null ? void 0 : _a[key];
+}
 function setPartnerState(key, value) {
   const ns = ensurePartnerNamespace();
   ns[key] = value;
@@ -144,6 +168,9 @@ var DEFAULT_EXTRACT = (el) => {
 var DEFAULT_IS_VALID = (value) => value.length > 0;
 function emit(config, value, logger) {
   setPartnerStateByKey(config.stateKey, value);
+  if (config.beforeDispatch) {
+    config.beforeDispatch(value);
+  }
   dispatchCustomEvent(config.eventName, {
     value,
     timestamp: Date.now()
@@ -161,6 +188,16 @@ function cancelTimeout(config) {
     }
   }
 }
+function disconnectElementObserver(config) {
+  cancelTimeout(config);
+  const observer = getPartnerStateByKey(config.observerKey);
+  if (!observer) {
+    return false;
+  }
+  observer.disconnect();
+  setPartnerStateByKey(config.observerKey, void 0);
+  return true;
+}
 function installElementObserver(config, logger) {
   var _a, _b, _c, _d;
   const extract = (_a = config.extractValue) != null ? _a : DEFAULT_EXTRACT;
@@ -220,6 +257,7 @@ function installElementObserver(config, logger) {
 // src/utils/spaPageViewConfig.ts
 var SPA_TITLE_CHANGE_EVENT = "spaPageTitleChanged";
 var TITLE_MONITOR_TIMEOUT_MS = 1e4;
+var NAVIGATION_TITLE_WAIT_MS = 1e3;
 var DEFAULT_TITLE_PATTERNS = [
   "React Include",
   "React App",
@@ -232,7 +270,331 @@ function isDefaultTitle(title) {
   return DEFAULT_TITLE_PATTERNS.some((pattern) => trimmed.toLowerCase() === pattern.toLowerCase());
 }
 
+// src/utils/url.ts
+function matchesHostnamePattern(hostname, pattern) {
+  if (pattern.startsWith("*.")) {
+    return hostname.endsWith(pattern.slice(1));
+  }
+  return hostname === pattern;
+}
+
+// src/utils/piiConfig.ts
+var PII_PATTERNS = [
+  [
+    "urlToken",
+    /([?&#;](?:access_token|id_token|refresh_token|token|auth|code|api_?key|key|password|pwd|session(?:id)?|sid|secret)=)[^&#\s]+/gi
+  ],
+  ["email", /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi],
+  ["cardNumber", /\b(?:\d[ -]?){12,18}\d\b/g],
+  [
+    "phone",
+    /((?:^|[^\w.+-])(?:(?:phone|tel|mobile|cell|fax)\.?[\s:#-]*)?)(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}(?![\w-])/gi
+  ]
+];
+
+// src/utils/searchConfig.ts
+var TERM_PARAMS = ["term", "q", "keyword"];
+var IGNORED_PARAMS = ["utm_source", "utm_medium", "utm_campaign", "filters"];
+var FILTER_TO_XDM_MAP = {
+  "content-type": "searchContentType",
+  functionality: "searchFunctionality",
+  industries: "searchIndustries",
+  industry: "searchIndustries",
+  products: "searchProducts",
+  solutions: "searchSolutions",
+  topic: "searchTopic"
+};
+var SEARCH_PII_PATTERNS = [
+  ...PII_PATTERNS,
+  ["orderNumber", /\b((?:order|ord|po)\.?\s*(?:number|no\.?|#)?[\s#:-]*)\d{8,}\b/gi]
+];
+var SEARCH_SURFACES = [
+  {
+    id: "portal",
+    pathPattern: /\/digitalexperience\/home\/search\//,
+    termParams: TERM_PARAMS,
+    ignoredParams: IGNORED_PARAMS,
+    compoundFilterParam: "filters",
+    filterMap: FILTER_TO_XDM_MAP,
+    sourceLabel: "partner-directory",
+    resultCount: {
+      selector: "[data-results-count], .search-results-count",
+      attribute: "data-results-count",
+      emptySelector: ".search-no-results"
+    }
+  },
+  {
+    id: "exchange",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:search|apps\/browse)(?:\/|$)/,
+    termParams: ["q", "term", "keyword"],
+    strategies: [{ type: "query" }, { type: "pathPattern", pattern: new RegExp("\\/search\\/(?<term>[^/]+)") }],
+    ignoredParams: [...IGNORED_PARAMS, "page", "sort"],
+    filterMap: {
+      products: "searchProducts",
+      industries: "searchIndustries",
+      category: "searchContentType"
+    },
+    sourceLabel: "exchange",
+    resultCount: {
+      selector: '[data-testid="results-count"], .results-count',
+      emptySelector: '[data-testid="no-results"]'
+    },
+    resultItemSelector: '[data-testid="search-result"], .search-result'
+  },
+  {
+    id: "eventsAgenda",
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:agenda|sessions)(?:\/|$)/,
+    termParams: ["search", "q", "term"],
+    strategies: [{ type: "query" }, { type: "hashQuery" }, { type: "hashParams" }],
+    ignoredParams: [...IGNORED_PARAMS, "tab", "view"],
+    filterMap: {
+      topic: "searchTopic",
+      products: "searchProducts",
+      industries: "searchIndustries"
+    },
+    sourceLabel: "events-agenda",
+    resultCount: {
+      selector: ".session-results-count",
+      emptySelector: ".no-sessions-found"
+    },
+    resultItemSelector: "[data-session-id], .session-card"
+  }
+];
+var DEFAULT_SEARCH_SURFACE = SEARCH_SURFACES[0];
+
+// src/utils/siteProfileConfig.ts
+var COMMON_ENRICHERS = [
+  "pageName",
+  "siteSection",
+  "spaReferrer",
+  "pageContext",
+  "partnerData",
+  "IMS",
+  "cardCollection",
+  "linkClickLabel",
+  "linkClassification",
+  "consent"
+];
+var SITE_PROFILES = [
+  {
+    // Magento pages are identified by their init scripts (store host varies per environment)
+    id: "magentoStore",
+    match: { selector: 'script[type="text/x-magento-init"]' },
+    enrichers: [...COMMON_ENRICHERS, "Checkout"],
+    monitors: ["cartChange", "purchase", "formInteraction"],
+    searchSurfaces: [],
+    options: {}
+  },
+  {
+    id: "adobeEvents",
+    match: { hostnames: ["*.adobeevents.com"] },
+    enrichers: [...COMMON_ENRICHERS, "eventData", "attendeeData"],
+    monitors: ["searchUrl", "searchClick", "searchAutocomplete", "formInteraction"],
+    searchSurfaces: ["eventsAgenda"],
+    options: {}
+  },
+  {
+    id: "exchange",
+    match: { hostnames: ["exchange.adobe.com"] },
+    enrichers: [...COMMON_ENRICHERS, "publisherData"],
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "spaPublisherName",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["exchange"],
+    options: {}
+  },
+  {
+    id: "partnerPortal",
+    match: { hostnames: ["partners.adobe.com", "solutionpartners.adobe.com"] },
+    enrichers: COMMON_ENRICHERS,
+    monitors: [
+      "searchUrl",
+      "searchClick",
+      "searchAutocomplete",
+      "spaPageViewTitle",
+      "cardImpression",
+      "formInteraction"
+    ],
+    searchSurfaces: ["portal"],
+    options: {}
+  }
+];
+var DEFAULT_SITE_PROFILE = {
+  id: "default",
+  match: {},
+  enrichers: [...COMMON_ENRICHERS, "Checkout", "publisherData"],
+  monitors: [
+    "searchUrl",
+    "searchClick",
+    "searchAutocomplete",
+    "spaPageViewTitle",
+    "spaPublisherName",
+    "cardImpression",
+    "cartChange",
+    "purchase",
+    "formInteraction"
+  ],
+  searchSurfaces: ["portal", "exchange", "eventsAgenda"],
+  options: {}
+};
+
+// src/utils/siteProfile.ts
+function matchesProfile(match, location) {
+  if (match.hostnames && !match.hostnames.some((pattern) => matchesHostnamePattern(location.hostname, pattern))) {
+    return false;
+  }
+  if (match.pathPattern && !match.pathPattern.test(location.pathname)) {
+    return false;
+  }
+  if (match.selector && !document.querySelector(match.selector)) {
+    return false;
+  }
+  return true;
+}
+function resolveSiteProfile(location = window.location, profiles = SITE_PROFILES) {
+  var _a;
+  return (_a = profiles.find((profile) => matchesProfile(profile.match, location))) != null ? _a : DEFAULT_SITE_PROFILE;
+}
+
+// src/utils/navigationConfig.ts
+var NAVIGATION_CHANGE_EVENT = "partnersNavigationChanged";
+
+// src/utils/navigationMonitor.ts
+var NAVIGATION_API_TYPES = {
+  push: "push",
+  replace: "replace",
+  traverse: "pop",
+  reload: "replace"
+};
+function classifyNavigation(type, oldUrl, newUrl) {
+  if (oldUrl === newUrl) return "same";
+  if (oldUrl.split("#")[0] === newUrl.split("#")[0]) return "hash";
+  return type;
+}
+function notify(state, type, oldUrl, source, logger) {
+  const newUrl = window.location.href;
+  const change = {
+    type: classifyNavigation(type, oldUrl, newUrl),
+    oldUrl,
+    newUrl,
+    source,
+    timestamp: Date.now()
+  };
+  state.lastUrl = newUrl;
+  logger.log(`Navigation (${change.type}) ${oldUrl} \u2192 ${newUrl}`);
+  dispatchCustomEvent(NAVIGATION_CHANGE_EVENT, change);
+  const { pathname } = window.location;
+  state.subscribers.forEach((subscriber) => {
+    if (subscriber.routes && !subscriber.routes.some((route) => route.test(pathname))) {
+      return;
+    }
+    try {
+      subscriber.onNavigate(change);
+    } catch (error) {
+      logger.error(`Navigation subscriber "${subscriber.id}" failed:`, error);
+    }
+  });
+}
+function listenToNavigationApi(navigation, state, logger) {
+  const onEntryChange = (event) => {
+    var _a, _b;
+    const { navigationType, from } = event;
+    const type = (_a = NAVIGATION_API_TYPES[navigationType != null ? navigationType : "push"]) != null ? _a : "push";
+    notify(state, type, (_b = from == null ? void 0 : from.url) != null ? _b : state.lastUrl, "navigationApi", logger);
+  };
+  navigation.addEventListener("currententrychange", onEntryChange);
+  return () => navigation.removeEventListener("currententrychange", onEntryChange);
+}
+function hookHistory(state, logger) {
+  const { history } = window;
+  const originalPushState = history.pushState;
+  const originalReplaceState = history.replaceState;
+  let active = true;
+  const hook = (original, type) => function historyHook(...args) {
+    const oldUrl = window.location.href;
+    original.apply(this, args);
+    if (active) {
+      notify(state, type, oldUrl, "history", logger);
+    }
+  };
+  const pushStateHook = hook(originalPushState, "push");
+  const replaceStateHook = hook(originalReplaceState, "replace");
+  history.pushState = pushStateHook;
+  history.replaceState = replaceStateHook;
+  const onPopState = () => notify(state, "pop", state.lastUrl, "history", logger);
+  const onHashChange = (event) => {
+    if (window.location.href === state.lastUrl) return;
+    notify(state, "pop", event.oldURL, "history", logger);
+  };
+  window.addEventListener("popstate", onPopState, { passive: true });
+  window.addEventListener("hashchange", onHashChange, { passive: true });
+  return () => {
+    active = false;
+    window.removeEventListener("popstate", onPopState);
+    window.removeEventListener("hashchange", onHashChange);
+    if (history.pushState === pushStateHook) {
+      history.pushState = originalPushState;
+    } else {
+      logger.warn("history.pushState was wrapped after the navigation monitor, left in place");
+    }
+    if (history.replaceState === replaceStateHook) {
+      history.replaceState = originalReplaceState;
+    } else {
+      logger.warn("history.replaceState was wrapped after the navigation monitor, left in place");
+    }
+  };
+}
+function installNavigationMonitor(testMode = false) {
+  const existing = getPartnerState("navigationMonitor");
+  if (existing) {
+    return existing;
+  }
+  const logger = createLogger("Navigation Monitor", testMode);
+  const state = {
+    subscribers: [],
+    lastUrl: window.location.href,
+    uninstall: () => {
+    }
+  };
+  const { navigation } = window;
+  const teardown = navigation ? listenToNavigationApi(navigation, state, logger) : hookHistory(state, logger);
+  state.uninstall = () => {
+    teardown();
+    state.subscribers = [];
+    setPartnerState("navigationMonitor", void 0);
+    logger.log("Navigation monitor uninstalled");
+  };
+  setPartnerState("navigationMonitor", state);
+  logger.log(`Navigation monitor installed (${navigation ? "Navigation API" : "History API"})`);
+  return state;
+}
+function subscribeToNavigation(subscriber, logger, testMode = false) {
+  const state = installNavigationMonitor(testMode);
+  state.subscribers = [
+    ...state.subscribers.filter((existing) => existing.id !== subscriber.id),
+    subscriber
+  ];
+  logger.log(`Navigation subscriber "${subscriber.id}" registered`);
+  return () => {
+    state.subscribers = state.subscribers.filter((existing) => existing !== subscriber);
+  };
+}
+
 // src/scripts/spa/spaPageViewTitleMonitor.ts
+function recordSpaReferrer() {
+  const previousPageUrl = getPartnerState("previousPageUrl");
+  const referrer = previousPageUrl && previousPageUrl !== window.location.href ? previousPageUrl : document.referrer;
+  if (referrer) {
+    setPartnerState("spaReferrerUrl", referrer);
+  }
+  setPartnerState("previousPageUrl", window.location.href);
+}
 var TITLE_MONITOR_CONFIG = {
   selector: "title",
   stateKey: "titleValue",
@@ -246,9 +608,25 @@ var TITLE_MONITOR_CONFIG = {
   extractValue: () => document.title,
   isValidValue: (title) => !isDefaultTitle(title),
   disconnectAfterFirst: true,
-  // Track the current URL as the previous page URL for SPA referrer tracking
-  onEmit: () => setPartnerState("previousPageUrl", window.location.href)
+  // Recorded before dispatch so a rule sending the page view on the event
+  // reads this page's referrer, not the previous one
+  beforeDispatch: () => recordSpaReferrer()
 };
+var SUBSCRIBER_ID = "spaPageView";
+function armForNavigation(logger) {
+  const previousTitle = getPartnerStateByKey(TITLE_MONITOR_CONFIG.stateKey);
+  const awaitingNewTitle = __spreadProps(__spreadValues({}, TITLE_MONITOR_CONFIG), {
+    isValidValue: (title) => !isDefaultTitle(title) && title !== previousTitle
+  });
+  disconnectElementObserver(TITLE_MONITOR_CONFIG);
+  installElementObserver(awaitingNewTitle, logger);
+  return setTimeout(() => {
+    if (disconnectElementObserver(TITLE_MONITOR_CONFIG)) {
+      logger.log("Title unchanged after navigation, dispatching current title");
+      installElementObserver(TITLE_MONITOR_CONFIG, logger);
+    }
+  }, NAVIGATION_TITLE_WAIT_MS);
+}
 function spaPageViewTitleMonitorScript(testMode = false) {
   return executeScript(
     {
@@ -266,6 +644,15 @@ function spaPageViewTitleMonitorScript(testMode = false) {
     },
     (logger) => {
       var _a;
+      const profile = resolveSiteProfile();
+      if (!profile.monitors.includes("spaPageViewTitle")) {
+        logger.log(`Title change monitor not enabled for site profile "${profile.id}"`);
+        return {
+          success: false,
+          message: `Not enabled for site profile "${profile.id}"`,
+          alreadyHooked: false
+        };
+      }
       if (getPartnerStateByKey(TITLE_MONITOR_CONFIG.hookKey)) {
         logger.log("Title change observer already installed");
         return {
@@ -278,6 +665,20 @@ function spaPageViewTitleMonitorScript(testMode = false) {
       const result = installElementObserver(TITLE_MONITOR_CONFIG, logger);
       if (result.success) {
         setPartnerStateByKey(TITLE_MONITOR_CONFIG.hookKey, true);
+        let fallbackTimer;
+        subscribeToNavigation(
+          {
+            id: SUBSCRIBER_ID,
+            onNavigate: (change) => {
+              if (change.type === "hash" || change.type === "same") return;
+              logger.log(`${change.type} navigation, re-arming title observer`);
+              clearTimeout(fallbackTimer);
+              fallbackTimer = armForNavigation(logger);
+            }
+          },
+          logger,
+          testMode
+        );
       }
       return {
         success: result.success,
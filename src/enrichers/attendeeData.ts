@@ -0,0 +1,25 @@
+/**
+ * Attendee data enricher
+ *
+ * adobeevents.com attendee record from localStorage.
+ */
+
+import { getStorageItem } from '../utils/storage.js';
+import { ATTENDEE_STORAGE_KEY, PAGE_VIEW_EVENT_TYPE } from '../utils/constants.js';
+import type { Enricher } from './types.js';
+
+export const attendeeDataEnricher: Enricher = {
+  name: 'attendeeData',
+  skipEventTypes: [PAGE_VIEW_EVENT_TYPE],
+  consentCategory: 'attendee',
+  targetPath: ['_adobepartners', 'attendeeData'],
+  extract: ({ logger }) => {
+    const data = getStorageItem(ATTENDEE_STORAGE_KEY);
+    if (!data) {
+      logger.log('No attendee data in localStorage');
+      return null;
+    }
+    logger.log('Found attendee data', data);
+    return data;
+  },
+};
@@ -0,0 +1,32 @@
+/**
+ * Card collection enricher
+ *
+ * Card/tile context from event.composedPath() using the component extractor
+ * registry (componentExtractorConfig.ts).
+ */
+
+import type { PartnerCardCtx } from '../types/index.js';
+import { extractComponentCtxFromEvent } from '../utils/componentExtractor.js';
+import { PAGE_VIEW_EVENT_TYPE } from '../utils/constants.js';
+import type { Enricher } from './types.js';
+
+export const cardCollectionEnricher: Enricher<PartnerCardCtx> = {
+  name: 'cardCollection',
+  skipEventTypes: [PAGE_VIEW_EVENT_TYPE],
+  targetPath: ['_adobepartners', 'cardCollection'],
+  extract: ({ event, logger }) => {
+    if (!event) {
+      logger.log('No event provided, skipping card collection extraction');
+      return null;
+    }
+
+    const cardCollection = extractComponentCtxFromEvent(event, logger);
+    if (cardCollection) {
+      logger.log('Extracted card collection from event', cardCollection);
+    } else {
+      logger.log('No card collection found in event (click was not on a registered component)');
+    }
+
+    return cardCollection;
+  },
+};
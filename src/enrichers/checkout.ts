@@ -0,0 +1,148 @@
+/**
+ * Checkout enricher
+ *
+ * Payment method and cart items when the Magento Place Order button is
+ * clicked. Cart items come from mage-cache-storage, falling back to the DOM.
+ */
+
+import type { CheckoutData, CartItem } from '../types/index.js';
+import type { Logger } from '../utils/logger.js';
+import { getTextContent, findInComposedPath, createElementMatcher } from '../utils/dom.js';
+import { extractCartItemsFromStorage, resolvePaymentType } from '../utils/commerce.js';
+import { CHECKOUT_SELECTORS } from '../utils/commerceConfig.js';
+import { PAGE_VIEW_EVENT_TYPE } from '../utils/constants.js';
+import type { Enricher } from './types.js';
+
+/**
+ * Checks if the clicked element is the Place Order button
+ * @param event - The click event
+ * @returns true if Place Order button was clicked
+ */
+function isPlaceOrderClick(event: PointerEvent | MouseEvent | undefined): boolean {
+  if (!event) return false;
+
+  const isPlaceOrderButton = createElementMatcher('button', 'action');
+  const button = findInComposedPath(event, isPlaceOrderButton);
+
+  if (!button) return false;
+
+  // Verify it's the checkout button with Place Order text
+  const hasCheckoutClass = button.classList.contains('checkout');
+  const hasPlaceOrderText = button.textContent?.toLowerCase().includes('place order');
+
+  return hasCheckoutClass && !!hasPlaceOrderText;
+}
+
+/**
+ * Extracts the selected payment method and maps it to a normalized type
+ * @param logger - Logger instance
+ * @returns Payment type and raw method code, or null if no method is selected
+ */
+function extractPaymentMethod(
+  logger: Logger
+): Pick<CheckoutData, 'paymentType' | 'paymentMethodCode'> | null {
+  const checkedRadio = document.querySelector(
+    CHECKOUT_SELECTORS.PAYMENT_METHOD_RADIO
+  ) as HTMLInputElement | null;
+
+  if (!checkedRadio) {
+    logger.log('No payment method selected');
+    return null;
+  }
+
+  // Find the label for this radio button
+  const label = document.querySelector(`label[for="${checkedRadio.id}"]`);
+  const paymentMethodCode = checkedRadio.value;
+  const paymentType = resolvePaymentType(paymentMethodCode, getTextContent(label));
+
+  logger.log('Extracted payment method', { paymentType, paymentMethodCode });
+  return { paymentType, paymentMethodCode };
+}
+
+/**
+ * Extracts cart items from DOM (fallback when localStorage is unavailable)
+ * Note: Only product names are available from DOM, other fields will be empty/zero
+ * @param logger - Logger instance
+ * @returns Array of CartItem objects with only productName populated
+ */
+function extractCartItemsFromDOM(logger: Logger): CartItem[] {
+  const itemElements = document.querySelectorAll(
+    `${CHECKOUT_SELECTORS.CART_ITEMS_CONTAINER} ${CHECKOUT_SELECTORS.CART_ITEM}`
+  );
+
+  if (!itemElements.length) {
+    logger.log('No cart items found in DOM');
+    return [];
+  }
+
+  const cartItems: CartItem[] = [];
+
+  itemElements.forEach((item) => {
+    const nameElement = item.querySelector(CHECKOUT_SELECTORS.PRODUCT_NAME);
+    const productName = getTextContent(nameElement);
+
+    if (productName) {
+      cartItems.push({
+        type: '',
+        quantity: 0,
+        productID: '',
+        productName,
+        SKU: '',
+        url: '',
+        price: 0,
+      });
+    }
+  });
+
+  logger.log('Extracted cart items from DOM (fallback)', cartItems);
+  return cartItems;
+}
+
+/**
+ * Extracts cart items, trying localStorage first then falling back to DOM
+ * @param logger - Logger instance
+ * @returns Array of CartItem objects matching XDM schema
+ */
+function extractCartItems(logger: Logger): CartItem[] {
+  // Try localStorage first (has full data)
+  const storageItems = extractCartItemsFromStorage(logger);
+  if (storageItems) {
+    return storageItems;
+  }
+
+  // Fallback to DOM extraction (limited data - only product names)
+  logger.log('localStorage extraction failed, falling back to DOM');
+  return extractCartItemsFromDOM(logger);
+}
+
+export const checkoutEnricher: Enricher<CheckoutData> = {
+  name: 'Checkout',
+  skipEventTypes: [PAGE_VIEW_EVENT_TYPE],
+  consentCategory: 'commerce',
+  targetPath: ['_adobepartners', 'Checkout'],
+  extract: ({ event, logger }) => {
+    if (!isPlaceOrderClick(event)) {
+      return null;
+    }
+
+    logger.log('Place Order button clicked, extracting checkout data');
+
+    const paymentMethod = extractPaymentMethod(logger);
+    const itemsInCart = extractCartItems(logger);
+
+    // Only return checkout data if we have at least payment method or cart items
+    if (!paymentMethod && !itemsInCart.length) {
+      logger.warn('Could not extract checkout data');
+      return null;
+    }
+
+    const checkoutData: CheckoutData = {
+      paymentType: paymentMethod?.paymentType ?? '',
+      paymentMethodCode: paymentMethod?.paymentMethodCode ?? '',
+      itemsInCart,
+    };
+
+    logger.log('Extracted checkout data', checkoutData);
+    return checkoutData;
+  },
+};
@@ -0,0 +1,16 @@
+/**
+ * Consent enricher
+ *
+ * Records the consent snapshot the other enrichers were gated on.
+ */
+
+import type { ConsentSnapshot } from '../utils/consentConfig.js';
+import { PAGE_VIEW_EVENT_TYPE } from '../utils/constants.js';
+import type { Enricher } from './types.js';
+
+export const consentEnricher: Enricher<ConsentSnapshot> = {
+  name: 'consent',
+  skipEventTypes: [PAGE_VIEW_EVENT_TYPE],
+  targetPath: ['_adobepartners', 'consent'],
+  extract: ({ consent }) => consent,
+};
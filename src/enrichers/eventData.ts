@@ -0,0 +1,24 @@
+/**
+ * Event data enricher
+ *
+ * adobeevents.com event data stored in window._adobePartners by
+ * fetchEventData on page load.
+ */
+
+import { PAGE_VIEW_EVENT_TYPE } from '../utils/constants.js';
+import type { Enricher } from './types.js';
+
+export const eventDataEnricher: Enricher = {
+  name: 'eventData',
+  skipEventTypes: [PAGE_VIEW_EVENT_TYPE],
+  targetPath: ['_adobepartners', 'eventData'],
+  extract: ({ logger }) => {
+    const eventData = window._adobePartners?.eventData?.apiResponse;
+    if (!eventData) {
+      logger.log('No event data in window._adobePartners');
+      return null;
+    }
+    logger.log('Found event data from global state', eventData);
+    return eventData;
+  },
+};
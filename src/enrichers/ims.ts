@@ -0,0 +1,21 @@
+/**
+ * IMS enricher
+ *
+ * IMS org/profile data from localStorage (see extractImsData).
+ */
+
+import { extractImsDataScript } from '../scripts/data/extractImsData.js';
+import { PAGE_VIEW_EVENT_TYPE } from '../utils/constants.js';
+import type { Enricher } from './types.js';
+
+export const imsEnricher: Enricher = {
+  name: 'IMS',
+  skipEventTypes: [PAGE_VIEW_EVENT_TYPE],
+  consentCategory: 'identity',
+  targetPath: ['_adobepartners', 'IMS'],
+  extract: ({ testMode, logger }) => {
+    const imsData = extractImsDataScript(testMode);
+    logger.log('Extracted IMS data from localStorage', imsData);
+    return imsData;
+  },
+};
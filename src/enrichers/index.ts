@@ -0,0 +1,46 @@
+/**
+ * Enricher registry for the before-send callback
+ *
+ * Enrichers run in this order; later enrichers writing the same path win.
+ * To add an enricher, create a module in this directory exporting an
+ * Enricher and add it here.
+ */
+
+import type { Enricher } from './types.js';
+import { pageNameEnricher } from './pageName.js';
+import { pageContextEnricher, siteSectionEnricher } from './pageContext.js';
+import { spaReferrerEnricher } from './spaReferrer.js';
+import { partnerDataEnricher } from './partnerData.js';
+import { imsEnricher } from './ims.js';
+import { cardCollectionEnricher } from './cardCollection.js';
+import { linkClickLabelEnricher } from './linkClickLabel.js';
+import { linkClassificationEnricher } from './linkClassification.js';
+import { checkoutEnricher } from './checkout.js';
+import { eventDataEnricher } from './eventData.js';
+import { attendeeDataEnricher } from './attendeeData.js';
+import { publisherDataEnricher } from './publisherData.js';
+import { consentEnricher } from './consent.js';
+
+export type { Enricher, EnricherContext, EnricherRunEntry } from './types.js';
+export { runEnricher, runEnrichers } from './runner.js';
+
+/**
+ * Registered enrichers, in run order
+ * @constant
+ */
+export const ENRICHERS: readonly Enricher[] = [
+  pageNameEnricher,
+  siteSectionEnricher,
+  spaReferrerEnricher,
+  pageContextEnricher,
+  partnerDataEnricher,
+  imsEnricher,
+  cardCollectionEnricher,
+  linkClickLabelEnricher,
+  linkClassificationEnricher,
+  checkoutEnricher,
+  eventDataEnricher,
+  attendeeDataEnricher,
+  publisherDataEnricher,
+  consentEnricher,
+];
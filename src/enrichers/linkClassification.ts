@@ -0,0 +1,30 @@
+/**
+ * Link classification enricher
+ *
+ * Classifies the clicked link as outbound, download, crossSite or internal
+ * (linkClassificationConfig.ts).
+ */
+
+import type { LinkClassification } from '../types/index.js';
+import { findInComposedPath, createElementMatcher } from '../utils/dom.js';
+import { classifyLink } from '../utils/linkClassification.js';
+import { PAGE_VIEW_EVENT_TYPE } from '../utils/constants.js';
+import type { Enricher } from './types.js';
+
+export const linkClassificationEnricher: Enricher<LinkClassification> = {
+  name: 'linkClassification',
+  skipEventTypes: [PAGE_VIEW_EVENT_TYPE],
+  targetPath: ['_adobepartners', 'linkClassification'],
+  extract: ({ event, logger }) => {
+    if (!event) return null;
+
+    const linkElement = findInComposedPath(event, createElementMatcher('a'));
+    if (!(linkElement instanceof HTMLAnchorElement) || !linkElement.href) {
+      return null;
+    }
+
+    const classification = classifyLink(linkElement);
+    logger.log('Link classification', classification);
+    return classification;
+  },
+};
@@ -0,0 +1,29 @@
+/**
+ * Link click label enricher
+ *
+ * daa-ll of the clicked link in the event's composed path. Works for all
+ * link clicks, not just partner cards.
+ */
+
+import { findInComposedPath, createElementMatcher, getAttribute } from '../utils/dom.js';
+import { COMPONENT_ATTRIBUTES } from '../utils/componentExtractorConfig.js';
+import { PAGE_VIEW_EVENT_TYPE } from '../utils/constants.js';
+import type { Enricher } from './types.js';
+
+export const linkClickLabelEnricher: Enricher<string> = {
+  name: 'linkClickLabel',
+  skipEventTypes: [PAGE_VIEW_EVENT_TYPE],
+  targetPath: ['_adobepartners', 'linkClickLabel'],
+  extract: ({ event, logger }) => {
+    if (!event) {
+      logger.log('No event provided, skipping daa-ll extraction');
+      return null;
+    }
+
+    const linkElement = findInComposedPath(event, createElementMatcher('a'));
+    logger.log('Found link element', linkElement);
+    const daaLlValue = getAttribute(linkElement, COMPONENT_ATTRIBUTES.DAA_LL);
+    logger.log('daa-ll value', daaLlValue);
+    return daaLlValue || null;
+  },
+};
@@ -0,0 +1,27 @@
+/**
+ * Page context enrichers
+ *
+ * Site section/subsection, language and page type (pageContextConfig.ts)
+ * on every event, including page views. The section is also written to the
+ * standard web.webPageDetails.siteSection field.
+ */
+
+import resolvePageContext from '../utils/pageContext.js';
+import type { PageContext } from '../utils/pageContextConfig.js';
+import type { Enricher } from './types.js';
+
+export const pageContextEnricher: Enricher<PageContext> = {
+  name: 'pageContext',
+  targetPath: ['_adobepartners', 'pageContext'],
+  extract: ({ logger }) => {
+    const pageContext = resolvePageContext();
+    logger.log('Resolved page context', pageContext);
+    return pageContext;
+  },
+};
+
+export const siteSectionEnricher: Enricher<string> = {
+  name: 'siteSection',
+  targetPath: ['web', 'webPageDetails', 'siteSection'],
+  extract: () => resolvePageContext().siteSection,
+};
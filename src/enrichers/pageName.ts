@@ -0,0 +1,19 @@
+/**
+ * Page name enricher
+ *
+ * Sets web.webPageDetails.name and viewName from document.title for every
+ * event type, including page views.
+ */
+
+import type { Enricher } from './types.js';
+
+export const pageNameEnricher: Enricher<{ name: string; viewName: string }> = {
+  name: 'pageName',
+  targetPath: ['web', 'webPageDetails'],
+  merge: true,
+  extract: ({ logger }) => {
+    const pageName = document.title;
+    logger.log('Extracted page name', pageName);
+    return pageName ? { name: pageName, viewName: pageName } : null;
+  },
+};
@@ -0,0 +1,22 @@
+/**
+ * Partner data enricher
+ *
+ * Partner profile from cookies, Exchange session storage and
+ * mage-cache-storage (see extractPartnerData).
+ */
+
+import { extractPartnerDataScript } from '../scripts/data/extractPartnerData.js';
+import { PAGE_VIEW_EVENT_TYPE } from '../utils/constants.js';
+import type { Enricher } from './types.js';
+
+export const partnerDataEnricher: Enricher = {
+  name: 'partnerData',
+  skipEventTypes: [PAGE_VIEW_EVENT_TYPE],
+  consentCategory: 'partnerProfile',
+  targetPath: ['_adobepartners', 'partnerData'],
+  extract: ({ testMode, cookieKeys, logger }) => {
+    const partnerData = extractPartnerDataScript(testMode, cookieKeys);
+    logger.log('Extracted partner data from cookie', partnerData);
+    return partnerData;
+  },
+};
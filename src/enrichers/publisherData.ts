@@ -0,0 +1,20 @@
+/**
+ * Publisher data enricher
+ *
+ * Exchange publisher data from localStorage (see extractPublisherData).
+ */
+
+import { extractPublisherDataScript } from '../scripts/data/extractPublisherData.js';
+import { PAGE_VIEW_EVENT_TYPE } from '../utils/constants.js';
+import type { Enricher } from './types.js';
+
+export const publisherDataEnricher: Enricher = {
+  name: 'publisherData',
+  skipEventTypes: [PAGE_VIEW_EVENT_TYPE],
+  targetPath: ['_adobepartners', 'publisherData'],
+  extract: ({ testMode, logger }) => {
+    const publisherData = extractPublisherDataScript(testMode);
+    logger.log('Extracted publisher data from localStorage', publisherData);
+    return publisherData;
+  },
+};
@@ -0,0 +1,88 @@
+/**
+ * Enricher runner
+ *
+ * Runs enrichers in order against one event. Each enricher is checked for
+ * site profile, event type, hostname and consent, then timed; a throwing enricher is
+ * recorded as an error and the remaining enrichers still run.
+ */
+
+import { setNestedValue } from '../utils/object.js';
+import { isHostnameMatch } from '../utils/url.js';
+import { isCategoryAllowed } from '../utils/consent.js';
+import type { Enricher, EnricherContext, EnricherRunEntry } from './types.js';
+
+/**
+ * Returns why an enricher does not apply to this event, or null if it does
+ */
+function getSkipReason(enricher: Enricher, context: EnricherContext): string | null {
+  const eventType = context.content.xdm?.eventType ?? '';
+
+  if (!context.profile.enrichers.includes(enricher.name)) {
+    return `not active in site profile "${context.profile.id}"`;
+  }
+
+  if (enricher.eventTypes && !enricher.eventTypes.includes(eventType)) {
+    return `event type "${eventType}" not in scope`;
+  }
+  if (enricher.skipEventTypes?.includes(eventType)) {
+    return `event type "${eventType}" skipped`;
+  }
+  if (enricher.hostnames && !enricher.hostnames.some((pattern) => isHostnameMatch(pattern))) {
+    return 'hostname not in scope';
+  }
+  if (enricher.consentCategory && !isCategoryAllowed(enricher.consentCategory, context.consent)) {
+    return `no consent for "${enricher.consentCategory}"`;
+  }
+  return null;
+}
+
+/**
+ * Runs a single enricher and writes its value into content.xdm
+ * @param enricher - Enricher to run
+ * @param context - Shared enricher context
+ * @returns Run entry with status and timing
+ */
+export function runEnricher(enricher: Enricher, context: EnricherContext): EnricherRunEntry {
+  const startedAt = performance.now();
+  const entry = (status: EnricherRunEntry['status'], reason?: string): EnricherRunEntry => ({
+    name: enricher.name,
+    status,
+    ...(reason && { reason }),
+    durationMs: Math.round((performance.now() - startedAt) * 100) / 100,
+  });
+
+  const skipReason = getSkipReason(enricher, context);
+  if (skipReason) {
+    return entry('skipped', skipReason);
+  }
+
+  try {
+    const value = enricher.extract(context);
+    if (value === null || value === undefined) {
+      return entry('empty');
+    }
+
+    setNestedValue(context.content, ['xdm', ...enricher.targetPath], value, enricher.merge);
+    return entry('applied');
+  } catch (error) {
+    context.logger.error(`Enricher "${enricher.name}" failed:`, error);
+    return entry('error', error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Runs enrichers in order
+ * @param enrichers - Ordered enricher list
+ * @param context - Shared enricher context
+ * @returns One run entry per enricher
+ *
+ * @example
+ * const report = runEnrichers(ENRICHERS, context);
+ * // [{ name: 'partnerData', status: 'applied', durationMs: 0.4 }, ...]
+ */
+export function runEnrichers(
+  enrichers: readonly Enricher[],
+  context: EnricherContext
+): EnricherRunEntry[] {
+  return enrichers.map((enricher) => runEnricher(enricher, context));
+}
@@ -0,0 +1,23 @@
+/**
+ * SPA referrer enricher
+ *
+ * Sets web.webReferrer.URL on page views from the referrer recorded by the
+ * SPA title monitor (the page the visitor navigated from inside the SPA).
+ */
+
+import { getPartnerState } from '../utils/globalState.js';
+import { PAGE_VIEW_EVENT_TYPE } from '../utils/constants.js';
+import type { Enricher } from './types.js';
+
+export const spaReferrerEnricher: Enricher<string> = {
+  name: 'spaReferrer',
+  eventTypes: [PAGE_VIEW_EVENT_TYPE],
+  targetPath: ['web', 'webReferrer', 'URL'],
+  extract: ({ logger }) => {
+    const referrer = getPartnerState('spaReferrerUrl');
+    if (!referrer) return null;
+
+    logger.log('SPA referrer', referrer);
+    return referrer;
+  },
+};
@@ -0,0 +1,61 @@
+/**
+ * Enricher plugin types for the before-send callback
+ *
+ * An enricher extracts one piece of data and declares where it goes in the
+ * XDM and when it applies. The callback runs the registered enrichers in
+ * order (see index.ts and runner.ts).
+ */
+
+import type { Logger } from '../utils/logger.js';
+import type { LaunchEventContent } from '../types/index.js';
+import type { ConsentSnapshot, EnrichmentCategory } from '../utils/consentConfig.js';
+import type { SiteProfile } from '../utils/siteProfileConfig.js';
+
+/**
+ * Inputs shared by all enrichers for one event
+ */
+export interface EnricherContext {
+  content: LaunchEventContent;
+  event?: PointerEvent | MouseEvent;
+  testMode: boolean;
+  logger: Logger;
+  /** Partner data cookie keys (later keys take precedence) */
+  cookieKeys: string[];
+  /** Consent state applied to this event */
+  consent: ConsentSnapshot;
+  /** Active site profile; enrichers it does not list are skipped */
+  profile: SiteProfile;
+}
+
+/**
+ * A single enrichment step
+ */
+export interface Enricher<TValue = unknown> {
+  /** Unique name used in logs and the run report */
+  name: string;
+  /** XDM event types the enricher runs for (all when omitted) */
+  eventTypes?: readonly string[];
+  /** XDM event types the enricher never runs for */
+  skipEventTypes?: readonly string[];
+  /** Hostname patterns the enricher is limited to (supports '*.' wildcard prefix) */
+  hostnames?: readonly string[];
+  /** Consent category required; the enricher is skipped without consent */
+  consentCategory?: EnrichmentCategory;
+  /** Path under `content.xdm` the value is written to */
+  targetPath: readonly string[];
+  /** Merge an object value into the existing object at targetPath */
+  merge?: boolean;
+  /** Returns the value to write, or null when there is nothing to add */
+  extract: (context: EnricherContext) => TValue | null;
+}
+
+/**
+ * Outcome of one enricher in a run
+ */
+export interface EnricherRunEntry {
+  name: string;
+  status: 'applied' | 'empty' | 'skipped' | 'error';
+  /** Why the enricher was skipped or failed */
+  reason?: string;
+  durationMs: number;
+}
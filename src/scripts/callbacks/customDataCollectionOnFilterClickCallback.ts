@@ -6,13 +6,16 @@
  *
  * Purpose:
  * - Filters out programmatic (non-trusted) click events
- * - Returns true for genuine user clicks
- * - Returns false for automated/programmatic clicks
+ * - Evaluates the click filter rules (clickFilterConfig.ts) in order
+ * - Suppresses repeated clicks on the same target; a burst with repeats gets a
+ *   follow-up clickBurstCommit beacon with clickCount / rageClick (clickBurstConfig.ts)
+ * - Returns true for genuine user clicks allowed by the rules
+ * - Returns false for automated/programmatic, denied or repeated clicks
  *
  * Architecture:
  * - This callback does FILTERING ONLY (no data extraction)
  * - Data extraction happens in customDataCollectionOnBeforeEventSend
- * - No window._adobePartners storage needed
+ * - The current burst is kept in window._adobePartners.clickBurst
  */
 
 // Use this custom code block to adjust or filter click data. You can use the following variables:
@@ -25,7 +28,11 @@
 // Return false to omit link data.
 
 import { executeScript } from '../../utils/script';
-import logEventInfo, { isMeaningfulClickEvent, isValidUserEvent } from '../../utils/events';
+import logEventInfo, { isValidUserEvent } from '../../utils/events';
+import { evaluateClickRules } from '../../utils/clickFilterEngine';
+import { CLICK_FILTER_RULES } from '../../utils/clickFilterConfig';
+import { resolveSiteProfile } from '../../utils/siteProfile';
+import resolveClickBurst from '../../utils/clickBurst';
 import type { LaunchEventContent } from '../../types';
 
 /**
@@ -76,12 +83,43 @@ export default function customDataCollectionOnFilterClickCallbackScript(
         return false;
       }
 
-      // Validate valid SPA click event
-      if (!isMeaningfulClickEvent(content, logger)) {
+      // Evaluate click filter rules (first match wins); rules may be scoped to a site profile
+      const profile = resolveSiteProfile();
+      logger.log(`Site profile "${profile.id}"`);
+      const decision = evaluateClickRules(content, event, CLICK_FILTER_RULES, profile);
+      logger.testInfo('Click filter rule trace', decision.trace);
+
+      if (!decision.allowed) {
+        logger.log(`Click denied by rule "${decision.ruleId}"`);
+
+        if (testMode) {
+          logger.testResult({
+            shouldProcess: false,
+            reason: `Denied by rule "${decision.ruleId}"`,
+            ruleId: decision.ruleId,
+          });
+        }
+
         return false;
       }
 
       if (event) {
+        // Collapse click bursts on the same target: the first click is sent now
+        const burst = resolveClickBurst(event, logger, testMode);
+        if (burst.suppress) {
+          logger.log(`Repeated click suppressed (click ${burst.clickCount} in burst)`);
+
+          if (testMode) {
+            logger.testResult({
+              shouldProcess: false,
+              reason: 'Repeated click on the same target',
+              clickCount: burst.clickCount,
+            });
+          }
+
+          return false;
+        }
+
         logger.log('✅ Event is trusted (genuine user click)', {
           isTrusted: event.isTrusted,
           type: event.type,
@@ -90,7 +128,8 @@ export default function customDataCollectionOnFilterClickCallbackScript(
         if (testMode) {
           logger.testResult({
             shouldProcess: true,
-            reason: 'Event is trusted',
+            reason: `Allowed by rule "${decision.ruleId}"`,
+            ruleId: decision.ruleId,
             eventType: event.type,
             isTrusted: event.isTrusted,
           });
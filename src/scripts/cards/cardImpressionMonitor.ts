@@ -0,0 +1,104 @@
+/**
+ * Card Impression Monitor Script for AEP
+ *
+ * Thin wrapper around the `installCardImpressionObserver` utility.
+ * Watches every registered card inside its collection wrapper (shadow roots
+ * included) and records an impression once a card has been at least 50%
+ * visible for the minimum dwell time. Impressions are batched into the
+ * cardImpressionsCommit direct call event with the same PartnerCardCtx
+ * fields the before-send callback sends for card clicks.
+ *
+ * XDM path: xdm._adobepartners.cardImpressions
+ *
+ * @version 1.0.0
+ */
+
+import { executeScript } from '../../utils/script.js';
+import {
+  installCardImpressionObserver,
+  type CardImpressionInstallResult,
+} from '../../utils/cardImpressionObserver.js';
+import { getPartnerState, setPartnerState } from '../../utils/globalState.js';
+import { resolveSiteProfile } from '../../utils/siteProfile.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface CardImpressionMonitorResult extends CardImpressionInstallResult {
+  alreadyHooked: boolean;
+}
+
+// ============================================================================
+// MAIN SCRIPT FUNCTION
+// ============================================================================
+
+/**
+ * Installs the card impression observer once per page load.
+ *
+ * @param testMode - Enable verbose logging for testing
+ * @returns Result object with success status and number of observed cards
+ *
+ * @example
+ * ```typescript
+ * // In AEP Launch Rule on Page Bottom (or DOM Ready):
+ * // Installs observer once per page load
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Enable debug mode and inspect the last batch:
+ * localStorage.setItem('__aep_scripts_debug', 'true');
+ * window._adobePartners.cardImpressionBatch;
+ * ```
+ */
+export function cardImpressionMonitorScript(
+  testMode: boolean = false
+): CardImpressionMonitorResult {
+  return executeScript<CardImpressionMonitorResult>(
+    {
+      scriptName: 'Card Impression Monitor',
+      testMode,
+      testHeaderTitle: 'CARD IMPRESSION MONITOR - TEST MODE',
+      onError: (error, logger) => {
+        logger.error('Error installing card impression monitor:', error);
+        return {
+          success: false,
+          message: 'Failed to install card impression monitor',
+          alreadyHooked: false,
+          cardCount: 0,
+        };
+      },
+    },
+    (logger) => {
+      const profile = resolveSiteProfile();
+      if (!profile.monitors.includes('cardImpression')) {
+        logger.log(`Card impression monitor not enabled for site profile "${profile.id}"`);
+        return {
+          success: false,
+          message: `Not enabled for site profile "${profile.id}"`,
+          alreadyHooked: false,
+          cardCount: 0,
+        };
+      }
+
+      if (getPartnerState('cardImpressionMonitorHooked')) {
+        logger.log('Card impression observer already installed');
+        return {
+          success: true,
+          message: 'Card impression observer already installed',
+          alreadyHooked: true,
+          cardCount: 0,
+        };
+      }
+
+      const result = installCardImpressionObserver(logger, testMode);
+
+      if (result.success) {
+        setPartnerState('cardImpressionMonitorHooked', true);
+      }
+
+      return { ...result, alreadyHooked: false };
+    }
+  );
+}
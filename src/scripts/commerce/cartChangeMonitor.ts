@@ -0,0 +1,240 @@
+/**
+ * Cart Change Monitor Script for AEP
+ *
+ * Detects add-to-cart and remove-from-cart by diffing snapshots of the cart
+ * section in Magento's mage-cache-storage. Changes are picked up from the
+ * storage event (writes from other tabs) and a low-frequency fallback check
+ * (writes from the current tab, which do not raise a storage event).
+ *
+ * The last snapshot is kept in localStorage, so a change made by a full
+ * page load (add-to-cart form post) is still detected on the next page.
+ * mage-cache-storage is shared by all tabs, and so is the snapshot: the tab
+ * that stores a changed snapshot reports the change only if its snapshot is
+ * still in place after CART_SNAPSHOT_CLAIM_DELAY_MS (compare-and-set), so an
+ * open tab never reports a change another tab already claimed.
+ * Order completion empties the cart, so no removes are sent on the checkout
+ * success page.
+ *
+ * XDM paths: eventType, commerce.productListAdds / commerce.productListRemoves,
+ * productListItems, _adobepartners.cartChange
+ *
+ * @version 1.0.0
+ */
+
+import { executeScript } from '../../utils/script.js';
+import type { Logger } from '../../utils/logger.js';
+import type { CartChangeData, CartSnapshotRecord } from '../../types/index.js';
+import { diffCartItems, isOrderSuccessPage, readCartSnapshot } from '../../utils/commerce.js';
+import {
+  CART_ADD_COMMIT_EVENT,
+  CART_ADD_EVENT_TYPE,
+  CART_EVENT_SPACING_MS,
+  CART_POLL_INTERVAL_MS,
+  CART_REMOVE_COMMIT_EVENT,
+  CART_REMOVE_EVENT_TYPE,
+  CART_SNAPSHOT_CLAIM_DELAY_MS,
+  CART_SNAPSHOT_STORAGE_KEY,
+  MAGE_CACHE_STORAGE_KEY,
+} from '../../utils/commerceConfig.js';
+import { getStorageItem, setStorageItem } from '../../utils/storage.js';
+import { getPartnerState, setPartnerState } from '../../utils/globalState.js';
+import { fireXdmVariableEvent, type XdmVariableField } from '../../utils/satellite.js';
+import { resolveSiteProfile } from '../../utils/siteProfile.js';
+import { isCategoryAllowed } from '../../utils/consent.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/** Result returned by the script */
+export interface CartChangeMonitorResult {
+  success: boolean;
+  message: string;
+  alreadyHooked: boolean;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Sends a cart change through the XDM Variable. `commerce`, productListItems
+ * and _adobepartners.cartChange are replaced as a whole, so an add never
+ * carries the counter of an earlier remove (or the reverse).
+ */
+function sendCartChange(change: CartChangeData, logger: Logger, testMode: boolean): void {
+  if (!isCategoryAllowed('commerce')) {
+    logger.log(`No consent for "commerce", cart ${change.action} not sent`);
+    return;
+  }
+
+  const isAdd = change.action === 'add';
+  const fields: XdmVariableField[] = [
+    [['eventType'], isAdd ? CART_ADD_EVENT_TYPE : CART_REMOVE_EVENT_TYPE],
+    [['commerce'], { [isAdd ? 'productListAdds' : 'productListRemoves']: { value: 1 } }],
+    [
+      ['productListItems'],
+      change.items.map((item) => ({
+        SKU: item.SKU,
+        name: item.productName,
+        quantity: item.quantityDelta,
+        priceTotal: item.price * item.quantityDelta,
+      })),
+    ],
+    [['_adobepartners', 'cartChange'], change],
+  ];
+
+  const commitEvent = isAdd ? CART_ADD_COMMIT_EVENT : CART_REMOVE_COMMIT_EVENT;
+  if (!fireXdmVariableEvent(commitEvent, fields, logger, testMode)) {
+    logger.warn('_satellite or XDM Variable not available, cart change not sent');
+    return;
+  }
+
+  logger.log(`Sent cart ${change.action} (${change.items.length} items)`, change);
+}
+
+/**
+ * Sends the adds and removes of a diff
+ */
+function sendCartDiff(
+  diff: ReturnType<typeof diffCartItems>,
+  logger: Logger,
+  testMode: boolean
+): void {
+  const { added } = diff;
+  let { removed } = diff;
+
+  if (removed.length && isOrderSuccessPage()) {
+    logger.log('Cart emptied by order completion, removes not sent');
+    removed = [];
+  }
+
+  if (added.length) {
+    sendCartChange({ action: 'add', items: added }, logger, testMode);
+  }
+
+  if (removed.length) {
+    // Give the add rule time to read the XDM Variable before it is overwritten
+    const delay = added.length ? CART_EVENT_SPACING_MS : 0;
+    setTimeout(() => sendCartChange({ action: 'remove', items: removed }, logger, testMode), delay);
+  }
+}
+
+/**
+ * Compares the current cart with the stored snapshot and, once this tab's
+ * snapshot has held for CART_SNAPSHOT_CLAIM_DELAY_MS, sends any changes
+ */
+function checkCart(tabId: string, logger: Logger, testMode: boolean): void {
+  const current = readCartSnapshot();
+  if (!current) {
+    logger.log('Cart section not loaded yet');
+    return;
+  }
+
+  const previous = getStorageItem<CartSnapshotRecord>(CART_SNAPSHOT_STORAGE_KEY);
+  if (previous && JSON.stringify(previous.items) === JSON.stringify(current)) {
+    return;
+  }
+
+  setStorageItem<CartSnapshotRecord>(CART_SNAPSHOT_STORAGE_KEY, { items: current, tabId });
+
+  if (!Array.isArray(previous?.items)) {
+    logger.log('Stored initial cart snapshot', current);
+    return;
+  }
+
+  const diff = diffCartItems(previous.items, current);
+  setTimeout(() => {
+    const stored = getStorageItem<CartSnapshotRecord>(CART_SNAPSHOT_STORAGE_KEY);
+    if (stored?.tabId !== tabId) {
+      logger.log('Cart change claimed by another tab, not sent');
+      return;
+    }
+    sendCartDiff(diff, logger, testMode);
+  }, CART_SNAPSHOT_CLAIM_DELAY_MS);
+}
+
+// ============================================================================
+// MAIN SCRIPT FUNCTION
+// ============================================================================
+
+/**
+ * Installs cart change detection once per page load
+ *
+ * This function:
+ * 1. Diffs the cart against the snapshot from the previous check/page
+ * 2. Listens for mage-cache-storage storage events (other tabs)
+ * 3. Re-checks every CART_POLL_INTERVAL_MS or the profile's cartPollIntervalMs (same tab)
+ * 4. Fires cartAddCommit / cartRemoveCommit with quantity deltas
+ *
+ * @param testMode - Enable verbose logging for testing
+ * @returns Result object with success status
+ *
+ * @example
+ * ```typescript
+ * // In AEP Launch Rule on Page Bottom (Magento store):
+ * // Installs detection once per page load
+ * ```
+ */
+export function cartChangeMonitorScript(testMode: boolean = false): CartChangeMonitorResult {
+  return executeScript<CartChangeMonitorResult>(
+    {
+      scriptName: 'Cart Change Monitor',
+      testMode,
+      testHeaderTitle: 'CART CHANGE MONITOR - TEST MODE',
+      onError: (error, logger) => {
+        logger.error('Error installing cart change monitor:', error);
+        return {
+          success: false,
+          message: 'Failed to install cart change monitor',
+          alreadyHooked: false,
+        };
+      },
+    },
+    (logger) => {
+      const profile = resolveSiteProfile();
+      if (!profile.monitors.includes('cartChange')) {
+        logger.log(`Cart change monitor not enabled for site profile "${profile.id}"`);
+        return {
+          success: false,
+          message: `Not enabled for site profile "${profile.id}"`,
+          alreadyHooked: false,
+        };
+      }
+
+      if (getPartnerState('cartMonitorHooked')) {
+        logger.log('Cart change monitor already installed');
+        return {
+          success: true,
+          message: 'Cart change monitor already installed',
+          alreadyHooked: true,
+        };
+      }
+
+      // Identifies this tab's snapshot writes (compare-and-set across tabs)
+      const tabId = Math.random().toString(36).slice(2);
+      checkCart(tabId, logger, testMode);
+
+      window.addEventListener('storage', (storageEvent: StorageEvent) => {
+        if (storageEvent.key === MAGE_CACHE_STORAGE_KEY) {
+          checkCart(tabId, logger, testMode);
+        }
+      });
+
+      setPartnerState(
+        'cartMonitorInterval',
+        setInterval(
+          () => checkCart(tabId, logger, testMode),
+          profile.options.cartPollIntervalMs ?? CART_POLL_INTERVAL_MS
+        )
+      );
+      setPartnerState('cartMonitorHooked', true);
+
+      return {
+        success: true,
+        message: 'Cart change monitor installed',
+        alreadyHooked: false,
+      };
+    }
+  );
+}
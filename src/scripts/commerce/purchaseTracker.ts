@@ -0,0 +1,154 @@
+/**
+ * Purchase Tracker Script for AEP
+ *
+ * Detects the Magento checkout success page, extracts the order (increment
+ * ID, subtotal, tax, shipping, discount, currency) from the page and from
+ * mage-cache-storage, and sends a commerce.purchases event.
+ *
+ * Each order ID is tracked once — reloading the success page does not
+ * send a second purchase.
+ *
+ * XDM paths: eventType, commerce.purchases, commerce.order,
+ * productListItems, _adobepartners.Order
+ *
+ * @version 1.0.0
+ */
+
+import { executeScript } from '../../utils/script.js';
+import type { OrderData } from '../../types/index.js';
+import {
+  extractOrderData,
+  isOrderAlreadyTracked,
+  isOrderSuccessPage,
+  markOrderTracked,
+} from '../../utils/commerce.js';
+import { PURCHASE_COMMIT_EVENT, PURCHASE_EVENT_TYPE } from '../../utils/commerceConfig.js';
+import { fireXdmVariableEvent, type XdmVariableField } from '../../utils/satellite.js';
+import { resolveSiteProfile } from '../../utils/siteProfile.js';
+import { isCategoryAllowed } from '../../utils/consent.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/** Result returned by the script */
+export interface PurchaseTrackerResult {
+  success: boolean;
+  message: string;
+  order?: OrderData;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Builds the purchase event fields: the standard commerce fields plus the
+ * full OrderData under _adobepartners.Order
+ */
+function buildOrderXdmFields(order: OrderData): XdmVariableField[] {
+  return [
+    [['eventType'], PURCHASE_EVENT_TYPE],
+    [
+      ['commerce'],
+      {
+        purchases: { value: 1 },
+        order: {
+          purchaseID: order.orderID,
+          priceTotal: order.total,
+          currencyCode: order.currency,
+          taxAmount: order.tax,
+          discountAmount: order.discount,
+        },
+      },
+    ],
+    [
+      ['productListItems'],
+      order.itemsInCart.map((item) => ({
+        SKU: item.SKU,
+        name: item.productName,
+        quantity: item.quantity,
+        priceTotal: item.price * item.quantity,
+        currencyCode: order.currency,
+      })),
+    ],
+    [['_adobepartners', 'Order'], order],
+  ];
+}
+
+// ============================================================================
+// MAIN SCRIPT FUNCTION
+// ============================================================================
+
+/**
+ * Tracks a completed order on the checkout success page
+ *
+ * This function:
+ * 1. Checks for the checkout success page
+ * 2. Extracts order data from the page and mage-cache-storage
+ * 3. Skips orders already tracked (across reloads) and events without
+ *    consent for the commerce category
+ * 4. Writes commerce XDM fields, fires purchaseCommit and clears the fields again
+ *
+ * @param testMode - Enable verbose logging for testing
+ * @returns Result object with success status and order data
+ *
+ * @example
+ * ```typescript
+ * // In AEP Launch Rule on Page Bottom (Magento store):
+ * // Fires purchaseCommit once per order
+ * ```
+ */
+export function purchaseTrackerScript(testMode: boolean = false): PurchaseTrackerResult {
+  return executeScript<PurchaseTrackerResult>(
+    {
+      scriptName: 'Purchase Tracker',
+      testMode,
+      testHeaderTitle: 'PURCHASE TRACKER - TEST MODE',
+      onError: (error, logger) => {
+        logger.error('Error tracking purchase:', error);
+        return { success: false, message: 'Failed to track purchase' };
+      },
+    },
+    (logger) => {
+      const profile = resolveSiteProfile();
+      if (!profile.monitors.includes('purchase')) {
+        logger.log(`Purchase tracking not enabled for site profile "${profile.id}"`);
+        return {
+          success: false,
+          message: `Not enabled for site profile "${profile.id}"`,
+        };
+      }
+
+      if (!isOrderSuccessPage()) {
+        logger.log('Not a checkout success page');
+        return { success: false, message: 'Not a checkout success page' };
+      }
+
+      const order = extractOrderData(logger);
+      if (!order) {
+        return { success: false, message: 'Order data not found' };
+      }
+
+      if (isOrderAlreadyTracked(order.orderID, logger)) {
+        return { success: false, message: 'Order already tracked', order };
+      }
+
+      // Not marked as tracked, so a reload after consent is granted still sends it
+      if (!isCategoryAllowed('commerce')) {
+        logger.log('No consent for "commerce", purchase not sent');
+        return { success: false, message: 'No consent for commerce', order };
+      }
+
+      // Event-scoped: removed from the XDM Variable once the rule has read them
+      const fields = buildOrderXdmFields(order);
+      if (!fireXdmVariableEvent(PURCHASE_COMMIT_EVENT, fields, logger, testMode)) {
+        return { success: false, message: '_satellite or XDM Variable not available', order };
+      }
+
+      markOrderTracked(order.orderID);
+
+      return { success: true, message: 'Purchase tracked successfully', order };
+    }
+  );
+}
@@ -15,6 +15,7 @@
  */
 
 import { executeScript } from '../utils/script.js';
+import { resolveSiteProfile } from '../utils/siteProfile.js';
 
 /**
  * Main entry point for the custom on page load script
@@ -42,8 +43,9 @@ export function customOnPageLoadScript(testMode: boolean = false): null {
       },
     },
     (logger) => {
-      // Placeholder - add custom logic here as needed
-      logger.log('Custom on page load script executed');
+      // Placeholder - add custom logic here as needed, per site profile
+      const profile = resolveSiteProfile();
+      logger.log(`Custom on page load script executed (site profile "${profile.id}")`);
       return null;
     }
   );
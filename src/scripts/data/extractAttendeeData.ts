@@ -8,6 +8,7 @@
 import { executeScript } from '../../utils/script.js';
 import { getStorageItem } from '../../utils/storage.js';
 import { ATTENDEE_STORAGE_KEY } from '../../utils/constants.js';
+import { resolveSiteProfile } from '../../utils/siteProfile.js';
 
 /**
  * Main entry point for the attendee data extractor
@@ -25,6 +26,12 @@ export function extractAttendeeDataScript(testMode: boolean = false): unknown {
       },
     },
     (logger) => {
+      const profile = resolveSiteProfile();
+      if (!profile.enrichers.includes('attendeeData')) {
+        logger.log(`Attendee data not enabled for site profile "${profile.id}"`);
+        return null;
+      }
+
       const attendeeData = getStorageItem(ATTENDEE_STORAGE_KEY);
 
       if (!attendeeData) {
@@ -12,6 +12,7 @@ import { getStorageItem } from '../../utils/storage.js';
 import { isObject, isString, isArray } from '../../utils/validation.js';
 import type { Logger } from '../../utils/logger.js';
 import type { ImsData } from '../../types/index.js';
+import { resolveSiteProfile } from '../../utils/siteProfile.js';
 
 // Constants
 const SELECTED_ORG_KEY = 'selectedOrg';
@@ -83,6 +84,12 @@ export function extractImsDataScript(testMode: boolean = false): ImsData | null
       },
     },
     (logger) => {
+      const profile = resolveSiteProfile();
+      if (!profile.enrichers.includes('IMS')) {
+        logger.log(`IMS data not enabled for site profile "${profile.id}"`);
+        return null;
+      }
+
       const selectedOrg = getStorageItem<unknown>(SELECTED_ORG_KEY);
 
       if (selectedOrg === null) {
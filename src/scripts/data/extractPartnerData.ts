@@ -14,12 +14,14 @@ import { getCookie, parseJsonCookie } from '../../utils/cookie.js';
 import removeProperties, { mergeNonNull, pickFields } from '../../utils/object.js';
 import { hasProperty } from '../../utils/validation.js';
 import { DEFAULT_COOKIE_KEYS, EXCHANGE_SESSION_STORAGE_KEY } from '../../utils/constants.js';
+import { isCategoryAllowed } from '../../utils/consent.js';
 import { getStorageItem } from '../../utils/storage.js';
+import { resolveSiteProfile } from '../../utils/siteProfile.js';
+import { MAGE_CACHE_STORAGE_KEY } from '../../utils/commerceConfig.js';
 import type { Logger } from '../../utils/logger.js';
 
 // Constants
 const PROPERTIES_TO_REMOVE = ['latestAgreementAcceptedVersion'];
-const MAGE_CACHE_STORAGE_KEY = 'mage-cache-storage';
 const SESSION_STORAGE_FIELDS: readonly string[] = ['email', 'first_name', 'last_name'];
 
 /**
@@ -84,6 +86,17 @@ export function extractPartnerDataScript(
       },
     },
     (logger) => {
+      const profile = resolveSiteProfile();
+      if (!profile.enrichers.includes('partnerData')) {
+        logger.log(`Partner data not enabled for site profile "${profile.id}"`);
+        return null;
+      }
+
+      if (!isCategoryAllowed('partnerProfile')) {
+        logger.log('No consent for partner profile data, skipping');
+        return null;
+      }
+
       const sessionData = extractFromSessionStorage(EXCHANGE_SESSION_STORAGE_KEY, logger);
 
       const mergedData = cookieKeys.reduce(
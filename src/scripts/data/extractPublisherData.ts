@@ -11,6 +11,7 @@ import type { Logger } from '../../utils/logger.js';
 import { isValidPublisherId } from '../../utils/validation.js';
 import { extractAndValidate, createPathStructure } from '../../utils/url.js';
 import type { PublisherData } from '../../types/index.js';
+import { resolveSiteProfile } from '../../utils/siteProfile.js';
 
 // URL structure configuration for publisher links
 // Example: "/publisher/cc/2c4c7552-2bb9-4541-b625-04721319c07b/picture-instruments"
@@ -99,6 +100,12 @@ export function extractPublisherDataScript(testMode: boolean = false): Publisher
       },
     },
     (logger) => {
+      const profile = resolveSiteProfile();
+      if (!profile.enrichers.includes('publisherData')) {
+        logger.log(`Publisher data not enabled for site profile "${profile.id}"`);
+        return null;
+      }
+
       logger.log('Searching for publisher links in DOM');
 
       const links = document.querySelectorAll<HTMLAnchorElement>('a[href^="/publisher/"]');
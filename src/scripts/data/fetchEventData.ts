@@ -18,6 +18,7 @@ import { extractDates } from '../../utils/dates.js';
 import { dispatchCustomEvent } from '../../utils/dom.js';
 import { mergeWithTransforms } from '../../utils/transform.js';
 import setGlobalValue from '../../utils/globalState.js';
+import { resolveSiteProfile } from '../../utils/siteProfile.js';
 
 // Types
 export interface EventDataConfig {
@@ -101,6 +102,12 @@ export function fetchEventDataScript(testMode: boolean = false): Promise<unknown
       },
     },
     async (logger) => {
+      const profile = resolveSiteProfile();
+      if (!profile.enrichers.includes('eventData')) {
+        logger.log(`Event data not enabled for site profile "${profile.id}"`);
+        return null;
+      }
+
       const currentDomain = window.location.origin;
       const apiUrl = `${currentDomain}${API.EVENT_ENDPOINT}`;
 
@@ -7,6 +7,7 @@
  */
 
 import { executeScript } from '../../utils/script.js';
+import { resolveSiteProfile } from '../../utils/siteProfile.js';
 
 /**
  * Main entry point for the event data getter
@@ -24,6 +25,12 @@ export function getEventDataScript(testMode: boolean = false): unknown {
       },
     },
     (logger) => {
+      const profile = resolveSiteProfile();
+      if (!profile.enrichers.includes('eventData')) {
+        logger.log(`Event data not enabled for site profile "${profile.id}"`);
+        return null;
+      }
+
       // Check if apiResponse exists using optional chaining
       if (!window._adobePartners?.eventData?.apiResponse) {
         logger.log('No apiResponse found in window._adobePartners.eventData');
@@ -0,0 +1,100 @@
+/**
+ * Form Interaction Monitor Script for AEP
+ *
+ * Thin wrapper around the `installFormTracker` utility.
+ * Tracks every form on the page from its first trusted input: fields touched
+ * (in order), time per field and validation errors. Each session is sent once
+ * as "submit" or "abandon" (pagehide / SPA navigation) via the
+ * formInteractionCommit direct call event. Field values are never collected.
+ *
+ * XDM path: xdm._adobepartners.formInteraction
+ *
+ * @version 1.0.0
+ */
+
+import { executeScript } from '../../utils/script.js';
+import installFormTracker from '../../utils/formTracker.js';
+import { getPartnerState, setPartnerState } from '../../utils/globalState.js';
+import { resolveSiteProfile } from '../../utils/siteProfile.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface FormInteractionMonitorResult {
+  success: boolean;
+  message: string;
+  alreadyHooked: boolean;
+}
+
+// ============================================================================
+// MAIN SCRIPT FUNCTION
+// ============================================================================
+
+/**
+ * Installs the form tracker once per page load.
+ *
+ * @param testMode - Enable verbose logging for testing
+ * @returns Result object with success status
+ *
+ * @example
+ * ```typescript
+ * // In AEP Launch Rule on Library Loaded (or DOM Ready):
+ * // Installs tracker once per page load
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Enable debug mode and inspect the last form session:
+ * localStorage.setItem('__aep_scripts_debug', 'true');
+ * window._adobePartners.formInteraction;
+ * ```
+ */
+export function formInteractionMonitorScript(
+  testMode: boolean = false
+): FormInteractionMonitorResult {
+  return executeScript<FormInteractionMonitorResult>(
+    {
+      scriptName: 'Form Interaction Monitor',
+      testMode,
+      testHeaderTitle: 'FORM INTERACTION MONITOR - TEST MODE',
+      onError: (error, logger) => {
+        logger.error('Error installing form tracker:', error);
+        return {
+          success: false,
+          message: 'Failed to install form tracker',
+          alreadyHooked: false,
+        };
+      },
+    },
+    (logger) => {
+      const profile = resolveSiteProfile();
+      if (!profile.monitors.includes('formInteraction')) {
+        logger.log(`Form interaction monitor not enabled for site profile "${profile.id}"`);
+        return {
+          success: false,
+          message: `Not enabled for site profile "${profile.id}"`,
+          alreadyHooked: false,
+        };
+      }
+
+      if (getPartnerState('formTrackerHooked')) {
+        logger.log('Form tracker already installed');
+        return {
+          success: true,
+          message: 'Form tracker already installed',
+          alreadyHooked: true,
+        };
+      }
+
+      installFormTracker(logger, testMode);
+      setPartnerState('formTrackerHooked', true);
+
+      return {
+        success: true,
+        message: 'Form tracker installed',
+        alreadyHooked: false,
+      };
+    }
+  );
+}
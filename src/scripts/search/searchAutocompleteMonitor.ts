@@ -0,0 +1,100 @@
+/**
+ * Search Autocomplete Monitor Script for AEP
+ *
+ * Thin wrapper around the `installSearchAutocompleteTracker` utility.
+ * Watches the configured search boxes and records the typed prefix, the
+ * suggestions shown, the chosen suggestion and its position, and the search
+ * method (typed, suggestion, recent). The context is attached to the next
+ * search payload, so no event is fired here.
+ *
+ * XDM path: xdm._adobepartners.searchResults.searchAutocomplete
+ *
+ * @version 1.0.0
+ */
+
+import { executeScript } from '../../utils/script.js';
+import { installSearchAutocompleteTracker } from '../../utils/searchAutocompleteTracker.js';
+import { getPartnerState, setPartnerState } from '../../utils/globalState.js';
+import { resolveSiteProfile } from '../../utils/siteProfile.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface SearchAutocompleteMonitorResult {
+  success: boolean;
+  message: string;
+  alreadyHooked: boolean;
+}
+
+// ============================================================================
+// MAIN SCRIPT FUNCTION
+// ============================================================================
+
+/**
+ * Installs the search autocomplete listeners once per page load.
+ *
+ * @param testMode - Enable verbose logging for testing
+ * @returns Result object with success status
+ *
+ * @example
+ * ```typescript
+ * // In AEP Launch Rule on Library Loaded (or DOM Ready):
+ * // Installs listeners once per page load (search boxes may be on any page)
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Enable debug mode and inspect the context waiting for the next search:
+ * localStorage.setItem('__aep_scripts_debug', 'true');
+ * sessionStorage.getItem('__aep_search_autocomplete');
+ * ```
+ */
+export function searchAutocompleteMonitorScript(
+  testMode: boolean = false
+): SearchAutocompleteMonitorResult {
+  return executeScript<SearchAutocompleteMonitorResult>(
+    {
+      scriptName: 'Search Autocomplete Monitor',
+      testMode,
+      testHeaderTitle: 'SEARCH AUTOCOMPLETE MONITOR - TEST MODE',
+      onError: (error, logger) => {
+        logger.error('Error installing search autocomplete tracker:', error);
+        return {
+          success: false,
+          message: 'Failed to install search autocomplete tracker',
+          alreadyHooked: false,
+        };
+      },
+    },
+    (logger) => {
+      const profile = resolveSiteProfile();
+      if (!profile.monitors.includes('searchAutocomplete')) {
+        logger.log(`Search autocomplete monitor not enabled for site profile "${profile.id}"`);
+        return {
+          success: false,
+          message: `Not enabled for site profile "${profile.id}"`,
+          alreadyHooked: false,
+        };
+      }
+
+      if (getPartnerState('searchAutocompleteMonitorHooked')) {
+        logger.log('Search autocomplete tracker already installed');
+        return {
+          success: true,
+          message: 'Search autocomplete tracker already installed',
+          alreadyHooked: true,
+        };
+      }
+
+      installSearchAutocompleteTracker(logger);
+      setPartnerState('searchAutocompleteMonitorHooked', true);
+
+      return {
+        success: true,
+        message: 'Search autocomplete tracker installed',
+        alreadyHooked: false,
+      };
+    }
+  );
+}
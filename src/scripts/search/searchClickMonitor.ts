@@ -0,0 +1,98 @@
+/**
+ * Search Click Monitor Script for AEP
+ *
+ * Thin wrapper around the `installSearchClickTracker` utility.
+ * Attributes trusted clicks on search results (registered cards inside shadow
+ * DOM or plain result links) to the last committed search and sends the term,
+ * result position, result content ID and time since the search via the
+ * searchClickThrough direct call event.
+ *
+ * XDM path: xdm._adobepartners.searchClickThrough
+ *
+ * @version 1.0.0
+ */
+
+import { executeScript } from '../../utils/script.js';
+import installSearchClickTracker from '../../utils/searchClickTracker.js';
+import { getPartnerState, setPartnerState } from '../../utils/globalState.js';
+import { resolveSiteProfile } from '../../utils/siteProfile.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface SearchClickMonitorResult {
+  success: boolean;
+  message: string;
+  alreadyHooked: boolean;
+}
+
+// ============================================================================
+// MAIN SCRIPT FUNCTION
+// ============================================================================
+
+/**
+ * Installs the search click-through listener once per page load.
+ *
+ * @param testMode - Enable verbose logging for testing
+ * @returns Result object with success status
+ *
+ * @example
+ * ```typescript
+ * // In AEP Launch Rule on Library Loaded (or DOM Ready):
+ * // Installs listener once per page load
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Enable debug mode and inspect the last click-through:
+ * localStorage.setItem('__aep_scripts_debug', 'true');
+ * window._adobePartners.searchClickThrough;
+ * ```
+ */
+export function searchClickMonitorScript(testMode: boolean = false): SearchClickMonitorResult {
+  return executeScript<SearchClickMonitorResult>(
+    {
+      scriptName: 'Search Click Monitor',
+      testMode,
+      testHeaderTitle: 'SEARCH CLICK MONITOR - TEST MODE',
+      onError: (error, logger) => {
+        logger.error('Error installing search click tracker:', error);
+        return {
+          success: false,
+          message: 'Failed to install search click tracker',
+          alreadyHooked: false,
+        };
+      },
+    },
+    (logger) => {
+      const profile = resolveSiteProfile();
+      if (!profile.monitors.includes('searchClick')) {
+        logger.log(`Search click monitor not enabled for site profile "${profile.id}"`);
+        return {
+          success: false,
+          message: `Not enabled for site profile "${profile.id}"`,
+          alreadyHooked: false,
+        };
+      }
+
+      if (getPartnerState('searchClickMonitorHooked')) {
+        logger.log('Search click tracker already installed');
+        return {
+          success: true,
+          message: 'Search click tracker already installed',
+          alreadyHooked: true,
+        };
+      }
+
+      installSearchClickTracker(logger, testMode);
+      setPartnerState('searchClickMonitorHooked', true);
+
+      return {
+        success: true,
+        message: 'Search click tracker installed',
+        alreadyHooked: false,
+      };
+    }
+  );
+}
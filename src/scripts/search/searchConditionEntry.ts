@@ -17,6 +17,7 @@
 import { executeScript } from '../../utils/script.js';
 import { parseSearchUrl } from '../../utils/searchUrlParser.js';
 import { getPartnerState, setPartnerState } from '../../utils/globalState.js';
+import { resolveSearchSurface } from '../../utils/siteProfile.js';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -31,9 +32,10 @@ import { getPartnerState, setPartnerState } from '../../utils/globalState.js';
  *
  * This function:
  * 1. Ensures it runs only once per page load
- * 2. Parses URL parameters securely
- * 3. Validates search term existence and length
- * 4. Returns boolean for use in AEP Launch Rule conditions
+ * 2. Picks the search surface matching the page (site profile)
+ * 3. Parses URL parameters securely with the surface's term params
+ * 4. Validates search term existence and length
+ * 5. Returns boolean for use in AEP Launch Rule conditions
  *
  * @param testMode - Enable verbose logging for testing
  * @returns Boolean indicating if valid entry search detected
@@ -74,16 +76,24 @@ export function searchConditionEntryScript(testMode: boolean = false): boolean {
       setPartnerState('entrySearchChecked', true);
       logger.log('Entry search check initialized');
 
+      // Only search surfaces active in the site profile
+      const surface = resolveSearchSurface();
+      if (!surface) {
+        logger.log('Page is not an active search surface');
+        return false;
+      }
+
       // Parse and validate URL
-      const parsed = parseSearchUrl(undefined, logger);
+      const parsed = parseSearchUrl(undefined, logger, surface);
 
       if (!parsed.hasValidTerm) {
         logger.log('No valid entry search detected');
         return false;
       }
 
+      const from = parsed.termParam ? `param: "${parsed.termParam}"` : 'path';
       logger.log(
-        `Valid entry search detected - term: "${parsed.term}" from param: "${parsed.termParam}"`
+        `Valid entry search detected - term: "${parsed.term}" from ${from} via ${parsed.strategy} strategy (surface "${surface.id}")`
       );
       return true;
     }
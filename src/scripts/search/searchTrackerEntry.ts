@@ -27,6 +27,12 @@ export interface SearchTrackerEntryResult {
   term?: string;
   /** Number of filters extracted */
   filterCount?: number;
+  /** ID of the matched search surface */
+  surface?: string;
+  /** Whether searchCommit fires after the result count wait */
+  awaitingResultCount?: boolean;
+  /** PII matches replaced in the term and filter values */
+  redactionCount?: number;
 }
 
 // ============================================================================
@@ -40,8 +46,9 @@ export interface SearchTrackerEntryResult {
  * 1. Parses URL parameters securely
  * 2. Validates and sanitizes search term and filters
  * 3. Checks for duplicate searches
- * 4. Stores payload in window for variable setter
- * 5. Triggers searchCommit event
+ * 4. Waits (bounded) for the surface's result count
+ * 5. Stores payload in window for variable setter
+ * 6. Triggers searchCommit event
  *
  * @param testMode - Enable verbose logging for testing
  * @returns Result object with success status and details
@@ -70,6 +77,9 @@ export function searchTrackerEntryScript(testMode: boolean = false): SearchTrack
         message: result.message,
         term: result.term,
         filterCount: result.filterCount,
+        surface: result.surface,
+        awaitingResultCount: result.awaitingResultCount,
+        redactionCount: result.redactionCount,
       };
     }
   );
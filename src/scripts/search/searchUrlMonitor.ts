@@ -1,24 +1,26 @@
 /**
- * Search URL Monitor Script for AEP (v2 - Refactored)
+ * Search URL Monitor Script for AEP (v3 - Navigation Monitor)
  *
- * Hooks into the window.history API to track URL changes.
- * Refactored for improved security, performance, and maintainability.
+ * Subscribes to the site-wide navigation monitor for the site profile's
+ * search surfaces and dispatches partnersSearchUrlChanged when a navigation
+ * lands on one of them.
  *
  * Improvements:
- * - Better error handling in hooks
- * - Safer event dispatching
- * - Memory leak prevention
- * - Comprehensive documentation
- * - Follows SRP - single responsibility of monitoring URL changes
+ * - History hooks live in the shared navigationMonitor (installed once,
+ *   Navigation API where available, restorable)
+ * - Hash-route and fragment changes are reported
+ * - SPA navigations into a search page are covered even when the script
+ *   first ran elsewhere on the site
  *
- * @version 2.0.0
+ * @version 3.0.0
  */
 
 import { executeScript } from '../../utils/script.js';
-import type { Logger } from '../../utils/logger.js';
-import { getPartnerState, setPartnerState } from '../../utils/globalState.js';
 import dispatchCustomEvent from '../../utils/customEvent.js';
-import { URL_CHANGE_EVENT, URL_PATTERN } from '../../utils/searchConfig.js';
+import { URL_CHANGE_EVENT, SEARCH_SURFACES } from '../../utils/searchConfig.js';
+import { resolveSiteProfile } from '../../utils/siteProfile.js';
+import { hasNavigationSubscriber, subscribeToNavigation } from '../../utils/navigationMonitor.js';
+import type { NavigationType } from '../../utils/navigationConfig.js';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -28,11 +30,11 @@ import { URL_CHANGE_EVENT, URL_PATTERN } from '../../utils/searchConfig.js';
  * Result returned by the script
  */
 export interface SearchUrlMonitorResult {
-  /** Whether the hook was successfully installed */
+  /** Whether the subscriber was successfully registered */
   success: boolean;
   /** Message describing the result */
   message: string;
-  /** Whether hooks were already installed */
+  /** Whether the subscriber was already registered */
   alreadyHooked: boolean;
 }
 
@@ -42,90 +44,32 @@ export interface SearchUrlMonitorResult {
 interface UrlChangeDetail {
   /** The new URL */
   url: string;
+  /** The URL before the navigation */
+  previousUrl: string;
+  /** How the URL changed */
+  navigationType: NavigationType;
   /** Timestamp of the change */
   timestamp: number;
 }
 
 /**
- * Installs window.history API hooks
- *
- * @param logger - Logger instance for debugging
+ * Navigation subscriber ID
  */
-function installHistoryHooks(logger: Logger): void {
-  // Store original methods
-  const originalPushState = window.history.pushState;
-  const originalReplaceState = window.history.replaceState;
-
-  // Hook pushState
-  window.history.pushState = function pushStateHook(
-    ...args: Parameters<typeof window.history.pushState>
-  ): void {
-    try {
-      // Call original method
-      originalPushState.apply(window.history, args);
-
-      // Dispatch change event
-      logger.log('pushState detected, dispatching URL change event');
-      dispatchCustomEvent<UrlChangeDetail>(URL_CHANGE_EVENT, {
-        url: window.location.href,
-        timestamp: Date.now(),
-      });
-    } catch (error) {
-      // Restore original behavior on error
-      logger.error('Error in pushState hook:', error);
-      originalPushState.apply(window.history, args);
-    }
-  };
-
-  // Hook replaceState
-  window.history.replaceState = function replaceStateHook(
-    ...args: Parameters<typeof window.history.replaceState>
-  ): void {
-    try {
-      // Call original method
-      originalReplaceState.apply(window.history, args);
-
-      // Dispatch change event
-      logger.log('replaceState detected, dispatching URL change event');
-      dispatchCustomEvent<UrlChangeDetail>(URL_CHANGE_EVENT, {
-        url: window.location.href,
-        timestamp: Date.now(),
-      });
-    } catch (error) {
-      // Restore original behavior on error
-      logger.error('Error in replaceState hook:', error);
-      originalReplaceState.apply(window.history, args);
-    }
-  };
-
-  // Listen for popstate (back/forward buttons)
-  window.addEventListener(
-    'popstate',
-    () => {
-      logger.log('popstate detected, dispatching URL change event');
-      dispatchCustomEvent<UrlChangeDetail>(URL_CHANGE_EVENT, {
-        url: window.location.href,
-        timestamp: Date.now(),
-      });
-    },
-    { passive: true } // Performance optimization
-  );
-
-  logger.log('window.history API hooks installed successfully');
-}
+const SUBSCRIBER_ID = 'searchUrl';
 
 // ============================================================================
 // MAIN SCRIPT FUNCTION
 // ============================================================================
 
 /**
- * Installs window.history API hooks to monitor URL changes
+ * Subscribes to navigations on the site profile's search surfaces
  *
  * This function:
- * 1. Checks if hooks are already installed
- * 2. Wraps window.history.pushState and window.history.replaceState
- * 3. Listens for popstate events
- * 4. Dispatches custom partnersSearchUrlChanged event
+ * 1. Checks if the subscriber is already registered
+ * 2. Installs the navigation monitor (once per page) and subscribes with the
+ *    search surfaces' path patterns as routes
+ * 3. Dispatches custom partnersSearchUrlChanged event for every navigation
+ *    that changes the URL
  *
  * @param testMode - Enable verbose logging for testing
  * @returns Result object with success status
@@ -133,7 +77,7 @@ function installHistoryHooks(logger: Logger): void {
  * @example
  * ```typescript
  * // In AEP Launch Rule on Page Bottom:
- * // Installs hooks once per page load
+ * // Subscribes once per page load
  * ```
  *
  * @example
@@ -141,7 +85,7 @@ function installHistoryHooks(logger: Logger): void {
  * // Enable debug mode and listen for changes:
  * localStorage.setItem('__aep_scripts_debug', 'true');
  * window.addEventListener('partnersSearchUrlChanged', (e) => {
- *   console.log('URL changed:', e.detail.url);
+ *   console.log('URL changed:', e.detail.navigationType, e.detail.url);
  * });
  * ```
  */
@@ -161,47 +105,64 @@ export function searchUrlMonitorScript(testMode: boolean = false): SearchUrlMoni
       },
     },
     (logger) => {
-      // Only initialize on matching URLs
-      if (!URL_PATTERN.test(window.location.pathname)) {
-        logger.log('URL does not match search pattern, skipping initialization');
+      const profile = resolveSiteProfile();
+      if (!profile.monitors.includes('searchUrl')) {
+        logger.log(`Search URL monitor not enabled for site profile "${profile.id}"`);
         return {
           success: false,
-          message: 'URL does not match search pattern',
+          message: `Not enabled for site profile "${profile.id}"`,
           alreadyHooked: false,
         };
       }
 
-      // Check if already hooked
-      if (getPartnerState('urlHooked')) {
-        logger.log('URL change hooks already installed');
+      // Only navigations onto the profile's search surfaces are reported
+      const routes = SEARCH_SURFACES.filter((surface) =>
+        profile.searchSurfaces.includes(surface.id)
+      ).map((surface) => surface.pathPattern);
+      if (routes.length === 0) {
+        logger.log(`Site profile "${profile.id}" has no search surfaces`);
         return {
-          success: true,
-          message: 'URL change hooks already installed',
-          alreadyHooked: true,
+          success: false,
+          message: 'No search surfaces for site profile',
+          alreadyHooked: false,
         };
       }
 
-      try {
-        // Install hooks
-        installHistoryHooks(logger);
-
-        // Mark as hooked
-        setPartnerState('urlHooked', true);
-        logger.log('URL change hooks successfully installed');
-
+      // Check if already subscribed
+      if (hasNavigationSubscriber(SUBSCRIBER_ID)) {
+        logger.log('URL change subscriber already registered');
         return {
           success: true,
-          message: 'URL change hooks installed successfully',
-          alreadyHooked: false,
-        };
-      } catch (error) {
-        logger.error('Failed to install hooks:', error);
-        return {
-          success: false,
-          message: 'Failed to install URL change hooks',
-          alreadyHooked: false,
+          message: 'URL change subscriber already registered',
+          alreadyHooked: true,
         };
       }
+
+      subscribeToNavigation(
+        {
+          id: SUBSCRIBER_ID,
+          routes,
+          onNavigate: (change) => {
+            if (change.type === 'same') return;
+
+            logger.log(`${change.type} navigation on search surface, dispatching URL change event`);
+            dispatchCustomEvent<UrlChangeDetail>(URL_CHANGE_EVENT, {
+              url: change.newUrl,
+              previousUrl: change.oldUrl,
+              navigationType: change.type,
+              timestamp: change.timestamp,
+            });
+          },
+        },
+        logger,
+        testMode
+      );
+
+      return {
+        success: true,
+        message: 'URL change subscriber registered',
+        alreadyHooked: false,
+      };
     }
   );
 }
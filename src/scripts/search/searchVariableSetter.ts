@@ -12,11 +12,18 @@
 import { executeScript } from '../../utils/script.js';
 import type { Logger } from '../../utils/logger.js';
 import type { SearchPayload } from '../../utils/searchUrlParser.js';
-import type { XdmSearchResults } from '../../utils/searchConfig.js';
+import {
+  DEFAULT_SEARCH_SURFACE,
+  SEARCH_SURFACES,
+  type XdmSearchFilters,
+  type XdmSearchResults,
+} from '../../utils/searchConfig.js';
 import { ensurePath, getPartnerState } from '../../utils/globalState.js';
 import { flattenRecordValues } from '../../utils/object.js';
 import { getSatelliteVar } from '../../utils/satellite.js';
 import { XDM_VARIABLE_NAME } from '../../utils/constants.js';
+import { enforceAdobePartnersSchema } from '../../utils/xdmSchemaValidator.js';
+import { resolveSiteProfile } from '../../utils/siteProfile.js';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -74,6 +81,39 @@ function readSearchPayload(logger: Logger): SearchPayload | null {
   }
 }
 
+/**
+ * Splits payload filters into XDM searchFilters (keyed by the surface's
+ * filter map) and unmapped "param:value" entries
+ *
+ * @example
+ * mapSearchFilters({ products: ['photoshop'], sort: ['new'] }, { products: 'searchProducts' })
+ * // Returns { searchFilters: { searchProducts: ['photoshop'] }, unmappedFilters: ['sort:new'] }
+ */
+function mapSearchFilters(
+  filters: Record<string, string[]>,
+  filterMap: Readonly<Record<string, string>>
+): Pick<XdmSearchResults, 'searchFilters' | 'unmappedFilters'> {
+  const searchFilters: XdmSearchFilters = {};
+  const unmappedFilters: string[] = [];
+
+  Object.entries(filters).forEach(([param, values]) => {
+    const field = Object.prototype.hasOwnProperty.call(filterMap, param)
+      ? filterMap[param]
+      : undefined;
+
+    if (!field) {
+      values.forEach((value) => unmappedFilters.push(`${param}:${value}`));
+      return;
+    }
+
+    // Several params may map to the same facet
+    const merged = new Set([...(searchFilters[field] ?? []), ...values]);
+    searchFilters[field] = Array.from(merged);
+  });
+
+  return { searchFilters, unmappedFilters };
+}
+
 // ============================================================================
 // MAIN SCRIPT FUNCTION
 // ============================================================================
@@ -83,9 +123,13 @@ function readSearchPayload(logger: Logger): SearchPayload | null {
  *
  * This function:
  * 1. Reads window.__searchPayload safely
- * 2. Validates payload structure
- * 3. Maps filters to XDM schema field names
+ * 2. Validates payload structure and checks its search surface against the
+ *    active site profile
+ * 3. Maps filters to XDM searchFilters fields with the surface's filter map
+ *    and adds the result count / nullSearch flag, session refinement and
+ *    search box autocomplete context when known
  * 4. Writes searchResults into XDMVariable via _satellite.getVar()
+ * 5. Validates xdm._adobepartners against the field group schema
  *
  * @param testMode - Enable verbose logging for testing
  * @returns Result object with success status and XDM data
@@ -116,13 +160,37 @@ export function searchVariableSetterScript(testMode: boolean = false): SearchVar
         };
       }
 
+      // Only payloads from the site profile's search surfaces are written
+      const profile = resolveSiteProfile();
+      if (!profile.searchSurfaces.includes(payload.surface)) {
+        logger.log(
+          `Search surface "${payload.surface}" not enabled for site profile "${profile.id}"`
+        );
+        return {
+          success: false,
+          message: `Search surface not enabled for site profile "${profile.id}"`,
+        };
+      }
+
       // Build XDM search results
       const filters = flattenRecordValues(payload.filters);
+      const surface =
+        SEARCH_SURFACES.find((candidate) => candidate.id === payload.surface) ??
+        DEFAULT_SEARCH_SURFACE;
 
       const searchResults: XdmSearchResults = {
         searchTerm: payload.term,
         searchSource: payload.source,
+        ...(payload.termRedacted && { termRedacted: true }),
+        ...(payload.surfaceLabel && { searchSurface: payload.surfaceLabel }),
         filters,
+        ...mapSearchFilters(payload.filters, surface.filterMap),
+        ...(typeof payload.resultsCount === 'number' && {
+          searchResultsCount: payload.resultsCount,
+          nullSearch: payload.resultsCount === 0,
+        }),
+        ...(payload.refinement && { searchRefinement: payload.refinement }),
+        ...(payload.autocomplete && { searchAutocomplete: payload.autocomplete }),
       };
 
       logger.log('Built XDM searchResults:', searchResults);
@@ -145,7 +213,39 @@ export function searchVariableSetterScript(testMode: boolean = false): SearchVar
         // Set search results fields
         searchResultsNode.searchTerm = searchResults.searchTerm;
         searchResultsNode.searchSource = searchResults.searchSource;
+        if (searchResults.termRedacted) {
+          searchResultsNode.termRedacted = true;
+        } else {
+          delete searchResultsNode.termRedacted;
+        }
+        if (searchResults.searchSurface) {
+          searchResultsNode.searchSurface = searchResults.searchSurface;
+        } else {
+          delete searchResultsNode.searchSurface;
+        }
         searchResultsNode.filters = searchResults.filters;
+        searchResultsNode.searchFilters = searchResults.searchFilters;
+        searchResultsNode.unmappedFilters = searchResults.unmappedFilters;
+        if (searchResults.searchResultsCount !== undefined) {
+          searchResultsNode.searchResultsCount = searchResults.searchResultsCount;
+          searchResultsNode.nullSearch = searchResults.nullSearch;
+        } else {
+          delete searchResultsNode.searchResultsCount;
+          delete searchResultsNode.nullSearch;
+        }
+        if (searchResults.searchRefinement) {
+          searchResultsNode.searchRefinement = searchResults.searchRefinement;
+        } else {
+          delete searchResultsNode.searchRefinement;
+        }
+        if (searchResults.searchAutocomplete) {
+          searchResultsNode.searchAutocomplete = searchResults.searchAutocomplete;
+        } else {
+          delete searchResultsNode.searchAutocomplete;
+        }
+
+        // Check the field group (test mode reports, production drops invalid fields)
+        enforceAdobePartnersSchema(xdmVar, logger, testMode);
 
         logger.log('Successfully set XDM Variable searchResults');
 
@@ -6,6 +6,11 @@
  * title after initial load. Dispatches a custom event when a valid
  * (non-default) title is detected.
  *
+ * Subscribes to the site-wide navigation monitor: every SPA navigation to a
+ * new URL is a page view. The observer is re-armed to wait for the new
+ * route's title; a route that keeps the previous title is dispatched with it
+ * after NAVIGATION_TITLE_WAIT_MS.
+ *
  * To track a different element, create a new script file and supply a
  * different ElementMonitorConfig — no logic changes required.
  *
@@ -13,7 +18,9 @@
  */
 
 import { executeScript } from '../../utils/script.js';
+import type { Logger } from '../../utils/logger.js';
 import {
+  disconnectElementObserver,
   installElementObserver,
   type ElementMonitorConfig,
   type SpaMonitorResult,
@@ -21,13 +28,39 @@ import {
 import {
   SPA_TITLE_CHANGE_EVENT,
   isDefaultTitle,
+  NAVIGATION_TITLE_WAIT_MS,
   TITLE_MONITOR_TIMEOUT_MS,
 } from '../../utils/spaPageViewConfig.js';
 import {
   getPartnerStateByKey,
   setPartnerStateByKey,
+  getPartnerState,
   setPartnerState,
 } from '../../utils/globalState.js';
+import { resolveSiteProfile } from '../../utils/siteProfile.js';
+import { subscribeToNavigation } from '../../utils/navigationMonitor.js';
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Shifts the page URLs for SPA referrer tracking: the URL recorded on the
+ * previous page view becomes the referrer of this page view (document.referrer
+ * on the first one), then the current URL is recorded
+ */
+function recordSpaReferrer(): void {
+  const previousPageUrl = getPartnerState('previousPageUrl');
+  const referrer =
+    previousPageUrl && previousPageUrl !== window.location.href
+      ? previousPageUrl
+      : document.referrer;
+
+  if (referrer) {
+    setPartnerState('spaReferrerUrl', referrer);
+  }
+  setPartnerState('previousPageUrl', window.location.href);
+}
 
 // ============================================================================
 // ELEMENT CONFIG
@@ -46,10 +79,43 @@ const TITLE_MONITOR_CONFIG: ElementMonitorConfig = {
   extractValue: () => document.title,
   isValidValue: (title) => !isDefaultTitle(title),
   disconnectAfterFirst: true,
-  // Track the current URL as the previous page URL for SPA referrer tracking
-  onEmit: () => setPartnerState('previousPageUrl', window.location.href),
+  // Recorded before dispatch so a rule sending the page view on the event
+  // reads this page's referrer, not the previous one
+  beforeDispatch: () => recordSpaReferrer(),
 };
 
+/**
+ * Navigation subscriber ID
+ */
+const SUBSCRIBER_ID = 'spaPageView';
+
+/**
+ * Re-arms the title observer after an SPA navigation. The last dispatched
+ * title still belongs to the previous route, so the observer first waits for
+ * a different one; if the route keeps that title, the fallback re-installs the
+ * plain observer, which dispatches the current title at once.
+ *
+ * @returns Fallback timer
+ */
+function armForNavigation(logger: Logger): ReturnType<typeof setTimeout> {
+  const previousTitle = getPartnerStateByKey(TITLE_MONITOR_CONFIG.stateKey);
+  const awaitingNewTitle: ElementMonitorConfig = {
+    ...TITLE_MONITOR_CONFIG,
+    isValidValue: (title) => !isDefaultTitle(title) && title !== previousTitle,
+  };
+
+  disconnectElementObserver(TITLE_MONITOR_CONFIG);
+  installElementObserver(awaitingNewTitle, logger);
+
+  return setTimeout(() => {
+    // Still observing: the route kept the previous title
+    if (disconnectElementObserver(TITLE_MONITOR_CONFIG)) {
+      logger.log('Title unchanged after navigation, dispatching current title');
+      installElementObserver(TITLE_MONITOR_CONFIG, logger);
+    }
+  }, NAVIGATION_TITLE_WAIT_MS);
+}
+
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
@@ -101,6 +167,16 @@ export function spaPageViewTitleMonitorScript(
       },
     },
     (logger) => {
+      const profile = resolveSiteProfile();
+      if (!profile.monitors.includes('spaPageViewTitle')) {
+        logger.log(`Title change monitor not enabled for site profile "${profile.id}"`);
+        return {
+          success: false,
+          message: `Not enabled for site profile "${profile.id}"`,
+          alreadyHooked: false,
+        };
+      }
+
       if (getPartnerStateByKey(TITLE_MONITOR_CONFIG.hookKey)) {
         logger.log('Title change observer already installed');
         return {
@@ -115,6 +191,23 @@ export function spaPageViewTitleMonitorScript(
 
       if (result.success) {
         setPartnerStateByKey(TITLE_MONITOR_CONFIG.hookKey, true);
+
+        let fallbackTimer: ReturnType<typeof setTimeout> | undefined;
+        subscribeToNavigation(
+          {
+            id: SUBSCRIBER_ID,
+            onNavigate: (change) => {
+              // Fragment and same-URL navigations stay on the current page
+              if (change.type === 'hash' || change.type === 'same') return;
+
+              logger.log(`${change.type} navigation, re-arming title observer`);
+              clearTimeout(fallbackTimer);
+              fallbackTimer = armForNavigation(logger);
+            },
+          },
+          logger,
+          testMode
+        );
       }
 
       return {
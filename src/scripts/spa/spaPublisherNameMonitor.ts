@@ -25,6 +25,7 @@ import {
   isValidPublisherName,
 } from '../../utils/spaPublisherConfig.js';
 import { getPartnerStateByKey, setPartnerStateByKey } from '../../utils/globalState.js';
+import { resolveSiteProfile } from '../../utils/siteProfile.js';
 
 // ============================================================================
 // ELEMENT CONFIG
@@ -89,6 +90,16 @@ export function spaPublisherNameMonitorScript(
       },
     },
     (logger) => {
+      const profile = resolveSiteProfile();
+      if (!profile.monitors.includes('spaPublisherName')) {
+        logger.log(`Publisher name monitor not enabled for site profile "${profile.id}"`);
+        return {
+          success: false,
+          message: `Not enabled for site profile "${profile.id}"`,
+          alreadyHooked: false,
+        };
+      }
+
       if (getPartnerStateByKey(PUBLISHER_MONITOR_CONFIG.hookKey)) {
         logger.log('Publisher name observer already installed');
         return {
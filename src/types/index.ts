@@ -28,6 +28,31 @@ export interface PartnerCardCtx {
   sectionID: string;
 }
 
+/**
+ * Category of a clicked link
+ * - outbound: different registrable domain (and not first party)
+ * - download: file extension or `download` attribute
+ * - crossSite: between two first-party sites (e.g. portal ↔ Exchange)
+ * - internal: everything else
+ */
+export type LinkCategory = 'outbound' | 'download' | 'crossSite' | 'internal';
+
+/**
+ * Classification of a clicked link
+ * Matches XDM schema: _adobepartners.linkClassification
+ */
+export interface LinkClassification {
+  category: LinkCategory;
+  /** Lowercase file extension without the dot (downloads only) */
+  fileExtension?: string;
+  destinationHost: string;
+  /** Lowercase path without query, hash, duplicate or trailing slashes */
+  destinationPath: string;
+  /** Site IDs for crossSite links (see LINK_SITES) */
+  sourceSite?: string;
+  destinationSite?: string;
+}
+
 /**
  * Cart item data extracted from Magento's mage-cache-storage
  * Matches XDM schema: _adobepartners.Checkout.itemsInCart[]
@@ -42,12 +67,61 @@ export interface CartItem {
   price: number;
 }
 
+/**
+ * Cart item that changed between two mage-cache-storage snapshots
+ * Matches XDM schema: _adobepartners.cartChange.items[]
+ */
+export interface CartItemChange extends CartItem {
+  /** Absolute change in quantity (always positive; direction is given by the event type) */
+  quantityDelta: number;
+}
+
+/**
+ * Cart change sent with productListAdds / productListRemoves events
+ * Matches XDM schema: _adobepartners.cartChange
+ */
+export interface CartChangeData {
+  action: 'add' | 'remove';
+  items: CartItemChange[];
+}
+
+/**
+ * Last cart snapshot shared by all tabs (localStorage), with the tab that
+ * wrote it, so a change seen by several tabs is reported by one
+ */
+export interface CartSnapshotRecord {
+  items: CartItem[];
+  /** Random ID of the tab that stored the snapshot */
+  tabId: string;
+}
+
 /**
  * Checkout data extracted when Place Order is clicked
  * Matches XDM schema: _adobepartners.Checkout
  */
 export interface CheckoutData {
+  /** Normalized payment type (see PAYMENT_METHOD_MAPPINGS), "Other" when unmapped */
   paymentType: string;
+  /** Raw Magento payment method code (e.g. "checkmo", "paypal_express") */
+  paymentMethodCode: string;
+  itemsInCart: CartItem[];
+}
+
+/**
+ * Order data extracted from the Magento checkout success page
+ * Matches XDM schema: _adobepartners.Order
+ */
+export interface OrderData {
+  /** Magento order increment ID */
+  orderID: string;
+  subtotal: number;
+  tax: number;
+  shipping: number;
+  /** Absolute discount amount */
+  discount: number;
+  total: number;
+  /** ISO 4217 currency code */
+  currency: string;
   itemsInCart: CartItem[];
 }
 
@@ -82,7 +156,14 @@ export interface LaunchEventContent {
       partnerData?: unknown;
       cardCollection?: unknown;
       linkClickLabel?: string;
+      linkClassification?: LinkClassification;
+      rageClick?: boolean;
+      clickCount?: number;
+      consent?: import('../utils/consentConfig.js').ConsentSnapshot;
+      pageContext?: import('../utils/pageContextConfig.js').PageContext;
       Checkout?: CheckoutData;
+      Order?: OrderData;
+      cartChange?: CartChangeData;
       eventData?: unknown;
       attendeeData?: unknown;
     };
@@ -117,6 +198,12 @@ declare global {
       lastPageViewKey?: string;
       /** Previous page URL for SPA referrer tracking */
       previousPageUrl?: string;
+      /** Referrer of the current SPA page view (sent as web.webReferrer.URL) */
+      spaReferrerUrl?: string;
+
+      // Navigation monitoring
+      /** Site-wide navigation monitor (subscribers, uninstall) */
+      navigationMonitor?: import('../utils/navigationConfig.js').NavigationMonitorState;
 
       // Search tracking
       /** Current search payload */
@@ -125,8 +212,18 @@ declare global {
       searchUrlTimer?: ReturnType<typeof setTimeout>;
       /** Last tracked search key for deduplication */
       lastSearchKey?: string;
-      /** Flag to prevent duplicate URL hook installation */
-      urlHooked?: boolean;
+      /** Cancels the pending result count wait (fires the waiting search without a count) */
+      searchResultCountCancel?: () => void;
+      /** Last search that fired searchCommit (for click-through attribution) */
+      lastSearchCommit?: import('../utils/searchClickConfig.js').CommittedSearch;
+      /** Flag to prevent duplicate search click listener installation */
+      searchClickMonitorHooked?: boolean;
+      /** Flag to prevent duplicate search autocomplete listener installation */
+      searchAutocompleteMonitorHooked?: boolean;
+      /** Last search result click-through */
+      searchClickThrough?: import('../utils/searchClickConfig.js').SearchClickThroughData;
+      /** When the last result click (sent or suppressed) happened (repeat suppression) */
+      searchClickThroughAt?: number;
       /** Flag to ensure entry search check runs only once per page load */
       entrySearchChecked?: boolean;
 
@@ -143,6 +240,40 @@ declare global {
       publisherNameTimer?: ReturnType<typeof setTimeout>;
       /** Last tracked publisher name key for deduplication */
       lastPublisherNameKey?: string;
+
+      // Cart change monitoring
+      /** Flag to prevent duplicate cart monitor installation */
+      cartMonitorHooked?: boolean;
+      /** Interval ID for the fallback cart check */
+      cartMonitorInterval?: ReturnType<typeof setInterval>;
+
+      // Form interaction tracking
+      /** Flag to prevent duplicate form tracker installation */
+      formTrackerHooked?: boolean;
+      /** Last form interaction sent (debugging) */
+      formInteraction?: import('../utils/formInteractionConfig.js').FormInteractionData;
+
+      // Click burst (rage-click) detection
+      /** Click burst being tracked by the filter callback until its window closes */
+      clickBurst?: import('../utils/clickBurstConfig.js').ClickBurstState;
+      /** Flag to prevent duplicate pagehide listeners sending the burst follow-up */
+      clickBurstPagehideHooked?: boolean;
+
+      // XDM schema validation
+      /** Fields dropped by schema validation on this page (production only) */
+      xdmSchemaDroppedCount?: number;
+
+      // Card impression tracking
+      /** Flag to prevent duplicate impression observer installation */
+      cardImpressionMonitorHooked?: boolean;
+      /** IntersectionObserver instance watching registered components */
+      cardImpressionObserver?: IntersectionObserver;
+      /** Impression keys already recorded on the current page */
+      cardImpressionKeys?: Set<string>;
+      /** Pathname the recorded impression keys belong to (reset on SPA navigation) */
+      cardImpressionPath?: string;
+      /** Last impression batch sent */
+      cardImpressionBatch?: import('../utils/cardImpressionConfig.js').CardImpressionBatch;
     };
 
     /** AEP Launch satellite object */
@@ -0,0 +1,81 @@
+/**
+ * Shared configuration for card impression tracking
+ *
+ * Centralizes the visibility thresholds, batching limits and event names
+ * used by the cardImpressionMonitor script and the cardImpressionObserver utility.
+ */
+
+import type { PartnerCardCtx } from '../types/index.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Batch of impressions written to xdm._adobepartners.cardImpressions.
+ * Each impression carries the same PartnerCardCtx fields sent for clicks,
+ * so impressions and clicks can be joined on contentID/position/sectionID.
+ */
+export interface CardImpressionBatch {
+  impressions: PartnerCardCtx[];
+  impressionCount: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Direct call event name fired for each impression batch
+ * @constant
+ */
+export const CARD_IMPRESSION_COMMIT_EVENT = 'cardImpressionsCommit';
+
+/**
+ * XDM Variable path the batch is written to
+ * @constant
+ */
+export const CARD_IMPRESSION_XDM_PATH = ['_adobepartners', 'cardImpressions'];
+
+/**
+ * Fraction of the card that must be in the viewport to count as visible
+ * @constant
+ */
+export const VISIBILITY_THRESHOLD = 0.5;
+
+/**
+ * Minimum time in milliseconds a card must stay visible before it is recorded
+ * @constant
+ */
+export const MIN_DWELL_MS = 1000;
+
+/**
+ * Delay in milliseconds after the last recorded impression before the batch is sent
+ * @constant
+ */
+export const BATCH_FLUSH_DELAY = 2000;
+
+/**
+ * Maximum impressions per batch — a full batch is sent immediately
+ * @constant
+ */
+export const MAX_BATCH_SIZE = 20;
+
+/**
+ * Debounce delay in milliseconds for rescanning collections after DOM mutations
+ * (e.g. a collection re-rendering after a filter change)
+ * @constant
+ */
+export const RESCAN_DEBOUNCE_DELAY = 250;
+
+/**
+ * Builds the deduplication key for an impression.
+ * Position and filter context are intentionally excluded so a card that moves
+ * or re-renders after a filter change is not counted twice.
+ *
+ * @param ctx - Card context
+ * @returns Deduplication key
+ */
+export function getImpressionKey(ctx: PartnerCardCtx): string {
+  return `${ctx.sectionID}|${ctx.contentID || ctx.cardTitle}`;
+}
@@ -0,0 +1,303 @@
+/**
+ * Card impression observer utility
+ *
+ * Watches every registered component (see componentExtractorConfig.ts) inside
+ * its collection wrapper — shadow roots included — with an IntersectionObserver.
+ * A card is recorded once it has been at least VISIBILITY_THRESHOLD visible for
+ * MIN_DWELL_MS. Recorded impressions are batched and sent via a direct call.
+ *
+ * Collections that re-render (e.g. after filtering) are picked up by a
+ * MutationObserver-driven rescan of the added subtrees only; re-rendered cards
+ * are deduplicated by getImpressionKey so the same card is not counted twice
+ * on a page.
+ */
+
+import type { Logger } from './logger.js';
+import type { PartnerCardCtx } from '../types/index.js';
+import { querySelectorAllDeep } from './dom.js';
+import {
+  extractComponentCtxFromElement,
+  extractWrapperContext,
+  matcherToSelector,
+} from './componentExtractor.js';
+import { COMPONENT_EXTRACTORS, type ComponentExtractorConfig } from './componentExtractorConfig.js';
+import {
+  BATCH_FLUSH_DELAY,
+  CARD_IMPRESSION_COMMIT_EVENT,
+  CARD_IMPRESSION_XDM_PATH,
+  MAX_BATCH_SIZE,
+  MIN_DWELL_MS,
+  RESCAN_DEBOUNCE_DELAY,
+  VISIBILITY_THRESHOLD,
+  getImpressionKey,
+  type CardImpressionBatch,
+} from './cardImpressionConfig.js';
+import { getPartnerState, setPartnerState } from './globalState.js';
+import { fireXdmVariableEvent } from './satellite.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Result returned by installCardImpressionObserver
+ */
+export interface CardImpressionInstallResult {
+  success: boolean;
+  message: string;
+  /** Number of cards under observation after the initial scan */
+  cardCount: number;
+}
+
+/**
+ * Per-card bookkeeping while the card is under observation
+ */
+interface TrackedCard {
+  definition: ComponentExtractorConfig;
+  wrapper: Element;
+  dwellTimer?: ReturnType<typeof setTimeout>;
+}
+
+// ============================================================================
+// IMPLEMENTATION
+// ============================================================================
+
+/**
+ * Returns the set of impression keys already recorded on the current page.
+ * The set is reset when the SPA navigates to a different path.
+ */
+function getSeenKeys(): Set<string> {
+  const { pathname } = window.location;
+  let seen = getPartnerState('cardImpressionKeys');
+
+  if (!seen || getPartnerState('cardImpressionPath') !== pathname) {
+    seen = new Set<string>();
+    setPartnerState('cardImpressionKeys', seen);
+    setPartnerState('cardImpressionPath', pathname);
+  }
+
+  return seen;
+}
+
+/**
+ * Returns the element itself or its closest ancestor matching the selector,
+ * crossing shadow root boundaries
+ */
+function closestDeep(element: Element, selector: string): Element | null {
+  let current: Element | null = element;
+  while (current) {
+    if (current.matches(selector)) return current;
+    current = current.parentElement ?? (current.getRootNode() as Partial<ShadowRoot>).host ?? null;
+  }
+  return null;
+}
+
+/**
+ * Sends the batch: stores it in partner state, writes it to the XDM Variable
+ * and fires the impression direct call (the batch is removed from the
+ * variable again once the rule has read it).
+ */
+function sendBatch(impressions: PartnerCardCtx[], logger: Logger, testMode: boolean): void {
+  const batch: CardImpressionBatch = {
+    impressions,
+    impressionCount: impressions.length,
+  };
+
+  setPartnerState('cardImpressionBatch', batch);
+  fireXdmVariableEvent(
+    CARD_IMPRESSION_COMMIT_EVENT,
+    [[CARD_IMPRESSION_XDM_PATH, batch]],
+    logger,
+    testMode
+  );
+  logger.log(`Sent impression batch (${impressions.length})`, batch);
+}
+
+/**
+ * Installs the impression observer for all registered components.
+ *
+ * @param logger - Logger instance
+ * @param testMode - Whether in test mode
+ * @param extractors - Component definitions to observe (defaults to COMPONENT_EXTRACTORS)
+ */
+export function installCardImpressionObserver(
+  logger: Logger,
+  testMode: boolean,
+  extractors: readonly ComponentExtractorConfig[] = COMPONENT_EXTRACTORS
+): CardImpressionInstallResult {
+  if (typeof IntersectionObserver === 'undefined') {
+    logger.warn('IntersectionObserver not supported, impression tracking disabled');
+    return { success: false, message: 'IntersectionObserver not supported', cardCount: 0 };
+  }
+
+  const tracked = new Map<Element, TrackedCard>();
+  const recorded = new WeakSet<Element>();
+  const observedRoots = new WeakSet<Node>();
+  let queue: PartnerCardCtx[] = [];
+  let flushTimer: ReturnType<typeof setTimeout> | undefined;
+  let rescanTimer: ReturnType<typeof setTimeout> | undefined;
+
+  // ── Batching ───────────────────────────────────────────────────────────────
+  const flush = (reason: string): void => {
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = undefined;
+    }
+    if (!queue.length) return;
+
+    logger.log(`Flushing impression batch (${reason})`);
+    const impressions = queue;
+    queue = [];
+    sendBatch(impressions, logger, testMode);
+  };
+
+  // ── Recording ──────────────────────────────────────────────────────────────
+  const record = (card: Element, info: TrackedCard, observer: IntersectionObserver): void => {
+    observer.unobserve(card);
+    tracked.delete(card);
+    recorded.add(card);
+
+    const wrapperContext = extractWrapperContext(info.wrapper, info.definition, logger);
+    const ctx = extractComponentCtxFromElement(card, info.definition, wrapperContext, logger);
+    if (!ctx) return;
+
+    const seen = getSeenKeys();
+    const key = getImpressionKey(ctx);
+    if (seen.has(key)) {
+      logger.log(`Impression already recorded, skipping: ${key}`);
+      return;
+    }
+
+    seen.add(key);
+    queue.push(ctx);
+    logger.log(`Recorded impression: ${key}`);
+
+    if (queue.length >= MAX_BATCH_SIZE) {
+      flush('batch full');
+    } else {
+      if (flushTimer) clearTimeout(flushTimer);
+      flushTimer = setTimeout(() => flush('idle'), BATCH_FLUSH_DELAY);
+    }
+  };
+
+  const intersectionObserver = new IntersectionObserver(
+    (entries, observer) => {
+      entries.forEach((entry) => {
+        const info = tracked.get(entry.target);
+        if (!info) return;
+
+        const isVisible = entry.isIntersecting && entry.intersectionRatio >= VISIBILITY_THRESHOLD;
+
+        if (isVisible && !info.dwellTimer) {
+          info.dwellTimer = setTimeout(() => {
+            info.dwellTimer = undefined;
+            record(entry.target, info, observer);
+          }, MIN_DWELL_MS);
+        } else if (!isVisible && info.dwellTimer) {
+          clearTimeout(info.dwellTimer);
+          info.dwellTimer = undefined;
+        }
+      });
+    },
+    { threshold: [0, VISIBILITY_THRESHOLD] }
+  );
+
+  // ── Scanning ───────────────────────────────────────────────────────────────
+  /** Observes the cards of a wrapper, within root (the whole wrapper by default) */
+  const watchCards = (
+    mutationObserver: MutationObserver,
+    wrapper: Element,
+    definition: ComponentExtractorConfig,
+    root: Element = wrapper
+  ): void => {
+    // Collections render their cards inside the wrapper's shadow root
+    if (wrapper.shadowRoot && !observedRoots.has(wrapper.shadowRoot)) {
+      observedRoots.add(wrapper.shadowRoot);
+      mutationObserver.observe(wrapper.shadowRoot, { childList: true, subtree: true });
+    }
+
+    const hostSelector = matcherToSelector(definition.host);
+    const cards = querySelectorAllDeep(root, hostSelector);
+    if (root !== wrapper && root.matches(hostSelector)) cards.unshift(root);
+
+    cards.forEach((card) => {
+      if (tracked.has(card) || recorded.has(card)) return;
+      tracked.set(card, { definition, wrapper });
+      intersectionObserver.observe(card);
+    });
+  };
+
+  /**
+   * Scans the whole document (initial scan) or only the subtrees added since
+   * the last scan
+   */
+  const scan = (mutationObserver: MutationObserver, roots?: readonly Node[]): void => {
+    // Drop cards removed by a re-render
+    tracked.forEach((info, card) => {
+      if (!card.isConnected) {
+        if (info.dwellTimer) clearTimeout(info.dwellTimer);
+        intersectionObserver.unobserve(card);
+        tracked.delete(card);
+      }
+    });
+
+    extractors.forEach((definition) => {
+      const wrapperSelector = matcherToSelector(definition.wrapper);
+
+      if (!roots) {
+        querySelectorAllDeep(document, wrapperSelector).forEach((wrapper) =>
+          watchCards(mutationObserver, wrapper, definition)
+        );
+        return;
+      }
+
+      roots.forEach((root) => {
+        if (!(root instanceof Element) || !root.isConnected) return;
+
+        // Added inside a collection (a re-render): only the new subtree is scanned
+        const wrapper = closestDeep(root, wrapperSelector);
+        if (wrapper) {
+          watchCards(mutationObserver, wrapper, definition, root);
+          return;
+        }
+
+        // A new collection
+        querySelectorAllDeep(root, wrapperSelector).forEach((added) =>
+          watchCards(mutationObserver, added, definition)
+        );
+      });
+    });
+
+    logger.log(`Observing ${tracked.size} cards`);
+  };
+
+  let pendingRoots = new Set<Node>();
+  const mutationObserver = new MutationObserver((mutations, observer) => {
+    mutations.forEach((mutation) => mutation.addedNodes.forEach((node) => pendingRoots.add(node)));
+    if (rescanTimer) clearTimeout(rescanTimer);
+    rescanTimer = setTimeout(() => {
+      const roots = Array.from(pendingRoots);
+      pendingRoots = new Set<Node>();
+      scan(observer, roots);
+    }, RESCAN_DEBOUNCE_DELAY);
+  });
+
+  mutationObserver.observe(document.body, { childList: true, subtree: true });
+  scan(mutationObserver);
+
+  // ── Flush pending impressions before the page goes away ────────────────────
+  window.addEventListener('pagehide', () => flush('pagehide'));
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') {
+      flush('hidden');
+    }
+  });
+
+  setPartnerState('cardImpressionObserver', intersectionObserver);
+
+  return {
+    success: true,
+    message: 'Card impression observer installed',
+    cardCount: tracked.size,
+  };
+}
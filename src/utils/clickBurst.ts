@@ -0,0 +1,119 @@
+/**
+ * Rage-click / duplicate-click suppression
+ *
+ * Repeated trusted clicks on the same composed-path target within
+ * CLICK_BURST_WINDOW_MS form a burst. The first click of a burst is sent as
+ * usual; repeats are suppressed. When the burst closes (the window passes
+ * without another click, another target is clicked or the page is hidden)
+ * and it had repeats, a follow-up beacon is sent through the clickBurstCommit
+ * direct call with clickCount and rageClick (clickCount >= RAGE_CLICK_THRESHOLD).
+ *
+ * The burst is kept in window._adobePartners so it survives the callback
+ * bundle being re-evaluated. Resolving the same event twice returns the
+ * decision made the first time.
+ */
+
+import type { Logger } from './logger.js';
+import { getPartnerState, setPartnerState } from './globalState.js';
+import { fireXdmVariableEvent, type XdmVariableField } from './satellite.js';
+import { findInComposedPath, createElementMatcher, getAttribute } from './dom.js';
+import { COMPONENT_ATTRIBUTES } from './componentExtractorConfig.js';
+import {
+  CLICK_BURST_COMMIT_EVENT,
+  CLICK_BURST_WINDOW_MS,
+  RAGE_CLICK_THRESHOLD,
+  type ClickBurstDecision,
+} from './clickBurstConfig.js';
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Closes the current burst and sends its follow-up beacon when it had repeats
+ */
+function closeClickBurst(logger: Logger, testMode: boolean): void {
+  const burst = getPartnerState('clickBurst');
+  if (!burst) return;
+
+  clearTimeout(burst.timer);
+  setPartnerState('clickBurst', undefined);
+  if (burst.count < 2) return;
+
+  const rageClick = burst.count >= RAGE_CLICK_THRESHOLD;
+  logger.log(`Click burst closed (${burst.count} clicks${rageClick ? ', rage click' : ''})`);
+  const fields: XdmVariableField[] = [
+    [['_adobepartners', 'clickCount'], burst.count],
+    [['_adobepartners', 'rageClick'], rageClick],
+  ];
+  if (burst.linkClickLabel) {
+    fields.push([['_adobepartners', 'linkClickLabel'], burst.linkClickLabel]);
+  }
+  fireXdmVariableEvent(CLICK_BURST_COMMIT_EVENT, fields, logger, testMode);
+}
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Registers a click with the burst detector (idempotent per event)
+ *
+ * @param event - The trusted click event
+ * @param logger - Logger instance
+ * @param testMode - Whether in test mode
+ * @returns Decision for this click
+ *
+ * @example
+ * // Filter callback: first click sent now, repeats dropped
+ * if (resolveClickBurst(event, logger, testMode).suppress) return false;
+ */
+export default function resolveClickBurst(
+  event: Event,
+  logger: Logger,
+  testMode: boolean
+): ClickBurstDecision {
+  const burst = getPartnerState('clickBurst');
+  if (burst?.lastEvent === event) {
+    return burst.lastDecision;
+  }
+
+  const [target] = event.composedPath();
+  const now = Date.now();
+  const timer = setTimeout(() => closeClickBurst(logger, testMode), CLICK_BURST_WINDOW_MS);
+
+  if (target && burst?.target === target && now - burst.lastClickAt <= CLICK_BURST_WINDOW_MS) {
+    clearTimeout(burst.timer);
+    burst.count += 1;
+    burst.lastClickAt = now;
+    burst.lastEvent = event;
+    burst.lastDecision = { suppress: true, clickCount: burst.count };
+    burst.timer = timer;
+    return burst.lastDecision;
+  }
+
+  closeClickBurst(logger, testMode);
+
+  const decision: ClickBurstDecision = { suppress: false, clickCount: 1 };
+  const linkClickLabel = getAttribute(
+    findInComposedPath(event, createElementMatcher('a')),
+    COMPONENT_ATTRIBUTES.DAA_LL
+  );
+  setPartnerState('clickBurst', {
+    target: target ?? event.target ?? window,
+    count: 1,
+    lastClickAt: now,
+    lastEvent: event,
+    lastDecision: decision,
+    ...(linkClickLabel && { linkClickLabel }),
+    timer,
+  });
+
+  // The follow-up of a burst still open when the page unloads is sent on pagehide
+  if (!getPartnerState('clickBurstPagehideHooked')) {
+    window.addEventListener('pagehide', () => closeClickBurst(logger, testMode));
+    setPartnerState('clickBurstPagehideHooked', true);
+  }
+
+  return decision;
+}
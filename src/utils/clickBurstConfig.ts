@@ -0,0 +1,60 @@
+/**
+ * Shared configuration for rage-click / duplicate-click suppression
+ *
+ * Used by the filter click callback (suppresses repeats and sends the
+ * follow-up beacon of each burst) via the clickBurst utility.
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Outcome of registering a click with the burst detector
+ */
+export interface ClickBurstDecision {
+  /** true when the click repeats the current burst and its beacon should be dropped */
+  suppress: boolean;
+  /** Clicks on the same target in the current burst, including this one */
+  clickCount: number;
+}
+
+/**
+ * Burst currently being tracked (one target at a time)
+ */
+export interface ClickBurstState {
+  target: EventTarget;
+  count: number;
+  lastClickAt: number;
+  /** Last event registered, so a second call for the same click resolves the same decision */
+  lastEvent: Event;
+  lastDecision: ClickBurstDecision;
+  /** daa-ll of the clicked link, read when the first click happened */
+  linkClickLabel?: string;
+  /** Closes the burst CLICK_BURST_WINDOW_MS after the last click */
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Maximum gap in milliseconds between two clicks on the same target for them
+ * to belong to the same burst (sliding window)
+ * @constant
+ */
+export const CLICK_BURST_WINDOW_MS = 1000;
+
+/**
+ * Clicks in one burst at which the burst is reported as a rage click
+ * @constant
+ */
+export const RAGE_CLICK_THRESHOLD = 3;
+
+/**
+ * Direct call event sending the follow-up beacon of a closed burst
+ * (clickCount, rageClick) when it had repeated clicks
+ * @constant
+ */
+export const CLICK_BURST_COMMIT_EVENT = 'clickBurstCommit';
@@ -0,0 +1,83 @@
+/**
+ * Shared configuration for the click filter rule engine
+ *
+ * Rules are evaluated in order by customDataCollectionOnFilterClickCallback;
+ * the first rule whose conditions all match decides whether the click is
+ * sent. Adding an exception = new rule entry, no callback changes.
+ */
+
+import type { SiteProfileId } from './siteProfileConfig.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Decision a rule produces when it matches
+ */
+export type ClickFilterAction = 'allow' | 'deny';
+
+/**
+ * Conditions of a rule. Every condition that is set must match (AND);
+ * string conditions are compared case-insensitively. A rule without
+ * conditions matches every click.
+ */
+export interface ClickRuleConditions {
+  /** CSS selector matched against every element in the event's composed path */
+  selector?: string;
+  /** Launch `content.linkRegion` */
+  linkRegion?: string;
+  /** Launch `content.linkType` (exit, download, other) */
+  linkType?: string;
+  /** Pattern tested against Launch `content.linkUrl` */
+  urlPattern?: RegExp;
+  /** Whether an element in the composed path carries a `daa-ll` attribute */
+  hasDaaLl?: boolean;
+  /** Current page hostname pattern (supports '*.' wildcard prefix) */
+  hostname?: string;
+  /** Active site profile (resolveSiteProfile) */
+  profile?: SiteProfileId;
+}
+
+/**
+ * A single click filter rule
+ */
+export interface ClickFilterRule {
+  /** Unique ID reported with the decision */
+  id: string;
+  action: ClickFilterAction;
+  conditions: ClickRuleConditions;
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+/**
+ * Click filter rules, evaluated in order (first match wins)
+ * @constant
+ */
+export const CLICK_FILTER_RULES: readonly ClickFilterRule[] = [
+  // Exit links are always valid
+  { id: 'allow-exit-links', action: 'allow', conditions: { linkType: 'exit' } },
+  // Clicks on the broad MAIN region without a specific anchor are ghost clicks
+  { id: 'deny-main-region', action: 'deny', conditions: { linkRegion: 'main' } },
+];
+
+/**
+ * Decision when no rule matches
+ * @constant
+ */
+export const DEFAULT_CLICK_FILTER_ACTION: ClickFilterAction = 'allow';
+
+/**
+ * Rule ID reported when no rule matches
+ * @constant
+ */
+export const DEFAULT_CLICK_FILTER_RULE_ID = 'default';
+
+/**
+ * Rule ID reported when Launch provides no clicked element
+ * @constant
+ */
+export const MISSING_ELEMENT_RULE_ID = 'missing-clicked-element';
@@ -0,0 +1,161 @@
+/**
+ * Click filter rule engine
+ *
+ * Evaluates CLICK_FILTER_RULES (clickFilterConfig.ts) against a Launch click
+ * and returns the decision, the ID of the rule that produced it and the full
+ * evaluation trace for test mode.
+ */
+
+import type { LaunchEventContent } from '../types/index.js';
+import { COMPONENT_ATTRIBUTES } from './componentExtractorConfig.js';
+import { isHostnameMatch } from './url.js';
+import { resolveSiteProfile } from './siteProfile.js';
+import type { SiteProfile } from './siteProfileConfig.js';
+import {
+  CLICK_FILTER_RULES,
+  DEFAULT_CLICK_FILTER_ACTION,
+  DEFAULT_CLICK_FILTER_RULE_ID,
+  MISSING_ELEMENT_RULE_ID,
+  type ClickFilterAction,
+  type ClickFilterRule,
+  type ClickRuleConditions,
+} from './clickFilterConfig.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Evaluation result of a single rule
+ */
+export interface ClickRuleTrace {
+  ruleId: string;
+  matched: boolean;
+  /** Result of each condition the rule sets */
+  conditions: Partial<Record<keyof ClickRuleConditions, boolean>>;
+}
+
+/**
+ * Decision returned by evaluateClickRules
+ */
+export interface ClickFilterDecision {
+  allowed: boolean;
+  action: ClickFilterAction;
+  /** ID of the deciding rule (or the default / missing-element IDs) */
+  ruleId: string;
+  /** Rules evaluated up to and including the deciding one */
+  trace: ClickRuleTrace[];
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Elements the click passed through — the composed path when the event is
+ * available (shadow DOM aware), otherwise the clicked element's ancestors
+ */
+function getClickPath(content: LaunchEventContent, event?: Event): Element[] {
+  if (event) {
+    return event.composedPath().filter((item): item is Element => item instanceof Element);
+  }
+
+  const path: Element[] = [];
+  let element = content.clickedElement ?? null;
+  while (element) {
+    path.push(element);
+    element = element.parentElement;
+  }
+  return path;
+}
+
+/**
+ * Case-insensitive equality for Launch content strings
+ */
+function equalsIgnoreCase(value: unknown, expected: string): boolean {
+  return typeof value === 'string' && value.toLowerCase() === expected.toLowerCase();
+}
+
+/**
+ * Evaluates every condition a rule sets
+ */
+function evaluateConditions(
+  conditions: ClickRuleConditions,
+  content: LaunchEventContent,
+  path: Element[],
+  profile: SiteProfile
+): ClickRuleTrace['conditions'] {
+  const results: ClickRuleTrace['conditions'] = {};
+  const { selector, linkRegion, linkType, urlPattern, hasDaaLl, hostname } = conditions;
+
+  if (selector !== undefined) {
+    results.selector = path.some((element) => element.matches(selector));
+  }
+  if (linkRegion !== undefined) {
+    results.linkRegion = equalsIgnoreCase(content.linkRegion, linkRegion);
+  }
+  if (linkType !== undefined) {
+    results.linkType = equalsIgnoreCase(content.linkType, linkType);
+  }
+  if (urlPattern !== undefined) {
+    results.urlPattern = typeof content.linkUrl === 'string' && urlPattern.test(content.linkUrl);
+  }
+  if (hasDaaLl !== undefined) {
+    const found = path.some((element) => element.hasAttribute(COMPONENT_ATTRIBUTES.DAA_LL));
+    results.hasDaaLl = found === hasDaaLl;
+  }
+  if (hostname !== undefined) {
+    results.hostname = isHostnameMatch(hostname);
+  }
+  if (conditions.profile !== undefined) {
+    results.profile = profile.id === conditions.profile;
+  }
+
+  return results;
+}
+
+// ============================================================================
+// RULE ENGINE
+// ============================================================================
+
+/**
+ * Evaluates click filter rules in order; the first fully matching rule decides
+ * @param content - The content object from Launch's click callback
+ * @param event - The original click event (for composed path matching)
+ * @param rules - Rules to evaluate (defaults to CLICK_FILTER_RULES)
+ * @param profile - Active site profile, for rules scoped to a profile (resolved when omitted)
+ * @returns Decision with the deciding rule ID and evaluation trace
+ *
+ * @example
+ * const decision = evaluateClickRules(content, event);
+ * // { allowed: false, action: 'deny', ruleId: 'deny-main-region', trace: [...] }
+ */
+export function evaluateClickRules(
+  content: LaunchEventContent,
+  event?: Event,
+  rules: readonly ClickFilterRule[] = CLICK_FILTER_RULES,
+  profile: SiteProfile = resolveSiteProfile()
+): ClickFilterDecision {
+  if (!content.clickedElement) {
+    return { allowed: false, action: 'deny', ruleId: MISSING_ELEMENT_RULE_ID, trace: [] };
+  }
+
+  const path = getClickPath(content, event);
+  const trace: ClickRuleTrace[] = [];
+
+  const decidingRule = rules.find((rule) => {
+    const conditions = evaluateConditions(rule.conditions, content, path, profile);
+    const matched = Object.values(conditions).every(Boolean);
+    trace.push({ ruleId: rule.id, matched, conditions });
+    return matched;
+  });
+
+  const action = decidingRule?.action ?? DEFAULT_CLICK_FILTER_ACTION;
+
+  return {
+    allowed: action === 'allow',
+    action,
+    ruleId: decidingRule?.id ?? DEFAULT_CLICK_FILTER_RULE_ID,
+    trace,
+  };
+}
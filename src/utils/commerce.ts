@@ -0,0 +1,398 @@
+/**
+ * Magento commerce utilities
+ *
+ * Reads cart and order data from Magento's mage-cache-storage and from the
+ * checkout success page. Shared by the before-send callback (checkout) and
+ * the purchase tracker (order confirmation).
+ */
+
+import type { Logger } from './logger.js';
+import type { CartItem, CartItemChange, OrderData } from '../types/index.js';
+import { getStorageItem, setStorageItem } from './storage.js';
+import { getAttribute, getTextContent } from './dom.js';
+import {
+  CURRENCY_DECIMALS,
+  CURRENCY_SYMBOLS,
+  DEFAULT_CURRENCY,
+  DEFAULT_CURRENCY_DECIMALS,
+  MAGE_CACHE_STORAGE_KEY,
+  MAX_TRACKED_ORDERS,
+  ORDER_INCREMENT_ID_ATTRIBUTE,
+  ORDER_SUCCESS_PATH,
+  ORDER_SUCCESS_SELECTORS,
+  PAYMENT_METHOD_MAPPINGS,
+  TRACKED_ORDERS_STORAGE_KEY,
+  UNMAPPED_PAYMENT_TYPE,
+  type PaymentMethodMapping,
+} from './commerceConfig.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/** Cart item as stored in mage-cache-storage */
+interface MageCacheCartItem {
+  product_type: string;
+  qty: number;
+  product_id: string;
+  product_name: string;
+  product_sku: string;
+  product_url: string;
+  product_price_value: number;
+  [key: string]: unknown;
+}
+
+/** Subset of mage-cache-storage used by the commerce scripts */
+export interface MageCacheStorage {
+  cart?: {
+    items?: MageCacheCartItem[];
+    subtotalAmount?: string | number;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+// ============================================================================
+// MAGE-CACHE-STORAGE
+// ============================================================================
+
+/**
+ * Reads and parses mage-cache-storage from localStorage
+ */
+export function readMageCacheStorage(): MageCacheStorage | null {
+  return getStorageItem<MageCacheStorage>(MAGE_CACHE_STORAGE_KEY);
+}
+
+/**
+ * Maps a mage-cache-storage cart item onto the XDM CartItem shape
+ */
+function toCartItem(item: MageCacheCartItem): CartItem {
+  return {
+    type: item.product_type || '',
+    quantity: Number(item.qty) || 0,
+    productID: item.product_id || '',
+    productName: item.product_name || '',
+    SKU: item.product_sku || '',
+    url: item.product_url || '',
+    price: Number(item.product_price_value) || 0,
+  };
+}
+
+/**
+ * Extracts cart items from Magento's mage-cache-storage in localStorage
+ * @param logger - Logger instance
+ * @returns Array of CartItem objects, or null if not found
+ */
+export function extractCartItemsFromStorage(logger: Logger): CartItem[] | null {
+  const cacheData = readMageCacheStorage();
+
+  if (!cacheData?.cart?.items?.length) {
+    return null;
+  }
+
+  const cartItems = cacheData.cart.items.map(toCartItem);
+
+  logger.log('Extracted cart items from localStorage', cartItems);
+  return cartItems;
+}
+
+/**
+ * Reads the current cart as a snapshot for change detection. Unlike
+ * extractCartItemsFromStorage, an empty cart yields [] — null means the cart
+ * section has not been loaded yet, so no diff should be made against it.
+ * @returns Cart items, or null if the cart section is missing
+ */
+export function readCartSnapshot(): CartItem[] | null {
+  const cart = readMageCacheStorage()?.cart;
+  if (!cart) return null;
+  return (cart.items ?? []).map(toCartItem);
+}
+
+// ============================================================================
+// CART DIFF
+// ============================================================================
+
+/**
+ * Items added and removed between two cart snapshots
+ */
+export interface CartDiff {
+  added: CartItemChange[];
+  removed: CartItemChange[];
+}
+
+/**
+ * Identity of a cart line — a configurable product can appear once per SKU
+ */
+function getCartItemKey(item: CartItem): string {
+  return `${item.productID}|${item.SKU}`;
+}
+
+/**
+ * Diffs two cart snapshots by productID/SKU and quantity
+ * @param previous - Earlier snapshot
+ * @param current - Later snapshot
+ * @returns Added and removed items with quantity deltas
+ *
+ * @example
+ * diffCartItems([{ SKU: 'a', quantity: 1, ... }], [{ SKU: 'a', quantity: 3, ... }])
+ * // Returns { added: [{ SKU: 'a', quantity: 3, quantityDelta: 2, ... }], removed: [] }
+ */
+export function diffCartItems(previous: CartItem[], current: CartItem[]): CartDiff {
+  const previousByKey = new Map(previous.map((item) => [getCartItemKey(item), item]));
+  const diff: CartDiff = { added: [], removed: [] };
+
+  current.forEach((item) => {
+    const key = getCartItemKey(item);
+    const before = previousByKey.get(key);
+    const delta = item.quantity - (before?.quantity ?? 0);
+    previousByKey.delete(key);
+
+    if (delta > 0) {
+      diff.added.push({ ...item, quantityDelta: delta });
+    } else if (delta < 0) {
+      diff.removed.push({ ...item, quantityDelta: -delta });
+    }
+  });
+
+  // Whatever is left in the previous snapshot is no longer in the cart
+  previousByKey.forEach((item) => {
+    diff.removed.push({ ...item, quantity: 0, quantityDelta: item.quantity });
+  });
+
+  return diff;
+}
+
+// ============================================================================
+// PAYMENT METHOD
+// ============================================================================
+
+/**
+ * Resolves a Magento payment method to its normalized payment type
+ * @param code - Payment method code (radio value, e.g. "checkmo")
+ * @param label - Payment method label text
+ * @param mappings - Mappings to apply (defaults to PAYMENT_METHOD_MAPPINGS)
+ * @returns Normalized payment type, or UNMAPPED_PAYMENT_TYPE if nothing matches
+ *
+ * @example
+ * resolvePaymentType('paypal_express', 'PayPal Express Checkout') // Returns 'PayPal'
+ * resolvePaymentType('cashondelivery', 'Cash On Delivery')        // Returns 'Other'
+ */
+export function resolvePaymentType(
+  code: string,
+  label: string,
+  mappings: readonly PaymentMethodMapping[] = PAYMENT_METHOD_MAPPINGS
+): string {
+  const normalizedCode = code.trim().toLowerCase();
+
+  const byCode = normalizedCode
+    ? mappings.find((mapping) => mapping.codes?.includes(normalizedCode))
+    : undefined;
+  const byLabel = label ? mappings.find((mapping) => mapping.labelPattern?.test(label)) : undefined;
+
+  return (byCode ?? byLabel)?.type ?? UNMAPPED_PAYMENT_TYPE;
+}
+
+// ============================================================================
+// PRICE PARSING
+// ============================================================================
+
+/**
+ * Derives the ISO currency code from a formatted price
+ * @param text - Formatted price text
+ * @returns Currency code, or null if no known symbol/code is present
+ */
+export function detectCurrency(text: string): string | null {
+  const isoMatch = text.match(/\b[A-Z]{3}\b/);
+  if (isoMatch) return isoMatch[0];
+
+  const symbol = CURRENCY_SYMBOLS.find(([sym]) => text.includes(sym));
+  return symbol ? symbol[1] : null;
+}
+
+/**
+ * Returns the number of decimals of a currency
+ */
+export function getCurrencyDecimals(currency: string | null): number {
+  return (currency ? CURRENCY_DECIMALS[currency] : undefined) ?? DEFAULT_CURRENCY_DECIMALS;
+}
+
+/**
+ * Index of the decimal separator in a price reduced to digits and separators,
+ * or -1 when all separators group thousands
+ */
+function findDecimalSeparator(numeric: string, decimals: number): number {
+  const separators = numeric.match(/[.,]/g) ?? [];
+  const lastIndex = Math.max(numeric.lastIndexOf('.'), numeric.lastIndexOf(','));
+  if (lastIndex < 0) return -1;
+
+  const last = numeric[lastIndex];
+  // "1.234,56": the last of two different separators is the decimal one
+  if (separators.some((separator) => separator !== last)) return lastIndex;
+  // "1,234,567": a repeated separator groups thousands
+  if (separators.length > 1) return -1;
+  // "12.5", "0.125", "1234,567": not a thousands group
+  const isThousandsGroup =
+    numeric.length - lastIndex - 1 === 3 && /^[1-9]\d{0,2}$/.test(numeric.slice(0, lastIndex));
+  if (!isThousandsGroup) return lastIndex;
+  // "1,250" is 1250, unless the currency has 3 decimals ("KWD 1.250")
+  return decimals === 3 ? lastIndex : -1;
+}
+
+/**
+ * Parses a formatted price into an absolute number. A single separator
+ * followed by exactly 3 digits is read with the currency's decimals (from the
+ * text, or passed when the text carries no currency).
+ *
+ * @param text - Formatted price text
+ * @param decimals - Currency decimals (defaults to those of the currency in the text)
+ * @returns Parsed amount, or null if no number is present
+ *
+ * @example
+ * parsePrice('$1,234.56') // 1234.56
+ * parsePrice('-€10,00') // 10
+ * parsePrice('$12.5') // 12.5
+ * parsePrice('$1,250') // 1250
+ * parsePrice('KWD 1.250') // 1.25
+ * parsePrice('KWD 1,234.500') // 1234.5
+ */
+export function parsePrice(text: string, decimals?: number): number | null {
+  const numeric = text.replace(/[^\d.,]/g, '');
+  if (!/\d/.test(numeric)) return null;
+
+  const decimalIndex = findDecimalSeparator(
+    numeric,
+    decimals ?? getCurrencyDecimals(detectCurrency(text))
+  );
+  const normalized =
+    decimalIndex < 0
+      ? numeric.replace(/[.,]/g, '')
+      : `${numeric.slice(0, decimalIndex).replace(/[.,]/g, '')}.${numeric.slice(decimalIndex + 1)}`;
+
+  const value = parseFloat(normalized);
+  return Number.isNaN(value) ? null : value;
+}
+
+// ============================================================================
+// ORDER CONFIRMATION
+// ============================================================================
+
+/**
+ * Returns the text of the first element matching any of the selectors
+ */
+function queryFirstText(selectors: readonly string[]): string {
+  let text = '';
+  selectors.some((selector) => {
+    text = getTextContent(document.querySelector(selector));
+    return text !== '';
+  });
+  return text;
+}
+
+/**
+ * Checks whether the current page is the Magento checkout success page
+ */
+export function isOrderSuccessPage(): boolean {
+  return (
+    document.querySelector(ORDER_SUCCESS_SELECTORS.PAGE) !== null ||
+    ORDER_SUCCESS_PATH.test(window.location.pathname)
+  );
+}
+
+/**
+ * Extracts the order increment ID from the success page
+ */
+function extractOrderIncrementId(): string {
+  const [attributeSelector, ...textSelectors] = ORDER_SUCCESS_SELECTORS.ORDER_NUMBER;
+  const fromAttribute = getAttribute(
+    document.querySelector(attributeSelector),
+    ORDER_INCREMENT_ID_ATTRIBUTE
+  );
+  if (fromAttribute) return fromAttribute.trim();
+
+  // Order number text may include a leading "#"
+  return queryFirstText(textSelectors).replace(/^#/, '').trim();
+}
+
+/**
+ * Extracts order data from the checkout success page, falling back to
+ * mage-cache-storage for the subtotal and cart items
+ * @param logger - Logger instance
+ * @returns Order data, or null if no order increment ID is found
+ */
+export function extractOrderData(logger: Logger): OrderData | null {
+  const orderID = extractOrderIncrementId();
+  if (!orderID) {
+    logger.warn('Order increment ID not found on success page');
+    return null;
+  }
+
+  const subtotalText = queryFirstText(ORDER_SUCCESS_SELECTORS.SUBTOTAL);
+  const taxText = queryFirstText(ORDER_SUCCESS_SELECTORS.TAX);
+  const shippingText = queryFirstText(ORDER_SUCCESS_SELECTORS.SHIPPING);
+  const discountText = queryFirstText(ORDER_SUCCESS_SELECTORS.DISCOUNT);
+  const totalText = queryFirstText(ORDER_SUCCESS_SELECTORS.GRAND_TOTAL);
+
+  // mage-cache-storage still holds the pre-order cart until Magento reloads the section
+  const cacheData = readMageCacheStorage();
+  const cachedSubtotal = Number(cacheData?.cart?.subtotalAmount);
+  const itemsInCart = (cacheData?.cart?.items ?? []).map(toCartItem);
+
+  // Amounts without a currency symbol are read with the order currency's decimals
+  const currency = [totalText, subtotalText].map(detectCurrency).find(Boolean) ?? DEFAULT_CURRENCY;
+  const decimals = getCurrencyDecimals(currency);
+
+  const subtotal =
+    parsePrice(subtotalText, decimals) ?? (Number.isFinite(cachedSubtotal) ? cachedSubtotal : 0);
+  const tax = parsePrice(taxText, decimals) ?? 0;
+  const shipping = parsePrice(shippingText, decimals) ?? 0;
+  const discount = parsePrice(discountText, decimals) ?? 0;
+  const total = parsePrice(totalText, decimals) ?? subtotal + tax + shipping - discount;
+
+  const orderData: OrderData = {
+    orderID,
+    subtotal,
+    tax,
+    shipping,
+    discount,
+    total,
+    currency,
+    itemsInCart,
+  };
+
+  logger.log('Extracted order data', orderData);
+  return orderData;
+}
+
+/**
+ * Reads the order IDs already tracked from localStorage
+ */
+function readTrackedOrders(): string[] {
+  const tracked = getStorageItem<string[]>(TRACKED_ORDERS_STORAGE_KEY);
+  return Array.isArray(tracked) ? tracked : [];
+}
+
+/**
+ * Checks whether an order has already been tracked (survives reloads of the
+ * success page)
+ * @param orderID - Order increment ID
+ * @param logger - Logger instance
+ * @returns true if the order was already tracked
+ */
+export function isOrderAlreadyTracked(orderID: string, logger: Logger): boolean {
+  if (readTrackedOrders().includes(orderID)) {
+    logger.log(`Order ${orderID} already tracked, skipping`);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Records an order ID as tracked, keeping only the most recent MAX_TRACKED_ORDERS
+ * @param orderID - Order increment ID
+ */
+export function markOrderTracked(orderID: string): void {
+  setStorageItem(
+    TRACKED_ORDERS_STORAGE_KEY,
+    [...readTrackedOrders(), orderID].slice(-MAX_TRACKED_ORDERS)
+  );
+}
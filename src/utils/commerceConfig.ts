@@ -0,0 +1,236 @@
+/**
+ * Shared configuration for Magento commerce tracking
+ *
+ * Centralizes the storage keys, selectors, payment method mapping, event names
+ * and currency handling used by the before-send callback (checkout) and the purchase tracker
+ * (order confirmation).
+ */
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+/**
+ * Magento customer-data cache in localStorage (sections: cart, customer, ...)
+ * @constant
+ */
+export const MAGE_CACHE_STORAGE_KEY = 'mage-cache-storage';
+
+/**
+ * localStorage key holding order IDs already tracked (dedup across reloads)
+ * @constant
+ */
+export const TRACKED_ORDERS_STORAGE_KEY = '__aep_tracked_orders';
+
+/**
+ * localStorage key holding the last observed cart snapshot, so add/remove
+ * diffs survive full page loads (e.g. add-to-cart form posts). Shared by all
+ * tabs, like mage-cache-storage, so each change is diffed once.
+ * @constant
+ */
+export const CART_SNAPSHOT_STORAGE_KEY = '__aep_cart_snapshot';
+
+/**
+ * Maximum number of tracked order IDs retained in localStorage
+ * @constant
+ */
+export const MAX_TRACKED_ORDERS = 20;
+
+// ============================================================================
+// SELECTORS
+// ============================================================================
+
+/**
+ * Checkout page selectors (Place Order click)
+ * @constant
+ */
+export const CHECKOUT_SELECTORS = {
+  PAYMENT_METHOD_RADIO: 'input[name="payment[method]"]:checked',
+  CART_ITEMS_CONTAINER: 'ol.minicart-items',
+  CART_ITEM: 'li.product-item',
+  PRODUCT_NAME: '.product-item-name',
+} as const;
+
+/**
+ * Checkout success page detection and order selectors.
+ * Each value list is tried in order; the first non-empty match wins.
+ * @constant
+ */
+export const ORDER_SUCCESS_SELECTORS = {
+  PAGE: 'body.checkout-onepage-success',
+  ORDER_NUMBER: [
+    '[data-order-increment-id]',
+    '.checkout-success .order-number strong',
+    '.checkout-success p > span',
+  ],
+  SUBTOTAL: ['.totals.sub .price', '[data-th="Subtotal"] .price'],
+  TAX: ['.totals-tax .price', '[data-th="Tax"] .price'],
+  SHIPPING: ['.totals.shipping .price', '[data-th="Shipping & Handling"] .price'],
+  DISCOUNT: ['.totals.discount .price', '[data-th="Discount"] .price'],
+  GRAND_TOTAL: ['.grand.totals .price', '[data-th="Grand Total"] .price'],
+} as const;
+
+/**
+ * Attribute holding the order increment ID when the theme exposes it
+ * @constant
+ */
+export const ORDER_INCREMENT_ID_ATTRIBUTE = 'data-order-increment-id';
+
+/**
+ * Checkout success page path (fallback when the body class is missing)
+ * @constant
+ */
+export const ORDER_SUCCESS_PATH = /\/checkout\/onepage\/success\/?/;
+
+// ============================================================================
+// PAYMENT METHODS
+// ============================================================================
+
+/**
+ * Maps Magento payment methods onto a normalized payment type.
+ * A method matches by its code (the payment radio's value) or, failing that,
+ * by its label text.
+ */
+export interface PaymentMethodMapping {
+  /** Normalized payment type sent as Checkout.paymentType */
+  type: string;
+  /** Magento payment method codes (exact, case-insensitive) */
+  codes?: readonly string[];
+  /** Pattern tested against the payment method label */
+  labelPattern?: RegExp;
+}
+
+/**
+ * Payment method mappings. Codes are checked against every mapping before
+ * any label pattern, so a code match always wins over a label match.
+ * @constant
+ */
+export const PAYMENT_METHOD_MAPPINGS: readonly PaymentMethodMapping[] = [
+  { type: 'Invoice', labelPattern: /^invoice/i },
+  { type: 'Credit Card', codes: ['braintree', 'authnetcim', 'stripe_payments', 'payflowpro'] },
+  {
+    type: 'PayPal',
+    codes: ['paypal_express', 'braintree_paypal', 'payflow_express'],
+    labelPattern: /paypal/i,
+  },
+  { type: 'Purchase Order', codes: ['purchaseorder'], labelPattern: /purchase order/i },
+  { type: 'Check / Money Order', codes: ['checkmo'], labelPattern: /^(?:check\b|money order)/i },
+  { type: 'Bank Transfer', codes: ['banktransfer'], labelPattern: /bank transfer/i },
+  { type: 'Free', codes: ['free'], labelPattern: /no payment information required/i },
+  { type: 'Credit Card', labelPattern: /credit card|debit card/i },
+];
+
+/**
+ * Payment type used when no mapping matches (the raw code is kept in
+ * Checkout.paymentMethodCode)
+ * @constant
+ */
+export const UNMAPPED_PAYMENT_TYPE = 'Other';
+
+// ============================================================================
+// EVENTS
+// ============================================================================
+
+/**
+ * XDM event type for completed orders
+ * @constant
+ */
+export const PURCHASE_EVENT_TYPE = 'commerce.purchases';
+
+/**
+ * Direct call event name fired after a new order is detected
+ * @constant
+ */
+export const PURCHASE_COMMIT_EVENT = 'purchaseCommit';
+
+/**
+ * XDM event type for items added to the cart
+ * @constant
+ */
+export const CART_ADD_EVENT_TYPE = 'commerce.productListAdds';
+
+/**
+ * XDM event type for items removed from the cart
+ * @constant
+ */
+export const CART_REMOVE_EVENT_TYPE = 'commerce.productListRemoves';
+
+/**
+ * Direct call event name fired when items are added to the cart
+ * @constant
+ */
+export const CART_ADD_COMMIT_EVENT = 'cartAddCommit';
+
+/**
+ * Direct call event name fired when items are removed from the cart
+ * @constant
+ */
+export const CART_REMOVE_COMMIT_EVENT = 'cartRemoveCommit';
+
+/**
+ * Fallback polling interval in milliseconds for same-tab cart changes
+ * (the storage event only fires for changes made in other tabs)
+ * @constant
+ */
+export const CART_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Delay in milliseconds between an add and a remove event produced by the
+ * same diff, so the first rule reads its XDM Variable before it is overwritten
+ * @constant
+ */
+export const CART_EVENT_SPACING_MS = 500;
+
+/**
+ * Delay in milliseconds before a tab that stored a changed cart snapshot
+ * reads it back; the change is reported only if no other tab overwrote it
+ * meanwhile
+ * @constant
+ */
+export const CART_SNAPSHOT_CLAIM_DELAY_MS = 100;
+
+// ============================================================================
+// CURRENCY
+// ============================================================================
+
+/**
+ * Currency used when it cannot be derived from the page
+ * @constant
+ */
+export const DEFAULT_CURRENCY = 'USD';
+
+/**
+ * Currency symbol to ISO 4217 code mapping (longest symbols first)
+ * @constant
+ */
+export const CURRENCY_SYMBOLS: ReadonlyArray<[string, string]> = [
+  ['A$', 'AUD'],
+  ['C$', 'CAD'],
+  ['€', 'EUR'],
+  ['£', 'GBP'],
+  ['¥', 'JPY'],
+  ['₹', 'INR'],
+  ['$', 'USD'],
+];
+
+/**
+ * Minor unit digits of currencies that do not use 2 decimals (ISO 4217).
+ * Decides whether a single separator followed by 3 digits is a decimal
+ * point ("KWD 1.250") or a thousands separator ("$1,250").
+ * @constant
+ */
+export const CURRENCY_DECIMALS: Readonly<Record<string, number>> = {
+  JPY: 0,
+  KRW: 0,
+  BHD: 3,
+  JOD: 3,
+  KWD: 3,
+  OMR: 3,
+  TND: 3,
+};
+
+/**
+ * Minor unit digits of currencies not listed in CURRENCY_DECIMALS
+ * @constant
+ */
+export const DEFAULT_CURRENCY_DECIMALS = 2;
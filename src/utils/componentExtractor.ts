@@ -0,0 +1,192 @@
+/**
+ * Generic component metadata extraction
+ *
+ * Fills a PartnerCardCtx from whichever registered ComponentExtractorConfig
+ * matches the event's composed path. All component-specific details
+ * (matchers, shadow selectors, daa-lh indices, content type) come from the
+ * definition — this module holds no component-specific constants.
+ */
+
+import type { Logger } from './logger.js';
+import type { PartnerCardCtx } from '../types/index.js';
+import {
+  getAttribute,
+  getTextContent,
+  queryShadow,
+  findInComposedPath,
+  createElementMatcher,
+  extractStructuredAttribute,
+} from './dom.js';
+import {
+  COMPONENT_ATTRIBUTES,
+  COMPONENT_EXTRACTORS,
+  DAA_LH_DELIMITER,
+  type ComponentExtractorConfig,
+  type ElementMatcherConfig,
+} from './componentExtractorConfig.js';
+
+/**
+ * Wrapper-level context shared by every component in a collection
+ */
+export interface ComponentWrapperContext {
+  sectionID: string;
+  filterContext: string;
+}
+
+/**
+ * Creates an element predicate from a declarative matcher config
+ */
+export function createMatcherFromConfig(
+  matcher: ElementMatcherConfig
+): (element: Element) => boolean {
+  return createElementMatcher(matcher.tagName, matcher.className);
+}
+
+/**
+ * Converts a declarative matcher config into an equivalent CSS selector
+ * (tag OR class), for use with querySelectorAll
+ *
+ * @example
+ * matcherToSelector({ tagName: 'single-partner-card', className: 'card-wrapper' })
+ * // Returns 'single-partner-card, .card-wrapper'
+ */
+export function matcherToSelector(matcher: ElementMatcherConfig): string {
+  return [matcher.tagName, matcher.className ? `.${matcher.className}` : undefined]
+    .filter(Boolean)
+    .join(', ');
+}
+
+/**
+ * Extracts section and filter context from a collection wrapper element
+ * @param wrapper - The wrapper element
+ * @param definition - Component extractor definition
+ * @param logger - Logger instance
+ */
+export function extractWrapperContext(
+  wrapper: Element,
+  definition: ComponentExtractorConfig,
+  logger: Logger
+): ComponentWrapperContext {
+  // Get section ID from parent element
+  if (!wrapper.parentElement) {
+    logger.warn('Wrapper has no parent element, sectionID will be empty');
+  }
+  const sectionID = getAttribute(wrapper.parentElement, COMPONENT_ATTRIBUTES.DAA_LH);
+
+  // Get filter context from shadow DOM
+  const filterElement = queryShadow(wrapper, definition.selectors.filterContext);
+  const filterContext = getAttribute(filterElement, COMPONENT_ATTRIBUTES.DAA_LH);
+
+  if (!sectionID) {
+    logger.warn('Wrapper missing sectionID (parent daa-lh attribute)');
+  }
+
+  return { sectionID, filterContext };
+}
+
+/**
+ * Extracts component context from a host element
+ * @param hostElement - The component host element
+ * @param definition - Component extractor definition
+ * @param wrapperContext - Section/filter context from the collection wrapper
+ * @param logger - Logger instance
+ * @returns Component context or null if the title cannot be found
+ */
+export function extractComponentCtxFromElement(
+  hostElement: Element,
+  definition: ComponentExtractorConfig,
+  wrapperContext: ComponentWrapperContext,
+  logger: Logger
+): PartnerCardCtx | null {
+  if (!hostElement) {
+    logger.error('Component element is required');
+    return null;
+  }
+
+  // contentID and position from the delimited daa-lh attribute
+  const metadata = extractStructuredAttribute(
+    hostElement,
+    COMPONENT_ATTRIBUTES.DAA_LH,
+    DAA_LH_DELIMITER,
+    definition.daaLhIndices
+  );
+
+  const cardTitle = getTextContent(queryShadow(hostElement, definition.selectors.title));
+  if (!cardTitle) {
+    logger.error(`[${definition.id}] Title not found in shadow DOM`);
+    return null;
+  }
+
+  const ctaText = getAttribute(
+    queryShadow(hostElement, definition.selectors.cta),
+    COMPONENT_ATTRIBUTES.DAA_LL
+  );
+
+  const result: PartnerCardCtx = {
+    cardTitle,
+    contentID: metadata.contentID || '',
+    contentType: definition.contentType,
+    ctaText,
+    filterContext: wrapperContext.filterContext,
+    name: cardTitle,
+    position: metadata.position || '',
+    sectionID: wrapperContext.sectionID,
+  };
+
+  logger.log(`[${definition.id}] Extracted component context`, result);
+  return result;
+}
+
+/**
+ * Extracts component context from an event's composed path.
+ *
+ * Definitions are tried in order; the first one whose host AND wrapper are
+ * both present in the composed path is used to build the context.
+ *
+ * @param event - The event object (PointerEvent or MouseEvent)
+ * @param logger - Logger instance
+ * @param extractors - Definitions to try (defaults to COMPONENT_EXTRACTORS)
+ * @returns Component context or null if the event did not occur within a component
+ */
+export function extractComponentCtxFromEvent(
+  event: Event,
+  logger: Logger,
+  extractors: readonly ComponentExtractorConfig[] = COMPONENT_EXTRACTORS
+): PartnerCardCtx | null {
+  logger.log('Extracting component metadata from event.composedPath()');
+
+  let result: PartnerCardCtx | null = null;
+
+  extractors.some((definition) => {
+    const hostElement = findInComposedPath(event, createMatcherFromConfig(definition.host));
+    if (!hostElement) {
+      return false;
+    }
+
+    logger.log(`[${definition.id}] Found host element in composed path`, hostElement);
+
+    const wrapper = findInComposedPath(event, createMatcherFromConfig(definition.wrapper));
+    if (!wrapper) {
+      logger.log(`[${definition.id}] No wrapper found in composed path`);
+      return false;
+    }
+
+    logger.log(`[${definition.id}] Found wrapper element in composed path`, wrapper);
+
+    const wrapperContext = extractWrapperContext(wrapper, definition, logger);
+    result = extractComponentCtxFromElement(hostElement, definition, wrapperContext, logger);
+
+    if (!result) {
+      logger.warn(`[${definition.id}] Failed to extract component context`);
+    }
+
+    // A matching host + wrapper ends the search, even if extraction failed
+    return true;
+  });
+
+  if (!result) {
+    logger.log('Event did not occur within a registered component');
+  }
+
+  return result;
+}
@@ -0,0 +1,102 @@
+/**
+ * Shared configuration for component (card/tile) metadata extraction
+ *
+ * Declares the registry of component extractor definitions used by the
+ * before-send callback (and any other script that needs card context).
+ * Adding a new card or tile component = new entry in COMPONENT_EXTRACTORS,
+ * no changes to the extraction logic required.
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Declarative element matcher — an element matches if its tag name OR
+ * class list matches (same semantics as createElementMatcher in dom.ts).
+ */
+export interface ElementMatcherConfig {
+  /** Tag name to match (case-insensitive) */
+  tagName?: string;
+  /** Class name to match */
+  className?: string;
+}
+
+/**
+ * Definition of a trackable component (card, tile, ...).
+ *
+ * Each definition describes how to find the component host and its
+ * collection wrapper in the event's composed path, and where the metadata
+ * lives inside the component's shadow DOM.
+ */
+export interface ComponentExtractorConfig {
+  /** Unique identifier for logging */
+  id: string;
+
+  /** Value written to PartnerCardCtx.contentType */
+  contentType: string;
+
+  /** Matcher for the component host element (e.g. <single-partner-card>) */
+  host: ElementMatcherConfig;
+
+  /** Matcher for the collection wrapper providing section/filter context */
+  wrapper: ElementMatcherConfig;
+
+  /** Selectors queried inside the shadow roots */
+  selectors: {
+    /** Title element inside the host shadow root */
+    title: string;
+    /** CTA link inside the host shadow root (its daa-ll is the CTA text) */
+    cta: string;
+    /** Element inside the wrapper shadow root carrying the filter context daa-lh */
+    filterContext: string;
+  };
+
+  /** Index map for the pipe-delimited host daa-lh attribute */
+  daaLhIndices: {
+    position: number;
+    contentID: number;
+  };
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Analytics attributes read from component markup
+ * @constant
+ */
+export const COMPONENT_ATTRIBUTES = {
+  DAA_LH: 'daa-lh',
+  DAA_LL: 'daa-ll',
+} as const;
+
+/**
+ * Delimiter used inside the host daa-lh attribute
+ * @constant
+ */
+export const DAA_LH_DELIMITER = '|';
+
+/**
+ * Registered component extractors, tried in order.
+ * The first definition whose host AND wrapper are found in the composed path wins.
+ * @constant
+ */
+export const COMPONENT_EXTRACTORS: readonly ComponentExtractorConfig[] = [
+  {
+    id: 'partner-card',
+    contentType: 'partner_card',
+    host: { tagName: 'single-partner-card', className: 'card-wrapper' },
+    wrapper: { className: 'dx-card-collection-wrapper' },
+    selectors: {
+      title: '.card-title',
+      cta: 'a',
+      filterContext: '.partner-cards',
+    },
+    daaLhIndices: {
+      position: 0,
+      contentID: 2,
+    },
+  },
+];
@@ -0,0 +1,150 @@
+/**
+ * Consent utilities
+ *
+ * Reads the site's consent state from the Adobe Web SDK consent cookie,
+ * OneTrust and Global Privacy Control, and decides which enrichment
+ * categories may be attached to an event.
+ *
+ * Precedence: default → Adobe "general" consent → OneTrust groups → GPC
+ * (GPC can only deny).
+ */
+
+import { getCookie } from './cookie.js';
+import {
+  ADOBE_CONSENT_COOKIE_PATTERN,
+  CONSENT_DEFAULT_GRANTED,
+  ENRICHMENT_CATEGORY_PURPOSES,
+  GPC_DENIED_PURPOSES,
+  ONETRUST_CONSENT_COOKIE,
+  ONETRUST_GROUP_PURPOSES,
+  type AdobeConsentValue,
+  type ConsentPurpose,
+  type ConsentSnapshot,
+  type EnrichmentCategory,
+} from './consentConfig.js';
+
+// ============================================================================
+// SOURCES
+// ============================================================================
+
+/**
+ * Reads the "general" value of the Adobe Web SDK consent cookie
+ * (cookie value: "general=in")
+ */
+function readAdobeConsent(): AdobeConsentValue | undefined {
+  const cookie = document.cookie
+    .split('; ')
+    .map((entry) => entry.split('='))
+    .find(([name]) => ADOBE_CONSENT_COOKIE_PATTERN.test(name));
+  if (!cookie) return undefined;
+
+  const value = decodeURIComponent(cookie.slice(1).join('='));
+  const match = value.match(/general=(in|out|pending)/);
+  return match ? (match[1] as AdobeConsentValue) : undefined;
+}
+
+/**
+ * Reads the OneTrust groups (C0002:1 → granted) from the OptanonConsent
+ * cookie, falling back to window.OnetrustActiveGroups
+ * @returns Map of group ID to granted, or undefined if OneTrust is absent
+ */
+function readOneTrustGroups(): Map<string, boolean> | undefined {
+  const cookie = getCookie(ONETRUST_CONSENT_COOKIE);
+  if (cookie) {
+    const groups = new URLSearchParams(cookie).get('groups');
+    if (groups) {
+      return new Map(
+        groups.split(',').map((entry) => {
+          const [id, state] = entry.split(':');
+          return [id, state === '1'] as [string, boolean];
+        })
+      );
+    }
+  }
+
+  const activeGroups = (window as Window & { OnetrustActiveGroups?: unknown }).OnetrustActiveGroups;
+  if (typeof activeGroups === 'string' && activeGroups) {
+    const active = activeGroups.split(',').filter(Boolean);
+    return new Map(Object.keys(ONETRUST_GROUP_PURPOSES).map((id) => [id, active.includes(id)]));
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether the browser sends Global Privacy Control
+ */
+function readGpc(): boolean {
+  return (
+    (navigator as Navigator & { globalPrivacyControl?: boolean }).globalPrivacyControl === true
+  );
+}
+
+// ============================================================================
+// CONSENT STATE
+// ============================================================================
+
+/**
+ * Reads the current consent state
+ * @returns Consent snapshot (skippedCategories filled from the purposes)
+ *
+ * @example
+ * const consent = readConsentSnapshot();
+ * // { purposes: { necessary: true, analytics: true, functional: true, targeting: false },
+ * //   sources: { adobe: 'in', gpc: true }, skippedCategories: ['identity', ...] }
+ */
+export function readConsentSnapshot(): ConsentSnapshot {
+  const adobe = readAdobeConsent();
+  const oneTrust = readOneTrustGroups();
+  const gpc = readGpc();
+
+  const initial = adobe ? adobe === 'in' : CONSENT_DEFAULT_GRANTED;
+  const purposes: Record<ConsentPurpose, boolean> = {
+    necessary: true,
+    analytics: initial,
+    functional: initial,
+    targeting: initial,
+  };
+
+  oneTrust?.forEach((granted, groupID) => {
+    const purpose = ONETRUST_GROUP_PURPOSES[groupID];
+    if (purpose && purpose !== 'necessary') {
+      purposes[purpose] = granted;
+    }
+  });
+
+  if (gpc) {
+    GPC_DENIED_PURPOSES.forEach((purpose) => {
+      purposes[purpose] = false;
+    });
+  }
+
+  const skippedCategories = (
+    Object.keys(ENRICHMENT_CATEGORY_PURPOSES) as EnrichmentCategory[]
+  ).filter((category) => !purposes[ENRICHMENT_CATEGORY_PURPOSES[category]]);
+
+  return {
+    purposes,
+    sources: {
+      ...(adobe && { adobe }),
+      ...(oneTrust && {
+        oneTrustGroups: Array.from(oneTrust.keys()).filter((id) => oneTrust.get(id)),
+      }),
+      gpc,
+    },
+    skippedCategories,
+  };
+}
+
+/**
+ * Checks whether an enrichment category may be attached
+ * @param category - Enrichment category
+ * @param snapshot - Consent snapshot (read fresh when omitted)
+ * @returns true if the category's purpose is granted
+ */
+export function isCategoryAllowed(
+  category: EnrichmentCategory,
+  snapshot: ConsentSnapshot = readConsentSnapshot()
+): boolean {
+  return !snapshot.skippedCategories.includes(category);
+}
@@ -0,0 +1,105 @@
+/**
+ * Shared configuration for consent-aware enrichment
+ *
+ * Centralizes the consent sources (Adobe consent cookie, OneTrust, Global
+ * Privacy Control), the purposes they grant and the purpose each enrichment
+ * category requires. Used by the consent utility.
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Consent purposes enrichment can depend on
+ */
+export type ConsentPurpose = 'necessary' | 'analytics' | 'functional' | 'targeting';
+
+/**
+ * Data enrichment categories gated by consent
+ * - identity: IMS profile / org data
+ * - partnerProfile: partner cookie + session storage profile (name, email)
+ * - attendee: adobeevents.com attendee record
+ * - commerce: Magento cart / checkout data, purchases and cart changes
+ * - formInteraction: form interaction events
+ */
+export type EnrichmentCategory =
+  'identity' | 'partnerProfile' | 'attendee' | 'commerce' | 'formInteraction';
+
+/**
+ * Adobe Web SDK consent cookie value for the "general" purpose
+ */
+export type AdobeConsentValue = 'in' | 'out' | 'pending';
+
+/**
+ * Consent state applied to an event
+ * Matches XDM schema: _adobepartners.consent
+ */
+export interface ConsentSnapshot {
+  /** Whether each purpose is granted */
+  purposes: Record<ConsentPurpose, boolean>;
+  /** Raw signals the purposes were derived from */
+  sources: {
+    adobe?: AdobeConsentValue;
+    /** OneTrust groups granted */
+    oneTrustGroups?: string[];
+    gpc: boolean;
+  };
+  /** Categories skipped because their purpose is not granted */
+  skippedCategories: EnrichmentCategory[];
+}
+
+// ============================================================================
+// SOURCES
+// ============================================================================
+
+/**
+ * Adobe Web SDK consent cookie: kndctr_<IMS org ID>_AdobeOrg_consent
+ * @constant
+ */
+export const ADOBE_CONSENT_COOKIE_PATTERN = /^kndctr_.+_AdobeOrg_consent$/;
+
+/**
+ * OneTrust consent cookie (groups=C0001:1,C0002:0,...)
+ * @constant
+ */
+export const ONETRUST_CONSENT_COOKIE = 'OptanonConsent';
+
+/**
+ * OneTrust category group ID to purpose mapping
+ * @constant
+ */
+export const ONETRUST_GROUP_PURPOSES: Readonly<Record<string, ConsentPurpose>> = {
+  C0001: 'necessary',
+  C0002: 'analytics',
+  C0003: 'functional',
+  C0004: 'targeting',
+};
+
+/**
+ * Purposes denied when Global Privacy Control is set (opt-out of sale/sharing)
+ * @constant
+ */
+export const GPC_DENIED_PURPOSES: readonly ConsentPurpose[] = ['targeting'];
+
+/**
+ * Whether purposes are granted when the page exposes no consent signal
+ * @constant
+ */
+export const CONSENT_DEFAULT_GRANTED = true;
+
+// ============================================================================
+// CATEGORIES
+// ============================================================================
+
+/**
+ * Purpose each enrichment category requires
+ * @constant
+ */
+export const ENRICHMENT_CATEGORY_PURPOSES: Readonly<Record<EnrichmentCategory, ConsentPurpose>> = {
+  identity: 'targeting',
+  partnerProfile: 'targeting',
+  attendee: 'targeting',
+  commerce: 'analytics',
+  formInteraction: 'analytics',
+};
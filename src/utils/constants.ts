@@ -13,3 +13,17 @@ export const EVENT_DATA_READY_EVENT = 'eventDataReady';
  * @constant
  */
 export const XDM_VARIABLE_NAME = 'XDMVariable';
+
+/**
+ * Delay in milliseconds after a direct call before its event-scoped fields are
+ * removed from the XDM Variable, so the rule's Send Event action reads them
+ * first (rule actions may run asynchronously)
+ * @constant
+ */
+export const XDM_EVENT_FIELDS_CLEAR_DELAY_MS = 500;
+
+/**
+ * XDM event type of page views (skipped by partner data enrichment)
+ * @constant
+ */
+export const PAGE_VIEW_EVENT_TYPE = 'web.webpagedetails.pageViews';
@@ -215,3 +215,38 @@ export function extractStructuredAttribute(
 
   return result;
 }
+
+/**
+ * Queries all elements matching a selector, descending into open shadow roots
+ *
+ * @param root - Root to start from (document, element, or shadow root)
+ * @param selector - The CSS selector to query
+ * @returns Array of matching elements in document order (light DOM before shadow DOM)
+ *
+ * @example
+ * querySelectorAllDeep(wrapper, 'single-partner-card') // Finds cards inside shadow roots
+ */
+export function querySelectorAllDeep(
+  root: Document | Element | ShadowRoot,
+  selector: string
+): Element[] {
+  const results: Element[] = [];
+
+  const walk = (node: Document | Element | ShadowRoot): void => {
+    results.push(...Array.from(node.querySelectorAll(selector)));
+
+    const { shadowRoot } = node as Element & { shadowRoot?: ShadowRoot | null };
+    if (shadowRoot) {
+      walk(shadowRoot);
+    }
+
+    node.querySelectorAll('*').forEach((child) => {
+      if (child.shadowRoot) {
+        walk(child.shadowRoot);
+      }
+    });
+  };
+
+  walk(root);
+  return results;
+}
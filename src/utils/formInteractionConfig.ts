@@ -0,0 +1,129 @@
+/**
+ * Shared configuration for form interaction tracking
+ *
+ * Centralizes the form/field selectors, validation error selectors, limits and
+ * event names used by the formInteractionMonitor script and the formTracker utility.
+ *
+ * Field values are never read — only field identifiers, order and timing.
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * How a tracked form session ended
+ */
+export type FormOutcome = 'submit' | 'abandon';
+
+/**
+ * Timing and error data for a single touched field
+ */
+export interface FormFieldInteraction {
+  /** Field identifier (name, id or aria-label — never the value) */
+  field: string;
+  /** Input type or tag name (e.g. "email", "select") */
+  fieldType: string;
+  /** 1-based position in the order fields were first touched */
+  order: number;
+  /** Total focused time in milliseconds */
+  timeSpentMs: number;
+  /** Validation errors raised on this field */
+  errorCount: number;
+}
+
+/**
+ * Form interaction written to xdm._adobepartners.formInteraction
+ */
+export interface FormInteractionData {
+  /** Form identifier (id, name, data-form-id or aria-label) */
+  formID: string;
+  /** Path of the form action URL (no query string) */
+  formAction: string;
+  outcome: FormOutcome;
+  /** What ended an abandoned session */
+  abandonTrigger?: 'pagehide' | 'navigation';
+  /** Time from the first trusted input to the outcome, in milliseconds */
+  durationMs: number;
+  /** Fields in the order they were first touched */
+  fieldOrder: string[];
+  /** Last field touched (the drop-off point for abandons) */
+  lastField: string;
+  fieldsTouched: number;
+  fields: FormFieldInteraction[];
+  /** Total validation errors across all fields and submit attempts */
+  validationErrorCount: number;
+  /**
+   * Number of submit attempts (submit button clicks, Enter in a field,
+   * programmatic submits), including ones blocked by native or script validation
+   */
+  submitAttempts: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Direct call event name fired when a form session ends
+ * @constant
+ */
+export const FORM_INTERACTION_COMMIT_EVENT = 'formInteractionCommit';
+
+/**
+ * XDM Variable path the form interaction is written to
+ * @constant
+ */
+export const FORM_INTERACTION_XDM_PATH = ['_adobepartners', 'formInteraction'];
+
+/**
+ * Forms excluded from tracking (search boxes are covered by search tracking)
+ * @constant
+ */
+export const FORM_EXCLUDE_SELECTOR =
+  'form[role="search"], form#search_mini_form, [data-aep-form-ignore]';
+
+/**
+ * Fields tracked inside a form
+ * @constant
+ */
+export const FORM_FIELD_SELECTOR = 'input, select, textarea';
+
+/**
+ * Input types that are never tracked as fields
+ * @constant
+ */
+export const IGNORED_INPUT_TYPES = ['hidden', 'submit', 'button', 'reset', 'image'];
+
+/**
+ * Attributes used to identify a form, in order of preference
+ * @constant
+ */
+export const FORM_ID_ATTRIBUTES = ['id', 'name', 'data-form-id', 'aria-label'];
+
+/**
+ * Attributes used to identify a field, in order of preference
+ * @constant
+ */
+export const FIELD_ID_ATTRIBUTES = ['name', 'id', 'aria-label'];
+
+/**
+ * Script-driven validation errors (Magento jQuery validate, ARIA) counted
+ * after a submit attempt; native constraint errors are counted via `invalid`
+ * @constant
+ */
+export const FORM_ERROR_SELECTOR = 'div.mage-error, .field-error, [aria-invalid="true"]';
+
+/**
+ * Submit buttons whose clicks count as submit attempts (native constraint
+ * validation can block the submit event itself)
+ * @constant
+ */
+export const FORM_SUBMIT_BUTTON_SELECTOR =
+  'button:not([type]), button[type="submit"], input[type="submit"], input[type="image"]';
+
+/**
+ * Maximum number of fields recorded per form session
+ * @constant
+ */
+export const MAX_TRACKED_FIELDS = 50;
@@ -0,0 +1,352 @@
+/**
+ * Form interaction tracker utility
+ *
+ * Tracks every form on the page (minus FORM_EXCLUDE_SELECTOR) through
+ * document-level capture listeners, so forms rendered after install are
+ * covered too. A session starts on the first trusted input in a form and
+ * records which fields were touched, in what order, how long each was
+ * focused and how many validation errors were raised.
+ *
+ * A session ends as "submit" when a submit is not blocked by validation (the
+ * submit listener runs in the bubble phase, after the form's own handlers), or
+ * as "abandon" on pagehide / SPA navigation. Each outcome is written to the
+ * XDM Variable and sent via a direct call. Field values are never read.
+ */
+
+import type { Logger } from './logger.js';
+import { isValidUserEvent } from './events.js';
+import { findInComposedPath, getAttribute } from './dom.js';
+import { fireXdmVariableEvent } from './satellite.js';
+import { setPartnerState } from './globalState.js';
+import { isCategoryAllowed } from './consent.js';
+import { subscribeToNavigation } from './navigationMonitor.js';
+import {
+  FIELD_ID_ATTRIBUTES,
+  FORM_ERROR_SELECTOR,
+  FORM_EXCLUDE_SELECTOR,
+  FORM_FIELD_SELECTOR,
+  FORM_ID_ATTRIBUTES,
+  FORM_INTERACTION_COMMIT_EVENT,
+  FORM_INTERACTION_XDM_PATH,
+  FORM_SUBMIT_BUTTON_SELECTOR,
+  IGNORED_INPUT_TYPES,
+  MAX_TRACKED_FIELDS,
+  type FormFieldInteraction,
+  type FormInteractionData,
+  type FormOutcome,
+} from './formInteractionConfig.js';
+import type { NavigationChange } from './navigationConfig.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/** Form field element types that can be tracked */
+type FormField = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+/**
+ * In-progress session for one form
+ */
+interface FormSession {
+  form: HTMLFormElement;
+  startedAt: number;
+  fields: Map<string, FormFieldInteraction>;
+  /** Field currently focused and when focus started */
+  focus?: { field: string; since: number };
+  lastField: string;
+  validationErrorCount: number;
+  submitAttempts: number;
+  /** A button click or Enter already counted the submit attempt in progress */
+  attemptCounted: boolean;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Returns the first non-empty attribute from the list
+ */
+function firstAttribute(element: Element, attributes: readonly string[]): string {
+  let value = '';
+  attributes.some((attribute) => {
+    value = getAttribute(element, attribute).trim();
+    return value !== '';
+  });
+  return value;
+}
+
+/**
+ * Resolves the trackable field an event originated from (shadow DOM aware)
+ */
+function getEventField(event: Event): FormField | null {
+  const [origin] = event.composedPath();
+  if (!(origin instanceof Element) || !origin.matches(FORM_FIELD_SELECTOR)) {
+    return null;
+  }
+
+  const field = origin as FormField;
+  if (field instanceof HTMLInputElement && IGNORED_INPUT_TYPES.includes(field.type)) {
+    return null;
+  }
+  if (!field.form || field.form.matches(FORM_EXCLUDE_SELECTOR)) {
+    return null;
+  }
+
+  return field;
+}
+
+/**
+ * Field identifier — falls back to its position so unnamed fields stay distinct
+ */
+function getFieldID(field: FormField): string {
+  const id = firstAttribute(field, FIELD_ID_ATTRIBUTES);
+  if (id) return id;
+
+  const index = field.form ? Array.from(field.form.elements).indexOf(field) : -1;
+  return `field_${index}`;
+}
+
+/**
+ * Form identifier — falls back to its position among the page's forms
+ */
+function getFormID(form: HTMLFormElement): string {
+  return (
+    firstAttribute(form, FORM_ID_ATTRIBUTES) || `form_${Array.from(document.forms).indexOf(form)}`
+  );
+}
+
+/**
+ * Path of the form action (query strings may carry tokens, so they are dropped)
+ */
+function getFormActionPath(form: HTMLFormElement): string {
+  try {
+    return new URL(form.action || window.location.href).pathname;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Field type for reporting (input type, or tag name for select/textarea)
+ */
+function getFieldType(field: FormField): string {
+  return field instanceof HTMLInputElement ? field.type : field.tagName.toLowerCase();
+}
+
+// ============================================================================
+// IMPLEMENTATION
+// ============================================================================
+
+/**
+ * Installs document-level form tracking.
+ *
+ * @param logger - Logger instance
+ * @param testMode - Whether in test mode
+ */
+export default function installFormTracker(logger: Logger, testMode: boolean): void {
+  const sessions = new Map<HTMLFormElement, FormSession>();
+
+  // ── Session bookkeeping ────────────────────────────────────────────────────
+  const stopFocusTimer = (session: FormSession): void => {
+    if (!session.focus) return;
+    const entry = session.fields.get(session.focus.field);
+    if (entry) {
+      entry.timeSpentMs += Date.now() - session.focus.since;
+    }
+    // eslint-disable-next-line no-param-reassign
+    session.focus = undefined;
+  };
+
+  const touchField = (session: FormSession, field: FormField): FormFieldInteraction | null => {
+    const fieldID = getFieldID(field);
+    let entry = session.fields.get(fieldID);
+
+    if (!entry) {
+      if (session.fields.size >= MAX_TRACKED_FIELDS) return null;
+      entry = {
+        field: fieldID,
+        fieldType: getFieldType(field),
+        order: session.fields.size + 1,
+        timeSpentMs: 0,
+        errorCount: 0,
+      };
+      session.fields.set(fieldID, entry);
+    }
+
+    // eslint-disable-next-line no-param-reassign
+    session.lastField = fieldID;
+    return entry;
+  };
+
+  const endSession = (
+    session: FormSession,
+    outcome: FormOutcome,
+    abandonTrigger?: FormInteractionData['abandonTrigger']
+  ): void => {
+    stopFocusTimer(session);
+    sessions.delete(session.form);
+
+    const fields = Array.from(session.fields.values());
+    const data: FormInteractionData = {
+      formID: getFormID(session.form),
+      formAction: getFormActionPath(session.form),
+      outcome,
+      ...(abandonTrigger && { abandonTrigger }),
+      durationMs: Date.now() - session.startedAt,
+      fieldOrder: fields.map((entry) => entry.field),
+      lastField: session.lastField,
+      fieldsTouched: fields.length,
+      fields,
+      validationErrorCount: session.validationErrorCount,
+      submitAttempts: session.submitAttempts,
+    };
+
+    if (!isCategoryAllowed('formInteraction')) {
+      logger.log(`No consent for "formInteraction", form ${data.formID} ${outcome} not sent`);
+      return;
+    }
+
+    setPartnerState('formInteraction', data);
+    fireXdmVariableEvent(
+      FORM_INTERACTION_COMMIT_EVENT,
+      [[FORM_INTERACTION_XDM_PATH, data]],
+      logger,
+      testMode
+    );
+    logger.log(`Form ${data.formID} ${outcome}`, data);
+  };
+
+  const abandonAll = (trigger: NonNullable<FormInteractionData['abandonTrigger']>): void => {
+    Array.from(sessions.values()).forEach((session) => endSession(session, 'abandon', trigger));
+  };
+
+  // ── Start + touched fields: first trusted input ────────────────────────────
+  const onInput = (event: Event): void => {
+    if (!isValidUserEvent(event)) return;
+    const field = getEventField(event);
+    if (!field?.form) return;
+
+    let session = sessions.get(field.form);
+    if (!session) {
+      session = {
+        form: field.form,
+        startedAt: Date.now(),
+        fields: new Map(),
+        lastField: '',
+        validationErrorCount: 0,
+        submitAttempts: 0,
+        attemptCounted: false,
+      };
+      sessions.set(field.form, session);
+      logger.log(`Form started: ${getFormID(field.form)}`);
+    }
+
+    const fieldID = getFieldID(field);
+    const isNew = !session.fields.has(fieldID);
+    touchField(session, field);
+
+    // Focus started before the session did — count time from the first input
+    if (isNew && !session.focus) {
+      session.focus = { field: fieldID, since: Date.now() };
+    }
+  };
+
+  // ── Field timing ───────────────────────────────────────────────────────────
+  const onFocusIn = (event: Event): void => {
+    const field = getEventField(event);
+    const session = field?.form ? sessions.get(field.form) : undefined;
+    if (!field || !session) return;
+
+    stopFocusTimer(session);
+    if (touchField(session, field)) {
+      session.focus = { field: getFieldID(field), since: Date.now() };
+    }
+  };
+
+  const onFocusOut = (event: Event): void => {
+    const field = getEventField(event);
+    const session = field?.form ? sessions.get(field.form) : undefined;
+    if (session) stopFocusTimer(session);
+  };
+
+  // ── Validation errors: native constraint validation ────────────────────────
+  const onInvalid = (event: Event): void => {
+    const field = getEventField(event);
+    const session = field?.form ? sessions.get(field.form) : undefined;
+    if (!field || !session) return;
+
+    const entry = touchField(session, field);
+    if (entry) entry.errorCount += 1;
+    session.validationErrorCount += 1;
+  };
+
+  // ── Submit attempts: counted before native validation can block submit ──
+  const countAttempt = (form: HTMLFormElement | null): void => {
+    const session = form ? sessions.get(form) : undefined;
+    // Enter fires a click on the default button: one attempt, counted once
+    if (!session || session.attemptCounted) return;
+
+    session.submitAttempts += 1;
+    session.attemptCounted = true;
+    // The submit event (if validation lets it through) follows in the same task
+    setTimeout(() => {
+      session.attemptCounted = false;
+    }, 0);
+  };
+
+  const onClick = (event: Event): void => {
+    if (!isValidUserEvent(event)) return;
+    const button = findInComposedPath(event, (element) =>
+      element.matches(FORM_SUBMIT_BUTTON_SELECTOR)
+    ) as HTMLButtonElement | HTMLInputElement | null;
+    if (button && !button.disabled) countAttempt(button.form);
+  };
+
+  const onKeydown = (event: Event): void => {
+    if (!isValidUserEvent(event) || (event as KeyboardEvent).key !== 'Enter') return;
+    const field = getEventField(event);
+    // Enter in a textarea adds a line, it does not submit
+    if (field instanceof HTMLInputElement) countAttempt(field.form);
+  };
+
+  // ── Submit: bubble phase, so the form's own validation handlers ran first ──
+  const onSubmit = (event: Event): void => {
+    if (!(event.target instanceof HTMLFormElement)) return;
+    const session = sessions.get(event.target);
+    if (!session) return;
+
+    // Programmatic submits (requestSubmit) have no click or Enter to count them
+    if (!session.attemptCounted) session.submitAttempts += 1;
+    session.attemptCounted = false;
+
+    const errors = session.form.querySelectorAll(FORM_ERROR_SELECTOR).length;
+    if (errors) {
+      session.validationErrorCount += errors;
+      logger.log(`Submit blocked by ${errors} validation errors`);
+      return;
+    }
+
+    endSession(session, 'submit');
+  };
+
+  // ── Abandon: page unload or SPA navigation ─────────────────────────────────
+  const onNavigation = ({ oldUrl, newUrl }: NavigationChange): void => {
+    // Query string / fragment updates keep the form on the page
+    if (new URL(oldUrl).pathname === new URL(newUrl).pathname) return;
+    abandonAll('navigation');
+  };
+
+  document.addEventListener('input', onInput, true);
+  document.addEventListener('change', onInput, true);
+  document.addEventListener('focusin', onFocusIn, true);
+  document.addEventListener('focusout', onFocusOut, true);
+  document.addEventListener('invalid', onInvalid, true);
+  document.addEventListener('click', onClick, true);
+  document.addEventListener('keydown', onKeydown, true);
+  document.addEventListener('submit', onSubmit);
+  window.addEventListener('pagehide', () => abandonAll('pagehide'));
+  subscribeToNavigation({ id: 'formAbandon', onNavigate: onNavigation }, logger, testMode);
+
+  logger.log('Form tracker installed');
+}
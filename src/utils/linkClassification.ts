@@ -0,0 +1,121 @@
+/**
+ * Link classification utilities
+ *
+ * Classifies a clicked link as outbound, download, crossSite (between
+ * first-party sites such as portal and Exchange) or internal, using the
+ * lists in linkClassificationConfig.ts.
+ */
+
+import type { LinkClassification } from '../types/index.js';
+import { matchesHostnamePattern } from './url.js';
+import {
+  CLASSIFIED_PROTOCOLS,
+  DOWNLOAD_EXTENSIONS,
+  FIRST_PARTY_DOMAINS,
+  LINK_SITES,
+  MULTI_PART_SUFFIXES,
+  type LinkSiteConfig,
+} from './linkClassificationConfig.js';
+
+/**
+ * Resolves the registrable domain (eTLD+1) of a hostname
+ * @param hostname - Hostname (e.g. "partners.adobe.com")
+ * @returns Registrable domain (e.g. "adobe.com")
+ *
+ * @example
+ * getRegistrableDomain('shop.example.co.uk') // Returns 'example.co.uk'
+ */
+export function getRegistrableDomain(hostname: string): string {
+  const labels = hostname.toLowerCase().replace(/\.$/, '').split('.');
+  const lastTwo = labels.slice(-2).join('.');
+  const take = MULTI_PART_SUFFIXES.includes(lastTwo) ? 3 : 2;
+  return labels.slice(-take).join('.');
+}
+
+/**
+ * Normalizes a URL path: lowercase, no duplicate or trailing slashes
+ * @param pathname - URL pathname
+ * @returns Normalized path ("/" for the root)
+ */
+export function normalizePath(pathname: string): string {
+  const collapsed = pathname.toLowerCase().replace(/\/{2,}/g, '/');
+  return collapsed.length > 1 ? collapsed.replace(/\/$/, '') : '/';
+}
+
+/**
+ * Returns the lowercase file extension of the last path segment, if any
+ */
+function getFileExtension(pathname: string): string {
+  const lastSegment = pathname.split('/').pop() ?? '';
+  const dotIndex = lastSegment.lastIndexOf('.');
+  return dotIndex > 0 ? lastSegment.slice(dotIndex + 1).toLowerCase() : '';
+}
+
+/**
+ * Finds the first-party site a hostname belongs to
+ */
+function findSite(hostname: string, sites: readonly LinkSiteConfig[]): string {
+  const site = sites.find((config) =>
+    config.hosts.some((pattern) => matchesHostnamePattern(hostname, pattern))
+  );
+  return site?.id ?? '';
+}
+
+/**
+ * Classifies a link
+ * @param link - Anchor element that was clicked
+ * @param currentUrl - URL of the current page (defaults to window.location)
+ * @returns Link classification, or null for non-http(s) or unparseable links
+ *
+ * @example
+ * // On partners.adobe.com
+ * classifyLink(anchor('https://exchange.adobe.com/apps/ec/123'))
+ * // Returns { category: 'crossSite', destinationHost: 'exchange.adobe.com',
+ * //           destinationPath: '/apps/ec/123', sourceSite: 'portal', destinationSite: 'exchange' }
+ */
+export function classifyLink(
+  link: HTMLAnchorElement,
+  currentUrl: URL = new URL(window.location.href)
+): LinkClassification | null {
+  let destination: URL;
+  try {
+    destination = new URL(link.href, currentUrl);
+  } catch {
+    return null;
+  }
+
+  if (!CLASSIFIED_PROTOCOLS.includes(destination.protocol)) {
+    return null;
+  }
+
+  const destinationHost = destination.hostname.toLowerCase();
+  const destinationPath = normalizePath(destination.pathname);
+  const extension = getFileExtension(destination.pathname);
+
+  if (link.hasAttribute('download') || DOWNLOAD_EXTENSIONS.includes(extension)) {
+    return {
+      category: 'download',
+      ...(extension && { fileExtension: extension }),
+      destinationHost,
+      destinationPath,
+    };
+  }
+
+  const destinationDomain = getRegistrableDomain(destinationHost);
+  const isFirstParty =
+    destinationDomain === getRegistrableDomain(currentUrl.hostname) ||
+    FIRST_PARTY_DOMAINS.includes(destinationDomain);
+
+  if (!isFirstParty) {
+    return { category: 'outbound', destinationHost, destinationPath };
+  }
+
+  const sourceSite = findSite(currentUrl.hostname.toLowerCase(), LINK_SITES);
+  const destinationSite = findSite(destinationHost, LINK_SITES);
+
+  if (sourceSite && destinationSite && sourceSite !== destinationSite) {
+    return { category: 'crossSite', destinationHost, destinationPath, sourceSite, destinationSite };
+  }
+
+  return { category: 'internal', destinationHost, destinationPath };
+}
@@ -0,0 +1,99 @@
+/**
+ * Shared configuration for link classification
+ *
+ * Centralizes the first-party domains, site host map and download extensions
+ * used by the before-send callback to classify clicked links.
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A first-party site that cross-site navigation is reported for
+ */
+export interface LinkSiteConfig {
+  /** Site identifier sent as sourceSite / destinationSite */
+  id: string;
+  /** Hostname patterns (supports '*.' wildcard prefix) */
+  hosts: readonly string[];
+}
+
+// ============================================================================
+// DOMAINS
+// ============================================================================
+
+/**
+ * Registrable domains treated as first party (never outbound), in addition to
+ * the current page's registrable domain
+ * @constant
+ */
+export const FIRST_PARTY_DOMAINS: readonly string[] = ['adobe.com', 'adobeevents.com'];
+
+/**
+ * Public suffixes with two labels, so "shop.example.co.uk" resolves to
+ * "example.co.uk" rather than "co.uk"
+ * @constant
+ */
+export const MULTI_PART_SUFFIXES: readonly string[] = [
+  'co.uk',
+  'co.jp',
+  'co.kr',
+  'co.in',
+  'co.nz',
+  'com.au',
+  'com.br',
+  'com.cn',
+  'com.mx',
+  'com.sg',
+];
+
+/**
+ * First-party sites. A click from one site to another is classified as
+ * "crossSite" instead of "internal".
+ * @constant
+ */
+export const LINK_SITES: readonly LinkSiteConfig[] = [
+  { id: 'portal', hosts: ['partners.adobe.com', 'solutionpartners.adobe.com'] },
+  { id: 'exchange', hosts: ['exchange.adobe.com'] },
+];
+
+// ============================================================================
+// DOWNLOADS
+// ============================================================================
+
+/**
+ * File extensions (lowercase, no dot) classified as downloads
+ * @constant
+ */
+export const DOWNLOAD_EXTENSIONS: readonly string[] = [
+  'pdf',
+  'zip',
+  'dmg',
+  'exe',
+  'msi',
+  'pkg',
+  'gz',
+  'tgz',
+  'rar',
+  '7z',
+  'doc',
+  'docx',
+  'xls',
+  'xlsx',
+  'ppt',
+  'pptx',
+  'csv',
+  'txt',
+  'mp4',
+  'mov',
+  'mp3',
+  'zxp',
+  'ccx',
+];
+
+/**
+ * Link protocols that are classified (mailto:, tel:, javascript: are ignored)
+ * @constant
+ */
+export const CLASSIFIED_PROTOCOLS: readonly string[] = ['http:', 'https:'];
@@ -0,0 +1,65 @@
+/**
+ * Shared configuration for the site-wide navigation monitor
+ *
+ * Centralizes the navigation types, the change record passed to subscribers
+ * and the event name used by the navigationMonitor utility.
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Kind of navigation
+ * - push: new history entry (pushState / Navigation API push)
+ * - replace: current entry replaced (replaceState / Navigation API replace)
+ * - pop: back/forward (popstate / Navigation API traverse)
+ * - hash: only the fragment changed
+ * - same: history call or navigation that kept the exact URL
+ */
+export type NavigationType = 'push' | 'replace' | 'pop' | 'hash' | 'same';
+
+/**
+ * A navigation, as passed to subscribers and dispatched as NAVIGATION_CHANGE_EVENT
+ */
+export interface NavigationChange {
+  type: NavigationType;
+  oldUrl: string;
+  newUrl: string;
+  /** Where the navigation was detected */
+  source: 'navigationApi' | 'history';
+  timestamp: number;
+}
+
+/**
+ * A navigation subscriber
+ */
+export interface NavigationSubscriber {
+  /** Unique identifier; subscribing again with the same ID replaces the subscriber */
+  id: string;
+  /** Pathname patterns of the new URL the subscriber is notified for (all when omitted) */
+  routes?: readonly RegExp[];
+  /** Called after the navigation is committed */
+  onNavigate: (change: NavigationChange) => void;
+}
+
+/**
+ * Installed monitor, kept in window._adobePartners.navigationMonitor
+ */
+export interface NavigationMonitorState {
+  subscribers: NavigationSubscriber[];
+  /** URL after the last reported navigation */
+  lastUrl: string;
+  /** Removes the listeners, restores the original history methods and drops all subscribers */
+  uninstall: () => void;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Custom event dispatched on window for every navigation (detail: NavigationChange)
+ * @constant
+ */
+export const NAVIGATION_CHANGE_EVENT = 'partnersNavigationChanged';
@@ -0,0 +1,292 @@
+/**
+ * Site-wide navigation monitor
+ *
+ * Installed once per page (by the first subscriber). Detects same-document
+ * navigations through the Navigation API where the browser has it, otherwise
+ * through history.pushState / replaceState hooks plus popstate and hashchange
+ * listeners. Each navigation is classified (push, replace, pop, hash, same),
+ * dispatched as NAVIGATION_CHANGE_EVENT and passed to the subscribers whose
+ * route patterns match the new URL.
+ *
+ * Uninstalling removes the listeners and restores the original history methods.
+ */
+
+import { createLogger, type Logger } from './logger.js';
+import dispatchCustomEvent from './customEvent.js';
+import { getPartnerState, setPartnerState } from './globalState.js';
+import {
+  NAVIGATION_CHANGE_EVENT,
+  type NavigationChange,
+  type NavigationMonitorState,
+  type NavigationSubscriber,
+  type NavigationType,
+} from './navigationConfig.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/** Navigation type before hash / same-URL classification */
+type HistoryNavigationType = Extract<NavigationType, 'push' | 'replace' | 'pop'>;
+
+/**
+ * Subset of the Navigation API used here (not yet in the TypeScript DOM lib)
+ */
+interface NavigationApi extends EventTarget {
+  currentEntry: { url: string | null } | null;
+}
+
+/**
+ * Subset of NavigationCurrentEntryChangeEvent used here
+ */
+interface NavigationEntryChangeEvent extends Event {
+  navigationType: 'push' | 'replace' | 'traverse' | 'reload' | null;
+  from: { url: string | null };
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Navigation API navigation types (reload keeps the URL and is reported as same) */
+const NAVIGATION_API_TYPES: Readonly<Record<string, HistoryNavigationType>> = {
+  push: 'push',
+  replace: 'replace',
+  traverse: 'pop',
+  reload: 'replace',
+};
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Refines a navigation type by comparing the URLs
+ *
+ * @example
+ * classifyNavigation('push', 'https://x.com/a#one', 'https://x.com/a#two') // 'hash'
+ */
+function classifyNavigation(
+  type: HistoryNavigationType,
+  oldUrl: string,
+  newUrl: string
+): NavigationType {
+  if (oldUrl === newUrl) return 'same';
+  if (oldUrl.split('#')[0] === newUrl.split('#')[0]) return 'hash';
+  return type;
+}
+
+/**
+ * Records a navigation and notifies the event listeners and matching subscribers
+ */
+function notify(
+  state: NavigationMonitorState,
+  type: HistoryNavigationType,
+  oldUrl: string,
+  source: NavigationChange['source'],
+  logger: Logger
+): void {
+  const newUrl = window.location.href;
+  const change: NavigationChange = {
+    type: classifyNavigation(type, oldUrl, newUrl),
+    oldUrl,
+    newUrl,
+    source,
+    timestamp: Date.now(),
+  };
+
+  // eslint-disable-next-line no-param-reassign
+  state.lastUrl = newUrl;
+  logger.log(`Navigation (${change.type}) ${oldUrl} → ${newUrl}`);
+  dispatchCustomEvent<NavigationChange>(NAVIGATION_CHANGE_EVENT, change);
+
+  const { pathname } = window.location;
+  state.subscribers.forEach((subscriber) => {
+    if (subscriber.routes && !subscriber.routes.some((route) => route.test(pathname))) {
+      return;
+    }
+
+    try {
+      subscriber.onNavigate(change);
+    } catch (error) {
+      logger.error(`Navigation subscriber "${subscriber.id}" failed:`, error);
+    }
+  });
+}
+
+/**
+ * Listens to the Navigation API
+ * @returns Teardown function
+ */
+function listenToNavigationApi(
+  navigation: NavigationApi,
+  state: NavigationMonitorState,
+  logger: Logger
+): () => void {
+  const onEntryChange = (event: Event): void => {
+    const { navigationType, from } = event as NavigationEntryChangeEvent;
+    const type = NAVIGATION_API_TYPES[navigationType ?? 'push'] ?? 'push';
+    notify(state, type, from?.url ?? state.lastUrl, 'navigationApi', logger);
+  };
+
+  navigation.addEventListener('currententrychange', onEntryChange);
+  return () => navigation.removeEventListener('currententrychange', onEntryChange);
+}
+
+/**
+ * Hooks history.pushState / replaceState and listens to popstate / hashchange
+ * @returns Teardown function
+ */
+function hookHistory(state: NavigationMonitorState, logger: Logger): () => void {
+  const { history } = window;
+  const originalPushState = history.pushState;
+  const originalReplaceState = history.replaceState;
+  let active = true;
+
+  const hook = (
+    original: History['pushState'],
+    type: HistoryNavigationType
+  ): History['pushState'] =>
+    function historyHook(this: History, ...args: Parameters<History['pushState']>): void {
+      const oldUrl = window.location.href;
+      // Errors from the original call reach the caller unchanged
+      original.apply(this, args);
+      if (active) {
+        notify(state, type, oldUrl, 'history', logger);
+      }
+    };
+
+  const pushStateHook = hook(originalPushState, 'push');
+  const replaceStateHook = hook(originalReplaceState, 'replace');
+  history.pushState = pushStateHook;
+  history.replaceState = replaceStateHook;
+
+  const onPopState = (): void => notify(state, 'pop', state.lastUrl, 'history', logger);
+  const onHashChange = (event: Event): void => {
+    // Fragment navigations also fire popstate, which already reported them
+    if (window.location.href === state.lastUrl) return;
+    notify(state, 'pop', (event as HashChangeEvent).oldURL, 'history', logger);
+  };
+
+  window.addEventListener('popstate', onPopState, { passive: true });
+  window.addEventListener('hashchange', onHashChange, { passive: true });
+
+  return () => {
+    active = false;
+    window.removeEventListener('popstate', onPopState);
+    window.removeEventListener('hashchange', onHashChange);
+
+    // Only restore methods nobody has wrapped since; an outer wrapper keeps
+    // calling the (now inactive) hook, which passes straight through
+    if (history.pushState === pushStateHook) {
+      history.pushState = originalPushState;
+    } else {
+      logger.warn('history.pushState was wrapped after the navigation monitor, left in place');
+    }
+    if (history.replaceState === replaceStateHook) {
+      history.replaceState = originalReplaceState;
+    } else {
+      logger.warn('history.replaceState was wrapped after the navigation monitor, left in place');
+    }
+  };
+}
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Installs the navigation monitor once per page
+ *
+ * Navigation logging uses the monitor's own logger, not the subscriber's.
+ *
+ * @param testMode - Enable verbose navigation logging
+ * @returns The installed monitor
+ */
+export function installNavigationMonitor(testMode: boolean = false): NavigationMonitorState {
+  const existing = getPartnerState('navigationMonitor');
+  if (existing) {
+    return existing;
+  }
+
+  const logger = createLogger('Navigation Monitor', testMode);
+
+  const state: NavigationMonitorState = {
+    subscribers: [],
+    lastUrl: window.location.href,
+    uninstall: () => {},
+  };
+
+  const { navigation } = window as Window & { navigation?: NavigationApi };
+  const teardown = navigation
+    ? listenToNavigationApi(navigation, state, logger)
+    : hookHistory(state, logger);
+
+  state.uninstall = () => {
+    teardown();
+    state.subscribers = [];
+    setPartnerState('navigationMonitor', undefined);
+    logger.log('Navigation monitor uninstalled');
+  };
+
+  setPartnerState('navigationMonitor', state);
+  logger.log(`Navigation monitor installed (${navigation ? 'Navigation API' : 'History API'})`);
+  return state;
+}
+
+/**
+ * Subscribes to navigations, installing the monitor if needed
+ *
+ * @param subscriber - Subscriber (replaces an existing one with the same ID)
+ * @param logger - Subscriber's logger instance
+ * @param testMode - Enable verbose navigation logging if this installs the monitor
+ * @returns Unsubscribe function
+ *
+ * @example
+ * subscribeToNavigation(
+ *   { id: 'searchUrl', routes: [/\/search\//], onNavigate: (change) => console.log(change.type) },
+ *   logger,
+ *   testMode
+ * );
+ */
+export function subscribeToNavigation(
+  subscriber: NavigationSubscriber,
+  logger: Logger,
+  testMode: boolean = false
+): () => void {
+  const state = installNavigationMonitor(testMode);
+  state.subscribers = [
+    ...state.subscribers.filter((existing) => existing.id !== subscriber.id),
+    subscriber,
+  ];
+  logger.log(`Navigation subscriber "${subscriber.id}" registered`);
+
+  return () => {
+    state.subscribers = state.subscribers.filter((existing) => existing !== subscriber);
+  };
+}
+
+/**
+ * Whether a subscriber with this ID is registered on the installed monitor
+ */
+export function hasNavigationSubscriber(id: string): boolean {
+  return !!getPartnerState('navigationMonitor')?.subscribers.some(
+    (subscriber) => subscriber.id === id
+  );
+}
+
+/**
+ * Uninstalls the navigation monitor: removes its listeners, restores the
+ * original history methods and drops all subscribers
+ *
+ * @returns true if a monitor was installed
+ */
+export function uninstallNavigationMonitor(): boolean {
+  const state = getPartnerState('navigationMonitor');
+  if (!state) {
+    return false;
+  }
+
+  state.uninstall();
+  return true;
+}
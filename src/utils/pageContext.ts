@@ -0,0 +1,102 @@
+/**
+ * Page context utilities
+ *
+ * Derives site section/subsection, language and page type for the current
+ * page from the rules in pageContextConfig.ts.
+ */
+
+import { matchesHostnamePattern } from './url.js';
+import {
+  HOME_SECTION,
+  LOCALE_PATH_PATTERN,
+  PAGE_TYPE_RULES,
+  SITE_SECTION_RULES,
+  type PageContext,
+  type PageType,
+} from './pageContextConfig.js';
+
+/**
+ * Splits the locale prefix off a path
+ * @param pathname - URL path
+ * @returns Locale (if any) and the remaining path
+ *
+ * @example
+ * splitLocalePath('/de/publisher/cc/123')
+ * // Returns { locale: 'de', path: '/publisher/cc/123' }
+ */
+function splitLocalePath(pathname: string): { locale?: string; path: string } {
+  const match = pathname.match(LOCALE_PATH_PATTERN);
+  if (!match) return { path: pathname };
+  return { locale: match[1], path: pathname.slice(match[0].length) || '/' };
+}
+
+/**
+ * Reads the page language from <html lang>, falling back to the locale prefix
+ */
+function readPageLanguage(locale: string | undefined): string | undefined {
+  const lang = document.documentElement.lang.trim();
+  if (lang) return lang;
+  return locale?.replace('_', '-');
+}
+
+/**
+ * Resolves the site section and subsection of a path (without locale)
+ */
+function resolveSiteSection(path: string): Pick<PageContext, 'siteSection' | 'siteSubsection'> {
+  let subsection: string | undefined;
+  const rule = SITE_SECTION_RULES.find((candidate) => {
+    const match = path.match(candidate.pathPattern);
+    if (match) [, subsection] = match;
+    return match !== null;
+  });
+
+  if (rule) {
+    return {
+      siteSection: rule.section,
+      ...((rule.subsection ?? subsection) && { siteSubsection: rule.subsection ?? subsection }),
+    };
+  }
+
+  // Default: first path segment is the section, second is the subsection
+  const [section, subsectionSegment] = path.split('/').filter(Boolean);
+  return {
+    siteSection: section ?? HOME_SECTION,
+    ...(subsectionSegment && { siteSubsection: subsectionSegment }),
+  };
+}
+
+/**
+ * Classifies the page type
+ */
+function resolvePageType(hostname: string, path: string): PageType {
+  const rule = PAGE_TYPE_RULES.find(
+    ({ hostnames, pathPattern, selector }) =>
+      (!hostnames || hostnames.some((pattern) => matchesHostnamePattern(hostname, pattern))) &&
+      (!pathPattern || pathPattern.test(path)) &&
+      (!selector || document.querySelector(selector) !== null)
+  );
+  return rule?.type ?? 'other';
+}
+
+/**
+ * Resolves the page context of the current page
+ * @param location - Page location (defaults to window.location)
+ * @returns Site section/subsection, language and page type
+ *
+ * @example
+ * // On /de/publisher/cc/2c4c7552-.../picture-instruments with <html lang="de-DE">
+ * resolvePageContext()
+ * // Returns { siteSection: 'publisher', siteSubsection: 'cc', language: 'de-DE', pageType: 'publisher' }
+ */
+export default function resolvePageContext(
+  location: Location | URL = window.location
+): PageContext {
+  const { locale, path } = splitLocalePath(location.pathname);
+  const language = readPageLanguage(locale);
+
+  return {
+    ...resolveSiteSection(path),
+    ...(language && { language }),
+    pageType: resolvePageType(location.hostname, path),
+  };
+}
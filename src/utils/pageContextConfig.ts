@@ -0,0 +1,100 @@
+/**
+ * Shared configuration for page context enrichment
+ *
+ * Centralizes the path rules that map URLs to site sections and page types
+ * and the locale prefix pattern used for the page language. Used by the
+ * pageContext utility (before-send enrichers).
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Page type classification
+ */
+export type PageType = 'search' | 'publisher' | 'event' | 'checkout' | 'home' | 'other';
+
+/**
+ * Page context sent on every event
+ * Matches XDM schema: _adobepartners.pageContext
+ */
+export interface PageContext {
+  siteSection: string;
+  siteSubsection?: string;
+  /** BCP 47 language tag from <html lang> or the locale path prefix */
+  language?: string;
+  pageType: PageType;
+}
+
+/**
+ * Maps a path to a site section; the path is matched without the locale prefix
+ */
+export interface SiteSectionRule {
+  pathPattern: RegExp;
+  section: string;
+  /** Fixed subsection; when omitted, the first capture group is used */
+  subsection?: string;
+}
+
+/**
+ * Classifies a page; all given conditions must match
+ */
+export interface PageTypeRule {
+  type: PageType;
+  /** Hostname patterns (supports '*.' wildcard prefix) */
+  hostnames?: readonly string[];
+  /** Pattern for the path without the locale prefix */
+  pathPattern?: RegExp;
+  /** Selector of an element that identifies the page */
+  selector?: string;
+}
+
+// ============================================================================
+// LANGUAGE
+// ============================================================================
+
+/**
+ * Locale prefix at the start of the path (/de/, /en-gb/, /zh_CN/)
+ * @constant
+ */
+export const LOCALE_PATH_PATTERN = /^\/([a-z]{2}(?:[-_][a-z]{2,4})?)(?=\/|$)/i;
+
+// ============================================================================
+// SITE SECTIONS
+// ============================================================================
+
+/**
+ * Site section rules, first match wins. Paths no rule matches use the first
+ * path segment as the section and the second as the subsection.
+ * @constant
+ */
+export const SITE_SECTION_RULES: readonly SiteSectionRule[] = [
+  { pathPattern: /^\/digitalexperience\/home\/search(?:\/|$)/, section: 'search' },
+  { pathPattern: /^\/digitalexperience\/home\/?$/, section: 'home' },
+  { pathPattern: /^\/digitalexperience\/([^/]+)/, section: 'digitalexperience' },
+  { pathPattern: /^\/publisher\/([^/]+)/, section: 'publisher' },
+  { pathPattern: /^\/checkout(?:\/([^/]+))?/, section: 'checkout' },
+];
+
+/**
+ * Section used for the site root
+ * @constant
+ */
+export const HOME_SECTION = 'home';
+
+// ============================================================================
+// PAGE TYPES
+// ============================================================================
+
+/**
+ * Page type rules, first match wins (unmatched pages are "other")
+ * @constant
+ */
+export const PAGE_TYPE_RULES: readonly PageTypeRule[] = [
+  { type: 'search', pathPattern: /\/search(?:\/|$)/ },
+  { type: 'publisher', pathPattern: /^\/publisher\// },
+  { type: 'event', hostnames: ['*.adobeevents.com'] },
+  { type: 'checkout', pathPattern: /^\/checkout(?:\/|$)/ },
+  { type: 'home', pathPattern: /^\/(?:digitalexperience\/home\/?)?$/ },
+];
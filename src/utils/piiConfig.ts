@@ -0,0 +1,109 @@
+/**
+ * Shared configuration for PII detection and redaction
+ *
+ * Centralizes the detection patterns and the per-path action allowlist used
+ * by the piiScrubber utility (before-send callback).
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Kinds of PII the scrubber detects
+ * (orderNumber is only detected in search terms, see SEARCH_PII_PATTERNS)
+ */
+export type PiiType = 'email' | 'phone' | 'cardNumber' | 'urlToken' | 'orderNumber';
+
+/**
+ * What happens to a detected match
+ * - hash: replaced by `[type:hash]` (stable and joinable, but only pseudonymous:
+ *   the hash is fast and unsalted, so low-entropy values such as emails and
+ *   phone numbers can be recovered by brute force; not for contact data)
+ * - mask: replaced by `[type]`
+ * - drop: the whole field is removed
+ * - keep: left as is (intentionally collected data)
+ */
+export type PiiAction = 'hash' | 'mask' | 'drop' | 'keep';
+
+/**
+ * Action override for XDM paths
+ */
+export interface PiiPathRule {
+  /**
+   * Dot path relative to `xdm`. `*` matches one segment (array indices are
+   * segments), `**` matches any number of segments.
+   */
+  path: string;
+  action: PiiAction;
+  /** PII types the rule applies to (all types when omitted) */
+  types?: readonly PiiType[];
+}
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Detection patterns, applied in this order. Group 1, when a pattern has
+ * it, is kept as is and only the rest of the match is redacted (urlToken:
+ * the parameter name; phone: the preceding character and phone keyword).
+ *
+ * Phone numbers need a leading "+", an area code in parentheses or a phone
+ * keyword, 10-15 digits in total (checked by the scrubber) and must not sit
+ * inside a longer token, so IPs, SKUs, dates and UUID segments are left alone.
+ * No lookbehind: it would break the whole bundle on older Safari.
+ * @constant
+ */
+export const PII_PATTERNS: ReadonlyArray<[PiiType, RegExp]> = [
+  [
+    'urlToken',
+    /([?&#;](?:access_token|id_token|refresh_token|token|auth|code|api_?key|key|password|pwd|session(?:id)?|sid|secret)=)[^&#\s]+/gi,
+  ],
+  ['email', /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi],
+  ['cardNumber', /\b(?:\d[ -]?){12,18}\d\b/g],
+  [
+    'phone',
+    /((?:^|[^\w.+-])(?:(?:phone|tel|mobile|cell|fax)\.?[\s:#-]*)?)(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}(?![\w-])/gi,
+  ],
+];
+
+/**
+ * Digits a phone number match must have, including the country code
+ * @constant
+ */
+export const PHONE_DIGITS_RANGE: readonly [min: number, max: number] = [10, 15];
+
+/**
+ * Length of the hash used by the hash action (pseudonymous, see PiiAction)
+ * @constant
+ */
+export const PII_HASH_LENGTH = 10;
+
+// ============================================================================
+// ACTIONS
+// ============================================================================
+
+/**
+ * Action for matches on paths without a rule
+ * @constant
+ */
+export const DEFAULT_PII_ACTION: PiiAction = 'mask';
+
+/**
+ * Per-path rules, first match wins
+ * @constant
+ */
+export const PII_PATH_RULES: readonly PiiPathRule[] = [
+  // Partner profile email is collected on purpose
+  { path: '_adobepartners.partnerData.email', action: 'keep', types: ['email'] },
+  // Attendee records never send contact data (an email hash could be brute-forced)
+  { path: '_adobepartners.attendeeData.**', action: 'mask', types: ['email'] },
+  { path: '_adobepartners.attendeeData.**', action: 'drop', types: ['phone', 'cardNumber'] },
+  // Event payloads never need contact data (masked, so the event keeps its fields)
+  { path: '_adobepartners.eventData.**', action: 'mask', types: ['phone', 'cardNumber'] },
+  // Page, referrer and link URLs (publisher URLs carry UUIDs) and SKUs are
+  // identifiers; URL tokens and emails in URLs are still redacted
+  { path: 'web.**.URL', action: 'keep', types: ['phone', 'cardNumber'] },
+  { path: 'productListItems.*.SKU', action: 'keep' },
+];
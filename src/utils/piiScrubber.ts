@@ -0,0 +1,224 @@
+/**
+ * PII scrubber
+ *
+ * Detects emails, phone numbers, card-number-like digit runs and URL tokens
+ * in string values and hashes, masks or drops them according to the
+ * per-path rules in piiConfig.ts. Used on the final `content.xdm` in the
+ * before-send callback.
+ */
+
+import rollingHash from './hash.js';
+import {
+  DEFAULT_PII_ACTION,
+  PHONE_DIGITS_RANGE,
+  PII_HASH_LENGTH,
+  PII_PATH_RULES,
+  PII_PATTERNS,
+  type PiiAction,
+  type PiiPathRule,
+  type PiiType,
+} from './piiConfig.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A single redaction, as listed in the test mode report
+ */
+export interface PiiRedaction {
+  path: string;
+  type: PiiType;
+  action: PiiAction;
+}
+
+/**
+ * Result of redacting one string
+ */
+export interface PiiRedactionResult {
+  text: string;
+  /** Types and actions applied, one entry per match */
+  redactions: Array<{ type: PiiType; action: PiiAction }>;
+  /** true when a match resolved to "drop" — the caller removes the value */
+  drop: boolean;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Luhn checksum — filters digit runs (IDs, timestamps) that are not card numbers
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let idx = 0; idx < digits.length; idx += 1) {
+    let digit = Number(digits[digits.length - 1 - idx]);
+    if (idx % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Phone check for a match (group 1 excluded): a leading "+", an area code in
+ * parentheses or a phone keyword, and 10-15 digits
+ */
+function isPhoneNumber(number: string, prefix: string): boolean {
+  const [min, max] = PHONE_DIGITS_RANGE;
+  const digits = number.replace(/\D/g, '').length;
+  const hasMarker = /^\+|\(/.test(number) || /[a-z]/i.test(prefix);
+  return hasMarker && digits >= min && digits <= max;
+}
+
+/**
+ * Replacement text for a match
+ */
+function replacementFor(type: PiiType, value: string, action: PiiAction): string {
+  return action === 'hash' ? `[${type}:${rollingHash(value, PII_HASH_LENGTH)}]` : `[${type}]`;
+}
+
+/** Compiled rule paths, keyed by pattern */
+const pathPatternCache = new Map<string, RegExp>();
+
+/**
+ * Compiles a rule path ("a.*.b", "a.**") into a regular expression
+ */
+function compilePathPattern(pattern: string): RegExp {
+  let compiled = pathPatternCache.get(pattern);
+  if (!compiled) {
+    const source = pattern
+      .split('.')
+      .map((segment) => {
+        if (segment === '**') return '.*';
+        if (segment === '*') return '[^.]+';
+        return segment.replace(/[$()*+?[\\\]^{|}]/g, '\\$&');
+      })
+      .join('\\.');
+    compiled = new RegExp(`^${source}$`);
+    pathPatternCache.set(pattern, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Resolves the action for a PII type at a path (first matching rule wins)
+ */
+function resolveAction(path: string, type: PiiType, rules: readonly PiiPathRule[]): PiiAction {
+  const rule = rules.find(
+    (candidate) =>
+      (!candidate.types || candidate.types.includes(type)) &&
+      compilePathPattern(candidate.path).test(path)
+  );
+  return rule?.action ?? DEFAULT_PII_ACTION;
+}
+
+// ============================================================================
+// REDACTION
+// ============================================================================
+
+/**
+ * Detects and redacts PII in a string
+ * @param text - Text to scan
+ * @param getAction - Action for each detected type
+ * @param patterns - Detection patterns (defaults to PII_PATTERNS)
+ * @returns Redacted text, the redactions applied and whether to drop the value
+ *
+ * @example
+ * redactPii('Contact jane@example.com', () => 'mask')
+ * // Returns { text: 'Contact [email]', redactions: [{ type: 'email', action: 'mask' }], drop: false }
+ */
+export function redactPii(
+  text: string,
+  getAction: (type: PiiType) => PiiAction,
+  patterns: ReadonlyArray<[PiiType, RegExp]> = PII_PATTERNS
+): PiiRedactionResult {
+  const result: PiiRedactionResult = { text, redactions: [], drop: false };
+
+  patterns.forEach(([type, pattern]) => {
+    result.text = result.text.replace(pattern, (match: string, group?: unknown) => {
+      const prefix = typeof group === 'string' ? group : '';
+      const value = match.slice(prefix.length);
+
+      if (type === 'cardNumber' && !passesLuhn(value.replace(/\D/g, ''))) {
+        return match;
+      }
+      if (type === 'phone' && !isPhoneNumber(value, prefix)) {
+        return match;
+      }
+
+      const action = getAction(type);
+      if (action === 'keep') return match;
+
+      result.redactions.push({ type, action });
+      if (action === 'drop') result.drop = true;
+
+      // Capture group 1 (parameter name, phone keyword) is kept
+      return `${prefix}${replacementFor(type, value, action)}`;
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Walks an object tree in place and redacts PII in every string value
+ * @param root - Object to scrub (e.g. content.xdm)
+ * @param rules - Per-path rules (defaults to PII_PATH_RULES)
+ * @returns Redaction report (one entry per match)
+ *
+ * @example
+ * const report = scrubPii(content.xdm);
+ * // [{ path: 'web.webPageDetails.name', type: 'email', action: 'mask' }]
+ */
+export function scrubPii(
+  root: Record<string, unknown>,
+  rules: readonly PiiPathRule[] = PII_PATH_RULES
+): PiiRedaction[] {
+  const report: PiiRedaction[] = [];
+  const visited = new WeakSet<object>();
+
+  const visit = (container: Record<string, unknown> | unknown[], parentPath: string): void => {
+    if (visited.has(container)) return;
+    visited.add(container);
+
+    const entries = container as Record<string | number, unknown>;
+    const keys = Array.isArray(container)
+      ? container.map((_item, index) => index)
+      : Object.keys(container);
+    const dropped: Array<string | number> = [];
+
+    keys.forEach((key) => {
+      const value = entries[key];
+      const path = parentPath ? `${parentPath}.${key}` : String(key);
+
+      if (typeof value === 'string') {
+        const result = redactPii(value, (type) => resolveAction(path, type, rules));
+        result.redactions.forEach(({ type, action }) => report.push({ path, type, action }));
+
+        if (result.drop) {
+          dropped.push(key);
+        } else if (result.text !== value) {
+          entries[key] = result.text;
+        }
+      } else if (value && typeof value === 'object') {
+        visit(value as Record<string, unknown> | unknown[], path);
+      }
+    });
+
+    // Remove dropped values after iterating (array indices shift on splice)
+    dropped.reverse().forEach((key) => {
+      if (Array.isArray(container)) {
+        container.splice(key as number, 1);
+      } else {
+        delete entries[key];
+      }
+    });
+  };
+
+  visit(root, '');
+  return report;
+}
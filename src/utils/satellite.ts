@@ -6,6 +6,9 @@
  * across scripts.
  */
 
+import { XDM_EVENT_FIELDS_CLEAR_DELAY_MS, XDM_VARIABLE_NAME } from './constants.js';
+import { ensureNestedPath } from './object.js';
+
 /**
  * Minimal logger interface compatible with both Logger class and console
  */
@@ -99,6 +102,113 @@ export function setSatelliteVars(
   return true;
 }
 
+/**
+ * Safely writes a value into the XDM Variable at the given path
+ * (relative to the XDM Variable root, e.g. ['_adobepartners', 'cardImpressions'])
+ *
+ * @param path - Path segments below the XDM Variable root
+ * @param value - Value to set
+ * @param logger - Logger instance
+ * @param testMode - Whether in test mode
+ * @returns true if the value was written
+ */
+export function setXdmVariableValue(
+  path: string[],
+  value: unknown,
+  logger: SatelliteLogger,
+  testMode: boolean
+): boolean {
+  const lastKey = path[path.length - 1];
+  if (!lastKey) {
+    logger.warn('Empty XDM Variable path');
+    return false;
+  }
+
+  const xdmVar = getSatelliteVar(XDM_VARIABLE_NAME, logger, testMode);
+  if (!xdmVar) {
+    return false;
+  }
+
+  const parent = ensureNestedPath(xdmVar, path.slice(0, -1));
+  parent[lastKey] = value;
+  logger.log(`Set XDM Variable ${path.join('.')}`, value);
+  return true;
+}
+
+/**
+ * A value below the XDM Variable root: [path segments, value]
+ */
+export type XdmVariableField = [path: string[], value: unknown];
+
+/**
+ * Safely writes several values into the XDM Variable at once. The variable
+ * is read once, so either all values are written or none are.
+ *
+ * @param fields - Path / value pairs below the XDM Variable root
+ * @param logger - Logger instance
+ * @param testMode - Whether in test mode
+ * @returns true if the values were written
+ */
+export function setXdmVariableValues(
+  fields: readonly XdmVariableField[],
+  logger: SatelliteLogger,
+  testMode: boolean
+): boolean {
+  if (fields.some(([path]) => path.length === 0)) {
+    logger.warn('Empty XDM Variable path');
+    return false;
+  }
+
+  const xdmVar = getSatelliteVar(XDM_VARIABLE_NAME, logger, testMode);
+  if (!xdmVar) {
+    return false;
+  }
+
+  fields.forEach(([path, value]) => {
+    const parent = ensureNestedPath(xdmVar, path.slice(0, -1));
+    parent[path[path.length - 1]] = value;
+  });
+  logger.log(`Set XDM Variable ${fields.map(([path]) => path.join('.')).join(', ')}`);
+  return true;
+}
+
+/**
+ * Removes values from the XDM Variable. A value is only removed while the
+ * variable still holds it, so a newer write to the same path is kept.
+ *
+ * @param fields - Path / value pairs previously written
+ * @param logger - Logger instance
+ * @param testMode - Whether in test mode
+ */
+export function clearXdmVariableValues(
+  fields: readonly XdmVariableField[],
+  logger: SatelliteLogger,
+  testMode: boolean
+): void {
+  const xdmVar = getSatelliteVar(XDM_VARIABLE_NAME, logger, testMode);
+  if (!xdmVar) {
+    return;
+  }
+
+  fields.forEach(([path, value]) => {
+    const parent = path
+      .slice(0, -1)
+      .reduce<unknown>(
+        (node, key) =>
+          node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined,
+        xdmVar
+      );
+    const lastKey = path[path.length - 1];
+    if (parent && typeof parent === 'object' && lastKey !== undefined) {
+      const record = parent as Record<string, unknown>;
+      if (record[lastKey] === value) {
+        delete record[lastKey];
+      }
+    }
+  });
+  logger.log(`Cleared XDM Variable ${fields.map(([path]) => path.join('.')).join(', ')}`);
+}
+
 /**
  * Safely triggers a Launch direct call rule via _satellite.track()
  *
@@ -124,3 +234,33 @@ export function fireSatelliteEvent(
   logger.warn(message);
   return false;
 }
+
+/**
+ * Sends an event through the XDM Variable: writes its event-scoped fields,
+ * triggers the direct call and removes the fields again after
+ * XDM_EVENT_FIELDS_CLEAR_DELAY_MS, so later events using the variable do
+ * not carry them.
+ *
+ * @param eventName - Direct call event name
+ * @param fields - Event-scoped path / value pairs below the XDM Variable root
+ * @param logger - Logger instance
+ * @param testMode - Whether in test mode
+ * @returns true if the fields were written and the direct call triggered
+ */
+export function fireXdmVariableEvent(
+  eventName: string,
+  fields: readonly XdmVariableField[],
+  logger: SatelliteLogger,
+  testMode: boolean
+): boolean {
+  if (!setXdmVariableValues(fields, logger, testMode)) {
+    return false;
+  }
+
+  const fired = fireSatelliteEvent(eventName, logger, testMode);
+  setTimeout(
+    () => clearXdmVariableValues(fields, logger, testMode),
+    XDM_EVENT_FIELDS_CLEAR_DELAY_MS
+  );
+  return fired;
+}
@@ -0,0 +1,101 @@
+/**
+ * Shared configuration for search autocomplete / typeahead tracking
+ *
+ * Centralizes the search input and suggestion selectors, the context kept
+ * between the search box and the next search payload, and the limits used
+ * by the searchAutocompleteMonitor script and the searchAutocompleteTracker
+ * utility.
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * How the search term was entered
+ * - typed: submitted as typed
+ * - suggestion: picked from the suggestion list
+ * - recent: picked from the recent searches shown in the list
+ */
+export type SearchMethod = 'typed' | 'suggestion' | 'recent';
+
+/**
+ * A search box with a suggestion list (all selectors are matched through
+ * open shadow roots)
+ */
+export interface SearchAutocompleteSelectors {
+  /** Identifier for logging */
+  id: string;
+  /** Search input */
+  input: string;
+  /** Suggestion items, in display order */
+  suggestion: string;
+  /** Suggestion items that are recent searches (subset of `suggestion`) */
+  recentSuggestion?: string;
+  /** Suggestion highlighted by keyboard navigation */
+  activeSuggestion: string;
+}
+
+/**
+ * Autocomplete context attached to the next search payload
+ * Matches XDM schema: _adobepartners.searchResults.searchAutocomplete
+ */
+export interface SearchAutocompleteData {
+  searchMethod: SearchMethod;
+  /** What the user had typed when the search was submitted or a suggestion picked */
+  typedPrefix: string;
+  /** Suggestions displayed at that moment */
+  suggestionsShown: number;
+  /** Text of the chosen suggestion */
+  selectedSuggestion?: string;
+  /** 1-based position of the chosen suggestion */
+  selectedPosition?: number;
+}
+
+/**
+ * Autocomplete context waiting in sessionStorage for its search payload
+ */
+export interface PendingSearchAutocomplete {
+  data: SearchAutocompleteData;
+  /** Term the search box submitted (matched against the payload term) */
+  term: string;
+  /** When the search was submitted (epoch ms) */
+  capturedAt: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Search boxes watched for autocomplete, first match wins
+ * @constant
+ */
+export const SEARCH_AUTOCOMPLETE_SELECTORS: readonly SearchAutocompleteSelectors[] = [
+  {
+    id: 'combobox',
+    input: 'input[role="combobox"], input[type="search"]',
+    suggestion: '[role="listbox"] [role="option"]',
+    recentSuggestion: '[data-suggestion-type="recent"], .recent-search',
+    activeSuggestion: '[role="option"][aria-selected="true"]',
+  },
+];
+
+/**
+ * sessionStorage key holding the pending autocomplete context (the search box
+ * may navigate to the search page with a full page load)
+ * @constant
+ */
+export const SEARCH_AUTOCOMPLETE_STORAGE_KEY = '__aep_search_autocomplete';
+
+/**
+ * Context older than this when the search is committed is discarded
+ * @constant
+ */
+export const SEARCH_AUTOCOMPLETE_MAX_AGE_MS = 60 * 1000;
+
+/**
+ * Maximum length of the recorded typed prefix and suggestion text
+ * @constant
+ */
+export const MAX_AUTOCOMPLETE_TEXT_LENGTH = 100;
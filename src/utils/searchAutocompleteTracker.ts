@@ -0,0 +1,204 @@
+/**
+ * Search autocomplete tracker utility
+ *
+ * Watches the configured search boxes (see searchAutocompleteConfig.ts)
+ * through document-level capture listeners, shadow roots included. When a
+ * search is submitted (Enter) or a suggestion is picked (click or Enter on the
+ * highlighted option), the typed prefix, suggestions shown and chosen
+ * suggestion are kept in sessionStorage until the search tracking flow
+ * attaches them to the next search payload.
+ */
+
+import type { Logger } from './logger.js';
+import { isValidUserEvent } from './events.js';
+import { findInComposedPath, getTextContent, querySelectorAllDeep } from './dom.js';
+import { getStorageItem, removeStorageItem, setStorageItem } from './storage.js';
+import {
+  MAX_AUTOCOMPLETE_TEXT_LENGTH,
+  SEARCH_AUTOCOMPLETE_MAX_AGE_MS,
+  SEARCH_AUTOCOMPLETE_SELECTORS,
+  SEARCH_AUTOCOMPLETE_STORAGE_KEY,
+  type PendingSearchAutocomplete,
+  type SearchAutocompleteData,
+  type SearchAutocompleteSelectors,
+} from './searchAutocompleteConfig.js';
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Trims, collapses whitespace and caps recorded text
+ */
+function clipText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().slice(0, MAX_AUTOCOMPLETE_TEXT_LENGTH);
+}
+
+/**
+ * Normalizes a term for comparing the search box with the search payload
+ */
+function normalizeTerm(term: string): string {
+  return term.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Returns the displayed suggestions of a search box, in order
+ */
+function getShownSuggestions(selectors: SearchAutocompleteSelectors): Element[] {
+  return querySelectorAllDeep(document, selectors.suggestion).filter(
+    (element) => element.getClientRects().length > 0
+  );
+}
+
+/**
+ * Finds the first configured element matching an event's composed path
+ */
+function findConfigured(
+  event: Event,
+  selectors: readonly SearchAutocompleteSelectors[],
+  pick: (config: SearchAutocompleteSelectors) => string
+): { config: SearchAutocompleteSelectors; element: Element } | null {
+  let found: { config: SearchAutocompleteSelectors; element: Element } | null = null;
+
+  selectors.some((config) => {
+    const element = findInComposedPath(event, (candidate) => candidate.matches(pick(config)));
+    if (element) {
+      found = { config, element };
+    }
+    return !!element;
+  });
+
+  return found;
+}
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Installs the autocomplete listeners for the configured search boxes.
+ *
+ * @param logger - Logger instance
+ * @param selectors - Search boxes to watch (defaults to SEARCH_AUTOCOMPLETE_SELECTORS)
+ */
+export function installSearchAutocompleteTracker(
+  logger: Logger,
+  selectors: readonly SearchAutocompleteSelectors[] = SEARCH_AUTOCOMPLETE_SELECTORS
+): void {
+  // Value of the search box at the last trusted keystroke
+  let typedPrefix = '';
+
+  const save = (data: SearchAutocompleteData, term: string): void => {
+    const pending: PendingSearchAutocomplete = { data, term, capturedAt: Date.now() };
+    setStorageItem(SEARCH_AUTOCOMPLETE_STORAGE_KEY, pending, 'sessionStorage');
+    logger.log(`Search autocomplete captured (${data.searchMethod})`, pending);
+  };
+
+  const saveSuggestion = (config: SearchAutocompleteSelectors, suggestion: Element): void => {
+    const shown = getShownSuggestions(config);
+    const text = clipText(getTextContent(suggestion));
+    const isRecent = !!config.recentSuggestion && !!suggestion.closest(config.recentSuggestion);
+
+    save(
+      {
+        searchMethod: isRecent ? 'recent' : 'suggestion',
+        typedPrefix,
+        suggestionsShown: shown.length,
+        selectedSuggestion: text,
+        selectedPosition: shown.indexOf(suggestion) + 1,
+      },
+      text
+    );
+  };
+
+  const handleInput = (event: Event): void => {
+    if (!isValidUserEvent(event)) return;
+
+    const match = findConfigured(event, selectors, (config) => config.input);
+    if (match && match.element instanceof HTMLInputElement) {
+      typedPrefix = clipText(match.element.value);
+    }
+  };
+
+  const handleClick = (event: Event): void => {
+    if (!isValidUserEvent(event)) return;
+
+    const match = findConfigured(event, selectors, (config) => config.suggestion);
+    if (match) {
+      saveSuggestion(match.config, match.element);
+    }
+  };
+
+  const handleKeydown = (event: Event): void => {
+    if (!isValidUserEvent(event) || (event as KeyboardEvent).key !== 'Enter') return;
+
+    const match = findConfigured(event, selectors, (config) => config.input);
+    if (!match || !(match.element instanceof HTMLInputElement)) return;
+
+    const [active] = querySelectorAllDeep(document, match.config.activeSuggestion);
+    if (active) {
+      saveSuggestion(match.config, active);
+      return;
+    }
+
+    const term = clipText(match.element.value);
+    if (!term) return;
+
+    save(
+      {
+        searchMethod: 'typed',
+        typedPrefix: term,
+        suggestionsShown: getShownSuggestions(match.config).length,
+      },
+      term
+    );
+  };
+
+  const options = { capture: true, passive: true };
+  document.addEventListener('input', handleInput, options);
+  document.addEventListener('click', handleClick, options);
+  document.addEventListener('keydown', handleKeydown, options);
+
+  logger.log(`Search autocomplete listeners installed (${selectors.length} search box configs)`);
+}
+
+/**
+ * Takes the pending autocomplete context for a search. The context is removed
+ * either way; it is only returned when it is recent and was captured for the
+ * same term.
+ *
+ * @param term - Term of the search payload
+ * @param logger - Logger instance
+ * @returns Autocomplete data, or null
+ *
+ * @example
+ * takeSearchAutocomplete('photoshop', logger)
+ * // Returns { searchMethod: 'suggestion', typedPrefix: 'phot', suggestionsShown: 6,
+ * //   selectedSuggestion: 'Photoshop', selectedPosition: 2 }
+ */
+export function takeSearchAutocomplete(
+  term: string,
+  logger: Logger
+): SearchAutocompleteData | null {
+  const pending = getStorageItem<PendingSearchAutocomplete>(
+    SEARCH_AUTOCOMPLETE_STORAGE_KEY,
+    'sessionStorage'
+  );
+  if (!pending) {
+    return null;
+  }
+
+  removeStorageItem(SEARCH_AUTOCOMPLETE_STORAGE_KEY, 'sessionStorage');
+
+  if (Date.now() - pending.capturedAt > SEARCH_AUTOCOMPLETE_MAX_AGE_MS) {
+    logger.log('Discarded stale search autocomplete context');
+    return null;
+  }
+
+  if (normalizeTerm(pending.term) !== normalizeTerm(term)) {
+    logger.log(`Discarded search autocomplete context for another term ("${pending.term}")`);
+    return null;
+  }
+
+  return pending.data;
+}
@@ -0,0 +1,92 @@
+/**
+ * Shared configuration for search click-through attribution
+ *
+ * Centralizes the committed search record, the click-through payload, the
+ * attribution window and event names used by the searchClickMonitor script
+ * and the searchClickTracker utility.
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Last search that fired searchCommit, kept for click attribution
+ */
+export interface CommittedSearch {
+  term: string;
+  filters: Record<string, string[]>;
+  /** ID of the search surface */
+  surface: string;
+  /** Source label of the search surface */
+  surfaceLabel: string;
+  /** Deduplication key of the search (see generateSearchKey) */
+  searchKey: string;
+  /** When searchCommit fired (epoch ms) */
+  committedAt: number;
+}
+
+/**
+ * How the clicked result was recognized
+ * - card: registered component (see componentExtractorConfig.ts)
+ * - link: plain result item matched by the surface's resultItemSelector
+ */
+export type SearchResultType = 'card' | 'link';
+
+/**
+ * Click-through written to xdm._adobepartners.searchClickThrough
+ */
+export interface SearchClickThroughData {
+  searchTerm: string;
+  /** Source label of the search surface */
+  searchSurface: string;
+  searchKey: string;
+  /** 1-based position of the result */
+  resultPosition: number;
+  /** Content ID of the result (its link path when the item has no ID) */
+  resultContentID: string;
+  resultType: SearchResultType;
+  /** Link target of the clicked result, when it is a link */
+  resultUrl?: string;
+  /** Time from searchCommit to the click, in milliseconds */
+  timeSinceSearchMs: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Direct call event name fired for each result click
+ * @constant
+ */
+export const SEARCH_CLICK_COMMIT_EVENT = 'searchClickThrough';
+
+/**
+ * XDM Variable path the click-through is written to
+ * @constant
+ */
+export const SEARCH_CLICK_XDM_PATH = ['_adobepartners', 'searchClickThrough'];
+
+/**
+ * Clicks later than this after the search are not attributed to it
+ * @constant
+ */
+export const SEARCH_CLICK_MAX_AGE_MS = 30 * 60 * 1000;
+
+/**
+ * Repeated clicks on the same result of the same search are not sent again
+ * until this long has passed without one (double-clicks, impatient clicks)
+ * @constant
+ */
+export const SEARCH_CLICK_REPEAT_WINDOW_MS = 2000;
+
+/**
+ * Attributes read (in order) for the content ID of a plain result item
+ * @constant
+ */
+export const RESULT_CONTENT_ID_ATTRIBUTES = [
+  'data-content-id',
+  'data-id',
+  'data-session-id',
+] as const;
@@ -0,0 +1,178 @@
+/**
+ * Search click-through tracker utility
+ *
+ * Attributes trusted clicks on search results to the last committed search
+ * (see searchTracker.ts). Results are recognized as registered components
+ * (e.g. <single-partner-card> inside shadow DOM, via the component registry)
+ * or as plain items matching the search surface's resultItemSelector. Each
+ * click is written to the XDM Variable and sent via a direct call; repeated
+ * clicks on the same result within SEARCH_CLICK_REPEAT_WINDOW_MS are not.
+ */
+
+import type { Logger } from './logger.js';
+import { isValidUserEvent } from './events.js';
+import { findInComposedPath, getAttribute, querySelectorAllDeep } from './dom.js';
+import { extractComponentCtxFromEvent } from './componentExtractor.js';
+import { fireXdmVariableEvent } from './satellite.js';
+import { getPartnerState, setPartnerState } from './globalState.js';
+import { resolveSearchSurface } from './siteProfile.js';
+import type { SearchSurface } from './searchConfig.js';
+import {
+  RESULT_CONTENT_ID_ATTRIBUTES,
+  SEARCH_CLICK_COMMIT_EVENT,
+  SEARCH_CLICK_MAX_AGE_MS,
+  SEARCH_CLICK_REPEAT_WINDOW_MS,
+  SEARCH_CLICK_XDM_PATH,
+  type SearchClickThroughData,
+} from './searchClickConfig.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Result fields of a click-through
+ */
+type ClickedResult = Pick<
+  SearchClickThroughData,
+  'resultPosition' | 'resultContentID' | 'resultType' | 'resultUrl'
+>;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Resolves the clicked result from the event's composed path
+ * @returns Result fields, or null when the click was not on a result
+ */
+function findClickedResult(
+  event: Event,
+  surface: SearchSurface,
+  logger: Logger
+): ClickedResult | null {
+  const link = findInComposedPath(
+    event,
+    (element) => element instanceof HTMLAnchorElement && !!element.href
+  ) as HTMLAnchorElement | null;
+
+  // Plain results: an item matching the surface's selector (also the position
+  // fallback for cards without one)
+  const { resultItemSelector } = surface;
+  const item = resultItemSelector
+    ? findInComposedPath(event, (element) => element.matches(resultItemSelector))
+    : null;
+  const itemPosition =
+    item && resultItemSelector
+      ? querySelectorAllDeep(document, resultItemSelector).indexOf(item) + 1
+      : 0;
+
+  // Registered components (cards) carry position and content ID in their markup
+  const ctx = extractComponentCtxFromEvent(event, logger);
+  if (ctx) {
+    const position = Number.parseInt(ctx.position, 10) || itemPosition;
+    if (position < 1) {
+      logger.log(`Search result card "${ctx.cardTitle}" has no position, click not attributed`);
+      return null;
+    }
+
+    return {
+      resultPosition: position,
+      resultContentID: ctx.contentID || ctx.cardTitle,
+      resultType: 'card',
+      ...(link && { resultUrl: link.href }),
+    };
+  }
+
+  if (!item || !link || itemPosition < 1) {
+    return null;
+  }
+
+  let contentID = '';
+  RESULT_CONTENT_ID_ATTRIBUTES.some((attribute) => {
+    contentID = getAttribute(item, attribute).trim();
+    return contentID !== '';
+  });
+
+  return {
+    resultPosition: itemPosition,
+    resultContentID: contentID || new URL(link.href).pathname,
+    resultType: 'link',
+    resultUrl: link.href,
+  };
+}
+
+/**
+ * Whether the click repeats the last click-through (same search and result)
+ * within SEARCH_CLICK_REPEAT_WINDOW_MS of the last click on it. Every click
+ * on the result extends the window.
+ */
+function isRepeatedClick(searchKey: string, position: number, now: number): boolean {
+  const last = getPartnerState('searchClickThrough');
+  const lastClickAt = getPartnerState('searchClickThroughAt') ?? 0;
+  const isSameResult = last?.searchKey === searchKey && last.resultPosition === position;
+
+  setPartnerState('searchClickThroughAt', now);
+  return isSameResult && now - lastClickAt <= SEARCH_CLICK_REPEAT_WINDOW_MS;
+}
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Installs the document-level click listener for search click-throughs.
+ *
+ * Clicks are only attributed while the page is still the committed search's
+ * surface and within SEARCH_CLICK_MAX_AGE_MS of the search.
+ *
+ * @param logger - Logger instance
+ * @param testMode - Whether in test mode
+ */
+export default function installSearchClickTracker(logger: Logger, testMode: boolean): void {
+  const handleClick = (event: Event): void => {
+    if (!isValidUserEvent(event)) return;
+
+    const search = getPartnerState('lastSearchCommit');
+    if (!search) return;
+
+    const timeSinceSearchMs = Date.now() - search.committedAt;
+    if (timeSinceSearchMs > SEARCH_CLICK_MAX_AGE_MS) return;
+
+    const surface = resolveSearchSurface();
+    if (!surface || surface.id !== search.surface) return;
+
+    const result = findClickedResult(event, surface, logger);
+    if (!result) return;
+
+    if (isRepeatedClick(search.searchKey, result.resultPosition, Date.now())) {
+      logger.log(`Repeated click on result ${result.resultPosition}, not sent`);
+      return;
+    }
+
+    const clickThrough: SearchClickThroughData = {
+      searchTerm: search.term,
+      searchSurface: search.surfaceLabel,
+      searchKey: search.searchKey,
+      ...result,
+      timeSinceSearchMs,
+    };
+
+    // Event-scoped: removed from the XDM Variable once the rule has read it
+    setPartnerState('searchClickThrough', clickThrough);
+    fireXdmVariableEvent(
+      SEARCH_CLICK_COMMIT_EVENT,
+      [[SEARCH_CLICK_XDM_PATH, clickThrough]],
+      logger,
+      testMode
+    );
+    logger.log(
+      `Search click-through: "${search.term}" position ${result.resultPosition}`,
+      clickThrough
+    );
+  };
+
+  // Capture phase: results may stop propagation or navigate away
+  document.addEventListener('click', handleClick, { capture: true, passive: true });
+  logger.log('Search click-through listener installed');
+}
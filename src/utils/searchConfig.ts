@@ -5,36 +5,34 @@
  * to ensure consistency across all search tracking implementations.
  */
 
+import { PII_PATTERNS, type PiiAction, type PiiType } from './piiConfig.js';
+import type { SearchRefinement } from './searchSessionConfig.js';
+import type { SearchAutocompleteData } from './searchAutocompleteConfig.js';
+
 // ============================================================================
 // URL MONITORING CONSTANTS
 // ============================================================================
 
 /**
- * Custom event name dispatched when the URL changes (via History API hooks)
+ * Custom event name dispatched when a navigation lands on a search surface (searchUrlMonitor)
  * @constant
  */
 export const URL_CHANGE_EVENT = 'partnersSearchUrlChanged';
 
-/**
- * URL pattern required for search URL monitor initialization
- * Only pages matching this pattern will have History API hooks installed
- * @constant
- */
-export const URL_PATTERN = /.*\/digitalexperience\/home\/search\/.*/;
-
 // ============================================================================
 // SEARCH PARAMETER CONSTANTS
 // ============================================================================
 
 /**
- * URL parameter names that contain the search term (checked in priority order)
+ * Default URL parameter names that contain the search term (checked in priority order)
  * @constant
  */
 export const TERM_PARAMS = ['term', 'q', 'keyword'] as const;
 
 /**
- * URL parameters to ignore during filter extraction
+ * Default URL parameters to ignore during filter extraction
  * These are typically tracking/analytics parameters that shouldn't be treated as search filters
+ * (`filters` is decoded separately on surfaces with a compoundFilterParam)
  * @constant
  */
 export const IGNORED_PARAMS = ['utm_source', 'utm_medium', 'utm_campaign', 'filters'] as const;
@@ -64,6 +62,18 @@ export const MAX_TERM_LENGTH = 500;
  */
 export const MAX_FILTER_PARAMS = 50;
 
+/**
+ * Maximum length of a compound filter parameter; longer values are skipped
+ * @constant
+ */
+export const MAX_COMPOUND_FILTER_LENGTH = 4000;
+
+/**
+ * Maximum number of tags read from a compound filter parameter
+ * @constant
+ */
+export const MAX_COMPOUND_FILTER_TAGS = 100;
+
 /**
  * Maximum length for individual filter values
  * @constant
@@ -88,26 +98,241 @@ export const SEARCH_SOURCES = {
 export type SearchSource = (typeof SEARCH_SOURCES)[keyof typeof SEARCH_SOURCES];
 
 /**
- * Mapping from URL parameter names to XDM searchFilters field names
- * Only filters matching these keys will be mapped to XDM (unknown params are dropped)
+ * Mapping from partner directory URL parameter names (and compound filter
+ * facets) to XDM searchFilters field names
+ * Params without a mapping are sent separately as unmappedFilters
  * @constant
  */
 export const FILTER_TO_XDM_MAP: Record<string, string> = {
   'content-type': 'searchContentType',
   functionality: 'searchFunctionality',
   industries: 'searchIndustries',
+  industry: 'searchIndustries',
   products: 'searchProducts',
   solutions: 'searchSolutions',
   topic: 'searchTopic',
 } as const;
 
+// ============================================================================
+// PII REDACTION
+// ============================================================================
+
+/**
+ * Patterns detected in search terms and filter values: the shared PII
+ * patterns plus order numbers. An order number needs an order / PO prefix
+ * ("order 000012345", "PO# 45001234"), which is kept (group 1); bare digit
+ * runs such as dates and partner IDs are left alone.
+ * @constant
+ */
+export const SEARCH_PII_PATTERNS: ReadonlyArray<[PiiType, RegExp]> = [
+  ...PII_PATTERNS,
+  ['orderNumber', /\b((?:order|ord|po)\.?\s*(?:number|no\.?|#)?[\s#:-]*)\d{8,}\b/gi],
+];
+
+/**
+ * Action per detected type in search terms and filter values: mask gives a
+ * typed placeholder ("[email]"), hash a joinable but only pseudonymous one
+ * ("[email:1a2b...]", recoverable by brute force for low-entropy values).
+ * Terms are always kept, so "drop" is not available here.
+ * @constant
+ */
+export const SEARCH_PII_ACTIONS: Readonly<Record<PiiType, Exclude<PiiAction, 'drop'>>> = {
+  email: 'mask',
+  phone: 'mask',
+  cardNumber: 'mask',
+  urlToken: 'mask',
+  orderNumber: 'mask',
+};
+
+// ============================================================================
+// RESULT COUNT CONSTANTS
+// ============================================================================
+
+/**
+ * Maximum time to wait for the results region before firing without a count
+ * @constant
+ */
+export const RESULT_COUNT_TIMEOUT_MS = 3000;
+
+/**
+ * Interval between reads of the result count element while waiting
+ * Polling (instead of a MutationObserver) also covers counts rendered inside shadow roots
+ * @constant
+ */
+export const RESULT_COUNT_POLL_INTERVAL_MS = 250;
+
+// ============================================================================
+// SEARCH SURFACES
+// ============================================================================
+
+/**
+ * Where a search surface's URL carries the search
+ * - query: query string (`?q=photoshop&products=x`)
+ * - hashQuery: query string inside a hash route (`#/search?q=photoshop`)
+ * - hashParams: parameters encoded as the whole hash (`#q=photoshop&products=x`)
+ * - pathSegment: term is the path segment at `index` (negative counts from the end),
+ *   filters come from the query string (`/search/photoshop?products=x`)
+ * - pathPattern: term is the `term` named group of `pattern` matched against the
+ *   pathname, filters come from the query string
+ */
+export type SearchUrlStrategy =
+  | { type: 'query' }
+  | { type: 'hashQuery' }
+  | { type: 'hashParams' }
+  | { type: 'pathSegment'; index: number }
+  | { type: 'pathPattern'; pattern: RegExp };
+
+/**
+ * Strategy type identifiers
+ */
+export type SearchUrlStrategyType = SearchUrlStrategy['type'];
+
+/**
+ * Strategies used by surfaces that declare none
+ * @constant
+ */
+export const DEFAULT_SEARCH_URL_STRATEGIES: readonly SearchUrlStrategy[] = [{ type: 'query' }];
+
+/**
+ * Where a search surface renders its result count
+ */
+export interface SearchResultCountConfig {
+  /** Element holding the count (searched through open shadow roots) */
+  selector: string;
+  /** Attribute holding the count; the element text is read when absent or empty */
+  attribute?: string;
+  /** "No results" element; its presence means a count of 0 */
+  emptySelector?: string;
+}
+
+/**
+ * A search page and how its URL is read; site profiles list the surfaces
+ * tracked on each site
+ */
+export interface SearchSurface {
+  /** Stamped on the search payload */
+  id: string;
+  /** Pathname pattern of the search page */
+  pathPattern: RegExp;
+  /** URL parameter names that contain the search term (checked in priority order) */
+  termParams: readonly string[];
+  /**
+   * Where the search is read from, tried in order until one yields a valid
+   * term (defaults to DEFAULT_SEARCH_URL_STRATEGIES)
+   */
+  strategies?: readonly SearchUrlStrategy[];
+  /** URL parameters that are neither term nor filter */
+  ignoredParams: readonly string[];
+  /**
+   * Parameter holding several facet selections as JSON or a delimited list of
+   * namespaced tag IDs (`caas:products/photoshop,caas:industry/retail`)
+   */
+  compoundFilterParam?: string;
+  /** URL parameter name → XDM searchFilters field name */
+  filterMap: Readonly<Record<string, string>>;
+  /** Label sent as searchResults.searchSurface */
+  sourceLabel: string;
+  /** Result count element; searches fire without a count when omitted */
+  resultCount?: SearchResultCountConfig;
+  /**
+   * Plain (non-component) result items; a link click inside one is a click-through.
+   * Registered components (cards) are recognized without it.
+   */
+  resultItemSelector?: string;
+}
+
+/**
+ * Known search surfaces, first match wins
+ * searchUrlMonitor only reports navigations onto the site profile's surfaces
+ * @constant
+ */
+export const SEARCH_SURFACES: readonly SearchSurface[] = [
+  {
+    id: 'portal',
+    pathPattern: /\/digitalexperience\/home\/search\//,
+    termParams: TERM_PARAMS,
+    ignoredParams: IGNORED_PARAMS,
+    compoundFilterParam: 'filters',
+    filterMap: FILTER_TO_XDM_MAP,
+    sourceLabel: 'partner-directory',
+    resultCount: {
+      selector: '[data-results-count], .search-results-count',
+      attribute: 'data-results-count',
+      emptySelector: '.search-no-results',
+    },
+  },
+  {
+    id: 'exchange',
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:search|apps\/browse)(?:\/|$)/,
+    termParams: ['q', 'term', 'keyword'],
+    strategies: [{ type: 'query' }, { type: 'pathPattern', pattern: /\/search\/(?<term>[^/]+)/ }],
+    ignoredParams: [...IGNORED_PARAMS, 'page', 'sort'],
+    filterMap: {
+      products: 'searchProducts',
+      industries: 'searchIndustries',
+      category: 'searchContentType',
+    },
+    sourceLabel: 'exchange',
+    resultCount: {
+      selector: '[data-testid="results-count"], .results-count',
+      emptySelector: '[data-testid="no-results"]',
+    },
+    resultItemSelector: '[data-testid="search-result"], .search-result',
+  },
+  {
+    id: 'eventsAgenda',
+    pathPattern: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:agenda|sessions)(?:\/|$)/,
+    termParams: ['search', 'q', 'term'],
+    strategies: [{ type: 'query' }, { type: 'hashQuery' }, { type: 'hashParams' }],
+    ignoredParams: [...IGNORED_PARAMS, 'tab', 'view'],
+    filterMap: {
+      topic: 'searchTopic',
+      products: 'searchProducts',
+      industries: 'searchIndustries',
+    },
+    sourceLabel: 'events-agenda',
+    resultCount: {
+      selector: '.session-results-count',
+      emptySelector: '.no-sessions-found',
+    },
+    resultItemSelector: '[data-session-id], .session-card',
+  },
+];
+
+/**
+ * Surface used when a URL is parsed without one
+ * @constant
+ */
+export const DEFAULT_SEARCH_SURFACE: SearchSurface = SEARCH_SURFACES[0];
+
 // ============================================================================
 // XDM SEARCH TYPES
 // ============================================================================
 
+/** Filter values keyed by XDM searchFilters field name (e.g. searchProducts) */
+export type XdmSearchFilters = Record<string, string[]>;
+
 /** XDM searchResults structure */
 export interface XdmSearchResults {
+  /** Search term, PII replaced by typed placeholders */
   searchTerm: string;
+  /** Whether PII in the term was replaced */
+  termRedacted?: boolean;
   searchSource: string;
+  /** Source label of the search surface */
+  searchSurface?: string;
+  /** All filter values, flattened */
   filters: string[];
+  /** Filter values of mapped params, by facet */
+  searchFilters: XdmSearchFilters;
+  /** Params without a mapping, as "param:value" */
+  unmappedFilters: string[];
+  /** Number of results shown, when it could be read */
+  searchResultsCount?: number;
+  /** true when the search returned no results (only set with searchResultsCount) */
+  nullSearch?: boolean;
+  /** Comparison with the previous search of the search session */
+  searchRefinement?: SearchRefinement;
+  /** How the term was entered in the search box */
+  searchAutocomplete?: SearchAutocompleteData;
 }
@@ -0,0 +1,148 @@
+/**
+ * Search result count reader
+ *
+ * Waits (bounded) for a search surface's results region to render and reads
+ * the result count from an element attribute or its text. Used by the shared
+ * search tracking flow before searchCommit fires.
+ */
+
+import type { Logger } from './logger.js';
+import { querySelectorAllDeep } from './dom.js';
+import {
+  RESULT_COUNT_POLL_INTERVAL_MS,
+  RESULT_COUNT_TIMEOUT_MS,
+  type SearchResultCountConfig,
+} from './searchConfig.js';
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Reads the last number in a text ("Showing 1-20 of 1,234 results" → 1234)
+ */
+function parseCount(text: string): number | null {
+  const matches = text.match(/\d{1,3}(?:[,.\s]\d{3})+|\d+/g);
+  if (!matches) return null;
+
+  const count = Number(matches[matches.length - 1].replace(/\D/g, ''));
+  return Number.isSafeInteger(count) ? count : null;
+}
+
+/**
+ * Elements the result count is read from (either may be absent)
+ */
+interface ResultCountElements {
+  countElement: Element | null;
+  emptyElement: Element | null;
+}
+
+/**
+ * Finds the result count and "no results" elements on the page
+ */
+function findResultCountElements(config: SearchResultCountConfig): ResultCountElements {
+  const [countElement = null] = querySelectorAllDeep(document, config.selector);
+  const [emptyElement = null] = config.emptySelector
+    ? querySelectorAllDeep(document, config.emptySelector)
+    : [];
+  return { countElement, emptyElement };
+}
+
+/**
+ * Reads the result count from the elements
+ * @returns The count, 0 when the empty element is shown, or null when not rendered
+ */
+function readResultCount(
+  { countElement, emptyElement }: ResultCountElements,
+  config: SearchResultCountConfig
+): number | null {
+  if (emptyElement) {
+    return 0;
+  }
+  if (!countElement) return null;
+
+  const attributeValue = config.attribute ? countElement.getAttribute(config.attribute) : null;
+  return parseCount(attributeValue || countElement.textContent || '');
+}
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Waits for the result count of a search and reports it once
+ *
+ * With acceptRendered, the count already on the page is reported (the page
+ * load path, where the results render with the page). Otherwise the elements
+ * shown when the wait starts belong to the previous search: the count is read
+ * once they are re-rendered, i.e. removed (loading), replaced by new nodes or
+ * mutated, whatever the value. On timeout the count is reported as null.
+ *
+ * @param config - Result count element of the search surface
+ * @param logger - Logger instance
+ * @param onDone - Called once with the count, or null when it could not be determined
+ * @param acceptRendered - Report the count already rendered when the wait starts
+ * @returns Cancel function; reports null immediately if the wait is still pending
+ *
+ * @example
+ * const cancel = waitForSearchResultCount(surface.resultCount, logger, (count) => {
+ *   // count: 42, 0 (null search) or null (unknown)
+ * });
+ */
+export default function waitForSearchResultCount(
+  config: SearchResultCountConfig,
+  logger: Logger,
+  onDone: (count: number | null) => void,
+  acceptRendered: boolean = false
+): () => void {
+  const initial = findResultCountElements(config);
+  const startedAt = Date.now();
+  let rerendered = acceptRendered || (!initial.countElement && !initial.emptyElement);
+  let done = false;
+  let intervalId: ReturnType<typeof setInterval> | undefined;
+
+  // In-place updates of the previous search's elements also mark a re-render
+  const observer = new MutationObserver(() => {
+    rerendered = true;
+  });
+  [initial.countElement, initial.emptyElement].forEach((element) => {
+    if (element) {
+      observer.observe(element, {
+        attributes: true,
+        characterData: true,
+        childList: true,
+        subtree: true,
+      });
+    }
+  });
+
+  const finish = (count: number | null, reason: string): void => {
+    if (done) return;
+    done = true;
+    clearInterval(intervalId);
+    observer.disconnect();
+    logger.log(`Result count ${count ?? 'unknown'} (${reason}, ${Date.now() - startedAt}ms)`);
+    onDone(count);
+  };
+
+  const check = (): void => {
+    const elements = findResultCountElements(config);
+    if (
+      elements.countElement !== initial.countElement ||
+      elements.emptyElement !== initial.emptyElement
+    ) {
+      rerendered = true;
+    }
+
+    const count = rerendered ? readResultCount(elements, config) : null;
+    if (count !== null) {
+      finish(count, acceptRendered ? 'read' : 'rendered');
+    } else if (Date.now() - startedAt >= RESULT_COUNT_TIMEOUT_MS) {
+      finish(null, 'timeout');
+    }
+  };
+
+  intervalId = setInterval(check, RESULT_COUNT_POLL_INTERVAL_MS);
+
+  return () => finish(null, 'cancelled');
+}
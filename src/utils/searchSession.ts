@@ -0,0 +1,120 @@
+/**
+ * Search session utility
+ *
+ * Keeps an ordered history of the session's committed searches in
+ * sessionStorage (so it survives full page loads between searches) and
+ * describes each new search as a refinement of the previous one.
+ */
+
+import { getStorageItem, setStorageItem } from './storage.js';
+import {
+  MAX_SEARCH_SESSION_HISTORY,
+  SEARCH_SESSION_STORAGE_KEY,
+  SEARCH_SESSION_TIMEOUT_MS,
+  type SearchRefinement,
+  type SearchSession,
+  type SearchSessionEntry,
+} from './searchSessionConfig.js';
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Flattens filters into "param:value" entries
+ */
+function toFilterEntries(filters: Record<string, string[]>): Set<string> {
+  return new Set(
+    Object.entries(filters).flatMap(([param, values]) => values.map((value) => `${param}:${value}`))
+  );
+}
+
+/**
+ * Normalizes a term for comparison (case and whitespace are not refinements)
+ */
+function normalizeTerm(term: string): string {
+  return term.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Reads the stored session, or null when missing, malformed or expired
+ */
+function readActiveSession(now: number): SearchSession | null {
+  const session = getStorageItem<SearchSession>(SEARCH_SESSION_STORAGE_KEY, 'sessionStorage');
+  if (!session || !Array.isArray(session.searches) || session.searches.length === 0) {
+    return null;
+  }
+
+  const last = session.searches[session.searches.length - 1];
+  return now - last.searchedAt > SEARCH_SESSION_TIMEOUT_MS ? null : session;
+}
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Appends a committed search to the session history and compares it with
+ * the previous search of the session. A search after more than
+ * SEARCH_SESSION_TIMEOUT_MS of inactivity starts a new session.
+ *
+ * @param entry - The committed search
+ * @returns Refinement data for the search payload
+ *
+ * @example
+ * // Previous search: "photoshop" with products:photoshop, 40s ago
+ * recordSearchInSession({ term: 'photoshop', filters: { products: ['photoshop', 'express'] }, ... })
+ * // Returns { refinementIndex: 1, refinementType: 'filters', termChanged: false,
+ * //   previousTerm: 'photoshop', filtersAdded: ['products:express'], filtersRemoved: [],
+ * //   timeSinceLastSearchMs: 40000 }
+ */
+export default function recordSearchInSession(entry: SearchSessionEntry): SearchRefinement {
+  const session = readActiveSession(entry.searchedAt) ?? {
+    startedAt: entry.searchedAt,
+    searches: [],
+    searchCount: 0,
+  };
+  const previous = session.searches[session.searches.length - 1];
+
+  let refinement: SearchRefinement = {
+    refinementIndex: 0,
+    refinementType: 'new',
+    termChanged: false,
+    filtersAdded: [],
+    filtersRemoved: [],
+  };
+
+  if (previous) {
+    const current = toFilterEntries(entry.filters);
+    const before = toFilterEntries(previous.filters);
+    const filtersAdded = Array.from(current).filter((filter) => !before.has(filter));
+    const filtersRemoved = Array.from(before).filter((filter) => !current.has(filter));
+    const termChanged = normalizeTerm(entry.term) !== normalizeTerm(previous.term);
+    const filtersChanged = filtersAdded.length > 0 || filtersRemoved.length > 0;
+
+    let refinementType: SearchRefinement['refinementType'] = 'unchanged';
+    if (termChanged && filtersChanged) {
+      refinementType = 'termAndFilters';
+    } else if (termChanged) {
+      refinementType = 'term';
+    } else if (filtersChanged) {
+      refinementType = 'filters';
+    }
+
+    refinement = {
+      refinementIndex: session.searchCount,
+      refinementType,
+      termChanged,
+      previousTerm: previous.term,
+      filtersAdded,
+      filtersRemoved,
+      timeSinceLastSearchMs: entry.searchedAt - previous.searchedAt,
+    };
+  }
+
+  session.searches = [...session.searches, entry].slice(-MAX_SEARCH_SESSION_HISTORY);
+  session.searchCount += 1;
+  setStorageItem(SEARCH_SESSION_STORAGE_KEY, session, 'sessionStorage');
+
+  return refinement;
+}
@@ -0,0 +1,88 @@
+/**
+ * Shared configuration for search session refinement tracking
+ *
+ * Centralizes the session history stored in sessionStorage, the refinement
+ * data attached to each search payload, and the expiry/size limits used by
+ * the searchSession utility.
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A committed search as kept in the session history
+ */
+export interface SearchSessionEntry {
+  term: string;
+  filters: Record<string, string[]>;
+  /** ID of the search surface */
+  surface: string;
+  searchKey: string;
+  /** When the search was committed (epoch ms) */
+  searchedAt: number;
+}
+
+/**
+ * Search session stored in sessionStorage
+ */
+export interface SearchSession {
+  /** When the first search of the session was committed (epoch ms) */
+  startedAt: number;
+  /** Searches in commit order, oldest first (capped at MAX_SEARCH_SESSION_HISTORY) */
+  searches: SearchSessionEntry[];
+  /** Total searches in the session, including ones trimmed from the history */
+  searchCount: number;
+}
+
+/**
+ * What changed since the previous search of the session
+ * - new: first search of the session
+ * - term: only the term changed
+ * - filters: only the filters changed
+ * - termAndFilters: both changed
+ * - unchanged: neither changed (only the term's case or spacing, or a URL
+ *   parameter that is neither term nor filter, gave a new search key)
+ */
+export type SearchRefinementType = 'new' | 'term' | 'filters' | 'termAndFilters' | 'unchanged';
+
+/**
+ * Refinement data attached to a search payload
+ * Matches XDM schema: _adobepartners.searchResults.searchRefinement
+ */
+export interface SearchRefinement {
+  /** 0 for the first search of the session, then 1, 2, ... */
+  refinementIndex: number;
+  refinementType: SearchRefinementType;
+  termChanged: boolean;
+  /** Term of the previous search of the session */
+  previousTerm?: string;
+  /** Filters added since the previous search, as "param:value" */
+  filtersAdded: string[];
+  /** Filters removed since the previous search, as "param:value" */
+  filtersRemoved: string[];
+  /** Time since the previous search of the session, in milliseconds */
+  timeSinceLastSearchMs?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * sessionStorage key holding the search session
+ * @constant
+ */
+export const SEARCH_SESSION_STORAGE_KEY = '__aep_search_session';
+
+/**
+ * Inactivity after which the next search starts a new session
+ * @constant
+ */
+export const SEARCH_SESSION_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Maximum searches kept in the session history
+ * @constant
+ */
+export const MAX_SEARCH_SESSION_HISTORY = 20;
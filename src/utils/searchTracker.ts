@@ -1,15 +1,19 @@
 /**
  * Shared search tracking utility
  *
- * Extracts the common parse → deduplicate → store → fire flow
- * used by both searchTrackerDynamic and searchTrackerEntry scripts.
+ * Extracts the common parse → deduplicate → count results → session → store → fire
+ * flow used by both searchTrackerDynamic and searchTrackerEntry scripts.
  */
 
 import type { Logger } from './logger.js';
 import { parseSearchUrl, createSearchPayload, generateSearchKey } from './searchUrlParser.js';
-import { SEARCH_TRACKING_EVENT, type SearchSource } from './searchConfig.js';
+import { SEARCH_SOURCES, SEARCH_TRACKING_EVENT, type SearchSource } from './searchConfig.js';
 import { fireSatelliteEvent } from './satellite.js';
-import { isDuplicate, setPartnerState } from './globalState.js';
+import { getPartnerState, isDuplicate, setPartnerState } from './globalState.js';
+import { resolveSearchSurface } from './siteProfile.js';
+import waitForSearchResultCount from './searchResultCount.js';
+import recordSearchInSession from './searchSession.js';
+import { takeSearchAutocomplete } from './searchAutocompleteTracker.js';
 
 /**
  * Result returned by trackSearch
@@ -19,10 +23,18 @@ export interface TrackSearchResult {
   message: string;
   term?: string;
   filterCount?: number;
+  /** ID of the matched search surface */
+  surface?: string;
+  /** Whether searchCommit fires after the result count wait */
+  awaitingResultCount?: boolean;
+  /** PII matches replaced in the term and filter values */
+  redactionCount?: number;
 }
 
 /**
- * Parses the current URL, deduplicates, stores payload, and fires the tracking event.
+ * Parses the current URL with the matching search surface, deduplicates,
+ * waits for the result count (when the surface has one), records the search
+ * in the search session, stores payload, and fires the tracking event.
  *
  * @param source - Search source identifier ('entry' or 'url')
  * @param logger - Logger instance
@@ -34,16 +46,29 @@ export function trackSearch(
   logger: Logger,
   testMode: boolean
 ): TrackSearchResult {
+  // Pick the search surface of the current page
+  const surface = resolveSearchSurface();
+  if (!surface) {
+    logger.log('Page is not an active search surface');
+    return { success: false, message: 'Not a search surface' };
+  }
+  logger.log(`Search surface "${surface.id}"`);
+
   // Parse URL securely
-  const parsed = parseSearchUrl(undefined, logger);
+  const parsed = parseSearchUrl(undefined, logger, surface);
 
   if (!parsed.hasValidTerm || !parsed.term) {
     logger.log('No valid search term found');
-    return { success: false, message: 'No valid search term found' };
+    return { success: false, message: 'No valid search term found', surface: surface.id };
+  }
+
+  if (parsed.redactions.length > 0) {
+    logger.log(`Redacted ${parsed.redactions.length} PII matches from the search`);
+    logger.testInfo('Search PII redactions', parsed.redactions);
   }
 
   // Deduplicate
-  const searchKey = generateSearchKey();
+  const searchKey = generateSearchKey(undefined, surface);
   logger.log('Generated search key:', searchKey);
 
   if (isDuplicate(searchKey, 'lastSearchKey', logger)) {
@@ -51,22 +76,80 @@ export function trackSearch(
       success: false,
       message: 'Duplicate search (already tracked)',
       term: parsed.term,
+      surface: surface.id,
     };
   }
 
   // Create and store payload
-  const payload = createSearchPayload(parsed, source);
+  const payload = createSearchPayload(parsed, source, surface);
 
   if (!payload) {
     logger.error('Failed to create search payload');
     return { success: false, message: 'Failed to create search payload' };
   }
 
-  setPartnerState('searchPayload', payload);
-  logger.log('Stored search payload:', payload);
+  // A search still waiting for its count fires now, without it
+  getPartnerState('searchResultCountCancel')?.();
+
+  // Runs from the result count timer, outside executeScript's error handling
+  const fire = (resultsCount: number | null): void => {
+    try {
+      setPartnerState('searchResultCountCancel', undefined);
+      if (resultsCount !== null) {
+        payload.resultsCount = resultsCount;
+      }
+
+      const committedAt = Date.now();
+      try {
+        // How the term was entered, when the search box was used
+        const autocomplete = takeSearchAutocomplete(payload.term, logger);
+        if (autocomplete) {
+          payload.autocomplete = autocomplete;
+        }
 
-  // Fire tracking event
-  fireSatelliteEvent(SEARCH_TRACKING_EVENT, logger, testMode);
+        // Describe the search relative to the previous one of the session
+        payload.refinement = recordSearchInSession({
+          term: payload.term,
+          filters: payload.filters,
+          surface: payload.surface,
+          searchKey,
+          searchedAt: committedAt,
+        });
+      } catch (error) {
+        logger.error('Failed to add autocomplete / session context, sending without it:', error);
+      }
+
+      setPartnerState('searchPayload', payload);
+      logger.log('Stored search payload:', payload);
+
+      // Remembered for result click-through attribution
+      setPartnerState('lastSearchCommit', {
+        term: payload.term,
+        filters: payload.filters,
+        surface: payload.surface,
+        surfaceLabel: payload.surfaceLabel,
+        searchKey,
+        committedAt,
+      });
+
+      // Fire tracking event
+      fireSatelliteEvent(SEARCH_TRACKING_EVENT, logger, testMode);
+    } catch (error) {
+      logger.error('Error firing search event:', error);
+    }
+  };
+
+  // Wait for the result count, falling back to firing without it. On page
+  // load the results render with the page, so the count shown is this search's
+  const awaitingResultCount = !!surface.resultCount;
+  if (surface.resultCount) {
+    setPartnerState(
+      'searchResultCountCancel',
+      waitForSearchResultCount(surface.resultCount, logger, fire, source === SEARCH_SOURCES.ENTRY)
+    );
+  } else {
+    fire(null);
+  }
 
   const filterCount = Object.keys(payload.filters).length;
 
@@ -75,5 +158,8 @@ export function trackSearch(
     message: 'Search tracked successfully',
     term: payload.term,
     filterCount,
+    surface: surface.id,
+    awaitingResultCount,
+    redactionCount: parsed.redactions.length,
   };
 }
@@ -7,14 +7,25 @@
 
 import type { Logger } from './logger.js';
 import {
-  TERM_PARAMS,
-  IGNORED_PARAMS,
+  DEFAULT_SEARCH_SURFACE,
+  DEFAULT_SEARCH_URL_STRATEGIES,
   MIN_TERM_LENGTH,
   MAX_TERM_LENGTH,
   MAX_FILTER_PARAMS,
   MAX_FILTER_VALUE_LENGTH,
+  MAX_COMPOUND_FILTER_LENGTH,
+  MAX_COMPOUND_FILTER_TAGS,
+  SEARCH_PII_ACTIONS,
+  SEARCH_PII_PATTERNS,
   type SearchSource,
+  type SearchSurface,
+  type SearchUrlStrategy,
+  type SearchUrlStrategyType,
 } from './searchConfig.js';
+import type { SearchRefinement } from './searchSessionConfig.js';
+import type { PiiType } from './piiConfig.js';
+import { redactPii } from './piiScrubber.js';
+import type { SearchAutocompleteData } from './searchAutocompleteConfig.js';
 
 /**
  * Search payload structure
@@ -26,6 +37,27 @@ export interface SearchPayload {
   filters: Record<string, string[]>;
   /** Source identifier */
   source: SearchSource;
+  /** ID of the search surface the term was read from */
+  surface: string;
+  /** Source label of the search surface */
+  surfaceLabel: string;
+  /** Whether PII in the term was replaced by placeholders */
+  termRedacted: boolean;
+  /** Number of results read from the page (absent when it could not be determined) */
+  resultsCount?: number;
+  /** Comparison with the previous search of the search session */
+  refinement?: SearchRefinement;
+  /** Search box context (typed prefix, chosen suggestion) when the search box was used */
+  autocomplete?: SearchAutocompleteData;
+}
+
+/**
+ * A PII match replaced in a search term or filter value
+ */
+export interface SearchRedaction {
+  /** "term" or the filter param name */
+  field: string;
+  type: PiiType;
 }
 
 /**
@@ -38,8 +70,16 @@ export interface ParsedSearchUrl {
   term: string | null;
   /** Extracted and sanitized filters */
   filters: Record<string, string[]>;
-  /** The parameter name where term was found */
+  /** The parameter name where term was found (null for path strategies) */
   termParam: string | null;
+  /** Strategy the term was read with */
+  strategy: SearchUrlStrategyType | null;
+  /** Whether PII in the term was replaced by placeholders */
+  termRedacted: boolean;
+  /** PII matches replaced in the term and filter values */
+  redactions: SearchRedaction[];
+  /** ID of the search surface used to read the URL */
+  surface: string;
 }
 
 /**
@@ -87,37 +127,246 @@ function isSafeKey(key: string): boolean {
 }
 
 /**
- * Parses URL search parameters and extracts search term
+ * Replaces PII (emails, phone numbers, card and order numbers...) in a
+ * search term or filter value with typed placeholders
+ *
+ * @param value - Sanitized value
+ * @returns Redacted text and the detected types
+ *
+ * @example
+ * redactSearchValue('invoice jane@example.com') // { text: 'invoice [email]', types: ['email'] }
+ */
+function redactSearchValue(value: string): { text: string; types: PiiType[] } {
+  const result = redactPii(value, (type) => SEARCH_PII_ACTIONS[type], SEARCH_PII_PATTERNS);
+  return { text: result.text, types: result.redactions.map(({ type }) => type) };
+}
+
+/**
+ * Splits a tag ID into facet and value, dropping the namespace
+ *
+ * @param tag - Tag ID
+ * @param fallbackFacet - Facet for tags without a "/" (the compound param name)
+ * @returns [facet, value]
+ *
+ * @example
+ * splitTagId('caas:products/photoshop', 'filters') // ['products', 'photoshop']
+ * splitTagId('caas:featured', 'filters')           // ['filters', 'featured']
+ */
+function splitTagId(tag: string, fallbackFacet: string): [string, string] {
+  const local = tag.slice(tag.indexOf(':') + 1);
+  const slash = local.indexOf('/');
+  return slash > 0 ? [local.slice(0, slash), local.slice(slash + 1)] : [fallbackFacet, local];
+}
+
+/**
+ * Decodes a compound filter parameter into raw facet/value pairs
+ * Accepts a JSON array of tag IDs, a JSON object (facet → value or values)
+ * or a comma / pipe delimited list of tag IDs
+ *
+ * @param raw - Parameter value
+ * @param param - Parameter name (facet for tags without one)
+ * @param logger - Optional logger for debugging
+ * @returns Facet/value pairs (not yet validated or sanitized)
+ *
+ * @example
+ * decodeCompoundFilters('caas:products/photoshop,caas:industry/retail', 'filters')
+ * // Returns [['products', 'photoshop'], ['industry', 'retail']]
+ */
+function decodeCompoundFilters(
+  raw: string,
+  param: string,
+  logger?: Logger
+): Array<[string, string]> {
+  if (raw.length > MAX_COMPOUND_FILTER_LENGTH) {
+    logger?.warn(`Compound filter param '${param}' exceeds ${MAX_COMPOUND_FILTER_LENGTH} chars`);
+    return [];
+  }
+
+  const trimmed = raw.trim();
+  let pairs: Array<[string, string]> = [];
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let decoded: unknown;
+    try {
+      decoded = JSON.parse(trimmed);
+    } catch {
+      logger?.warn(`Compound filter param '${param}' is not valid JSON`);
+      return [];
+    }
+
+    if (Array.isArray(decoded)) {
+      pairs = decoded
+        .filter((tag): tag is string => typeof tag === 'string')
+        .map((tag) => splitTagId(tag, param));
+    } else if (decoded && typeof decoded === 'object') {
+      pairs = Object.entries(decoded).flatMap(([facet, values]) =>
+        (Array.isArray(values) ? values : [values])
+          .filter((value): value is string => typeof value === 'string')
+          .map((value): [string, string] => [facet.slice(facet.indexOf(':') + 1), value])
+      );
+    }
+  } else {
+    pairs = trimmed
+      .split(/[,|]/)
+      .map((tag) => tag.trim())
+      .filter((tag) => tag.length > 0)
+      .map((tag) => splitTagId(tag, param));
+  }
+
+  if (pairs.length > MAX_COMPOUND_FILTER_TAGS) {
+    logger?.warn(`Compound filter param '${param}' has over ${MAX_COMPOUND_FILTER_TAGS} tags`);
+    pairs = pairs.slice(0, MAX_COMPOUND_FILTER_TAGS);
+  }
+
+  return pairs;
+}
+
+/**
+ * Parameters and path term a strategy reads from a URL
+ */
+interface StrategySource {
+  /** Parameters holding the term (non-path strategies) and the filters */
+  params: URLSearchParams;
+  /** Raw term read from the path (path strategies) */
+  pathTerm: string | null;
+}
+
+/**
+ * Result of matching a surface's strategies against a URL
+ */
+interface StrategyMatch {
+  strategy: SearchUrlStrategy;
+  source: StrategySource;
+  /** Sanitized search term */
+  term: string;
+  termParam: string | null;
+}
+
+/**
+ * Decodes a path value, or returns null when it is missing or malformed
+ */
+function decodePathValue(value: string | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the parameters and path term a strategy uses
+ *
+ * @param urlObj - Parsed URL
+ * @param strategy - Extraction strategy
+ * @returns Strategy source
+ *
+ * @example
+ * readStrategySource(new URL('https://x.com/agenda#/search?q=ps'), { type: 'hashQuery' })
+ * // Returns { params: URLSearchParams('q=ps'), pathTerm: null }
+ */
+function readStrategySource(urlObj: URL, strategy: SearchUrlStrategy): StrategySource {
+  const hash = urlObj.hash.slice(1);
+
+  switch (strategy.type) {
+    case 'hashQuery': {
+      const queryStart = hash.indexOf('?');
+      return {
+        params: new URLSearchParams(queryStart >= 0 ? hash.slice(queryStart + 1) : ''),
+        pathTerm: null,
+      };
+    }
+    case 'hashParams':
+      return { params: new URLSearchParams(hash), pathTerm: null };
+    case 'pathSegment': {
+      const segments = urlObj.pathname.split('/').filter(Boolean);
+      const index = strategy.index < 0 ? segments.length + strategy.index : strategy.index;
+      return { params: urlObj.searchParams, pathTerm: decodePathValue(segments[index]) };
+    }
+    case 'pathPattern':
+      return {
+        params: urlObj.searchParams,
+        pathTerm: decodePathValue(urlObj.pathname.match(strategy.pattern)?.groups?.term),
+      };
+    default:
+      return { params: urlObj.searchParams, pathTerm: null };
+  }
+}
+
+/**
+ * Tries the surface's strategies in order and returns the first one that
+ * yields a valid (sanitized) search term
+ *
+ * @param urlObj - Parsed URL
+ * @param surface - Search surface defining strategies and term params
+ * @param logger - Optional logger for debugging
+ * @returns The matching strategy with its source and term, or null
+ */
+function matchSearchStrategy(
+  urlObj: URL,
+  surface: SearchSurface,
+  logger?: Logger
+): StrategyMatch | null {
+  let match: StrategyMatch | null = null;
+
+  (surface.strategies ?? DEFAULT_SEARCH_URL_STRATEGIES).some((strategy) => {
+    const source = readStrategySource(urlObj, strategy);
+    const candidates: Array<[string | null, string | null]> =
+      strategy.type === 'pathSegment' || strategy.type === 'pathPattern'
+        ? [[null, source.pathTerm]]
+        : surface.termParams.map((param) => [param, source.params.get(param)]);
+
+    return candidates.some(([termParam, value]) => {
+      if (!value) {
+        return false;
+      }
+
+      const term = sanitizeValue(value, MAX_TERM_LENGTH);
+      if (term.length < MIN_TERM_LENGTH) {
+        return false;
+      }
+
+      match = { strategy, source, term, termParam };
+      logger?.log(`Found term with '${strategy.type}' strategy (${termParam ?? 'path'}):`, term);
+      return true;
+    });
+  });
+
+  return match;
+}
+
+/**
+ * Parses the URL with the surface's strategies and extracts the search term
+ * and filters
  *
  * @param url - The URL to parse (defaults to current window location)
  * @param logger - Optional logger for debugging
+ * @param surface - Search surface defining strategies, term, ignored and filter params
  * @returns Parsed search data
  */
-export function parseSearchUrl(url?: string, logger?: Logger): ParsedSearchUrl {
+export function parseSearchUrl(
+  url?: string,
+  logger?: Logger,
+  surface: SearchSurface = DEFAULT_SEARCH_SURFACE
+): ParsedSearchUrl {
   const searchUrl = url || window.location.href;
 
   try {
     const urlObj = new URL(searchUrl, window.location.origin);
-    const params = urlObj.searchParams;
-
-    // Extract and sanitize search term
-    let term: string | null = null;
-    let termParam: string | null = null;
-
-    const termParams = ['term', 'q', 'keyword'];
-    termParams.some((param) => {
-      const value = params.get(param);
-      if (value) {
-        const sanitized = sanitizeValue(value, MAX_TERM_LENGTH);
-        if (sanitized.length >= MIN_TERM_LENGTH) {
-          term = sanitized;
-          termParam = param;
-          logger?.log(`Found term from '${param}' param:`, term);
-          return true; // break equivalent
-        }
-      }
-      return false;
-    });
+
+    // Extract and sanitize search term with the first matching strategy
+    const match = matchSearchStrategy(urlObj, surface, logger);
+
+    // Replace PII in the term with typed placeholders
+    const redactions: SearchRedaction[] = [];
+    const term = match ? redactSearchValue(match.term) : null;
+    term?.types.forEach((type) => redactions.push({ field: 'term', type }));
+
+    // Filters come from the matched strategy's parameters (query string otherwise)
+    const params = match?.source.params ?? urlObj.searchParams;
 
     // Extract and sanitize filters
     const filters: Record<string, string[]> = {};
@@ -130,10 +379,12 @@ export function parseSearchUrl(url?: string, logger?: Logger): ParsedSearchUrl {
         return;
       }
 
-      // Skip term params and ignored params
-      const termParamsList: readonly string[] = TERM_PARAMS;
-      const ignoredParamsList: readonly string[] = IGNORED_PARAMS;
-      if (termParamsList.includes(key) || ignoredParamsList.includes(key)) {
+      // Skip term params, ignored params and the compound filter param (decoded below)
+      if (
+        surface.termParams.includes(key) ||
+        surface.ignoredParams.includes(key) ||
+        key === surface.compoundFilterParam
+      ) {
         return;
       }
 
@@ -143,11 +394,16 @@ export function parseSearchUrl(url?: string, logger?: Logger): ParsedSearchUrl {
         return;
       }
 
-      // Split comma-delimited values and sanitize each
+      // Split comma-delimited values, sanitize each and replace PII
       const values = value
         .split(',')
         .map((v) => sanitizeValue(v, MAX_FILTER_VALUE_LENGTH))
-        .filter((v) => v.length > 0);
+        .filter((v) => v.length > 0)
+        .map((v) => {
+          const redacted = redactSearchValue(v);
+          redacted.types.forEach((type) => redactions.push({ field: key, type }));
+          return redacted.text;
+        });
 
       if (values.length > 0) {
         filters[key] = values;
@@ -155,13 +411,49 @@ export function parseSearchUrl(url?: string, logger?: Logger): ParsedSearchUrl {
       }
     });
 
-    const hasValidTerm = term !== null && (term as string).length >= MIN_TERM_LENGTH;
+    // Decode the compound filter param and merge its facets into filters
+    const { compoundFilterParam } = surface;
+    const compound = compoundFilterParam ? params.get(compoundFilterParam) : null;
+    if (compoundFilterParam && compound) {
+      decodeCompoundFilters(compound, compoundFilterParam, logger).forEach(([facet, raw]) => {
+        if (!isSafeKey(facet)) {
+          logger?.warn(`Skipping unsafe compound filter facet: ${facet}`);
+          return;
+        }
+
+        const value = sanitizeValue(raw, MAX_FILTER_VALUE_LENGTH);
+        if (value.length === 0) {
+          return;
+        }
+
+        const hasFacet = Object.prototype.hasOwnProperty.call(filters, facet);
+        if (!hasFacet && filterCount >= MAX_FILTER_PARAMS) {
+          logger?.warn(`Max filter limit (${MAX_FILTER_PARAMS}) reached, skipping facet ${facet}`);
+          return;
+        }
+
+        const redacted = redactSearchValue(value);
+        redacted.types.forEach((type) => redactions.push({ field: facet, type }));
+
+        if (!hasFacet) {
+          filters[facet] = [];
+          filterCount += 1;
+        }
+        if (!filters[facet].includes(redacted.text)) {
+          filters[facet].push(redacted.text);
+        }
+      });
+    }
 
     return {
-      hasValidTerm,
-      term,
+      hasValidTerm: match !== null,
+      term: term?.text ?? null,
       filters,
-      termParam,
+      termParam: match?.termParam ?? null,
+      strategy: match?.strategy.type ?? null,
+      termRedacted: !!term && term.types.length > 0,
+      redactions,
+      surface: surface.id,
     };
   } catch (error) {
     logger?.error('Error parsing URL:', error);
@@ -170,6 +462,10 @@ export function parseSearchUrl(url?: string, logger?: Logger): ParsedSearchUrl {
       term: null,
       filters: {},
       termParam: null,
+      strategy: null,
+      termRedacted: false,
+      redactions: [],
+      surface: surface.id,
     };
   }
 }
@@ -179,11 +475,13 @@ export function parseSearchUrl(url?: string, logger?: Logger): ParsedSearchUrl {
  *
  * @param parsed - Parsed search URL data
  * @param source - The source identifier
+ * @param surface - Search surface the URL was parsed with
  * @returns Search payload or null if no valid term
  */
 export function createSearchPayload(
   parsed: ParsedSearchUrl,
-  source: SearchSource
+  source: SearchSource,
+  surface: SearchSurface = DEFAULT_SEARCH_SURFACE
 ): SearchPayload | null {
   if (!parsed.hasValidTerm || !parsed.term) {
     return null;
@@ -193,34 +491,52 @@ export function createSearchPayload(
     term: parsed.term,
     filters: parsed.filters,
     source,
+    surface: surface.id,
+    surfaceLabel: surface.sourceLabel,
+    termRedacted: parsed.termRedacted,
   };
 }
 
 /**
- * Generates a deduplication key from URL parameters
+ * Generates a deduplication key from the parameters of the strategy that
+ * matched (path strategies add the path term as "path=<term>"), with PII
+ * replaced as in the payload
  * Used to prevent tracking duplicate searches
  *
  * @param url - The URL to generate key from (defaults to current window location)
+ * @param surface - Search surface whose strategies are tried and ignored params excluded
  * @returns Deduplication key
  */
-export function generateSearchKey(url?: string): string {
+export function generateSearchKey(
+  url?: string,
+  surface: SearchSurface = DEFAULT_SEARCH_SURFACE
+): string {
   try {
     const searchUrl = url || window.location.href;
     const urlObj = new URL(searchUrl, window.location.origin);
-    const params = urlObj.searchParams;
+    const match = matchSearchStrategy(urlObj, surface);
+    const params = new URLSearchParams(match?.source.params ?? urlObj.searchParams);
 
-    // Remove ignored params for deduplication
-    IGNORED_PARAMS.forEach((param) => {
-      params.delete(param);
-    });
+    // Remove ignored params for deduplication (the compound filter param holds filters)
+    surface.ignoredParams
+      .filter((param) => param !== surface.compoundFilterParam)
+      .forEach((param) => {
+        params.delete(param);
+      });
 
-    // Sort params for consistent key generation
+    // Sort params for consistent key generation (unsafe keys never reach a payload)
     const entries: Array<[string, string]> = [];
     params.forEach((value, key) => {
-      entries.push([key, value]);
+      if (isSafeKey(key)) {
+        entries.push([key, redactSearchValue(value).text]);
+      }
     });
     const sorted = entries.sort(([a], [b]) => a.localeCompare(b));
 
+    if (match?.source.pathTerm) {
+      sorted.unshift(['path', redactSearchValue(match.term).text]);
+    }
+
     return sorted.map(([key, value]) => `${key}=${value}`).join('&');
   } catch {
     return '';
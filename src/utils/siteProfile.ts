@@ -0,0 +1,71 @@
+/**
+ * Site profile resolution
+ *
+ * Picks the active site profile (siteProfileConfig.ts) for the current page.
+ * Scripts use it to decide whether to install, which enrichers run and
+ * which search surfaces are tracked.
+ */
+
+import { matchesHostnamePattern } from './url.js';
+import { SEARCH_SURFACES, type SearchSurface } from './searchConfig.js';
+import {
+  DEFAULT_SITE_PROFILE,
+  SITE_PROFILES,
+  type SiteProfile,
+  type SiteProfileMatch,
+} from './siteProfileConfig.js';
+
+/**
+ * Checks a profile's match conditions against a location
+ */
+function matchesProfile(match: SiteProfileMatch, location: Location | URL): boolean {
+  if (
+    match.hostnames &&
+    !match.hostnames.some((pattern) => matchesHostnamePattern(location.hostname, pattern))
+  ) {
+    return false;
+  }
+  if (match.pathPattern && !match.pathPattern.test(location.pathname)) {
+    return false;
+  }
+  if (match.selector && !document.querySelector(match.selector)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Resolves the site profile for a page
+ * @param location - Page location (defaults to window.location)
+ * @param profiles - Profiles to match, first match wins (defaults to SITE_PROFILES)
+ * @returns Matching profile, or DEFAULT_SITE_PROFILE
+ *
+ * @example
+ * // On https://exchange.adobe.com/apps/...
+ * resolveSiteProfile().id // 'exchange'
+ */
+export function resolveSiteProfile(
+  location: Location | URL = window.location,
+  profiles: readonly SiteProfile[] = SITE_PROFILES
+): SiteProfile {
+  return (
+    profiles.find((profile) => matchesProfile(profile.match, location)) ?? DEFAULT_SITE_PROFILE
+  );
+}
+
+/**
+ * Finds the profile's search surface matching a path
+ * @param pathname - Page path (defaults to window.location.pathname)
+ * @param profile - Site profile (resolved when omitted)
+ * @returns Matching search surface, or null if the page is not a search page
+ */
+export function resolveSearchSurface(
+  pathname: string = window.location.pathname,
+  profile: SiteProfile = resolveSiteProfile()
+): SearchSurface | null {
+  return (
+    SEARCH_SURFACES.find(
+      (surface) => profile.searchSurfaces.includes(surface.id) && surface.pathPattern.test(pathname)
+    ) ?? null
+  );
+}
@@ -0,0 +1,171 @@
+/**
+ * Shared configuration for site profiles
+ *
+ * A site profile is matched by hostname, path and/or a page marker and
+ * declares which before-send enrichers, monitors and search surfaces are
+ * active on that site, and with which options. Resolved by the siteProfile
+ * utility; every script goes through resolveSiteProfile().
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Site profile identifiers
+ */
+export type SiteProfileId =
+  'magentoStore' | 'adobeEvents' | 'exchange' | 'partnerPortal' | 'default';
+
+/**
+ * Monitor / page-load scripts a profile can enable
+ */
+export type SiteMonitorName =
+  | 'searchUrl'
+  | 'searchClick'
+  | 'searchAutocomplete'
+  | 'spaPageViewTitle'
+  | 'spaPublisherName'
+  | 'cardImpression'
+  | 'cartChange'
+  | 'purchase'
+  | 'formInteraction';
+
+/**
+ * Conditions a page must meet for a profile to apply (all given must match)
+ */
+export interface SiteProfileMatch {
+  /** Hostname patterns (supports '*.' wildcard prefix) */
+  hostnames?: readonly string[];
+  /** Pathname pattern */
+  pathPattern?: RegExp;
+  /** Selector of an element that identifies the platform */
+  selector?: string;
+}
+
+/**
+ * Per-profile overrides of script defaults
+ */
+export interface SiteProfileOptions {
+  /** Cart change fallback check interval (defaults to CART_POLL_INTERVAL_MS) */
+  cartPollIntervalMs?: number;
+}
+
+/**
+ * A site profile
+ */
+export interface SiteProfile {
+  id: SiteProfileId;
+  match: SiteProfileMatch;
+  /** Enricher names (src/enrichers) active in the before-send callback */
+  enrichers: readonly string[];
+  /** Monitors allowed to install */
+  monitors: readonly SiteMonitorName[];
+  /** Search surface IDs (SEARCH_SURFACES) tracked on this site */
+  searchSurfaces: readonly string[];
+  options: SiteProfileOptions;
+}
+
+// ============================================================================
+// ENRICHER SETS
+// ============================================================================
+
+/**
+ * Enrichers active on every site
+ * @constant
+ */
+const COMMON_ENRICHERS = [
+  'pageName',
+  'siteSection',
+  'spaReferrer',
+  'pageContext',
+  'partnerData',
+  'IMS',
+  'cardCollection',
+  'linkClickLabel',
+  'linkClassification',
+  'consent',
+] as const;
+
+// ============================================================================
+// PROFILES
+// ============================================================================
+
+/**
+ * Site profiles, first match wins
+ * @constant
+ */
+export const SITE_PROFILES: readonly SiteProfile[] = [
+  {
+    // Magento pages are identified by their init scripts (store host varies per environment)
+    id: 'magentoStore',
+    match: { selector: 'script[type="text/x-magento-init"]' },
+    enrichers: [...COMMON_ENRICHERS, 'Checkout'],
+    monitors: ['cartChange', 'purchase', 'formInteraction'],
+    searchSurfaces: [],
+    options: {},
+  },
+  {
+    id: 'adobeEvents',
+    match: { hostnames: ['*.adobeevents.com'] },
+    enrichers: [...COMMON_ENRICHERS, 'eventData', 'attendeeData'],
+    monitors: ['searchUrl', 'searchClick', 'searchAutocomplete', 'formInteraction'],
+    searchSurfaces: ['eventsAgenda'],
+    options: {},
+  },
+  {
+    id: 'exchange',
+    match: { hostnames: ['exchange.adobe.com'] },
+    enrichers: [...COMMON_ENRICHERS, 'publisherData'],
+    monitors: [
+      'searchUrl',
+      'searchClick',
+      'searchAutocomplete',
+      'spaPageViewTitle',
+      'spaPublisherName',
+      'cardImpression',
+      'formInteraction',
+    ],
+    searchSurfaces: ['exchange'],
+    options: {},
+  },
+  {
+    id: 'partnerPortal',
+    match: { hostnames: ['partners.adobe.com', 'solutionpartners.adobe.com'] },
+    enrichers: COMMON_ENRICHERS,
+    monitors: [
+      'searchUrl',
+      'searchClick',
+      'searchAutocomplete',
+      'spaPageViewTitle',
+      'cardImpression',
+      'formInteraction',
+    ],
+    searchSurfaces: ['portal'],
+    options: {},
+  },
+];
+
+/**
+ * Profile for pages no profile matches (staging hosts, local testing):
+ * everything that is not tied to a specific site
+ * @constant
+ */
+export const DEFAULT_SITE_PROFILE: SiteProfile = {
+  id: 'default',
+  match: {},
+  enrichers: [...COMMON_ENRICHERS, 'Checkout', 'publisherData'],
+  monitors: [
+    'searchUrl',
+    'searchClick',
+    'searchAutocomplete',
+    'spaPageViewTitle',
+    'spaPublisherName',
+    'cardImpression',
+    'cartChange',
+    'purchase',
+    'formInteraction',
+  ],
+  searchSurfaces: ['portal', 'exchange', 'eventsAgenda'],
+  options: {},
+};
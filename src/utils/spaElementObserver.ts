@@ -98,6 +98,13 @@ export interface ElementMonitorConfig {
    */
   disconnectAfterFirst?: boolean;
 
+  /**
+   * Optional callback invoked with a valid value after it is stored but before
+   * the custom event is dispatched. Use for state that rules listening for the
+   * event read synchronously (e.g. the SPA referrer of the page view).
+   */
+  beforeDispatch?: (value: string) => void;
+
   /**
    * Optional callback invoked immediately after a valid value is emitted.
    * Use for element-specific side effects (e.g. updating `previousPageUrl`
@@ -144,10 +151,14 @@ const DEFAULT_EXTRACT = (el: Element): string => el.textContent?.trim() ?? '';
 const DEFAULT_IS_VALID = (value: string): boolean => value.length > 0;
 
 /**
- * Emits the custom event, stores the value in partner state, and runs onEmit.
+ * Stores the value in partner state, runs beforeDispatch, emits the custom
+ * event, and runs onEmit.
  */
 function emit(config: ElementMonitorConfig, value: string, logger: Logger): void {
   setPartnerStateByKey(config.stateKey, value);
+  if (config.beforeDispatch) {
+    config.beforeDispatch(value);
+  }
   dispatchCustomEvent<ElementChangeDetail>(config.eventName, {
     value,
     timestamp: Date.now(),
@@ -170,6 +181,25 @@ function cancelTimeout(config: ElementMonitorConfig): void {
   }
 }
 
+/**
+ * Disconnects the observer installed for this config, if still active, and
+ * cancels its auto-disconnect timeout.
+ *
+ * @param config - ElementMonitorConfig the observer was installed with
+ * @returns true if an active observer was disconnected
+ */
+export function disconnectElementObserver(config: ElementMonitorConfig): boolean {
+  cancelTimeout(config);
+  const observer = getPartnerStateByKey(config.observerKey) as MutationObserver | undefined;
+  if (!observer) {
+    return false;
+  }
+
+  observer.disconnect();
+  setPartnerStateByKey(config.observerKey, undefined);
+  return true;
+}
+
 /**
  * Installs a MutationObserver based on the given config.
  *
@@ -55,6 +55,14 @@ export const DEBOUNCE_DELAY = 300;
  */
 export const TITLE_MONITOR_TIMEOUT_MS = 10_000;
 
+/**
+ * Time in milliseconds an SPA navigation waits for the new route's title
+ * before the page view is dispatched with the current title (routes sharing
+ * a document title never change it)
+ * @constant
+ */
+export const NAVIGATION_TITLE_WAIT_MS = 1000;
+
 /**
  * Default/placeholder titles that indicate the SPA hasn't finished rendering.
  * Add or remove patterns as needed for your application.
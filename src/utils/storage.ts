@@ -1,15 +1,28 @@
 /**
- * LocalStorage utilities for browser environments
+ * Web Storage utilities for browser environments (localStorage by default)
+ *
+ * The storage area is passed by name and resolved inside the try block:
+ * where storage access is blocked (sandboxed iframes, cookies disabled),
+ * reading window.localStorage / window.sessionStorage itself throws.
  */
 
 /**
- * Gets and parses a JSON value from localStorage
+ * Web Storage area name
+ */
+export type StorageArea = 'localStorage' | 'sessionStorage';
+
+/**
+ * Gets and parses a JSON value from storage
  * @param key - Storage key
+ * @param area - Storage area (defaults to localStorage)
  * @returns Parsed value or null
  */
-export function getStorageItem<T = unknown>(key: string): T | null {
+export function getStorageItem<T = unknown>(
+  key: string,
+  area: StorageArea = 'localStorage'
+): T | null {
   try {
-    const item = localStorage.getItem(key);
+    const item = window[area].getItem(key);
     if (!item) {
       return null;
     }
@@ -20,17 +33,35 @@ export function getStorageItem<T = unknown>(key: string): T | null {
 }
 
 /**
- * Sets a value in localStorage as JSON
+ * Sets a value in storage as JSON
  * @param key - Storage key
  * @param value - Value to store
+ * @param area - Storage area (defaults to localStorage)
  * @returns true if successful, false otherwise
  */
-export function setStorageItem<T>(key: string, value: T): boolean {
+export function setStorageItem<T>(
+  key: string,
+  value: T,
+  area: StorageArea = 'localStorage'
+): boolean {
   try {
-    localStorage.setItem(key, JSON.stringify(value));
+    window[area].setItem(key, JSON.stringify(value));
     return true;
   } catch (error) {
     console.error(`Failed to set storage item ${key}:`, error);
     return false;
   }
 }
+
+/**
+ * Removes a value from storage
+ * @param key - Storage key
+ * @param area - Storage area (defaults to localStorage)
+ */
+export function removeStorageItem(key: string, area: StorageArea = 'localStorage'): void {
+  try {
+    window[area].removeItem(key);
+  } catch {
+    // Storage unavailable (privacy mode) — nothing to remove
+  }
+}
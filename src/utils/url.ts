@@ -3,19 +3,29 @@
  */
 
 /**
- * Checks if the current page hostname matches a pattern
+ * Checks if a hostname matches a pattern
  * Supports wildcard prefix (e.g., '*.adobeevents.com')
+ * @param hostname - Hostname to test
  * @param pattern - Hostname pattern to match against
- * @returns true if current hostname matches
+ * @returns true if hostname matches
  */
-export function isHostnameMatch(pattern: string): boolean {
-  const { hostname } = window.location;
+export function matchesHostnamePattern(hostname: string, pattern: string): boolean {
   if (pattern.startsWith('*.')) {
     return hostname.endsWith(pattern.slice(1));
   }
   return hostname === pattern;
 }
 
+/**
+ * Checks if the current page hostname matches a pattern
+ * Supports wildcard prefix (e.g., '*.adobeevents.com')
+ * @param pattern - Hostname pattern to match against
+ * @returns true if current hostname matches
+ */
+export function isHostnameMatch(pattern: string): boolean {
+  return matchesHostnamePattern(window.location.hostname, pattern);
+}
+
 /**
  * Configuration for URL path structure parsing
  */
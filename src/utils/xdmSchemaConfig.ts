@@ -0,0 +1,324 @@
+/**
+ * Shared configuration for runtime XDM schema validation
+ *
+ * A lightweight description of the _adobepartners field group, checked by
+ * the xdmSchemaValidator utility before events are sent (before-send
+ * callback, searchVariableSetter). Keep in sync with the field group in AEP
+ * and the "Matches XDM schema" types in src/types/index.ts.
+ */
+
+import { SEARCH_SURFACES } from './searchConfig.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * String formats checked by the validator
+ * - date: yyyy-MM-dd
+ * - date-time: ISO 8601 with time and offset (yyyy-MM-ddTHH:mm:ss+00:00)
+ */
+export type XdmStringFormat = 'date' | 'date-time';
+
+/**
+ * Schema of one XDM field
+ * - integer = number without a fractional part
+ * - object `open` accepts fields not listed in properties (pass-through API payloads)
+ */
+export type XdmSchemaNode = {
+  /** Reported as missing when absent */
+  required?: boolean;
+} & (
+  | { type: 'string'; format?: XdmStringFormat; enum?: readonly string[] }
+  | { type: 'number' | 'integer' | 'boolean' }
+  | { type: 'array'; items: XdmSchemaNode }
+  | { type: 'object'; properties: Readonly<Record<string, XdmSchemaNode>>; open?: boolean }
+);
+
+export type XdmArraySchema = Extract<XdmSchemaNode, { type: 'array' }>;
+
+export type XdmObjectSchema = Extract<XdmSchemaNode, { type: 'object' }>;
+
+// ============================================================================
+// FORMATS
+// ============================================================================
+
+/**
+ * Patterns for the supported string formats
+ * @constant
+ */
+export const XDM_STRING_FORMATS: Readonly<Record<XdmStringFormat, RegExp>> = {
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/,
+};
+
+// ============================================================================
+// SHARED NODES
+// ============================================================================
+
+/**
+ * Card / tile context (PartnerCardCtx)
+ * @constant
+ */
+const CARD_CTX_SCHEMA: XdmObjectSchema = {
+  type: 'object',
+  properties: {
+    cardTitle: { type: 'string' },
+    contentID: { type: 'string' },
+    contentType: { type: 'string' },
+    ctaText: { type: 'string' },
+    filterContext: { type: 'string' },
+    name: { type: 'string' },
+    position: { type: 'string' },
+    sectionID: { type: 'string' },
+  },
+};
+
+/**
+ * Cart item (CartItem)
+ * @constant
+ */
+const CART_ITEM_PROPERTIES: Readonly<Record<string, XdmSchemaNode>> = {
+  type: { type: 'string' },
+  quantity: { type: 'number' },
+  productID: { type: 'string' },
+  productName: { type: 'string', required: true },
+  SKU: { type: 'string' },
+  url: { type: 'string' },
+  price: { type: 'number' },
+};
+
+const CART_ITEMS_SCHEMA: XdmArraySchema = {
+  type: 'array',
+  items: { type: 'object', properties: CART_ITEM_PROPERTIES },
+};
+
+// ============================================================================
+// FIELD GROUP
+// ============================================================================
+
+/**
+ * Path of the validated field group under content.xdm
+ * @constant
+ */
+export const ADOBE_PARTNERS_XDM_PATH = ['_adobepartners'];
+
+/**
+ * _adobepartners field group
+ * @constant
+ */
+export const ADOBE_PARTNERS_SCHEMA: XdmObjectSchema = {
+  type: 'object',
+  properties: {
+    partnerData: { type: 'object', properties: {}, open: true },
+    IMS: {
+      type: 'object',
+      properties: {
+        imsID: { type: 'string', required: true },
+        imsName: { type: 'string' },
+      },
+    },
+    publisherData: {
+      type: 'object',
+      properties: {
+        publisherID: { type: 'string', required: true },
+        description: { type: 'string' },
+      },
+    },
+    cardCollection: CARD_CTX_SCHEMA,
+    cardImpressions: {
+      type: 'object',
+      properties: {
+        impressions: { type: 'array', items: CARD_CTX_SCHEMA, required: true },
+        impressionCount: { type: 'integer' },
+      },
+    },
+    pageContext: {
+      type: 'object',
+      properties: {
+        siteSection: { type: 'string', required: true },
+        siteSubsection: { type: 'string' },
+        language: { type: 'string' },
+        pageType: {
+          type: 'string',
+          required: true,
+          enum: ['search', 'publisher', 'event', 'checkout', 'home', 'other'],
+        },
+      },
+    },
+    linkClickLabel: { type: 'string' },
+    linkClassification: {
+      type: 'object',
+      properties: {
+        category: {
+          type: 'string',
+          required: true,
+          enum: ['outbound', 'download', 'crossSite', 'internal'],
+        },
+        fileExtension: { type: 'string' },
+        destinationHost: { type: 'string' },
+        destinationPath: { type: 'string' },
+        sourceSite: { type: 'string' },
+        destinationSite: { type: 'string' },
+      },
+    },
+    rageClick: { type: 'boolean' },
+    clickCount: { type: 'integer' },
+    consent: {
+      type: 'object',
+      properties: {
+        purposes: {
+          type: 'object',
+          properties: {
+            necessary: { type: 'boolean' },
+            analytics: { type: 'boolean' },
+            functional: { type: 'boolean' },
+            targeting: { type: 'boolean' },
+          },
+        },
+        sources: {
+          type: 'object',
+          properties: {
+            adobe: { type: 'string', enum: ['in', 'out', 'pending'] },
+            oneTrustGroups: { type: 'array', items: { type: 'string' } },
+            gpc: { type: 'boolean' },
+          },
+        },
+        skippedCategories: { type: 'array', items: { type: 'string' } },
+      },
+    },
+    Checkout: {
+      type: 'object',
+      properties: {
+        paymentType: { type: 'string' },
+        paymentMethodCode: { type: 'string' },
+        itemsInCart: CART_ITEMS_SCHEMA,
+      },
+    },
+    Order: {
+      type: 'object',
+      properties: {
+        orderID: { type: 'string', required: true },
+        subtotal: { type: 'number' },
+        tax: { type: 'number' },
+        shipping: { type: 'number' },
+        discount: { type: 'number' },
+        total: { type: 'number' },
+        currency: { type: 'string' },
+        itemsInCart: CART_ITEMS_SCHEMA,
+      },
+    },
+    cartChange: {
+      type: 'object',
+      properties: {
+        action: { type: 'string', required: true, enum: ['add', 'remove'] },
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { ...CART_ITEM_PROPERTIES, quantityDelta: { type: 'number' } },
+          },
+        },
+      },
+    },
+    searchClickThrough: {
+      type: 'object',
+      properties: {
+        searchTerm: { type: 'string', required: true },
+        searchSurface: { type: 'string' },
+        searchKey: { type: 'string' },
+        resultPosition: { type: 'integer', required: true },
+        resultContentID: { type: 'string' },
+        resultType: { type: 'string', enum: ['card', 'link'] },
+        resultUrl: { type: 'string' },
+        timeSinceSearchMs: { type: 'integer' },
+      },
+    },
+    formInteraction: {
+      type: 'object',
+      properties: {
+        formID: { type: 'string', required: true },
+        formAction: { type: 'string' },
+        outcome: { type: 'string', required: true, enum: ['submit', 'abandon'] },
+        abandonTrigger: { type: 'string', enum: ['pagehide', 'navigation'] },
+        durationMs: { type: 'integer' },
+        fieldOrder: { type: 'array', items: { type: 'string' } },
+        lastField: { type: 'string' },
+        fieldsTouched: { type: 'integer' },
+        fields: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              field: { type: 'string' },
+              fieldType: { type: 'string' },
+              order: { type: 'integer' },
+              timeSpentMs: { type: 'integer' },
+              errorCount: { type: 'integer' },
+            },
+          },
+        },
+        validationErrorCount: { type: 'integer' },
+        submitAttempts: { type: 'integer' },
+      },
+    },
+    searchResults: {
+      type: 'object',
+      properties: {
+        searchTerm: { type: 'string', required: true },
+        termRedacted: { type: 'boolean' },
+        searchSource: { type: 'string' },
+        searchSurface: { type: 'string' },
+        filters: { type: 'array', items: { type: 'string' } },
+        searchFilters: {
+          type: 'object',
+          properties: Object.fromEntries(
+            SEARCH_SURFACES.flatMap(({ filterMap }) => Object.values(filterMap)).map((field) => [
+              field,
+              { type: 'array', items: { type: 'string' } },
+            ])
+          ),
+        },
+        unmappedFilters: { type: 'array', items: { type: 'string' } },
+        searchResultsCount: { type: 'integer' },
+        nullSearch: { type: 'boolean' },
+        searchRefinement: {
+          type: 'object',
+          properties: {
+            refinementIndex: { type: 'integer', required: true },
+            refinementType: {
+              type: 'string',
+              enum: ['new', 'term', 'filters', 'termAndFilters', 'unchanged'],
+            },
+            termChanged: { type: 'boolean' },
+            previousTerm: { type: 'string' },
+            filtersAdded: { type: 'array', items: { type: 'string' } },
+            filtersRemoved: { type: 'array', items: { type: 'string' } },
+            timeSinceLastSearchMs: { type: 'integer' },
+          },
+        },
+        searchAutocomplete: {
+          type: 'object',
+          properties: {
+            searchMethod: {
+              type: 'string',
+              required: true,
+              enum: ['typed', 'suggestion', 'recent'],
+            },
+            typedPrefix: { type: 'string' },
+            suggestionsShown: { type: 'integer' },
+            selectedSuggestion: { type: 'string' },
+            selectedPosition: { type: 'integer' },
+          },
+        },
+      },
+    },
+    // API payload; only the transformed event dates are typed
+    eventData: {
+      type: 'object',
+      properties: { date: { type: 'array', items: { type: 'string', format: 'date' } } },
+      open: true,
+    },
+    attendeeData: { type: 'object', properties: {}, open: true },
+  },
+};
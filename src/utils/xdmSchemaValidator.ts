@@ -0,0 +1,267 @@
+/**
+ * XDM schema validator
+ *
+ * Checks an XDM object against a schema description (xdmSchemaConfig.ts)
+ * and reports type mismatches, unknown fields and missing required fields.
+ * With dropInvalid set, mismatched and unknown fields are removed in place so
+ * AEP does not reject the payload; missing fields can only be reported.
+ */
+
+import type { Logger } from './logger.js';
+import { getPartnerState, setPartnerState } from './globalState.js';
+import {
+  ADOBE_PARTNERS_SCHEMA,
+  ADOBE_PARTNERS_XDM_PATH,
+  XDM_STRING_FORMATS,
+  type XdmObjectSchema,
+  type XdmSchemaNode,
+} from './xdmSchemaConfig.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A single schema violation
+ */
+export interface XdmSchemaIssue {
+  /** Dot path relative to `xdm` */
+  path: string;
+  kind: 'typeMismatch' | 'unknownField' | 'missingRequired';
+  /** Expected type, format or enum (typeMismatch / missingRequired) */
+  expected?: string;
+  /** Actual type or value (typeMismatch) */
+  actual?: string;
+}
+
+/**
+ * Result of validating one object
+ */
+export interface XdmValidationResult {
+  valid: boolean;
+  issues: XdmSchemaIssue[];
+  /** Fields removed (dropInvalid only) */
+  droppedCount: number;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * JSON-style type name of a value (null, array, integer vs number)
+ */
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Checks a scalar value against a non-container schema node
+ * @returns Expected description when the value does not match, otherwise null
+ */
+function checkScalar(value: unknown, node: XdmSchemaNode): string | null {
+  switch (node.type) {
+    case 'string':
+      if (typeof value !== 'string') return 'string';
+      if (node.format && !XDM_STRING_FORMATS[node.format].test(value)) {
+        return `string (${node.format})`;
+      }
+      if (node.enum && !node.enum.includes(value)) {
+        return `one of ${node.enum.join(', ')}`;
+      }
+      return null;
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : 'number';
+    case 'integer':
+      return Number.isInteger(value) ? null : 'integer';
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'boolean';
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validates a value against a schema node
+ * @param value - Value to check
+ * @param node - Schema node
+ * @param path - Dot path of the value (for the report)
+ * @param issues - Issue list to append to
+ * @param dropInvalid - Remove invalid fields and array items in place
+ * @returns Number of fields dropped below this value, or -1 if the value itself is invalid
+ */
+function validateNode(
+  value: unknown,
+  node: XdmSchemaNode,
+  path: string,
+  issues: XdmSchemaIssue[],
+  dropInvalid: boolean
+): number {
+  if (node.type === 'object') {
+    if (describeType(value) !== 'object') {
+      issues.push({ path, kind: 'typeMismatch', expected: 'object', actual: describeType(value) });
+      return -1;
+    }
+
+    const fields = value as Record<string, unknown>;
+    const prefix = path ? `${path}.` : '';
+    let dropped = 0;
+
+    Object.keys(fields).forEach((key) => {
+      const child = node.properties[key];
+      const fieldPath = `${prefix}${key}`;
+
+      // undefined values are not serialized, so they never reach AEP
+      if (fields[key] === undefined) return;
+
+      if (!child) {
+        if (node.open) return;
+        issues.push({ path: fieldPath, kind: 'unknownField' });
+        if (dropInvalid) {
+          delete fields[key];
+          dropped += 1;
+        }
+        return;
+      }
+
+      const result = validateNode(fields[key], child, fieldPath, issues, dropInvalid);
+      if (result >= 0) {
+        dropped += result;
+      } else if (dropInvalid) {
+        delete fields[key];
+        dropped += 1;
+      }
+    });
+
+    Object.keys(node.properties).forEach((key) => {
+      const child = node.properties[key];
+      if (child.required && fields[key] === undefined) {
+        issues.push({ path: `${prefix}${key}`, kind: 'missingRequired', expected: child.type });
+      }
+    });
+
+    return dropped;
+  }
+
+  if (node.type === 'array') {
+    if (!Array.isArray(value)) {
+      issues.push({ path, kind: 'typeMismatch', expected: 'array', actual: describeType(value) });
+      return -1;
+    }
+
+    let dropped = 0;
+    const invalidIndexes: number[] = [];
+    value.forEach((item, index) => {
+      const result = validateNode(item, node.items, `${path}.${index}`, issues, dropInvalid);
+      if (result < 0) invalidIndexes.push(index);
+      else dropped += result;
+    });
+
+    // Splice from the end so earlier indices stay valid
+    if (dropInvalid) {
+      invalidIndexes.reverse().forEach((index) => value.splice(index, 1));
+      dropped += invalidIndexes.length;
+    }
+    return dropped;
+  }
+
+  const expected = checkScalar(value, node);
+  if (expected) {
+    const actual = typeof value === 'string' ? JSON.stringify(value) : describeType(value);
+    issues.push({ path, kind: 'typeMismatch', expected, actual });
+    return -1;
+  }
+  return 0;
+}
+
+/**
+ * Validates an object against an object schema
+ * @param target - Object to check (mutated when dropInvalid is set)
+ * @param schema - Object schema
+ * @param options.path - Dot path of the object relative to `xdm` (for the report)
+ * @param options.dropInvalid - Remove mismatched and unknown fields in place
+ * @returns Issues and the number of fields dropped
+ *
+ * @example
+ * validateXdmObject({ rageClick: 'yes' }, ADOBE_PARTNERS_SCHEMA, { path: '_adobepartners' })
+ * // Returns { valid: false, droppedCount: 0, issues: [
+ * //   { path: '_adobepartners.rageClick', kind: 'typeMismatch', expected: 'boolean', actual: '"yes"' }] }
+ */
+export function validateXdmObject(
+  target: Record<string, unknown>,
+  schema: XdmObjectSchema,
+  options: { path?: string; dropInvalid?: boolean } = {}
+): XdmValidationResult {
+  const issues: XdmSchemaIssue[] = [];
+  const result = validateNode(
+    target,
+    schema,
+    options.path ?? '',
+    issues,
+    options.dropInvalid ?? false
+  );
+  return { valid: issues.length === 0, issues, droppedCount: Math.max(result, 0) };
+}
+
+/**
+ * Validates the _adobepartners field group of an XDM object
+ * @param xdm - XDM object (content.xdm or the XDM Variable)
+ * @param dropInvalid - Remove mismatched and unknown fields in place
+ * @returns Validation result, or null if the field group is absent
+ */
+export function validateAdobePartners(
+  xdm: Record<string, unknown>,
+  dropInvalid: boolean
+): XdmValidationResult | null {
+  const fieldGroup = ADOBE_PARTNERS_XDM_PATH.reduce<unknown>(
+    (node, key) =>
+      node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined,
+    xdm
+  );
+  if (!fieldGroup || typeof fieldGroup !== 'object') return null;
+
+  return validateXdmObject(fieldGroup as Record<string, unknown>, ADOBE_PARTNERS_SCHEMA, {
+    path: ADOBE_PARTNERS_XDM_PATH.join('.'),
+    dropInvalid,
+  });
+}
+
+/**
+ * Validates the _adobepartners field group before it is sent.
+ * Test mode reports every issue and leaves the payload as is; production
+ * drops mismatched and unknown fields and adds them to the
+ * xdmSchemaDroppedCount counter in window._adobePartners.
+ * @param xdm - XDM object (content.xdm or the XDM Variable)
+ * @param logger - Logger instance
+ * @param testMode - Report instead of dropping
+ * @returns Validation result, or null if the field group is absent
+ */
+export function enforceAdobePartnersSchema(
+  xdm: Record<string, unknown>,
+  logger: Logger,
+  testMode: boolean
+): XdmValidationResult | null {
+  const result = validateAdobePartners(xdm, !testMode);
+  if (!result) return null;
+
+  if (testMode) {
+    logger.testInfo(
+      result.valid ? 'XDM schema validation passed' : 'XDM schema issues',
+      result.issues
+    );
+  } else if (result.droppedCount) {
+    setPartnerState(
+      'xdmSchemaDroppedCount',
+      (getPartnerState('xdmSchemaDroppedCount') ?? 0) + result.droppedCount
+    );
+    logger.log(`Dropped ${result.droppedCount} invalid XDM fields`, result.issues);
+  }
+
+  return result;
+}